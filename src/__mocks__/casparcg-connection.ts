@@ -12,6 +12,11 @@ let mockDo = jest.fn()
 
 let instances: Array<CasparCG> = []
 
+/** The media (with their duration in frames and frame time) and templates on the mocked server */
+let mockMedia: {[name: string]: {frames: number, frameTime: string}} = {}
+let mockTemplates: string[] = []
+let mockVersion = '2.0.7.e9fc25a Stable'
+
 export const AMCP = orgAMCP
 export const AMCPUtil = orgAMCPUtil
 export const Command = orgCommand
@@ -19,18 +24,46 @@ export const CasparCGSocketStatusEvent = orgCasparCGSocketStatusEvent
 
 export class CasparCG extends EventEmitter {
 	onConnected: () => void
+	onDisconnected: () => void
+
+	private _options: any
+	private _connected: boolean = false
 
-	constructor () {
+	constructor (options?: any) {
 		super()
+		this._options = options || {}
 
 		setTimeout(() => {
 			// simulate that we're connected
-			if (this.onConnected) this.onConnected()
-			this.emit(CasparCGSocketStatusEvent.CONNECTED, true)
+			this.mockSetConnected(true)
 		},10)
 
 		instances.push(this)
 	}
+	get host () {
+		return this._options.host
+	}
+	get port () {
+		return this._options.port || 5250
+	}
+	get connected () {
+		return this._connected
+	}
+	disconnect () {
+		this._connected = false
+		Promise.resolve().then(() => {
+			if (this.onDisconnected) this.onDisconnected()
+		}).catch(console.error)
+	}
+	/** Simulates that the connection is made or lost, virginServer means that the server has just been restarted */
+	mockSetConnected (connected: boolean, virginServer?: boolean) {
+		this._connected = connected
+		if (this._options.onConnectionChanged) this._options.onConnectionChanged(connected)
+		if (connected) {
+			if (this.onConnected) this.onConnected()
+			this.emit(CasparCGSocketStatusEvent.CONNECTED, virginServer ? { virginServer: true } : true)
+		}
+	}
 
 	do (cmd) {
 		mockDo.apply(this,arguments)
@@ -65,6 +98,39 @@ export class CasparCG extends EventEmitter {
 			resolve(cmd)
 		})
 	}
+	version () {
+		return new Promise((resolve) => {
+			let cmd = new AMCP.VersionCommand({ component: 'SERVER' })
+			cmd.response = new Command.AMCPResponse()
+			cmd.response.code = 201
+			cmd.response.data = mockVersion
+			resolve(cmd)
+		})
+	}
+	cinf (fileName: string) {
+		return new Promise((resolve, reject) => {
+			let cmd = new AMCP.CinfCommand({ fileName })
+			cmd.response = new Command.AMCPResponse()
+			const media = mockMedia[fileName.toUpperCase()]
+			if (media) {
+				cmd.response.code = 200
+				cmd.response.data = { size: 1000, changed: '20200101T000000', duration: media.frames, fps: media.frameTime }
+				resolve(cmd)
+			} else {
+				cmd.response.code = 404
+				reject(cmd)
+			}
+		})
+	}
+	tls () {
+		return new Promise((resolve) => {
+			let cmd = new AMCP.TlsCommand()
+			cmd.response = new Command.AMCPResponse()
+			cmd.response.code = 200
+			cmd.response.data = mockTemplates.map(name => ({ name, type: 'template' }))
+			resolve(cmd)
+		})
+	}
 	clear (channel) {
 		return this.do(new AMCP.ClearCommand({ channel }))
 	}
@@ -86,4 +152,11 @@ export class CasparCG extends EventEmitter {
 	static get instances () {
 		return instances
 	}
+	static mockVersion (version: string) {
+		mockVersion = version
+	}
+	static mockContent (media: typeof mockMedia, templates: string[]) {
+		mockMedia = media
+		mockTemplates = templates
+	}
 }
@@ -0,0 +1,56 @@
+import { EventEmitter } from 'events'
+const sockets: Array<Socket> = []
+const onNextSocket: Array<Function> = []
+
+export class Socket extends EventEmitter {
+
+	public onSend: (msg: Buffer, port: number, address: string) => void
+	public onClose: () => void
+
+	private _port: number = 0
+
+	constructor () {
+		super()
+
+		let cb = onNextSocket.shift()
+		if (cb) {
+			cb(this)
+		}
+
+		sockets.push(this)
+	}
+
+	public static mockSockets () {
+		return sockets
+	}
+	public static mockOnNextSocket (cb: (s: Socket) => void) {
+		onNextSocket.push(cb)
+	}
+
+	public bind (port?: number, cb?: () => void) {
+		this._port = port || 50000 + sockets.indexOf(this)
+		if (cb) cb()
+		this.emit('listening')
+	}
+	public setBroadcast (_flag: boolean) {
+		// nothing
+	}
+	public address () {
+		return { address: '0.0.0.0', family: 'IPv4', port: this._port }
+	}
+	public send (msg: Buffer, port: number, address: string, cb?: (err: Error | null) => void) {
+		if (this.onSend) this.onSend(msg, port, address)
+		if (cb) cb(null)
+	}
+	public close () {
+		this.emit('close')
+		if (this.onClose) this.onClose()
+	}
+
+	public mockMessage (msg: Buffer, port: number, address: string) {
+		this.emit('message', msg, { address: address, family: 'IPv4', port: port, size: msg.length })
+	}
+}
+export function createSocket (_type: string) {
+	return new Socket()
+}
@@ -32,6 +32,12 @@ export class Node {
 
 export class DeviceTree extends EventEmitter {
 	connect () {
+		this.emit('connected')
+		return new Promise((resolve) => resolve())
+	}
+
+	disconnect () {
+		this.emit('disconnected')
 		return new Promise((resolve) => resolve())
 	}
 
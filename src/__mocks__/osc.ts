@@ -1,11 +1,18 @@
 import { EventEmitter } from 'events'
 
+const mockInstances: Array<UDPPort> = []
 export const MockOSC = {
-	connectionIsGood: true
+	connectionIsGood: true,
+	getMockInstances: () => mockInstances
 }
 const orgSetTimeout = setTimeout
 export class UDPPort extends EventEmitter {
 
+	constructor () {
+		super()
+		mockInstances.push(this)
+	}
+
 	open () {
 		this.emit('ready')
 	}
@@ -0,0 +1,253 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+	Mappings,
+	DeviceType,
+	MappingAbstract,
+	MappingHyperdeck,
+	MappingHyperdeckType,
+	TimelineContentTypeHyperdeck,
+	TransportStatus
+} from '../types/src'
+import { RecordCommand } from 'hyperdeck-connection/dist/commands'
+import { literal } from '../devices/device'
+import { Conductor } from '../conductor'
+import { FileCommandLog, readCommandLog, CommandLog, CommandLogEntry } from '../commandLog'
+import { MockTime } from './mockTime'
+
+describe('CommandLog', () => {
+	let mockTime = new MockTime()
+	beforeAll(() => {
+		mockTime.mockDateNow()
+	})
+	beforeEach(() => {
+		mockTime.init()
+	})
+	test('FileCommandLog', async () => {
+		const folderPath = fs.mkdtempSync(path.join(os.tmpdir(), 'tsr-commandlog-'))
+		const filePath = path.join(folderPath, 'commands.log')
+		try {
+			const log = new FileCommandLog(filePath)
+			const entry: CommandLogEntry = {
+				deviceId: 'device0',
+				plannedSend: 1000,
+				send: 1001,
+				fullfilled: 1005,
+				timelineObjId: 'obj0',
+				context: 'added: obj0',
+				command: { a: 1 }
+			}
+			log.append(entry).catch(console.error)
+			await log.append({ ...entry, plannedSend: 2000, error: 'Error: Failed' })
+
+			expect(await readCommandLog(filePath)).toEqual([
+				entry,
+				{ ...entry, plannedSend: 2000, error: 'Error: Failed' }
+			])
+
+			// A new log should append to the existing file:
+			await new FileCommandLog(filePath).append({ ...entry, plannedSend: 3000 })
+			expect(await readCommandLog(filePath)).toHaveLength(3)
+
+			// An incomplete last line is ignored:
+			fs.appendFileSync(filePath, '{"deviceId":"dev')
+			expect(await readCommandLog(filePath)).toHaveLength(3)
+		} finally {
+			for (const fileName of fs.readdirSync(folderPath)) {
+				fs.unlinkSync(path.join(folderPath, fileName))
+			}
+			fs.rmdirSync(folderPath)
+		}
+	})
+	test('Log and replay commands', async () => {
+		const entries: CommandLogEntry[] = []
+		const commandLog: CommandLog = {
+			append: jest.fn(async (entry: CommandLogEntry) => {
+				entries.push(entry)
+			})
+		}
+		const commandReceiver0: any = jest.fn(() => {
+			return Promise.resolve()
+		})
+		let myLayerMapping0: MappingAbstract = {
+			device: DeviceType.ABSTRACT,
+			deviceId: 'myAbstract'
+		}
+		let myLayerMapping: Mappings = {
+			'myLayer0': myLayerMapping0
+		}
+
+		let myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime,
+			commandLog: commandLog
+		})
+		await myConductor.init()
+		await myConductor.addDevice('myAbstract', {
+			type: DeviceType.ABSTRACT,
+			options: {
+				commandReceiver: commandReceiver0
+			}
+		})
+		await myConductor.setMapping(myLayerMapping)
+		await mockTime.advanceTimeToTicks(10100)
+
+		myConductor.timeline = [
+			{
+				id: 'obj0',
+				enable: {
+					start: mockTime.now + 1000,
+					duration: 2000
+				},
+				layer: 'myLayer0',
+				content: {
+					deviceType: DeviceType.ABSTRACT,
+					myAttr: 1
+				}
+			}
+		]
+		await mockTime.advanceTimeToTicks(14000)
+
+		expect(commandReceiver0).toHaveBeenCalledTimes(2)
+		expect(entries).toHaveLength(2)
+		expect(entries[0]).toMatchObject({
+			deviceId: 'myAbstract',
+			plannedSend: 11100,
+			send: 11100,
+			timelineObjId: 'obj0',
+			context: 'added: obj0',
+			command: {
+				commandName: 'addedAbstract',
+				content: { myAttr: 1 }
+			}
+		})
+		expect(entries[1]).toMatchObject({
+			plannedSend: 13100,
+			context: 'removed: obj0',
+			command: {
+				commandName: 'removedAbstract'
+			}
+		})
+
+		// Replay the log to another device:
+		const commandReceiver1: any = jest.fn(() => {
+			return Promise.resolve()
+		})
+		await myConductor.addDevice('myReplayDevice', {
+			type: DeviceType.ABSTRACT,
+			options: {
+				commandReceiver: commandReceiver1
+			}
+		})
+		await expect(myConductor.replayCommandLog(entries, { deviceIdMap: { myAbstract: 'nonExisting' } })).rejects.toThrow(/not found/)
+
+		await myConductor.replayCommandLog(entries, { deviceIdMap: { myAbstract: 'myReplayDevice' } })
+
+		expect(commandReceiver1).toHaveBeenCalledTimes(2)
+		expect(commandReceiver1).toHaveBeenNthCalledWith(1, expect.anything(), entries[0].command, 'added: obj0', 'obj0')
+		expect(commandReceiver1).toHaveBeenNthCalledWith(2, expect.anything(), entries[1].command, 'removed: obj0', 'obj0')
+		// Replayed commands are not logged again:
+		expect(entries).toHaveLength(2)
+
+		await myConductor.destroy()
+	})
+	test('Log and replay Hyperdeck commands', async () => {
+		const entries: CommandLogEntry[] = []
+		const commandLog: CommandLog = {
+			append: jest.fn(async (entry: CommandLogEntry) => {
+				entries.push(entry)
+			})
+		}
+		const myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime,
+			commandLog: commandLog
+		})
+		const onError = jest.fn()
+		myConductor.on('error', onError)
+		await myConductor.setMapping({
+			'hyperdeck0_transport': literal<MappingHyperdeck>({
+				device: DeviceType.HYPERDECK,
+				deviceId: 'hyperdeck0',
+				mappingType: MappingHyperdeckType.TRANSPORT
+			})
+		})
+		await myConductor.init()
+
+		const commandReceiver0: any = jest.fn(() => {
+			return Promise.resolve()
+		})
+		await myConductor.addDevice('hyperdeck0', {
+			type: DeviceType.HYPERDECK,
+			options: {
+				host: '127.0.0.1',
+				port: 9993,
+				commandReceiver: commandReceiver0
+			}
+		})
+		await mockTime.advanceTimeToTicks(10100)
+
+		myConductor.timeline = [
+			{
+				id: 'obj0',
+				enable: {
+					start: mockTime.now + 1000,
+					duration: 2000
+				},
+				layer: 'hyperdeck0_transport',
+				content: {
+					deviceType: DeviceType.HYPERDECK,
+					type: TimelineContentTypeHyperdeck.TRANSPORT,
+
+					status: TransportStatus.RECORD,
+					recordFilename: 'sofie_dev'
+				}
+			}
+		]
+		await mockTime.advanceTimeToTicks(11500)
+
+		expect(commandReceiver0).toHaveBeenCalledTimes(1)
+		expect(entries).toHaveLength(1)
+		expect(entries[0]).toMatchObject({
+			deviceId: 'hyperdeck0',
+			command: {
+				className: 'RecordCommand',
+				fields: { filename: 'sofie_dev' }
+			}
+		})
+
+		// Replay the log (as read from a file) to another device:
+		const commandReceiver1: any = jest.fn(() => {
+			return Promise.resolve()
+		})
+		await myConductor.addDevice('hyperdeck1', {
+			type: DeviceType.HYPERDECK,
+			options: {
+				host: '127.0.0.1',
+				port: 9993,
+				commandReceiver: commandReceiver1
+			}
+		})
+		const loggedEntries: CommandLogEntry[] = JSON.parse(JSON.stringify(entries))
+		await myConductor.replayCommandLog(loggedEntries, { deviceIdMap: { hyperdeck0: 'hyperdeck1' } })
+
+		expect(commandReceiver1).toHaveBeenCalledTimes(1)
+		const replayedCommand = commandReceiver1.mock.calls[0][1]
+		expect(replayedCommand).toBeInstanceOf(RecordCommand)
+		expect(replayedCommand).toEqual(commandReceiver0.mock.calls[0][1])
+		expect(onError).toHaveBeenCalledTimes(0)
+
+		// Commands that can't be deserialized are not replayed:
+		await myConductor.replayCommandLog([{
+			...loggedEntries[0],
+			command: { className: 'NonExistingCommand', fields: {} }
+		}], { deviceIdMap: { hyperdeck0: 'hyperdeck1' } })
+
+		expect(commandReceiver1).toHaveBeenCalledTimes(1)
+		expect(onError).toHaveBeenCalledTimes(1)
+		expect(onError.mock.calls[0][1] + '').toMatch(/Unknown Hyperdeck command "NonExistingCommand"/)
+
+		await myConductor.destroy()
+	})
+})
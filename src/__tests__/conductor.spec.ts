@@ -3,7 +3,8 @@ import {
 	MappingAbstract,
 	DeviceType,
 	TSRTimelineObj,
-	TSRTimeline
+	TSRTimeline,
+	MappingTCPSend
 } from '../types/src'
 import { Conductor, TimelineTriggerTimeResult } from '../conductor'
 import * as _ from 'underscore'
@@ -11,6 +12,10 @@ import { MockTime } from './mockTime'
 import { ThreadedClass } from 'threadedclass'
 import { AbstractDevice } from '../devices/abstract'
 import { getMockCall } from './lib'
+import { literal } from '../devices/device'
+import { Socket as MockSocket } from 'net'
+
+jest.mock('net')
 
 describe('Conductor', () => {
 	let mockTime = new MockTime()
@@ -402,4 +407,390 @@ describe('Conductor', () => {
 			channel: 3
 		})
 	})
+
+	test('Simulation mode', async () => {
+		let myLayerMapping: Mappings = {
+			'myLayer0': literal<MappingAbstract>({
+				device: DeviceType.ABSTRACT,
+				deviceId: 'device0'
+			}),
+			'myLayer1': literal<MappingAbstract>({
+				device: DeviceType.ABSTRACT,
+				deviceId: 'device1'
+			})
+		}
+
+		let conductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime,
+			simulation: true
+		})
+
+		await conductor.setMapping(myLayerMapping)
+		await conductor.init()
+		await conductor.addDevice('device0', {
+			type: DeviceType.ABSTRACT,
+			options: {}
+		})
+		await conductor.addDevice('device1', {
+			type: DeviceType.ABSTRACT,
+			options: {}
+		})
+
+		conductor.timeline = [
+			{
+				id: 'a0',
+				enable: {
+					start: mockTime.now,
+					duration: 1000
+				},
+				layer: 'myLayer0',
+				content: {
+					deviceType: DeviceType.ABSTRACT
+				}
+			},
+			{
+				id: 'a1',
+				enable: {
+					start: mockTime.now + 500,
+					duration: 1000
+				},
+				layer: 'myLayer1',
+				content: {
+					deviceType: DeviceType.ABSTRACT
+				}
+			}
+		]
+
+		await mockTime.advanceTimeToTicks(13000)
+
+		const commands = conductor.getSimulatedCommands()
+		expect(commands).toHaveLength(4)
+		expect(commands[0]).toMatchObject({
+			time: 10000,
+			deviceId: 'device0',
+			command: {
+				timelineObjId: 'a0',
+				context: 'added: a0',
+				command: { commandName: 'addedAbstract' }
+			}
+		})
+		expect(commands[1]).toMatchObject({
+			time: 10500,
+			deviceId: 'device1',
+			command: { timelineObjId: 'a1', context: 'added: a1' }
+		})
+		expect(commands[2]).toMatchObject({
+			time: 11000,
+			deviceId: 'device0',
+			command: { timelineObjId: 'a0', context: 'removed: a0' }
+		})
+		expect(commands[3]).toMatchObject({
+			time: 11500,
+			deviceId: 'device1',
+			command: { timelineObjId: 'a1', context: 'removed: a1' }
+		})
+
+		conductor.clearSimulatedCommands()
+		expect(conductor.getSimulatedCommands()).toHaveLength(0)
+
+		await conductor.destroy()
+	})
+	test('Simulation mode does not connect to the devices', async () => {
+		let myLayerMapping: Mappings = {
+			'myLayer0': literal<MappingTCPSend>({
+				device: DeviceType.TCPSEND,
+				deviceId: 'myTCP'
+			})
+		}
+
+		let conductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime,
+			simulation: true
+		})
+		const errorHandler = jest.fn((...args) => console.log('Error in conductor', ...args))
+		conductor.on('error', errorHandler)
+
+		await conductor.setMapping(myLayerMapping)
+		await conductor.init()
+		// @ts-ignore MockSocket
+		const socketCount = MockSocket.mockSockets().length
+		await conductor.addDevice('myTCP', {
+			type: DeviceType.TCPSEND,
+			options: {
+				host: '192.168.0.1',
+				port: 1234
+			}
+		})
+		// @ts-ignore MockSocket
+		expect(MockSocket.mockSockets()).toHaveLength(socketCount)
+
+		conductor.timeline = [
+			{
+				id: 'obj0',
+				enable: {
+					start: mockTime.now + 1000,
+					duration: 1000
+				},
+				layer: 'myLayer0',
+				content: {
+					deviceType: DeviceType.TCPSEND,
+					message: 'hello world'
+				}
+			}
+		]
+		await mockTime.advanceTimeToTicks(11500)
+
+		const commands = conductor.getSimulatedCommands()
+		expect(commands).toHaveLength(1)
+		expect(commands[0]).toMatchObject({
+			time: 11000,
+			deviceId: 'myTCP',
+			command: {
+				timelineObjId: 'obj0',
+				command: { message: 'hello world' }
+			}
+		})
+		// @ts-ignore MockSocket
+		expect(MockSocket.mockSockets()).toHaveLength(socketCount)
+
+		expect(errorHandler).toHaveBeenCalledTimes(0)
+		await conductor.destroy()
+	})
+	test('getStateAt', async () => {
+		let myLayerMapping: Mappings = {
+			'myLayer0': literal<MappingAbstract>({
+				device: DeviceType.ABSTRACT,
+				deviceId: 'device0'
+			}),
+			'myLayer1': literal<MappingAbstract>({
+				device: DeviceType.ABSTRACT,
+				deviceId: 'device1'
+			})
+		}
+
+		let conductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime,
+			simulation: true
+		})
+
+		await conductor.setMapping(myLayerMapping)
+		await conductor.init()
+		await conductor.addDevice('device0', {
+			type: DeviceType.ABSTRACT,
+			options: {}
+		})
+		await conductor.addDevice('device1', {
+			type: DeviceType.ABSTRACT,
+			options: {}
+		})
+
+		conductor.timeline = [
+			{
+				id: 'a0',
+				enable: {
+					start: mockTime.now + 1000,
+					duration: 1000
+				},
+				layer: 'myLayer0',
+				content: {
+					deviceType: DeviceType.ABSTRACT
+				}
+			},
+			{
+				id: 'a1',
+				enable: {
+					start: mockTime.now + 1500,
+					duration: 1000
+				},
+				layer: 'myLayer1',
+				content: {
+					deviceType: DeviceType.ABSTRACT
+				}
+			}
+		]
+
+		const states0 = await conductor.getStateAt(mockTime.now + 1200)
+		expect(_.keys(states0).sort()).toEqual(['device0', 'device1'])
+		expect(states0.device0.deviceType).toEqual(DeviceType.ABSTRACT)
+		expect(_.keys(states0.device0.timelineState.layers)).toEqual(['myLayer0'])
+		expect(states0.device0.timelineState.layers.myLayer0.id).toEqual('a0')
+		expect(states0.device0.deviceState).toMatchObject({
+			layers: {
+				myLayer0: { id: 'a0' }
+			}
+		})
+		expect(_.keys(states0.device1.timelineState.layers)).toHaveLength(0)
+
+		const states1 = await conductor.getStateAt(mockTime.now + 2200)
+		expect(_.keys(states1.device0.timelineState.layers)).toHaveLength(0)
+		expect(states1.device1.timelineState.layers.myLayer1.id).toEqual('a1')
+
+		// Nothing should have been sent to the devices:
+		expect(conductor.getSimulatedCommands()).toHaveLength(0)
+
+		// The timeline should not have been modified:
+		expect(conductor.timeline[0].enable.start).toEqual(mockTime.now + 1000)
+
+		await conductor.destroy()
+	})
+	test('Incremental timeline updates', async () => {
+		const commandReceiver1: any = jest.fn(() => {
+			return Promise.resolve()
+		})
+		let myLayerMapping: Mappings = {}
+		_.each(['device0', 'device1', 'device2'], (deviceId, i) => {
+			myLayerMapping['myLayer' + i] = literal<MappingAbstract>({
+				device: DeviceType.ABSTRACT,
+				deviceId: deviceId
+			})
+		})
+
+		let conductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime
+		})
+
+		await conductor.setMapping(myLayerMapping)
+		await conductor.init()
+		const handleStates: {[deviceId: string]: jest.Mock} = {}
+		for (const deviceId of ['device0', 'device1', 'device2']) {
+			await conductor.addDevice(deviceId, {
+				type: DeviceType.ABSTRACT,
+				options: {
+					commandReceiver: deviceId === 'device1' ? commandReceiver1 : jest.fn(() => Promise.resolve())
+				}
+			})
+			const device = conductor.getDevice(deviceId).device
+			handleStates[deviceId] = jest.fn(device.handleStateDelta)
+			device.handleStateDelta = handleStates[deviceId]
+		}
+		const getUpdatedDevices = () => {
+			const deviceIds = _.filter(_.keys(handleStates), deviceId => handleStates[deviceId].mock.calls.length > 0)
+			_.each(handleStates, handleState => handleState.mockClear())
+			return deviceIds
+		}
+
+		const a0: TSRTimelineObj = {
+			id: 'a0',
+			enable: {
+				start: mockTime.now,
+				duration: 10000
+			},
+			layer: 'myLayer0',
+			content: {
+				deviceType: DeviceType.ABSTRACT
+			}
+		}
+		const a1: TSRTimelineObj = {
+			id: 'a1',
+			enable: {
+				start: mockTime.now,
+				duration: 10000
+			},
+			layer: 'myLayer1',
+			content: {
+				deviceType: DeviceType.ABSTRACT,
+				myAttr: 1
+			}
+		}
+		const a2: TSRTimelineObj = {
+			id: 'a2',
+			enable: {
+				start: '#a0.end',
+				duration: 1000
+			},
+			layer: 'myLayer2',
+			content: {
+				deviceType: DeviceType.ABSTRACT
+			}
+		}
+		conductor.timeline = [a0, a1]
+		await mockTime.advanceTimeTicks(100)
+		expect(getUpdatedDevices()).toEqual(['device0', 'device1', 'device2'])
+
+		conductor.updateTimelineObject({
+			...a1,
+			content: {
+				deviceType: DeviceType.ABSTRACT,
+				myAttr: 2
+			}
+		})
+		await mockTime.advanceTimeTicks(50)
+		expect(getMockCall(handleStates.device1, 0, 0)).toMatchObject({
+			full: false,
+			removedLayers: [],
+			layers: {
+				myLayer1: {
+					content: {
+						deviceType: DeviceType.ABSTRACT,
+						myAttr: 2
+					}
+				}
+			}
+		})
+		expect(getUpdatedDevices()).toEqual(['device1'])
+		expect(commandReceiver1).toHaveBeenCalledTimes(1)
+
+		// An update that doesn't change the state is not sent to the device:
+		conductor.updateTimelineObject({
+			...a1,
+			content: {
+				deviceType: DeviceType.ABSTRACT,
+				myAttr: 2
+			}
+		})
+		await mockTime.advanceTimeTicks(50)
+		expect(getUpdatedDevices()).toEqual([])
+
+		// a2 starts in the future, so the current state of device2 is unaffected:
+		conductor.addTimelineObjects([a2])
+		await mockTime.advanceTimeTicks(50)
+		expect(getUpdatedDevices()).toEqual([])
+
+		conductor.updateTimelineObject({
+			...a0,
+			enable: {
+				start: a0.enable.start,
+				duration: 5000
+			}
+		})
+		await mockTime.advanceTimeTicks(50)
+		expect(getUpdatedDevices()).toEqual(['device0'])
+
+		conductor.removeTimelineObjects(['a1'])
+		await mockTime.advanceTimeTicks(50)
+		expect(getMockCall(handleStates.device1, 0, 0)).toMatchObject({
+			full: false,
+			removedLayers: ['myLayer1'],
+			layers: {}
+		})
+		expect(getUpdatedDevices()).toEqual(['device1'])
+		expect(commandReceiver1).toHaveBeenCalledTimes(2)
+		expect(getMockCall(commandReceiver1, 1, 1)).toMatchObject({
+			commandName: 'removedAbstract'
+		})
+		expect(_.pluck(conductor.timeline, 'id')).toEqual(['a0', 'a2'])
+
+		expect(() => conductor.addTimelineObjects([a0])).toThrow(/already exists/)
+		expect(() => conductor.updateTimelineObject(a1)).toThrow(/not found/)
+
+		// Setting the whole timeline updates the devices whose state has changed:
+		conductor.timeline = [a0, a1, a2]
+		await mockTime.advanceTimeTicks(50)
+		expect(getUpdatedDevices()).toEqual(['device0', 'device1'])
+
+		// Resetting the resolver sends the full state to all devices:
+		conductor.resetResolver()
+		await mockTime.advanceTimeTicks(50)
+		expect(getMockCall(handleStates.device2, 0, 0)).toMatchObject({
+			full: true,
+			layers: {}
+		})
+		expect(getUpdatedDevices()).toEqual(['device0', 'device1', 'device2'])
+
+		await conductor.destroy()
+	})
 })
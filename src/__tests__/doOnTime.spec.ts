@@ -1,3 +1,4 @@
+import * as _ from 'underscore'
 import { MockTime } from './mockTime'
 import { DoOnTime, SendMode } from '../doOnTime'
 
@@ -168,9 +169,243 @@ describe('DoOnTime', () => {
 		expect(f).toHaveBeenNthCalledWith(5, 'b', 12105)
 		expect(f).toHaveBeenNthCalledWith(6, 'b', 12105)
 
+		d.dispose()
+	})
+	test('Retry failed commands', async () => {
+
+		const d = new DoOnTime(
+			() => {
+				return mockTime.now
+			},
+			SendMode.IN_ORDER,
+			{
+				retryPolicy: {
+					maxAttempts: 4,
+					retryDelay: 100,
+					backoffFactor: 2
+				},
+				queueRetryPolicies: {
+					queue_b: {
+						maxAttempts: 2
+					}
+				}
+			}
+		)
+		const onError = jest.fn()
+		const onCommandError = jest.fn()
+		const onCommandReport = jest.fn()
+		d.on('error', onError)
+		d.on('commandError', onCommandError)
+		d.on('commandReport', onCommandReport)
+
+		const f = jest.fn()
+		let failuresLeft = 2
+
+		d.queue(10100, 'queue_a', async (arg: string) => {
+			f(arg, Date.now())
+			if (failuresLeft-- > 0) throw new Error('Failed')
+		}, 'a')
+		d.queue(10100, 'queue_b', async (arg: string) => {
+			f(arg, Date.now())
+			throw new Error('Failed again')
+		}, 'b')
+
+		await mockTime.advanceTimeToTicks(11000)
+
+		expect(onError).toHaveBeenCalledTimes(0)
+
+		// a: first attempt, then retries after 100 and 200 ms:
+		expect(_.filter(f.mock.calls, (call) => call[0] === 'a')).toEqual([
+			['a', 10100],
+			['a', 10205],
+			['a', 10405]
+		])
+		expect(onCommandReport).toHaveBeenCalledTimes(1)
+		expect(onCommandReport.mock.calls[0][0]).toMatchObject({
+			queueId: 'queue_a',
+			send: 10405,
+			attempts: 3,
+			args: ['a']
+		})
+
+		// b: gives up after 2 attempts:
+		expect(_.filter(f.mock.calls, (call) => call[0] === 'b')).toEqual([
+			['b', 10100],
+			['b', 10110]
+		])
+		expect(onCommandError).toHaveBeenCalledTimes(1)
+		expect(onCommandError.mock.calls[0][0]).toEqual(new Error('Failed again'))
+		expect(onCommandError.mock.calls[0][1]).toMatchObject({
+			queueId: 'queue_b',
+			plannedSend: 10100,
+			send: 10100,
+			attempts: 2,
+			args: ['b']
+		})
+
+		d.dispose()
+	})
+	test('Command timeout', async () => {
+
+		const d = new DoOnTime(
+			() => {
+				return mockTime.now
+			},
+			SendMode.IN_ORDER,
+			{
+				retryPolicy: {
+					commandTimeout: 500
+				}
+			}
+		)
+		const onCommandError = jest.fn()
+		d.on('commandError', onCommandError)
+
+		const f = jest.fn()
+
+		d.queue(10100, undefined, async () => {
+			f('a', Date.now())
+			await wait(2000)
+		})
+		d.queue(10200, undefined, async () => {
+			f('b', Date.now())
+		})
+
+		await mockTime.advanceTimeToTicks(11000)
+
+		expect(onCommandError).toHaveBeenCalledTimes(1)
+		expect(onCommandError.mock.calls[0][0].message).toMatch(/timed out/)
+		expect(onCommandError.mock.calls[0][1]).toMatchObject({
+			queueId: '_',
+			fullfilled: 10605,
+			attempts: 1
+		})
+
+		// The queue is not blocked by the timed out command:
+		expect(f).toHaveBeenCalledTimes(2)
+		expect(f).toHaveBeenNthCalledWith(2, 'b', 10605)
+
+		d.dispose()
+	})
+	test('Give up when superseded', async () => {
+
+		const d = new DoOnTime(
+			() => {
+				return mockTime.now
+			},
+			SendMode.IN_ORDER,
+			{
+				retryPolicy: {
+					maxAttempts: 10,
+					retryDelay: 200,
+					giveUpWhenSuperseded: true
+				}
+			}
+		)
+		const onCommandError = jest.fn()
+		d.on('commandError', onCommandError)
+
+		const f = jest.fn()
+
+		d.queue(10100, undefined, async (cmd: { layer: string }) => {
+			f('a', cmd.layer, Date.now())
+			throw new Error('Failed')
+		}, { layer: 'layer0' })
+		// A command on another layer doesn't supersede it:
+		d.queue(10300, undefined, async (cmd: { layer: string }) => {
+			f('b', cmd.layer, Date.now())
+		}, { layer: 'layer1' })
+		d.queue(10500, undefined, async (cmd: { layer: string }) => {
+			f('c', cmd.layer, Date.now())
+		}, { layer: 'layer0' })
+
+		await mockTime.advanceTimeToTicks(11000)
+
+		// a is retried until c is due (b waits, since the commands are sent in order):
+		expect(f.mock.calls).toEqual([
+			['a', 'layer0', 10100],
+			['a', 'layer0', 10305],
+			['b', 'layer1', 10505],
+			['c', 'layer0', 10505]
+		])
+		expect(onCommandError).toHaveBeenCalledTimes(1)
+		expect(onCommandError.mock.calls[0][1]).toMatchObject({
+			plannedSend: 10100,
+			attempts: 2
+		})
+
+		d.dispose()
+	})
+	test('Errors without commandError listeners', async () => {
+
+		const d = new DoOnTime(
+			() => {
+				return mockTime.now
+			},
+			SendMode.BURST
+		)
+		const onError = jest.fn()
+		d.on('error', onError)
+
+		d.queue(10100, undefined, () => {
+			throw new Error('Failed')
+		})
+
+		await mockTime.advanceTimeToTicks(11000)
+
+		expect(onError).toHaveBeenCalledTimes(1)
+		expect(onError).toHaveBeenCalledWith(new Error('Failed'))
+
+		d.dispose()
+	})
+	test('Wait for the due commands', async () => {
+
+		const d = new DoOnTime(
+			() => {
+				return mockTime.now
+			},
+			SendMode.IN_ORDER
+		)
+		const resolvers: Array<() => void> = []
+		const f = jest.fn(() => {
+			return new Promise((resolve) => {
+				resolvers.push(resolve)
+			})
+		})
+
+		d.queue(10000, undefined, f)
+		d.queue(10000, undefined, f)
+		d.queue(10500, undefined, f)
+
+		d.checkQueue()
+		let done = false
+		d.waitForDueCommands()
+		.then(() => done = true)
+		.catch(console.error)
+
+		await flushPromises()
+		expect(f).toHaveBeenCalledTimes(1)
+		expect(done).toEqual(false)
+
+		resolvers[0]()
+		await flushPromises()
+		expect(f).toHaveBeenCalledTimes(2)
+		expect(done).toEqual(false)
+
+		// The command that isn't due yet is not waited for:
+		resolvers[1]()
+		await flushPromises()
+		expect(done).toEqual(true)
+		expect(d.getNextTime()).toEqual(10500)
+
 		d.dispose()
 	})
 })
+function flushPromises () {
+	let p = Promise.resolve()
+	for (let i = 0; i < 10; i++) p = p.then(() => undefined)
+	return p
+}
 function wait (time: number = 1) {
 	return new Promise((resolve) => {
 		setTimeout(resolve, time)
@@ -0,0 +1,136 @@
+import { DeviceTree } from 'emberplus'
+import {
+	Mappings,
+	DeviceType,
+	MappingAbstract
+} from '../types/src'
+import { Conductor } from '../conductor'
+import { StatusCode } from '../devices/device'
+import { MockTime } from './mockTime'
+
+// The consumer connects to a real provider:
+jest.unmock('emberplus')
+
+describe('Ember+ provider', () => {
+	let mockTime = new MockTime()
+	beforeAll(() => {
+		mockTime.mockDateNow()
+	})
+	beforeEach(() => {
+		mockTime.init()
+	})
+	/** Waits until the condition is true, without advancing the time */
+	async function waitFor (condition: () => Promise<boolean>) {
+		for (let i = 0; i < 500 && !(await condition()); i++) {
+			await mockTime.tick()
+		}
+		expect(await condition()).toEqual(true)
+	}
+	async function getValue (consumer: DeviceTree, path: string): Promise<any> {
+		const node: any = await consumer.getNodeByPath(path)
+		return node.contents.value
+	}
+	test('Devices, layers and control', async () => {
+		const commandReceiver0: any = jest.fn(() => {
+			return Promise.resolve()
+		})
+		let myLayerMapping: Mappings = {
+			'myLayer0': {
+				device: DeviceType.ABSTRACT,
+				deviceId: 'myAbstract'
+			} as MappingAbstract
+		}
+
+		let myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime,
+			emberProvider: {
+				port: 9000,
+				host: '127.0.0.1'
+			}
+		})
+		const errorHandler = jest.fn((...args) => console.log('Error in conductor', ...args))
+		myConductor.on('error', errorHandler)
+		await myConductor.init()
+		await myConductor.addDevice('myAbstract', {
+			type: DeviceType.ABSTRACT,
+			options: {
+				commandReceiver: commandReceiver0
+			}
+		})
+		await myConductor.setMapping(myLayerMapping)
+
+		const port = myConductor.getEmberProviderPort()
+		expect(port).toEqual(9000)
+		const consumer = new DeviceTree('127.0.0.1', port!)
+		await consumer.connect()
+
+		expect(await getValue(consumer, 'tsr.devices.myAbstract.deviceType')).toEqual('ABSTRACT')
+		expect(await getValue(consumer, 'tsr.devices.myAbstract.statusCode')).toEqual(StatusCode.GOOD)
+		expect(await getValue(consumer, 'tsr.layers.myLayer0.deviceId')).toEqual('myAbstract')
+		expect(await getValue(consumer, 'tsr.layers.myLayer0.onAir')).toEqual('')
+		const myLayer0Node: any = await consumer.getNodeByPath('tsr.layers.myLayer0')
+		expect(myLayer0Node.getPath()).toEqual('0.1.0')
+
+		// Added devices and layers are appended, so that the paths of the existing ones are kept:
+		await myConductor.addDevice('aDevice', {
+			type: DeviceType.ABSTRACT,
+			options: {
+				commandReceiver: commandReceiver0
+			}
+		})
+		await myConductor.setMapping({
+			...myLayerMapping,
+			'aLayer': {
+				device: DeviceType.ABSTRACT,
+				deviceId: 'aDevice'
+			} as MappingAbstract
+		})
+		await waitFor(async () => {
+			const node: any = await consumer.getNodeByPath('tsr.layers.aLayer').catch(() => null)
+			return !!node && node.getPath() === '0.1.1'
+		})
+		expect(((await consumer.getNodeByPath('tsr.devices.aDevice')) as any).getPath()).toEqual('0.0.1')
+		expect(((await consumer.getNodeByPath('tsr.devices.myAbstract')) as any).getPath()).toEqual('0.0.0')
+		expect(((await consumer.getNodeByPath('tsr.layers.myLayer0')) as any).getPath()).toEqual('0.1.0')
+
+		await mockTime.advanceTimeToTicks(10100)
+		myConductor.timeline = [
+			{
+				id: 'obj0',
+				enable: {
+					start: 11000,
+					duration: 2000
+				},
+				layer: 'myLayer0',
+				content: {
+					deviceType: DeviceType.ABSTRACT
+				}
+			}
+		]
+		// The object is published when it goes on air:
+		await mockTime.advanceTimeToTicks(10900)
+		expect(await getValue(consumer, 'tsr.layers.myLayer0.onAir')).toEqual('')
+		await mockTime.advanceTimeToTicks(11100)
+		await waitFor(async () => (await getValue(consumer, 'tsr.layers.myLayer0.onAir')) === 'obj0')
+
+		await mockTime.advanceTimeToTicks(13100)
+		await waitFor(async () => (await getValue(consumer, 'tsr.layers.myLayer0.onAir')) === '')
+
+		// Setting makeReady triggers it on the devices:
+		const makeReady = jest.spyOn(myConductor, 'devicesMakeReady')
+		const okToDestroyStuffNode: any = await consumer.getNodeByPath('tsr.control.okToDestroyStuff')
+		await consumer.setValue(okToDestroyStuffNode, true)
+		const makeReadyNode: any = await consumer.getNodeByPath('tsr.control.makeReady')
+		await consumer.setValue(makeReadyNode, true)
+
+		await waitFor(async () => makeReady.mock.calls.length === 1)
+		expect(makeReady).toHaveBeenCalledWith(true)
+		// The parameter is reset when done:
+		await waitFor(async () => (await getValue(consumer, 'tsr.control.makeReady')) === false)
+
+		expect(errorHandler).toHaveBeenCalledTimes(0)
+		consumer.disconnect()
+		await myConductor.destroy()
+	})
+})
@@ -1,3 +1,8 @@
+import { ThreadedClass } from 'threadedclass'
+import { Conductor, DeviceOptionsAnyInternal } from '../conductor'
+import { Mappings } from '../types/src'
+import { MockTime } from './mockTime'
+
 /**
  * Just a wrapper to :any type, to be used in tests only
  */
@@ -5,6 +10,44 @@ export function getMockCall<T> (fcn: jest.Mock<T>, callIndex: number, paramIndex
 	return fcn.mock.calls[callIndex][paramIndex]
 }
 
+/**
+ * Sets up a conductor with a single device, whose commands go through a mocked commandReceiver
+ * (piping them on to the device). Errors and commandErrors are caught by the returned errorHandler.
+ */
+export async function setupConductor<T = any> (
+	mockTime: MockTime,
+	deviceId: string,
+	deviceOptions: DeviceOptionsAnyInternal,
+	mappings: Mappings
+) {
+	let device: any
+	const commandReceiver0: any = jest.fn((...args) => {
+		// pipe through the command
+		return device._defaultCommandReceiver(...args)
+	})
+	const myConductor = new Conductor({
+		initializeAsClear: true,
+		getCurrentTime: mockTime.getCurrentTime
+	})
+	const errorHandler = jest.fn((...args) => console.log('Error in device', ...args))
+	myConductor.on('error', errorHandler)
+	myConductor.on('commandError', errorHandler)
+
+	await myConductor.init()
+	await myConductor.addDevice(deviceId, {
+		...deviceOptions,
+		options: {
+			...deviceOptions.options,
+			commandReceiver: commandReceiver0
+		}
+	} as DeviceOptionsAnyInternal)
+	device = myConductor.getDevice(deviceId).device
+	device.on('commandError', errorHandler)
+
+	await myConductor.setMapping(mappings)
+	return { myConductor, device: device as ThreadedClass<T>, commandReceiver0, errorHandler }
+}
+
 // Excend jest.expect in functionality and typings
 expect.extend({
 	toBeCloseTo (received: number, target: number, diff: number) {
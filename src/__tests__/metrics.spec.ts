@@ -0,0 +1,136 @@
+import * as http from 'http'
+import {
+	Mappings,
+	DeviceType,
+	MappingAbstract
+} from '../types/src'
+import { Conductor } from '../conductor'
+import { MetricsRegistry, createMetricsServer } from '../metrics'
+import { MockTime } from './mockTime'
+
+describe('Metrics', () => {
+	let mockTime = new MockTime()
+	beforeAll(() => {
+		mockTime.mockDateNow()
+	})
+	beforeEach(() => {
+		mockTime.init()
+	})
+	test('Prometheus text format', () => {
+		const registry = new MetricsRegistry()
+		const counter = registry.counter('my_counter_total', 'A counter')
+		const gauge = registry.gauge('my_gauge', 'A gauge')
+		const histogram = registry.histogram('my_duration_seconds', 'A histogram', [0.1, 1])
+
+		counter.inc({ device: 'dev0' })
+		counter.inc({ device: 'dev0' }, 2)
+		counter.inc({ device: 'dev"1"' })
+		gauge.set({}, 4)
+		histogram.observe({}, 0.05)
+		histogram.observe({}, 0.5)
+		histogram.observe({}, 5)
+
+		expect(counter.get({ device: 'dev0' })).toEqual(3)
+		expect(() => registry.counter('my_counter_total', 'Again')).toThrow(/already exists/)
+
+		expect(registry.getPrometheusText()).toEqual(
+			'# HELP my_counter_total A counter\n' +
+			'# TYPE my_counter_total counter\n' +
+			'my_counter_total{device="dev0"} 3\n' +
+			'my_counter_total{device="dev\\"1\\""} 1\n' +
+			'# HELP my_gauge A gauge\n' +
+			'# TYPE my_gauge gauge\n' +
+			'my_gauge 4\n' +
+			'# HELP my_duration_seconds A histogram\n' +
+			'# TYPE my_duration_seconds histogram\n' +
+			'my_duration_seconds_bucket{le="0.1"} 1\n' +
+			'my_duration_seconds_bucket{le="1"} 2\n' +
+			'my_duration_seconds_bucket{le="+Inf"} 3\n' +
+			'my_duration_seconds_sum 5.55\n' +
+			'my_duration_seconds_count 3\n'
+		)
+	})
+	test('Conductor metrics', async () => {
+		const commandReceiver0: any = jest.fn(() => {
+			return Promise.resolve()
+		})
+		let myLayerMapping0: MappingAbstract = {
+			device: DeviceType.ABSTRACT,
+			deviceId: 'myAbstract'
+		}
+		let myLayerMapping: Mappings = {
+			'myLayer0': myLayerMapping0
+		}
+
+		let myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime,
+			metrics: true
+		})
+		await myConductor.init()
+		await myConductor.addDevice('myAbstract', {
+			type: DeviceType.ABSTRACT,
+			options: {
+				commandReceiver: commandReceiver0
+			}
+		})
+		await myConductor.setMapping(myLayerMapping)
+		await mockTime.advanceTimeToTicks(10100)
+
+		myConductor.timeline = [
+			{
+				id: 'obj0',
+				enable: {
+					start: mockTime.now + 1000,
+					duration: 2000
+				},
+				layer: 'myLayer0',
+				content: {
+					deviceType: DeviceType.ABSTRACT
+				}
+			}
+		]
+		await mockTime.advanceTimeToTicks(14000)
+		expect(commandReceiver0).toHaveBeenCalledTimes(2)
+
+		const metrics = myConductor.getMetrics()
+		expect(metrics).toMatch(/^tsr_resolve_duration_seconds_count [1-9]/m)
+		expect(metrics).toMatch(/^tsr_state_handle_duration_seconds_count [1-9]/m)
+		expect(metrics).toMatch(/^tsr_command_send_delay_seconds_count{device="myAbstract"} 2$/m)
+		expect(metrics).toMatch(/^tsr_command_fulfill_delay_seconds_count{device="myAbstract"} 2$/m)
+		expect(metrics).toMatch(/^tsr_device_status{device="myAbstract"} 1$/m)
+
+		await myConductor.removeDevice('myAbstract')
+		expect(myConductor.getMetrics()).not.toMatch(/^tsr_device_status{/m)
+
+		// Metrics are not enabled by default:
+		const myConductor2 = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime
+		})
+		expect(() => myConductor2.getMetrics()).toThrow(/not enabled/)
+
+		await myConductor.destroy()
+		await myConductor2.destroy()
+	})
+	test('Metrics server', async () => {
+		jest.useRealTimers()
+
+		const server = createMetricsServer(() => 'my_gauge 1\n')
+		await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve))
+		const port = (server.address() as any).port
+
+		const get = (path: string) => new Promise<{ statusCode: number, body: string }>((resolve, reject) => {
+			http.get(`http://127.0.0.1:${port}${path}`, (res) => {
+				let body = ''
+				res.on('data', (chunk) => body += chunk)
+				res.on('end', () => resolve({ statusCode: res.statusCode || 0, body: body }))
+			}).on('error', reject)
+		})
+
+		expect(await get('/metrics')).toEqual({ statusCode: 200, body: 'my_gauge 1\n' })
+		expect((await get('/other')).statusCode).toEqual(404)
+
+		await new Promise((resolve) => server.close(resolve))
+	})
+})
@@ -0,0 +1,165 @@
+import {
+	Mappings,
+	MappingAbstract,
+	MappingCasparCG,
+	DeviceType,
+	TSRTimeline,
+	TimelineContentTypeCasparCg
+} from '../types/src'
+import { renderTimeline } from '../renderTimeline'
+import { literal } from '../devices/device'
+import { DeviceOptionsAnyInternal } from '../conductor'
+import { CasparCG as MockCasparCG } from 'casparcg-connection'
+
+describe('renderTimeline', () => {
+	const mappings: Mappings = {
+		'myLayer0': literal<MappingAbstract>({
+			device: DeviceType.ABSTRACT,
+			deviceId: 'device0'
+		}),
+		'myLayer1': literal<MappingAbstract>({
+			device: DeviceType.ABSTRACT,
+			deviceId: 'device1'
+		})
+	}
+	const timeline: TSRTimeline = [
+		{
+			id: 'a0',
+			enable: {
+				start: 10000,
+				duration: 1000
+			},
+			layer: 'myLayer0',
+			content: {
+				deviceType: DeviceType.ABSTRACT
+			}
+		},
+		{
+			id: 'a1',
+			enable: {
+				start: '#a0.start + 500',
+				duration: 1000
+			},
+			layer: 'myLayer1',
+			content: {
+				deviceType: DeviceType.ABSTRACT
+			}
+		},
+		{
+			id: 'a2',
+			enable: {
+				start: 20000,
+				duration: 1000
+			},
+			layer: 'myLayer0',
+			content: {
+				deviceType: DeviceType.ABSTRACT
+			}
+		}
+	]
+	const devices: {[deviceId: string]: DeviceOptionsAnyInternal} = {
+		device0: {
+			type: DeviceType.ABSTRACT,
+			options: {}
+		},
+		device1: {
+			type: DeviceType.ABSTRACT,
+			options: {}
+		}
+	}
+
+	test('Render timeline', async () => {
+		const rendered = await renderTimeline(timeline, mappings, devices, 9000, 15000)
+
+		expect(rendered.errors).toHaveLength(0)
+		expect(rendered.commands).toHaveLength(4)
+		expect(rendered.commands[0]).toMatchObject({
+			time: 10000,
+			deviceId: 'device0',
+			command: {
+				timelineObjId: 'a0',
+				context: 'added: a0',
+				command: { commandName: 'addedAbstract' }
+			}
+		})
+		expect(rendered.commands[1]).toMatchObject({
+			time: 10500,
+			deviceId: 'device1',
+			command: { timelineObjId: 'a1', context: 'added: a1' }
+		})
+		expect(rendered.commands[2]).toMatchObject({
+			time: 11000,
+			deviceId: 'device0',
+			command: { timelineObjId: 'a0', context: 'removed: a0' }
+		})
+		expect(rendered.commands[3]).toMatchObject({
+			time: 11500,
+			deviceId: 'device1',
+			command: { timelineObjId: 'a1', context: 'removed: a1' }
+		})
+
+		// The timeline should not have been modified:
+		expect(timeline[1].enable.start).toEqual('#a0.start + 500')
+	})
+	test('Render part of a timeline', async () => {
+		const rendered = await renderTimeline(timeline, mappings, devices, 10700, 30000)
+
+		expect(rendered.errors).toHaveLength(0)
+		expect(rendered.commands.map(c => [c.time, c.command.context])).toEqual([
+			[10700, 'added: a0'],
+			[10700, 'added: a1'],
+			[11000, 'removed: a0'],
+			[11500, 'removed: a1'],
+			[20000, 'added: a2'],
+			[21000, 'removed: a2']
+		])
+	})
+	test('Render the commands queued up between the states', async () => {
+		// @ts-ignore MockCasparCG
+		const instanceCount = MockCasparCG.instances.length
+		const rendered = await renderTimeline([
+			{
+				id: 'playlist0',
+				enable: {
+					start: 10000,
+					duration: 10000
+				},
+				layer: 'myLayer0',
+				content: {
+					deviceType: DeviceType.CASPARCG,
+					type: TimelineContentTypeCasparCg.PLAYLIST,
+					clips: [
+						{ file: 'CLIP0', outPoint: 2000 },
+						{ file: 'CLIP1', outPoint: 3000 },
+						{ file: 'CLIP2', outPoint: 2000 }
+					]
+				}
+			}
+		], {
+			'myLayer0': literal<MappingCasparCG>({
+				device: DeviceType.CASPARCG,
+				deviceId: 'myCCG',
+				channel: 1,
+				layer: 10
+			})
+		}, {
+			myCCG: {
+				type: DeviceType.CASPARCG,
+				options: {
+					host: '127.0.0.1'
+				}
+			}
+		}, 9000, 15000)
+
+		// No connection is made to the server:
+		// @ts-ignore MockCasparCG
+		expect(MockCasparCG.instances).toHaveLength(instanceCount)
+		expect(rendered.errors).toHaveLength(0)
+		// The next clip of the playlist is loaded only after the previous one has started playing (halfway through it):
+		expect(rendered.commands.map(c => [c.time, c.command.command.name, c.command.command._objectParams.clip])).toEqual([
+			[10000, 'PlayCommand', 'CLIP0'],
+			[10000, 'LoadbgCommand', 'CLIP1'],
+			[13500, 'LoadbgCommand', 'CLIP2']
+		])
+	})
+})
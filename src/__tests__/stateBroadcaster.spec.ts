@@ -0,0 +1,170 @@
+import * as WebSocket from 'ws'
+import {
+	Mappings,
+	DeviceType,
+	MappingAbstract
+} from '../types/src'
+import { Conductor } from '../conductor'
+import { StateBroadcastMessage } from '../stateBroadcaster'
+import { StatusCode } from '../devices/device'
+import { MockTime } from './mockTime'
+
+// The clients connect to a real server:
+jest.unmock('ws')
+
+describe('State broadcast', () => {
+	let mockTime = new MockTime()
+	beforeAll(() => {
+		mockTime.mockDateNow()
+	})
+	beforeEach(() => {
+		mockTime.init()
+	})
+	/** Connects a client, which collects the messages it receives */
+	async function connectClient (port: number) {
+		const socket = new WebSocket(`ws://127.0.0.1:${port}`)
+		const messages: StateBroadcastMessage[] = []
+		socket.on('message', (data: WebSocket.Data) => messages.push(JSON.parse(data.toString())))
+		await new Promise((resolve, reject) => {
+			socket.once('open', resolve)
+			socket.once('error', reject)
+		})
+		return { socket, messages }
+	}
+	/** Waits until the condition is true, without advancing the time */
+	async function waitFor (condition: () => boolean) {
+		for (let i = 0; i < 500 && !condition(); i++) {
+			await mockTime.tick()
+		}
+		expect(condition()).toEqual(true)
+	}
+	test('Layers, device statuses and callbacks', async () => {
+		const commandReceiver0: any = jest.fn(() => {
+			return Promise.resolve()
+		})
+		let myLayerMapping: Mappings = {
+			'myLayer0': {
+				device: DeviceType.ABSTRACT,
+				deviceId: 'myAbstract'
+			} as MappingAbstract,
+			'myLayer1': {
+				device: DeviceType.ABSTRACT,
+				deviceId: 'myAbstract'
+			} as MappingAbstract
+		}
+
+		let myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime,
+			stateBroadcast: {
+				port: 0,
+				host: '127.0.0.1'
+			}
+		})
+		const timelineCallback = jest.fn()
+		myConductor.on('timelineCallback', timelineCallback)
+		await myConductor.init()
+		await myConductor.addDevice('myAbstract', {
+			type: DeviceType.ABSTRACT,
+			options: {
+				commandReceiver: commandReceiver0
+			}
+		})
+		await myConductor.setMapping(myLayerMapping)
+
+		const port = myConductor.getStateBroadcastPort()
+		expect(port).toBeGreaterThan(0)
+
+		const client0 = await connectClient(port!)
+		const client1 = await connectClient(port!)
+		client0.socket.send(JSON.stringify({ type: 'subscribe', layers: ['myLayer0'], devices: '*', callbacks: true }))
+		client1.socket.send(JSON.stringify({ type: 'subscribe', layers: ['myLayer1'] }))
+
+		// The current status of the devices is sent when subscribing:
+		await waitFor(() => client0.messages.length >= 1)
+		expect(client0.messages[0]).toEqual({
+			type: 'deviceStatus',
+			deviceId: 'myAbstract',
+			status: { statusCode: StatusCode.GOOD }
+		})
+
+		await mockTime.advanceTimeToTicks(10100)
+		myConductor.timeline = [
+			{
+				id: 'obj0',
+				enable: {
+					start: 11000,
+					duration: 2000
+				},
+				layer: 'myLayer0',
+				content: {
+					deviceType: DeviceType.ABSTRACT,
+					callBack: 'myCallback',
+					callBackData: { a: 1 }
+				}
+			}
+		]
+		await mockTime.advanceTimeToTicks(11100)
+		await waitFor(() => client0.messages.length >= 3)
+
+		// Only the layers that changed are sent, to the clients that are subscribed to them:
+		expect(client0.messages[1]).toEqual({
+			type: 'state',
+			time: expect.any(Number),
+			layers: {
+				myLayer0: {
+					id: 'obj0',
+					content: { deviceType: DeviceType.ABSTRACT, callBack: 'myCallback', callBackData: { a: 1 } },
+					start: 11000,
+					end: 13000
+				}
+			}
+		})
+		expect(timelineCallback).toHaveBeenCalledTimes(1)
+		expect(client0.messages[2]).toEqual({
+			type: 'callback',
+			time: 11000,
+			instanceId: 'obj0',
+			callBack: 'myCallback',
+			callBackData: { a: 1 }
+		})
+		expect(client1.messages).toHaveLength(0)
+
+		// A client that subscribes later gets the current state:
+		const client2 = await connectClient(port!)
+		client2.socket.send(JSON.stringify({ type: 'subscribe', layers: '*' }))
+		await waitFor(() => client2.messages.length >= 1)
+		expect(client2.messages[0]).toMatchObject({
+			type: 'state',
+			layers: { myLayer0: { id: 'obj0' } }
+		})
+
+		// The layer is removed when the object ends:
+		await mockTime.advanceTimeToTicks(13100)
+		await waitFor(() => client0.messages.length >= 4)
+		expect(client0.messages[3]).toEqual({
+			type: 'state',
+			time: expect.any(Number),
+			layers: { myLayer0: null }
+		})
+
+		// Unknown messages are answered with an error:
+		client1.socket.send('{"type":"unsubscribe"}')
+		await waitFor(() => client1.messages.length >= 1)
+		expect(client1.messages[0]).toEqual({ type: 'error', message: 'Unknown message type "unsubscribe"' })
+
+		client0.socket.close()
+		client1.socket.close()
+		client2.socket.close()
+		await myConductor.destroy()
+	})
+	test('Not enabled by default', async () => {
+		const myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime
+		})
+		await myConductor.init()
+		expect(myConductor.getStateBroadcastPort()).toEqual(undefined)
+		await myConductor.destroy()
+	})
+})
@@ -0,0 +1,62 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { FileStateStore, getDeviceStateStore } from '../stateStore'
+
+describe('FileStateStore', () => {
+	let folderPath: string
+
+	beforeEach(() => {
+		folderPath = fs.mkdtempSync(path.join(os.tmpdir(), 'tsr-statestore-'))
+	})
+	afterEach(() => {
+		for (const fileName of fs.readdirSync(folderPath)) {
+			fs.unlinkSync(path.join(folderPath, fileName))
+		}
+		fs.rmdirSync(folderPath)
+	})
+
+	test('Save, load & remove', async () => {
+		const store = new FileStateStore(folderPath)
+
+		expect(await store.load('device0')).toEqual(null)
+
+		// The writes are done in order, so the last one should win:
+		store.save('device0', { time: 1000, state: { a: 1 } }).catch(console.error)
+		store.save('device0', { time: 2000, state: { a: 2 } }).catch(console.error)
+		await store.save('device1', { time: 3000, state: { b: 1 } })
+
+		expect(await store.load('device0')).toEqual({ time: 2000, state: { a: 2 } })
+		expect(await store.load('device1')).toEqual({ time: 3000, state: { b: 1 } })
+
+		// A new store should pick up the persisted states:
+		const store2 = new FileStateStore(folderPath)
+		expect(await store2.load('device0')).toEqual({ time: 2000, state: { a: 2 } })
+
+		await store.remove('device0')
+		expect(await store.load('device0')).toEqual(null)
+		expect(await store.load('device1')).toEqual({ time: 3000, state: { b: 1 } })
+
+		// Removing something that doesn't exist is fine:
+		await store.remove('device0')
+
+		expect(fs.readdirSync(folderPath)).toEqual(['device1.json'])
+	})
+	test('Device state store', async () => {
+		const store = new FileStateStore(folderPath)
+		const deviceStore = getDeviceStateStore(store, 'my/device')
+
+		await deviceStore.save({ time: 1000, state: { a: 1 } })
+		expect(await deviceStore.load()).toEqual({ time: 1000, state: { a: 1 } })
+		expect(await store.load('my/device')).toEqual({ time: 1000, state: { a: 1 } })
+
+		await deviceStore.remove()
+		expect(await deviceStore.load()).toEqual(null)
+	})
+	test('Bad file', async () => {
+		const store = new FileStateStore(folderPath)
+		fs.writeFileSync(path.join(folderPath, 'device0.json'), '{}')
+
+		await expect(store.load('device0')).rejects.toThrow(/Bad persisted state/)
+	})
+})
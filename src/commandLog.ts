@@ -0,0 +1,88 @@
+import * as fs from 'fs'
+
+export interface CommandLogEntry {
+	/** The id of the device that sent the command */
+	deviceId: string
+	/** The time the command was planned to be sent at */
+	plannedSend: number
+	/** The time the command was sent */
+	send: number
+	/** The time the command was fulfilled (or failed) */
+	fullfilled: number
+	/** The id of the timeline-object that caused the command */
+	timelineObjId: string
+	/** The context of the command */
+	context: any
+	/** The command, as sent to the commandReceiver of the device */
+	command: any
+	/** Set if the command failed */
+	error?: string
+}
+/**
+ * A CommandLog is used to durably record all commands sent by the devices,
+ * for example for post-mortems of incidents.
+ * The logged commands can be sent again using Conductor.replayCommandLog().
+ */
+export interface CommandLog {
+	/** Appends an entry to the log */
+	append (entry: CommandLogEntry): Promise<void>
+}
+
+/**
+ * A CommandLog that appends the entries to a file, one JSON-encoded entry per line
+ */
+export class FileCommandLog implements CommandLog {
+	/** The pending write-operation, used to make sure that the entries are written in order */
+	private _pending: Promise<void> = Promise.resolve()
+
+	/**
+	 * @param _filePath Path to the log file. The file is created if it doesn't exist.
+	 */
+	constructor (
+		private _filePath: string
+	) {}
+
+	public append (entry: CommandLogEntry): Promise<void> {
+		const str = JSON.stringify(entry) + '\n'
+		const p = this._pending
+		.catch(() => null) // Errors have already been reported by the previous append
+		.then(() => appendFile(this._filePath, str))
+
+		this._pending = p
+		return p
+	}
+}
+/**
+ * Reads the entries of a log file written by a FileCommandLog
+ */
+export async function readCommandLog (filePath: string): Promise<CommandLogEntry[]> {
+	const lines = (await readFile(filePath)).split('\n')
+
+	const entries: CommandLogEntry[] = []
+	for (let i = 0; i < lines.length; i++) {
+		if (!lines[i].trim()) continue
+		try {
+			entries.push(JSON.parse(lines[i]))
+		} catch (e) {
+			// The last line might be incomplete, if the process was killed during a write:
+			if (i < lines.length - 1) throw new Error(`Bad entry on line ${i + 1} of command log "${filePath}": ${e}`)
+		}
+	}
+	return entries
+}
+function readFile (filePath: string): Promise<string> {
+	return new Promise((resolve, reject) => {
+		fs.readFile(filePath, 'utf8', (err, data) => {
+			if (err) reject(err)
+			else resolve(data)
+		})
+	})
+}
+function appendFile (filePath: string, data: string): Promise<void> {
+	return new Promise((resolve, reject) => {
+		fs.appendFile(filePath, data, 'utf8', (err) => {
+			if (err) reject(err)
+			else resolve()
+		})
+	})
+}
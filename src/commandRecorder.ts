@@ -0,0 +1,73 @@
+import * as _ from 'underscore'
+import { CommandWithContext } from './devices/device'
+
+export interface RecordedCommand {
+	/** The time the command was planned to be sent at (in the time of the Conductor's clock) */
+	time: number
+	/** The id of the device that would have sent the command */
+	deviceId: string
+	/** The command, along with its context */
+	command: CommandWithContext
+}
+export type RecordingCommandReceiver = (time: number, cmd: any, context: any, timelineObjId: string) => Promise<any>
+
+/**
+ * The CommandRecorder is used by the Conductor when running in simulation mode.
+ * It provides the devices with commandReceivers that record the commands
+ * instead of sending them to the actual device.
+ */
+export class CommandRecorder {
+	private _commands: Array<RecordedCommand & { index: number }> = []
+	private _i: number = 0
+
+	/**
+	 * Returns a commandReceiver to be used in place of a device's own commandReceiver
+	 * @param deviceId The id of the device
+	 */
+	public getCommandReceiver (deviceId: string): RecordingCommandReceiver {
+		return (time: number, cmd: any, context: any, timelineObjId: string): Promise<any> => {
+			this._commands.push({
+				index: this._i++,
+				time: time,
+				deviceId: deviceId,
+				command: {
+					context: context,
+					timelineObjId: timelineObjId,
+					command: cmd
+				}
+			})
+			return Promise.resolve()
+		}
+	}
+	/**
+	 * Returns the recorded commands, ordered by time
+	 */
+	public getCommands (): RecordedCommand[] {
+		return _.map(
+			this._commands.slice().sort((a, b) => {
+				if (a.time > b.time) return 1
+				if (a.time < b.time) return -1
+				return a.index - b.index
+			}),
+			(c) => {
+				return {
+					time: c.time,
+					deviceId: c.deviceId,
+					command: c.command
+				}
+			}
+		)
+	}
+	/**
+	 * Returns the number of recorded commands
+	 */
+	public getCount (): number {
+		return this._commands.length
+	}
+	/**
+	 * Removes all recorded commands
+	 */
+	public clear () {
+		this._commands = []
+	}
+}
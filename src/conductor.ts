@@ -5,33 +5,46 @@ import {
 	ResolvedStates
 } from 'superfly-timeline'
 
-import { DeviceClassOptions, CommandWithContext } from './devices/device'
-import { CasparCGDevice, DeviceOptionsCasparCGInternal } from './devices/casparCG'
-import { AbstractDevice, DeviceOptionsAbstractInternal } from './devices/abstract'
-import { HTTPSendDevice, DeviceOptionsHTTPSendInternal } from './devices/httpSend'
+import { DeviceClassOptions, CommandWithContext, TimelineStateDelta } from './devices/device'
+import { DeviceOptionsCasparCGInternal } from './devices/casparCG'
+import { DeviceOptionsAbstractInternal } from './devices/abstract'
+import { DeviceOptionsHTTPSendInternal } from './devices/httpSend'
 import {
 	Mappings,
-	Mapping,
 	DeviceType,
-	ResolvedTimelineObjectInstanceExtended,
-	TSRTimeline
+	TSRTimeline,
+	TSRTimelineObj
 } from './types/src'
-import { AtemDevice, DeviceOptionsAtemInternal } from './devices/atem'
+import { DeviceOptionsAtemInternal } from './devices/atem'
 import { EventEmitter } from 'events'
-import { LawoDevice, DeviceOptionsLawoInternal } from './devices/lawo'
-import { PanasonicPtzDevice, DeviceOptionsPanasonicPTZInternal } from './devices/panasonicPTZ'
-import { HyperdeckDevice, DeviceOptionsHyperdeckInternal } from './devices/hyperdeck'
+import { DeviceOptionsLawoInternal } from './devices/lawo'
+import { DeviceOptionsPanasonicPTZInternal } from './devices/panasonicPTZ'
+import { DeviceOptionsHyperdeckInternal } from './devices/hyperdeck'
 import { DoOnTime } from './doOnTime'
-import { TCPSendDevice, DeviceOptionsTCPSendInternal } from './devices/tcpSend'
-import { PharosDevice, DeviceOptionsPharosInternal } from './devices/pharos'
-import { OSCMessageDevice, DeviceOptionsOSCInternal } from './devices/osc'
+import { DeviceOptionsTCPSendInternal } from './devices/tcpSend'
+import { DeviceOptionsPharosInternal } from './devices/pharos'
+import { DeviceOptionsOSCInternal } from './devices/osc'
 import { DeviceContainer } from './devices/deviceContainer'
+import { getDeviceClass } from './devices/deviceClasses'
 import { threadedClass, ThreadedClass } from 'threadedclass'
 import { AsyncResolver } from './AsyncResolver'
-import { HTTPWatcherDevice, DeviceOptionsHTTPWatcherInternal } from './devices/httpWatcher'
-import { QuantelDevice, DeviceOptionsQuantelInternal } from './devices/quantel'
-import { SisyfosMessageDevice, DeviceOptionsSisyfosInternal } from './devices/sisyfos'
-import { SingularLiveDevice, DeviceOptionsSingularLiveInternal } from './devices/singularLive'
+import { DeviceOptionsHTTPWatcherInternal } from './devices/httpWatcher'
+import { DeviceOptionsQuantelInternal } from './devices/quantel'
+import { DeviceOptionsSisyfosInternal } from './devices/sisyfos'
+import { DeviceOptionsSingularLiveInternal } from './devices/singularLive'
+import { DeviceOptionsVMixInternal } from './devices/vmix'
+import { DeviceOptionsOBSInternal } from './devices/obs'
+import { DeviceOptionsTemplateCGInternal } from './devices/templateCG'
+import { DeviceOptionsVideoRouterInternal } from './devices/videoRouter'
+import { DeviceOptionsMIDIInternal } from './devices/midi'
+import { DeviceOptionsDMXInternal } from './devices/dmx'
+import { CommandRecorder, RecordedCommand } from './commandRecorder'
+import { StateStore, getDeviceStateStore } from './stateStore'
+import { ConductorMetrics } from './metrics'
+import { CommandLog, CommandLogEntry } from './commandLog'
+import { StateBroadcaster, StateBroadcastOptions } from './stateBroadcaster'
+import { EmberProvider, EmberProviderOptions } from './emberProvider'
+import { getFilteredLayers } from './lib'
 
 export { DeviceContainer }
 export { CommandWithContext }
@@ -60,6 +73,41 @@ export interface ConductorOptions {
 	autoInit?: boolean
 	multiThreadedResolver?: boolean
 	proActiveResolve?: boolean
+	/**
+	 * If true, no commands are sent to the devices. Instead, the commands are recorded
+	 * and can be retrieved using .getSimulatedCommands().
+	 * The devices are initialized offline, so no connections are made to them. Devices that depend on
+	 * the state of the physical device to generate commands (like CasparCG and ATEM) start out from a state
+	 * based on the mappings at the time they are added.
+	 * Use together with getCurrentTime to run the timeline against a virtual clock.
+	 */
+	simulation?: boolean
+	/**
+	 * If set, the devices persist their last committed state in the store, and restore it on init.
+	 * This prevents devices from sending unnecessary commands after a restart.
+	 * Not used in simulation mode.
+	 */
+	stateStore?: StateStore
+	/**
+	 * If true, performance metrics (resolve durations, command latencies, errors etc) are collected.
+	 * The metrics are retrieved in the Prometheus text format using .getMetrics().
+	 */
+	metrics?: boolean
+	/**
+	 * If set, all commands sent by the devices are appended to the log.
+	 * Not used in simulation mode.
+	 */
+	commandLog?: CommandLog
+	/**
+	 * If set, a WebSocket server is started on init, publishing the resolved state of the layers,
+	 * the status of the devices and the timeline callbacks to the clients that have subscribed to them.
+	 */
+	stateBroadcast?: StateBroadcastOptions
+	/**
+	 * If set, an Ember+ provider is started on init, publishing the devices, their statuses and the objects on air on the layers.
+	 * The consumers can trigger makeReady and standDown.
+	 */
+	emberProvider?: EmberProviderOptions
 }
 interface TimelineCallback {
 	time: number
@@ -95,6 +143,22 @@ export interface StatReport {
 	stateHandled: number
 	done: number
 }
+export interface ReplayCommandLogOptions {
+	/** If set, only the commands of these devices are replayed */
+	deviceIds?: string[]
+	/** If set, the commands of a device are replayed to another device, eg { originalDeviceId: 'mockDeviceId' } */
+	deviceIdMap?: {[deviceId: string]: string}
+	/** If true, the commands are sent with the same timing as originally. Otherwise, each command is sent as soon as the previous one is done */
+	realTime?: boolean
+}
+export interface DeviceStateAtTime {
+	deviceId: string
+	deviceType: DeviceType
+	/** The resolved timeline state, containing only the layers mapped to the device */
+	timelineState: TimelineState
+	/** The device-specific state (as converted by the device), or null if the device doesn't have one */
+	deviceState: any
+}
 
 /**
  * The Conductor class serves as the main class for interacting. It contains
@@ -114,6 +178,15 @@ export class Conductor extends EventEmitter {
 	private _getCurrentTime?: () => number
 
 	private _nextResolveTime: number = 0
+	/**
+	 * The layers that have changed since the last resolve, when the timeline has been updated incrementally.
+	 * 'all' means that anything could have changed, null that nothing has changed. In both cases all devices are updated.
+	 */
+	private _changedLayers: {[layerId: string]: true} | 'all' | null = null
+	/** The states last handled by the devices, used to skip the devices whose state hasn't changed */
+	private _handledStates: {[deviceId: string]: HandledState} = {}
+	/** The devices being initialized, and whether they have been sent a state meanwhile */
+	private _initializingDevices: {[deviceId: string]: boolean} = {}
 	private _resolvedStates: {
 		resolvedStates: ResolvedStates | null,
 		resolveTime: number
@@ -141,10 +214,35 @@ export class Conductor extends EventEmitter {
 
 	private _interval: NodeJS.Timer
 
+	private _commandRecorder: CommandRecorder | null = null
+	private _metrics: ConductorMetrics | null = null
+	private _stateBroadcaster: StateBroadcaster | null = null
+	private _emberProvider: EmberProvider | null = null
+
 	constructor (options: ConductorOptions = {}) {
 		super()
 		this._options = options
 
+		if (options.simulation) this._commandRecorder = new CommandRecorder()
+		if (options.metrics) this._metrics = new ConductorMetrics()
+		if (options.stateBroadcast) this._stateBroadcaster = new StateBroadcaster()
+		if (options.emberProvider) {
+			this._emberProvider = new EmberProvider({
+				makeReady: (okToDestroyStuff: boolean) => {
+					return this.devicesMakeReady(okToDestroyStuff)
+					.catch(e => {
+						this.emit('error', 'Ember+ provider: makeReady', e)
+					})
+				},
+				standDown: (okToDestroyStuff: boolean) => {
+					return this.devicesStandDown(okToDestroyStuff)
+					.catch(e => {
+						this.emit('error', 'Ember+ provider: standDown', e)
+					})
+				}
+			})
+		}
+
 		this._multiThreadedResolver = !!options.multiThreadedResolver
 
 		if (options.getCurrentTime) this._getCurrentTime = options.getCurrentTime
@@ -193,6 +291,13 @@ export class Conductor extends EventEmitter {
 		await this._resolver.on('error', (...args) => this.emit('error', 'Resolver', ...args))
 		await this._resolver.on('warning', (...args) => this.emit('warning', 'Resolver', ...args))
 
+		if (this._stateBroadcaster && this._options.stateBroadcast) {
+			await this._stateBroadcaster.listen(this._options.stateBroadcast)
+		}
+		if (this._emberProvider && this._options.emberProvider) {
+			await this._emberProvider.listen(this._options.emberProvider)
+		}
+
 		this._isInitialized = true
 		this.resetResolver()
 	}
@@ -223,6 +328,7 @@ export class Conductor extends EventEmitter {
 		// Set mapping
 		// re-resolve timeline
 		this._mapping = mapping
+		if (this._emberProvider) this._emberProvider.setMappings(mapping)
 
 		let ps: Promise<any>[] = []
 		_.each(this.devices, (d: DeviceContainer) => {
@@ -231,6 +337,8 @@ export class Conductor extends EventEmitter {
 		})
 		await Promise.all(ps)
 
+		this._changedLayers = 'all'
+		this._handledStates = {} // The new mappings could affect the output of unchanged layers
 		if (this._timeline) {
 			this._resolveTimeline()
 		}
@@ -252,8 +360,45 @@ export class Conductor extends EventEmitter {
 		// Highest priority right now is to determine if any commands have to be sent RIGHT NOW
 		// After that, we'll move further ahead in time, creating commands ready for scheduling
 
-		this.resetResolver()
+		this._changedLayers = 'all'
+		this._resetResolver()
+
+	}
+	/**
+	 * Adds objects to the timeline.
+	 * Only the devices of the affected layers are updated, instead of all devices.
+	 */
+	public addTimelineObjects (objs: TSRTimeline) {
+		_.each(objs, obj => {
+			if (_.find(this._timeline, o => o.id === obj.id)) throw new Error(`Timeline object "${obj.id}" already exists`)
+		})
+		this._timeline = this._timeline.concat(objs)
+		this._timelineChanged(objs)
+	}
+	/**
+	 * Replaces an object (found by its id) in the timeline.
+	 * Only the devices of the affected layers are updated, instead of all devices.
+	 */
+	public updateTimelineObject (obj: TSRTimelineObj) {
+		const index = _.findIndex(this._timeline, o => o.id === obj.id)
+		if (index === -1) throw new Error(`Timeline object "${obj.id}" not found`)
+
+		const oldObj = this._timeline[index]
+		this._timeline = this._timeline.slice()
+		this._timeline[index] = obj
+		this._timelineChanged([oldObj, obj])
+	}
+	/**
+	 * Removes objects from the timeline.
+	 * Only the devices of the affected layers are updated, instead of all devices.
+	 * @param ids The ids of the objects to remove
+	 */
+	public removeTimelineObjects (ids: string[]) {
+		const removedObjs = _.filter(this._timeline, o => ids.indexOf(o.id) !== -1)
+		if (!removedObjs.length) return
 
+		this._timeline = _.filter(this._timeline, o => ids.indexOf(o.id) === -1)
+		this._timelineChanged(removedObjs)
 	}
 	get logDebug (): boolean {
 		return this._logDebug
@@ -268,6 +413,110 @@ export class Conductor extends EventEmitter {
 	public getDevice (deviceId: string): DeviceContainer {
 		return this.devices[deviceId]
 	}
+	/**
+	 * Returns the commands recorded when running in simulation mode, ordered by time
+	 */
+	public getSimulatedCommands (): RecordedCommand[] {
+		if (!this._commandRecorder) throw new Error('Conductor is not running in simulation mode')
+		return this._commandRecorder.getCommands()
+	}
+	/**
+	 * Clears the commands recorded when running in simulation mode
+	 */
+	public clearSimulatedCommands () {
+		if (!this._commandRecorder) throw new Error('Conductor is not running in simulation mode')
+		this._commandRecorder.clear()
+	}
+	/**
+	 * Sends the commands from a command log to the devices again, in the order they were originally sent
+	 * @param entries The entries of the command log (see readCommandLog())
+	 */
+	public async replayCommandLog (entries: CommandLogEntry[], options: ReplayCommandLogOptions = {}): Promise<void> {
+		const entriesToReplay = _.sortBy(
+			_.filter(entries, entry => !options.deviceIds || options.deviceIds.indexOf(entry.deviceId) !== -1),
+			entry => entry.send
+		)
+		const getDeviceId = (entry: CommandLogEntry) => (options.deviceIdMap && options.deviceIdMap[entry.deviceId]) || entry.deviceId
+		_.each(entriesToReplay, entry => {
+			if (!this.devices[getDeviceId(entry)]) throw new Error(`Device "${getDeviceId(entry)}" not found`)
+		})
+		if (!entriesToReplay.length) return
+
+		const startTime = this.getCurrentTime()
+		const firstSend = entriesToReplay[0].send
+		for (const entry of entriesToReplay) {
+			if (options.realTime) {
+				const waitTime = (entry.send - firstSend) - (this.getCurrentTime() - startTime)
+				if (waitTime > 0) await new Promise(resolve => setTimeout(resolve, waitTime))
+			}
+			const device = this.devices[getDeviceId(entry)]
+			try {
+				await device.device.replayCommand(entry)
+			} catch (e) {
+				this.emit('error', `replayCommandLog: Error when replaying command to device "${device.deviceId}"`, e)
+			}
+		}
+	}
+	/**
+	 * Returns the collected metrics in the Prometheus text format
+	 * (see createMetricsServer() for serving them over HTTP)
+	 */
+	public getMetrics (): string {
+		if (!this._metrics) throw new Error('Metrics are not enabled in the Conductor options')
+		return this._metrics.getPrometheusText()
+	}
+	/**
+	 * The port that the state broadcast server is listening on (see the stateBroadcast option)
+	 */
+	public getStateBroadcastPort (): number | undefined {
+		if (!this._stateBroadcaster) return undefined
+		return this._stateBroadcaster.port
+	}
+	/**
+	 * The port that the Ember+ provider is listening on (see the emberProvider option)
+	 */
+	public getEmberProviderPort (): number | undefined {
+		if (!this._emberProvider) return undefined
+		return this._emberProvider.port
+	}
+	/**
+	 * Resolves the current timeline at the given time and returns the resulting state of each device.
+	 * Nothing is sent to the devices.
+	 * @param time The point in time to get the state at
+	 */
+	public async getStateAt (time: number): Promise<{[deviceId: string]: DeviceStateAtTime}> {
+		if (!this._isInitialized) throw new Error('TSR is not initialized yet')
+
+		// Resolve a copy of the timeline, since the resolver modifies the "now"-objects:
+		const { resolvedStates } = await this._resolver.resolveTimeline(
+			time,
+			JSON.parse(JSON.stringify(this.timeline)),
+			time + RESOLVE_LIMIT_TIME
+		)
+		const tlState = await this._resolver.getState(resolvedStates, time)
+
+		const states: {[deviceId: string]: DeviceStateAtTime} = {}
+		await Promise.all(_.map(this.devices, async (device: DeviceContainer) => {
+			const subState: TimelineState = removeParent({
+				time: tlState.time,
+				layers: this.getFilteredLayers(tlState.layers, device),
+				nextEvents: []
+			})
+			let deviceState: any = null
+			try {
+				deviceState = await device.device.convertTimelineState(subState)
+			} catch (e) {
+				this.emit('error', 'Error in device "' + device.deviceId + '" convertTimelineState: ' + e + ' ' + e.stack)
+			}
+			states[device.deviceId] = {
+				deviceId: device.deviceId,
+				deviceType: device.deviceType,
+				timelineState: subState,
+				deviceState: deviceState
+			}
+		}))
+		return states
+	}
 
 	/**
 	 * Adds a a device that can be referenced by the timeline and mappings.
@@ -289,143 +538,40 @@ export class Conductor extends EventEmitter {
 				getCurrentTime: () => { return this.getCurrentTime() }
 			}
 
-			if (deviceOptions.type === DeviceType.ABSTRACT) {
-				newDevice = await new DeviceContainer().create<AbstractDevice>(
-					'../../dist/devices/abstract.js',
-					AbstractDevice,
-					deviceId,
-					deviceOptions,
-					options,
-					{
-						threadUsage: deviceOptions.isMultiThreaded ? .1 : 0,
-						autoRestart: false,
-						disableMultithreading: !deviceOptions.isMultiThreaded,
-						instanceName: deviceId
-					}
-				)
-			} else if (deviceOptions.type === DeviceType.CASPARCG) {
-				// Add CasparCG device:
-				newDevice = await new DeviceContainer().create<CasparCGDevice>(
-					'../../dist/devices/casparCG.js',
-					CasparCGDevice,
-					deviceId,
-					deviceOptions,
-					options,
-					threadedClassOptions
-				)
-			} else if (deviceOptions.type === DeviceType.ATEM) {
-				newDevice = await new DeviceContainer().create<AtemDevice>(
-					'../../dist/devices/atem.js',
-					AtemDevice,
-					deviceId,
-					deviceOptions,
-					options,
-					threadedClassOptions
-				)
-			} else if (deviceOptions.type === DeviceType.HTTPSEND) {
-				newDevice = await new DeviceContainer().create<HTTPSendDevice>(
-					'../../dist/devices/httpSend.js',
-					HTTPSendDevice,
-					deviceId,
-					deviceOptions,
-					options,
-					threadedClassOptions
-				)
-			} else if (deviceOptions.type === DeviceType.HTTPWATCHER) {
-				newDevice = await new DeviceContainer().create<HTTPWatcherDevice>(
-					'../../dist/devices/httpWatcher.js',
-					HTTPWatcherDevice,
-					deviceId,
-					deviceOptions,
-					options,
-					threadedClassOptions
-				)
-			} else if (deviceOptions.type === DeviceType.LAWO) {
-				newDevice = await new DeviceContainer().create<LawoDevice>(
-					'../../dist/devices/lawo.js',
-					LawoDevice,
-					deviceId,
-					deviceOptions,
-					options,
-					threadedClassOptions
-				)
-			} else if (deviceOptions.type === DeviceType.TCPSEND) {
-				newDevice = await new DeviceContainer().create<TCPSendDevice>(
-					'../../dist/devices/tcpSend.js',
-					TCPSendDevice,
-					deviceId,
-					deviceOptions,
-					options,
-					threadedClassOptions
-				)
-			} else if (deviceOptions.type === DeviceType.PANASONIC_PTZ) {
-				newDevice = await new DeviceContainer().create<PanasonicPtzDevice>(
-					'../../dist/devices/panasonicPTZ.js',
-					PanasonicPtzDevice,
-					deviceId,
-					deviceOptions,
-					options,
-					threadedClassOptions
-				)
-			} else if (deviceOptions.type === DeviceType.HYPERDECK) {
-				newDevice = await new DeviceContainer().create<HyperdeckDevice>(
-					'../../dist/devices/hyperdeck.js',
-					HyperdeckDevice,
-					deviceId,
-					deviceOptions,
-					options,
-					threadedClassOptions
-				)
-			} else if (deviceOptions.type === DeviceType.PHAROS) {
-				newDevice = await new DeviceContainer().create<PharosDevice>(
-					'../../dist/devices/pharos.js',
-					PharosDevice,
-					deviceId,
-					deviceOptions,
-					options,
-					threadedClassOptions
-				)
-			} else if (deviceOptions.type === DeviceType.OSC) {
-				newDevice = await new DeviceContainer().create<OSCMessageDevice>(
-					'../../dist/devices/osc.js',
-					OSCMessageDevice,
-					deviceId,
-					deviceOptions,
-					options,
-					threadedClassOptions
-				)
-			} else if (deviceOptions.type === DeviceType.QUANTEL) {
-				newDevice = await new DeviceContainer().create<QuantelDevice>(
-					'../../dist/devices/quantel.js',
-					QuantelDevice,
-					deviceId,
-					deviceOptions,
-					options,
-					threadedClassOptions
-				)
-			} else if (deviceOptions.type === DeviceType.SISYFOS) {
-				newDevice = await new DeviceContainer().create<OSCMessageDevice>(
-					'../../dist/devices/sisyfos.js',
-					SisyfosMessageDevice,
-					deviceId,
-					deviceOptions,
-					options,
-					threadedClassOptions
-				)
-			} else if (deviceOptions.type === DeviceType.SINGULAR_LIVE) {
-				newDevice = await new DeviceContainer().create<SingularLiveDevice>(
-					'../../dist/devices/singularLive.js',
-					SingularLiveDevice,
-					deviceId,
-					deviceOptions,
-					options,
-					threadedClassOptions
-				)
+			if (this._commandRecorder) {
+				// Replace the commandReceiver of the device, so that the commands are recorded instead of sent:
+				deviceOptions = _.extend({}, deviceOptions, {
+					options: _.extend({}, deviceOptions.options, {
+						commandReceiver: this._commandRecorder.getCommandReceiver(deviceId)
+					})
+				})
+				// The time of the simulation is not related to the local clock:
+				options.useDirectTime = true
 			} else {
-				// @ts-ignore deviceOptions.type is of type "never"
+				if (this._options.stateStore) options.stateStore = getDeviceStateStore(this._options.stateStore, deviceId)
+				if (this._options.commandLog) options.commandLog = this._options.commandLog
+			}
+			if (this._metrics) {
+				// The command reports are needed for the command latency metrics:
+				deviceOptions = _.extend({}, deviceOptions, { reportAllCommands: true })
+			}
+
+			const deviceClass = getDeviceClass(deviceOptions.type)
+			if (!deviceClass) {
 				const type: any = deviceOptions.type
 				return Promise.reject(`No matching device type for "${type}" ("${DeviceType[type]}") found in conductor`)
 			}
+			if (deviceOptions.type === DeviceType.ABSTRACT) {
+				threadedClassOptions.threadUsage = deviceOptions.isMultiThreaded ? .1 : 0
+			}
+			newDevice = await new DeviceContainer().create(
+				deviceClass.file,
+				deviceClass.deviceClass,
+				deviceId,
+				deviceOptions,
+				options,
+				threadedClassOptions
+			)
 
 			newDevice.device.on('debug', (...e) => {
 				if (this.logDebug) {
@@ -435,6 +581,10 @@ export class Conductor extends EventEmitter {
 
 			newDevice.device.on('resetResolver', () => this.resetResolver()).catch(console.error)
 
+			if (this._metrics) await this._metrics.addDevice(newDevice)
+			if (this._stateBroadcaster) await this._stateBroadcaster.addDevice(newDevice)
+			if (this._emberProvider) await this._emberProvider.addDevice(newDevice)
+
 			// Temporary listening to events, these are removed after the devide has been initiated.
 			// Todo: split the addDevice function into two separate functions, so that the device is
 			// first created, then initated by the consumer, allowing for setup of listeners in between...
@@ -454,11 +604,26 @@ export class Conductor extends EventEmitter {
 			// @ts-ignore
 			await newDevice.device.setMapping(this.mapping)
 
-			await newDevice.device.init(deviceOptions.options)
+			let stateSentDuringInit = false
+			if (this._commandRecorder) {
+				// No connections are made in simulation mode:
+				await newDevice.device.initOffline(deviceOptions.options)
+			} else {
+				this._initializingDevices[deviceId] = false
+				try {
+					await newDevice.device.init(deviceOptions.options)
+				} finally {
+					stateSentDuringInit = this._initializingDevices[deviceId]
+					delete this._initializingDevices[deviceId]
+				}
+			}
 
 			await newDevice.reloadProps() // because the device name might have changed after init
 
 			this.emit('info', `Device ${newDevice.deviceId} (${newDevice.instanceId}) initialized!`)
+			this._changedLayers = 'all' // The new device needs to get its state
+			// A device might drop the states it is sent while initializing (like CasparCG), so it needs to get its state right away:
+			if (stateSentDuringInit) this._resetResolver()
 
 			// Remove listeners, expect consumer to subscribe to them now.
 
@@ -490,6 +655,10 @@ export class Conductor extends EventEmitter {
 			await device.terminate()
 
 			delete this.devices[deviceId]
+			delete this._handledStates[deviceId]
+			if (this._metrics) this._metrics.removeDevice(deviceId)
+			if (this._stateBroadcaster) this._stateBroadcaster.removeDevice(deviceId)
+			if (this._emberProvider) this._emberProvider.removeDevice(deviceId)
 		} else {
 			return Promise.reject('No device found')
 		}
@@ -506,12 +675,34 @@ export class Conductor extends EventEmitter {
 		await Promise.all(_.map(_.keys(this.devices), (deviceId: string) => {
 			return this.removeDevice(deviceId)
 		}))
+		if (this._stateBroadcaster) await this._stateBroadcaster.close()
+		if (this._emberProvider) await this._emberProvider.close()
 	}
 	/**
 	 * Resets the resolve-time, so that the resolving will happen for the point-in time NOW
-	 * next time
+	 * next time. All devices will handle the new state, even if their part of it hasn't changed.
 	 */
 	public resetResolver () {
+		this._changedLayers = 'all'
+		this._handledStates = {}
+		this._resetResolver()
+	}
+	/**
+	 * Marks the layers affected by the changed timeline objects, and triggers a resolve
+	 */
+	private _timelineChanged (changedObjs: TSRTimeline) {
+		this.statStartMeasure('timeline changed')
+
+		if (this._changedLayers !== 'all') {
+			const changedLayers = this._changedLayers || {}
+			addTimelineObjectLayers(changedLayers, changedObjs, () => true)
+			// Objects referring to other objects could be affected by the change as well:
+			addTimelineObjectLayers(changedLayers, this._timeline, hasReferences)
+			this._changedLayers = changedLayers
+		}
+		this._resetResolver()
+	}
+	private _resetResolver () {
 
 		this._nextResolveTime = 0 // This will cause _resolveTimeline() to generate the state for NOW
 		this._resolvedStates = {
@@ -531,6 +722,7 @@ export class Conductor extends EventEmitter {
 				return d.device.makeReady(okToDestroyStuff)
 			})
 		})
+		this._handledStates = {}
 		this._resolveTimeline()
 		return p
 	}
@@ -618,6 +810,16 @@ export class Conductor extends EventEmitter {
 			const now = this.getCurrentTime()
 			let resolveTime: number = this._nextResolveTime
 
+			// When resolving right after an incremental update of the timeline, only the devices of the changed layers are updated:
+			let devicesToUpdate: DeviceContainer[] = _.values(this.devices)
+			if (resolveTime === 0) {
+				const changedLayers = this._changedLayers
+				this._changedLayers = null
+				if (changedLayers && changedLayers !== 'all') {
+					devicesToUpdate = _.filter(devicesToUpdate, device => this._hasChangedLayers(device, changedLayers))
+				}
+			}
+
 			const estimatedResolveTime = this.estimateResolveTime()
 
 			if (
@@ -637,10 +839,16 @@ export class Conductor extends EventEmitter {
 				}
 			}
 
-			// Let all devices know that a new state is about to come in.
-			// This is done so that they can clear future commands a bit earlier, possibly avoiding double or conflicting commands
+			// Let the devices know that a new state is about to come in.
+			// This is done so that they can clear future commands a bit earlier, possibly avoiding double or conflicting commands.
+			// Devices that have only handled states before resolveTime have no such commands, they are prepared later if their state has changed:
+			const devicesPrepared: {[deviceId: string]: true} = {}
+			_.each(devicesToUpdate, (device: DeviceContainer) => {
+				const handledState = this._handledStates[device.deviceId]
+				if (!handledState || handledState.time >= resolveTime) devicesPrepared[device.deviceId] = true
+			})
 			const pPrepareForHandleStates: Promise<any> = Promise.all(
-				_.map(this.devices, async (device: DeviceContainer): Promise<any> => {
+				_.map(_.filter(devicesToUpdate, device => devicesPrepared[device.deviceId]), async (device: DeviceContainer): Promise<any> => {
 					await device.device.prepareForHandleState(resolveTime)
 				})
 			).catch(error => {
@@ -709,26 +917,53 @@ export class Conductor extends EventEmitter {
 
 			// Push state to the right device:
 			let pHandleStates: Promise<any>[] = []
-			pHandleStates = _.map(this.devices, async (device: DeviceContainer): Promise<any> => {
+			pHandleStates = _.map(devicesToUpdate, async (device: DeviceContainer): Promise<any> => {
 				// The subState contains only the parts of the state relevant to that device:
-				let subState: TimelineState = {
+				let subState: TimelineState = removeParent({
 					time: tlState.time,
 					layers: this.getFilteredLayers(tlState.layers, device),
 					nextEvents: []
+				})
+				const handledState = this._handledStates[device.deviceId]
+				const layerKeys: {[layerId: string]: string} = {}
+				_.each(subState.layers, (o, layerId: string) => {
+					layerKeys[layerId] = getLayerStateKey(o)
+				})
+				if (
+					!devicesPrepared[device.deviceId] &&
+					handledState &&
+					_.isEqual(handledState.layerKeys, layerKeys)
+				) {
+					// Nothing has changed for this device since the last state it handled
+					return
 				}
-				const removeParent = (o: TimelineState) => {
-					for (let key in o) {
-						if (key === 'parent') {
-							delete o['parent']
-						} else if (typeof o[key] === 'object') {
-							o[key] = removeParent(o[key])
-						}
-					}
-					return o
+				// Only send the layers that have changed since the last handled state:
+				const delta: TimelineStateDelta = {
+					time: subState.time,
+					layers: {},
+					removedLayers: [],
+					full: !handledState
+				}
+				_.each(layerKeys, (key: string, layerId: string) => {
+					if (!handledState || handledState.layerKeys[layerId] !== key) delta.layers[layerId] = subState.layers[layerId]
+				})
+				if (handledState) {
+					delta.removedLayers = _.filter(_.keys(handledState.layerKeys), layerId => !layerKeys[layerId])
 				}
 				// Pass along the state to the device, it will generate its commands and execute them:
 				try {
-					await device.device.handleState(removeParent(subState))
+					if (!devicesPrepared[device.deviceId]) await device.device.prepareForHandleState(resolveTime)
+					// Until the device has handled the state, the state it has is unknown:
+					delete this._handledStates[device.deviceId]
+					const initializing = _.has(this._initializingDevices, device.deviceId)
+					if (initializing) this._initializingDevices[device.deviceId] = true
+					await device.device.handleStateDelta(delta)
+					if (!initializing) {
+						this._handledStates[device.deviceId] = {
+							time: subState.time,
+							layerKeys: layerKeys
+						}
+					}
 				} catch (e) {
 					this.emit('error', 'Error in device "' + device.deviceId + '"' + e + ' ' + e.stack)
 				}
@@ -852,11 +1087,22 @@ export class Conductor extends EventEmitter {
 			})
 			this._sentCallbacks = sentCallbacksNew
 
+			if (this._stateBroadcaster || this._emberProvider) {
+				// Publish the state when it is live:
+				this._doOnTime.queue(tlState.time, undefined, () => {
+					if (this._stateBroadcaster) this._stateBroadcaster.broadcastState(tlState)
+					if (this._emberProvider) this._emberProvider.setState(tlState)
+				})
+			}
+
 			this.emit('debug', 'resolveTimeline at time ' + resolveTime + ' done in ' + (Date.now() - startTime) + 'ms (size: ' + this.timeline.length + ')')
 		} catch (e) {
 			this.emit('error', 'resolveTimeline' + e + '\nStack: ' + e.stack)
 		}
 
+		if (this._metrics && statTimeStateHandled) {
+			this._metrics.observeResolve(statTimeTimelineStartResolve, statTimeTimelineResolved, statTimeStateHandled)
+		}
 		// Report time taken to resolve
 		this.statReport(statMeasureStart, {
 			timelineStartResolve: statTimeTimelineStartResolve,
@@ -1035,6 +1281,7 @@ export class Conductor extends EventEmitter {
 				cb.callBack,
 				cb.callBackData
 			)
+			if (this._stateBroadcaster) this._stateBroadcaster.broadcastCallback(cb.time, cb.instanceId, cb.callBack, cb.callBackData)
 		})
 
 		if (haveThingsToSendLater) {
@@ -1075,29 +1322,20 @@ export class Conductor extends EventEmitter {
 			this.emit('statReport', reportDuration)
 		}
 	}
+	/**
+	 * Returns true if any of the changed layers are mapped to the device
+	 */
+	private _hasChangedLayers (device: DeviceContainer, changedLayers: {[layerId: string]: true}): boolean {
+		return !!_.find(_.keys(changedLayers), layerId => {
+			const mapping = this._mapping[layerId]
+			return !!mapping && mapping.deviceId === device.deviceId && mapping.device === device.deviceType
+		})
+	}
 	/**
 	 * Split the state into substates that are relevant for each device
 	 */
 	private getFilteredLayers (layers: TimelineState['layers'], device: DeviceContainer) {
-		let filteredState = {}
-		const deviceId = device.deviceId
-		const deviceType = device.deviceType
-		_.each(layers, (o: ResolvedTimelineObjectInstance, layerId: string) => {
-			const oExt: ResolvedTimelineObjectInstanceExtended = o
-			let mapping: Mapping = this._mapping[o.layer + '']
-			if (!mapping && oExt.isLookahead && oExt.lookaheadForLayer) {
-				mapping = this._mapping[oExt.lookaheadForLayer]
-			}
-			if (mapping) {
-				if (
-					mapping.deviceId === deviceId &&
-					mapping.device === deviceType
-				) {
-					filteredState[layerId] = o
-				}
-			}
-		})
-		return filteredState
+		return getFilteredLayers(layers, this._mapping, device.deviceId, device.deviceType)
 	}
 }
 export type DeviceOptionsAnyInternal = (
@@ -1114,5 +1352,61 @@ export type DeviceOptionsAnyInternal = (
 	DeviceOptionsOSCInternal |
 	DeviceOptionsSisyfosInternal |
 	DeviceOptionsQuantelInternal |
-	DeviceOptionsSingularLiveInternal
+	DeviceOptionsSingularLiveInternal |
+	DeviceOptionsVMixInternal |
+	DeviceOptionsOBSInternal |
+	DeviceOptionsTemplateCGInternal |
+	DeviceOptionsVideoRouterInternal |
+	DeviceOptionsMIDIInternal |
+	DeviceOptionsDMXInternal
 )
+interface HandledState {
+	/** The time of the state */
+	time: number
+	/** The keys of the layers in the state, used for comparison */
+	layerKeys: {[layerId: string]: string}
+}
+/**
+ * Returns a key used to compare the object in a layer with the object of a previous resolve.
+ * The ids of the instances are generated anew on every resolve, so only the timing of the instance is included.
+ */
+function getLayerStateKey (o: ResolvedTimelineObjectInstance): string {
+	return JSON.stringify(_.extend(_.omit(o, 'resolved', 'instance'), {
+		instance: _.pick(o.instance, 'start', 'end', 'originalStart', 'originalEnd', 'isFirst')
+	}))
+}
+function removeParent (o: TimelineState) {
+	for (let key in o) {
+		if (key === 'parent') {
+			delete o['parent']
+		} else if (typeof o[key] === 'object') {
+			o[key] = removeParent(o[key])
+		}
+	}
+	return o
+}
+/**
+ * Adds the layers of the timeline objects (and their children) that match the filter
+ */
+function addTimelineObjectLayers (layers: {[layerId: string]: true}, objs: any[], filter: (o: any) => boolean) {
+	_.each(objs, (o) => {
+		const match = filter(o)
+		if (match) {
+			if (o.layer) layers[o.layer] = true
+			if (o.lookaheadForLayer) layers[o.lookaheadForLayer] = true
+		}
+		if (o.isGroup && o.content && o.content.objects) {
+			// The children are affected if the group is:
+			addTimelineObjectLayers(layers, o.content.objects, match ? () => true : filter)
+		}
+	})
+}
+/**
+ * Returns true if the timing of the timeline object refers to other objects (eg "#obj0.end", ".class.start" or "$layer.end")
+ */
+function hasReferences (o: any): boolean {
+	const enables = _.compact(_.flatten([o.enable, _.pluck(o.keyframes || [], 'enable')]))
+	return !!_.find(enables, (enable: any) => {
+		return !!_.find(_.values(enable), value => _.isString(value) && /[#.$]/.test(value))
+	})
+}
@@ -1,3 +1,4 @@
+import * as _ from 'underscore'
 import { Conductor } from '../../conductor'
 import {
 	TimelineContentTypeCasparCg,
@@ -7,10 +8,13 @@ import {
 	ChannelFormat,
 	Transition,
 	Ease,
-	Direction
+	Direction,
+	TimelineObjCCGPlaylist
 } from '../../types/src'
 import { MockTime } from '../../__tests__/mockTime'
 import { getMockCall } from '../../__tests__/lib'
+import { CasparCG as MockCasparCG } from 'casparcg-connection'
+import { StatusCode, literal } from '../device'
 
 // usage logCalls(commandReceiver0)
 // function logCalls (fcn) {
@@ -28,6 +32,10 @@ describe('CasparCG', () => {
 	beforeEach(() => {
 		mockTime.init()
 	})
+	afterEach(() => {
+		// @ts-ignore MockCasparCG
+		MockCasparCG.mockVersion('2.0.7.e9fc25a Stable')
+	})
 	test('CasparCG: Play AMB for 60s', async () => {
 
 		const commandReceiver0: any = jest.fn(() => {
@@ -877,6 +885,167 @@ describe('CasparCG', () => {
 
 	})
 
+	test('CasparCG: Animated mixer keyframes', async () => {
+
+		const commandReceiver0: any = jest.fn(() => {
+			return Promise.resolve()
+		})
+		let myLayerMapping: Mappings = {
+			'myLayer0': {
+				device: DeviceType.CASPARCG,
+				deviceId: 'myCCG',
+				channel: 2,
+				layer: 42
+			} as MappingCasparCG,
+			'myLayer1': {
+				device: DeviceType.CASPARCG,
+				deviceId: 'myCCG',
+				channel: 2,
+				layer: 43
+			} as MappingCasparCG
+		}
+
+		let myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime
+		})
+		myConductor.on('error', e => { throw new Error(e) })
+		await myConductor.init()
+		await myConductor.addDevice('myCCG', {
+			type: DeviceType.CASPARCG,
+			options: {
+				commandReceiver: commandReceiver0,
+				host: '127.0.0.1'
+			}
+		})
+		await myConductor.setMapping(myLayerMapping)
+		await mockTime.advanceTimeToTicks(10100)
+
+		myConductor.timeline = [
+			{
+				id: 'obj0',
+				enable: {
+					start: 11000,
+					duration: 10000
+				},
+				layer: 'myLayer0',
+				content: {
+					deviceType: DeviceType.CASPARCG,
+					type: TimelineContentTypeCasparCg.MEDIA,
+					file: 'AMB',
+					loop: true,
+					mixerTween: {
+						duration: 1000
+					}
+				},
+				keyframes: [{
+					id: 'kf0',
+					enable: {
+						start: 2000, // relative to the parent's start
+						duration: 4000
+					},
+					content: {
+						mixer: {
+							fill: { x: 0.5, y: 0, xScale: 0.5, yScale: 0.5 },
+							opacity: 0.8
+						},
+						mixerTween: {
+							duration: 400,
+							easing: Ease.EASEINOUTSINE
+						}
+					}
+				}]
+			},
+			{
+				id: 'obj1',
+				enable: {
+					start: 11000,
+					duration: 10000
+				},
+				layer: 'myLayer1',
+				content: {
+					deviceType: DeviceType.CASPARCG,
+					type: TimelineContentTypeCasparCg.MEDIA,
+					file: 'CG1080i50',
+					loop: true
+				},
+				keyframes: [{
+					id: 'kf1',
+					enable: {
+						start: 2000,
+						duration: 4000
+					},
+					content: {
+						mixer: {
+							crop: { left: 0.1, top: 0, right: 0.1, bottom: 0 }
+						},
+						mixerTween: {
+							duration: 400,
+							easing: Ease.EASEINOUTSINE
+						}
+					}
+				}]
+			}
+		]
+
+		await mockTime.advanceTimeToTicks(11100)
+		expect(commandReceiver0).toHaveBeenCalledTimes(2) // play, play
+		commandReceiver0.mockClear()
+
+		// The animations start together:
+		await mockTime.advanceTimeToTicks(13100)
+		expect(commandReceiver0).toHaveBeenCalledTimes(4)
+		expect(getMockCall(commandReceiver0, 0, 0)).toEqual(13000)
+		expect(getMockCall(commandReceiver0, 0, 1).name).toEqual('MixerFillCommand')
+		expect(getMockCall(commandReceiver0, 0, 1)._objectParams).toMatchObject({
+			channel: 2,
+			layer: 42,
+			x: 0.5,
+			y: 0,
+			xScale: 0.5,
+			yScale: 0.5,
+			transitionDuration: 10, // frames
+			transitionEasing: 'EASEINOUTSINE',
+			defer: true
+		})
+		expect(getMockCall(commandReceiver0, 1, 1).name).toEqual('MixerOpacityCommand')
+		expect(getMockCall(commandReceiver0, 1, 1)._objectParams).toMatchObject({
+			layer: 42,
+			opacity: 0.8,
+			transitionDuration: 10,
+			defer: true
+		})
+		expect(getMockCall(commandReceiver0, 2, 1).name).toEqual('MixerCropCommand')
+		expect(getMockCall(commandReceiver0, 2, 1)._objectParams).toMatchObject({
+			layer: 43,
+			left: 0.1,
+			right: 0.1,
+			defer: true
+		})
+		expect(getMockCall(commandReceiver0, 3, 1).name).toEqual('MixerCommitCommand')
+		expect(getMockCall(commandReceiver0, 3, 1)._objectParams).toMatchObject({ channel: 2 })
+		commandReceiver0.mockClear()
+
+		// When the keyframe ends, the layer is animated back using the tween of the object:
+		await mockTime.advanceTimeToTicks(17100)
+		const layer42Commands = commandReceiver0.mock.calls.filter(call => call[1]._objectParams.layer === 42)
+		expect(layer42Commands).toHaveLength(2)
+		expect(layer42Commands[0][1].name).toEqual('MixerFillCommand')
+		expect(layer42Commands[0][1]._objectParams).toMatchObject({
+			x: 0,
+			y: 0,
+			xScale: 1,
+			yScale: 1,
+			transitionDuration: 25,
+			transitionEasing: 'LINEAR'
+		})
+		expect(layer42Commands[1][1].name).toEqual('MixerOpacityCommand')
+		expect(layer42Commands[1][1]._objectParams).toMatchObject({
+			opacity: 1,
+			transitionDuration: 25
+		})
+	})
+
 	test('CasparCG: loadbg command', async () => {
 
 		const commandReceiver0: any = jest.fn(() => {
@@ -1189,4 +1358,693 @@ describe('CasparCG', () => {
 			layer: 10
 		})
 	})
+	test('CasparCG: Preflight of media and templates', async () => {
+		// @ts-ignore MockCasparCG
+		MockCasparCG.mockContent({
+			'AMB': { frames: 250, frameTime: '1/25' } // 10 s
+		}, ['LOWER_THIRD'])
+
+		const commandReceiver0: any = jest.fn(() => {
+			return Promise.resolve()
+		})
+		let myLayerMapping: Mappings = {
+			'myLayer0': {
+				device: DeviceType.CASPARCG,
+				deviceId: 'myCCG',
+				channel: 1,
+				layer: 10
+			} as MappingCasparCG,
+			'myLayer1': {
+				device: DeviceType.CASPARCG,
+				deviceId: 'myCCG',
+				channel: 1,
+				layer: 20
+			} as MappingCasparCG
+		}
+
+		let myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime
+		})
+		await myConductor.init()
+		await myConductor.addDevice('myCCG', {
+			type: DeviceType.CASPARCG,
+			options: {
+				commandReceiver: commandReceiver0,
+				host: '127.0.0.1'
+			}
+		})
+		await myConductor.setMapping(myLayerMapping)
+		const device = myConductor.getDevice('myCCG').device
+		const onPreflight = jest.fn()
+		await device.on('preflight', onPreflight)
+
+		await mockTime.advanceTimeToTicks(10100)
+		myConductor.timeline = [
+			{
+				id: 'video0',
+				enable: {
+					start: 11000,
+					duration: 2000
+				},
+				layer: 'myLayer0',
+				content: {
+					deviceType: DeviceType.CASPARCG,
+					type: TimelineContentTypeCasparCg.MEDIA,
+					file: 'amb',
+					inPoint: 5000,
+					length: 8000
+				}
+			},
+			{
+				id: 'video1',
+				enable: {
+					start: 13000,
+					duration: 2000
+				},
+				layer: 'myLayer0',
+				content: {
+					deviceType: DeviceType.CASPARCG,
+					type: TimelineContentTypeCasparCg.MEDIA,
+					file: 'MISSING'
+				}
+			},
+			{
+				id: 'template0',
+				enable: {
+					start: 11000,
+					duration: 2000
+				},
+				layer: 'myLayer1',
+				content: {
+					deviceType: DeviceType.CASPARCG,
+					type: TimelineContentTypeCasparCg.TEMPLATE,
+					templateType: 'html',
+					name: 'NEWS/LOWER_THIRD',
+					data: {},
+					useStopCommand: true
+				}
+			}
+		]
+		// The objects in the upcoming state are checked ahead of time:
+		await mockTime.advanceTimeToTicks(10200)
+		expect(onPreflight).toHaveBeenCalledTimes(1)
+		expect(onPreflight).toHaveBeenLastCalledWith([
+			{ timelineObjId: 'template0', name: 'NEWS/LOWER_THIRD', message: 'Template not found' },
+			{ timelineObjId: 'video0', name: 'amb', message: 'The length (8000 ms) exceeds the media (10000 ms)' }
+		])
+		expect(await device.getStatus()).toEqual({
+			statusCode: StatusCode.WARNING_MAJOR,
+			messages: [
+				'NEWS/LOWER_THIRD (template0): Template not found',
+				'amb (video0): The length (8000 ms) exceeds the media (10000 ms)'
+			]
+		})
+
+		// The next object is checked when it is coming up:
+		await mockTime.advanceTimeToTicks(11100)
+		expect(onPreflight).toHaveBeenLastCalledWith([
+			{ timelineObjId: 'template0', name: 'NEWS/LOWER_THIRD', message: 'Template not found' },
+			{ timelineObjId: 'video0', name: 'amb', message: 'The length (8000 ms) exceeds the media (10000 ms)' },
+			{ timelineObjId: 'video1', name: 'MISSING', message: 'Media not found' }
+		])
+
+		// The issues are gone when the objects have ended:
+		await mockTime.advanceTimeToTicks(15100)
+		expect(onPreflight).toHaveBeenLastCalledWith([])
+		expect(await device.getStatus()).toEqual({
+			statusCode: StatusCode.GOOD,
+			messages: []
+		})
+
+		await myConductor.destroy()
+	})
+	test('CasparCG: Main and backup servers', async () => {
+		let device
+		const commandReceiver0: any = jest.fn((...args) => {
+			// pipe through the command
+			return device._defaultCommandReceiver(...args)
+		})
+		let myLayerMapping: Mappings = {
+			'myLayer0': {
+				device: DeviceType.CASPARCG,
+				deviceId: 'myCCG',
+				channel: 1,
+				layer: 10
+			} as MappingCasparCG
+		}
+
+		let myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime
+		})
+		await myConductor.init()
+		await myConductor.addDevice('myCCG', {
+			type: DeviceType.CASPARCG,
+			options: {
+				commandReceiver: commandReceiver0,
+				servers: [
+					{ id: 'main', host: '10.0.0.1' },
+					{ id: 'backup', host: '10.0.0.2' }
+				]
+			}
+		})
+		await myConductor.setMapping(myLayerMapping)
+		device = myConductor.getDevice('myCCG').device
+
+		// @ts-ignore MockCasparCG
+		const [main, backup] = MockCasparCG.instances.slice(-2)
+		expect(main.host).toEqual('10.0.0.1')
+		expect(backup.host).toEqual('10.0.0.2')
+		// @ts-ignore MockCasparCG
+		const mockDo: jest.Mock = MockCasparCG.mockDo
+		/** Returns the names of the commands sent to a server */
+		const getSentCommands = (server) => {
+			return mockDo.mock.calls
+			.filter((_call, i) => mockDo.mock.instances[i] === server)
+			.map(call => call[0].name)
+		}
+
+		await mockTime.advanceTimeToTicks(10100)
+		mockDo.mockClear()
+		myConductor.timeline = [
+			{
+				id: 'video0',
+				enable: {
+					start: 11000,
+					duration: 5000
+				},
+				layer: 'myLayer0',
+				content: {
+					deviceType: DeviceType.CASPARCG,
+					type: TimelineContentTypeCasparCg.MEDIA,
+					file: 'AMB'
+				}
+			}
+		]
+		// Both servers receive the same commands:
+		await mockTime.advanceTimeToTicks(11100)
+		expect(getSentCommands(main)).toEqual(['PlayCommand'])
+		expect(getSentCommands(backup)).toEqual(['PlayCommand'])
+		expect(commandReceiver0).toHaveBeenCalledTimes(1)
+
+		expect(await device.getServerStatuses()).toEqual([
+			{ serverId: 'main', connected: true, onAir: true, messages: [] },
+			{ serverId: 'backup', connected: true, onAir: false, messages: [] }
+		])
+
+		// The device is fine as long as one of the servers is:
+		main.mockSetConnected(false)
+		expect(await device.getStatus()).toEqual({
+			statusCode: StatusCode.GOOD,
+			messages: ['CasparCG main disconnected']
+		})
+		backup.mockSetConnected(false)
+		expect((await device.getStatus()).statusCode).toEqual(StatusCode.BAD)
+
+		// A server that has been restarted is brought up to date, without affecting the other server:
+		mockDo.mockClear()
+		backup.mockSetConnected(true, true)
+		await mockTime.advanceTimeToTicks(11200)
+		expect(getSentCommands(backup)).toEqual(['PlayCommand'])
+		expect(getSentCommands(main)).toEqual([])
+		expect(await device.getStatus()).toEqual({
+			statusCode: StatusCode.GOOD,
+			messages: ['CasparCG main disconnected']
+		})
+
+		// Commands are not queued for a disconnected server:
+		mockDo.mockClear()
+		await mockTime.advanceTimeToTicks(16100)
+		expect(getSentCommands(backup)).toEqual(['ClearCommand'])
+		expect(getSentCommands(main)).toEqual([])
+
+		// The operator switches to the backup server:
+		await device.setOnAirServer('backup')
+		expect(await device.getServerStatuses()).toMatchObject([
+			{ serverId: 'main', onAir: false },
+			{ serverId: 'backup', onAir: true }
+		])
+
+		await myConductor.destroy()
+	})
+	test('CasparCG: Features of CasparCG 2.2+', async () => {
+		// @ts-ignore MockCasparCG
+		MockCasparCG.mockVersion('2.3.0 a0af4ec Stable')
+
+		const commandReceiver0: any = jest.fn(() => {
+			return Promise.resolve()
+		})
+		let myLayerMapping: Mappings = {
+			'myLayer0': {
+				device: DeviceType.CASPARCG,
+				deviceId: 'myCCG',
+				channel: 1,
+				layer: 10
+			} as MappingCasparCG,
+			'myLayer1': {
+				device: DeviceType.CASPARCG,
+				deviceId: 'myCCG',
+				channel: 2,
+				layer: 20
+			} as MappingCasparCG
+		}
+
+		let myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime
+		})
+		await myConductor.init()
+		await myConductor.addDevice('myCCG', {
+			type: DeviceType.CASPARCG,
+			options: {
+				commandReceiver: commandReceiver0,
+				host: '127.0.0.1',
+				decklinkOutputs: [
+					{ channel: 1, device: 1, keyDevice: 2 }
+				]
+			}
+		})
+		await myConductor.setMapping(myLayerMapping)
+
+		// The outputs are added when connecting:
+		await mockTime.advanceTimeToTicks(10100)
+		const getCommands = () => commandReceiver0.mock.calls.map(call => call[1])
+		expect(_.find(getCommands(), (command: any) => command.name === 'CustomCommand')._objectParams).toEqual({
+			command: 'ADD 1 DECKLINK DEVICE 1 KEY_DEVICE 2 EXTERNAL_KEY'
+		})
+
+		commandReceiver0.mockClear()
+		myConductor.timeline = [
+			{
+				id: 'html0',
+				enable: {
+					start: 11000,
+					duration: 2000
+				},
+				layer: 'myLayer0',
+				content: {
+					deviceType: DeviceType.CASPARCG,
+					type: TimelineContentTypeCasparCg.HTMLPAGE,
+					url: 'http://example.com/graphics',
+					cefParameters: { 'WINDOWLESS_FRAME_RATE': 50 },
+					calls: ['"start()"']
+				}
+			},
+			{
+				id: 'input0',
+				enable: {
+					start: 11000,
+					duration: 2000
+				},
+				layer: 'myLayer1',
+				content: {
+					deviceType: DeviceType.CASPARCG,
+					type: TimelineContentTypeCasparCg.INPUT,
+					inputType: 'decklink',
+					device: 3,
+					keyDevice: 4,
+					deviceFormat: ChannelFormat.HD_1080I5000,
+					audioChannels: [3, 4]
+				}
+			}
+		]
+		await mockTime.advanceTimeToTicks(11100)
+
+		const commands = getCommands()
+		expect(_.map(_.filter(commands, (command: any) => command.name === 'CustomCommand'), (command: any) => command._objectParams.command)).toEqual([
+			'PLAY 1-10 [HTML] "http://example.com/graphics" WINDOWLESS_FRAME_RATE 50',
+			'PLAY 2-20 DECKLINK DEVICE 3 AF "pan=2c|c0=c2|c1=c3"',
+			'CALL 1-10 "start()"'
+		])
+		// The key is played on the layer below the fill:
+		expect(_.find(commands, (command: any) => command.name === 'PlayDecklinkCommand')._objectParams).toMatchObject({
+			channel: 2,
+			layer: 19,
+			device: 4
+		})
+		expect(_.find(commands, (command: any) => command.name === 'MixerKeyerCommand')._objectParams).toMatchObject({
+			channel: 2,
+			layer: 19,
+			keyer: true
+		})
+
+		// The calls are only sent when the object starts:
+		commandReceiver0.mockClear()
+		await mockTime.advanceTimeToTicks(12000)
+		expect(commandReceiver0).toHaveBeenCalledTimes(0)
+
+		await myConductor.destroy()
+	})
+	test('CasparCG: Features of CasparCG 2.2+ on older servers', async () => {
+		// @ts-ignore MockCasparCG
+		MockCasparCG.mockVersion('2.1.0 3f2d4b8 Stable')
+
+		const commandReceiver0: any = jest.fn(() => {
+			return Promise.resolve()
+		})
+		let myLayerMapping: Mappings = {
+			'myLayer0': {
+				device: DeviceType.CASPARCG,
+				deviceId: 'myCCG',
+				channel: 1,
+				layer: 10
+			} as MappingCasparCG
+		}
+
+		let myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime
+		})
+		await myConductor.init()
+		await myConductor.addDevice('myCCG', {
+			type: DeviceType.CASPARCG,
+			options: {
+				commandReceiver: commandReceiver0,
+				host: '127.0.0.1'
+			}
+		})
+		await myConductor.setMapping(myLayerMapping)
+		const device = myConductor.getDevice('myCCG').device
+		const onWarning = jest.fn()
+		await device.on('warning', onWarning)
+
+		await mockTime.advanceTimeToTicks(10100)
+		commandReceiver0.mockClear()
+		myConductor.timeline = [
+			{
+				id: 'video0',
+				enable: {
+					start: 11000,
+					duration: 2000
+				},
+				layer: 'myLayer0',
+				content: {
+					deviceType: DeviceType.CASPARCG,
+					type: TimelineContentTypeCasparCg.MEDIA,
+					file: 'AMB',
+					audioChannels: [3, 4],
+					calls: ['LOOP 1']
+				}
+			}
+		]
+		await mockTime.advanceTimeToTicks(11100)
+
+		// The features are left out:
+		expect(commandReceiver0).toHaveBeenCalledTimes(1)
+		expect(getMockCall(commandReceiver0, 0, 1).name).toEqual('PlayCommand')
+		expect(onWarning).toHaveBeenCalledWith('CasparCG: The object "video0" uses features that require CasparCG 2.2 or later')
+
+		await myConductor.destroy()
+	})
+	test('CasparCG: Playlist', async () => {
+		const commandReceiver0: any = jest.fn(() => {
+			return Promise.resolve()
+		})
+		let myLayerMapping: Mappings = {
+			'myLayer0': {
+				device: DeviceType.CASPARCG,
+				deviceId: 'myCCG',
+				channel: 1,
+				layer: 10
+			} as MappingCasparCG,
+			'myLayer1': {
+				device: DeviceType.CASPARCG,
+				deviceId: 'myCCG',
+				channel: 1,
+				layer: 20
+			} as MappingCasparCG
+		}
+
+		let myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime
+		})
+		await myConductor.init()
+		await myConductor.addDevice('myCCG', {
+			type: DeviceType.CASPARCG,
+			options: {
+				commandReceiver: commandReceiver0,
+				host: '127.0.0.1'
+			}
+		})
+		await myConductor.setMapping(myLayerMapping)
+
+		await mockTime.advanceTimeToTicks(10100)
+		commandReceiver0.mockClear()
+		const playlist = (id: string, layer: string, start: number): TimelineObjCCGPlaylist => ({
+			id: id,
+			enable: {
+				start: start,
+				duration: 8000
+			},
+			layer: layer,
+			content: {
+				deviceType: DeviceType.CASPARCG,
+				type: TimelineContentTypeCasparCg.PLAYLIST,
+				clips: [
+					{ file: 'BUMPER', inPoint: 1000, outPoint: 5000 },
+					{ file: 'PROMO', outPoint: 3000, transition: { type: Transition.MIX, duration: 1000 } },
+					{ file: 'BUMPER2', outPoint: 2000 }
+				]
+			}
+		})
+		myConductor.timeline = [playlist('playlist0', 'myLayer0', 11000)]
+
+		// The first clip is played, and the next one is loaded to follow it automatically:
+		await mockTime.advanceTimeToTicks(11100)
+		expect(commandReceiver0).toHaveBeenCalledTimes(2)
+		expect(getMockCall(commandReceiver0, 0, 1).name).toEqual('PlayCommand')
+		expect(getMockCall(commandReceiver0, 0, 1)._objectParams).toMatchObject({
+			channel: 1,
+			layer: 10,
+			clip: 'BUMPER',
+			in: 25,
+			seek: 25,
+			length: 100
+		})
+		expect(getMockCall(commandReceiver0, 1, 1).name).toEqual('LoadbgCommand')
+		expect(getMockCall(commandReceiver0, 1, 1)._objectParams).toMatchObject({
+			channel: 1,
+			layer: 10,
+			clip: 'PROMO',
+			auto: true,
+			transition: 'MIX',
+			transitionDuration: 25,
+			length: 75
+		})
+
+		// The clip after that is loaded while the second one is playing:
+		commandReceiver0.mockClear()
+		await mockTime.advanceTimeToTicks(16000)
+		expect(commandReceiver0).toHaveBeenCalledTimes(1)
+		expect(getMockCall(commandReceiver0, 0, 0)).toEqual(15500)
+		expect(getMockCall(commandReceiver0, 0, 1).name).toEqual('LoadbgCommand')
+		expect(getMockCall(commandReceiver0, 0, 1)._objectParams).toMatchObject({
+			channel: 1,
+			layer: 10,
+			clip: 'BUMPER2',
+			auto: true,
+			length: 50
+		})
+
+		// A playlist joined mid-way plays the current clip from where it should be:
+		commandReceiver0.mockClear()
+		myConductor.timeline = [playlist('playlist0', 'myLayer0', 11000), playlist('playlist1', 'myLayer1', 12000)]
+		await mockTime.advanceTimeToTicks(16200)
+		expect(commandReceiver0).toHaveBeenCalledTimes(3)
+		expect(getMockCall(commandReceiver0, 0, 1).name).toEqual('PlayCommand')
+		expect(getMockCall(commandReceiver0, 0, 1)._objectParams).toMatchObject({
+			channel: 1,
+			layer: 20,
+			clip: 'PROMO',
+			seek: 25,
+			length: 75
+		})
+		expect(getMockCall(commandReceiver0, 1, 1).name).toEqual('LoadbgCommand')
+		expect(getMockCall(commandReceiver0, 1, 1)._objectParams).toMatchObject({
+			channel: 1,
+			layer: 20,
+			clip: 'BUMPER2',
+			auto: true
+		})
+		// The queued loading of the next clip of the other playlist could have been cleared by the re-resolve, so it is loaded again:
+		expect(getMockCall(commandReceiver0, 2, 1).name).toEqual('LoadbgCommand')
+		expect(getMockCall(commandReceiver0, 2, 1)._objectParams).toMatchObject({
+			channel: 1,
+			layer: 10,
+			clip: 'BUMPER2',
+			auto: true
+		})
+
+		// The layers are cleared when the playlists end:
+		commandReceiver0.mockClear()
+		await mockTime.advanceTimeToTicks(21000)
+		expect(commandReceiver0).toHaveBeenCalledTimes(2)
+		expect(getMockCall(commandReceiver0, 0, 1).name).toEqual('ClearCommand')
+		expect(getMockCall(commandReceiver0, 0, 0)).toEqual(19000)
+		expect(getMockCall(commandReceiver0, 1, 1).name).toEqual('ClearCommand')
+
+		await myConductor.destroy()
+	})
+	test('CasparCG: Playlist re-resolved mid-clip', async () => {
+		const commandReceiver0: any = jest.fn(() => {
+			return Promise.resolve()
+		})
+		let myLayerMapping: Mappings = {
+			'myLayer0': {
+				device: DeviceType.CASPARCG,
+				deviceId: 'myCCG',
+				channel: 1,
+				layer: 10
+			} as MappingCasparCG,
+			'myLayer1': {
+				device: DeviceType.CASPARCG,
+				deviceId: 'myCCG',
+				channel: 1,
+				layer: 20
+			} as MappingCasparCG
+		}
+
+		let myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime
+		})
+		await myConductor.init()
+		await myConductor.addDevice('myCCG', {
+			type: DeviceType.CASPARCG,
+			options: {
+				commandReceiver: commandReceiver0,
+				host: '127.0.0.1'
+			}
+		})
+		await myConductor.setMapping(myLayerMapping)
+
+		await mockTime.advanceTimeToTicks(10100)
+		const playlist: TimelineObjCCGPlaylist = {
+			id: 'playlist0',
+			enable: {
+				start: 11000,
+				duration: 8000
+			},
+			layer: 'myLayer0',
+			content: {
+				deviceType: DeviceType.CASPARCG,
+				type: TimelineContentTypeCasparCg.PLAYLIST,
+				clips: [
+					{ file: 'BUMPER', outPoint: 4000 },
+					{ file: 'PROMO', outPoint: 2000 },
+					{ file: 'BUMPER2', outPoint: 2000 }
+				]
+			}
+		}
+		myConductor.timeline = [playlist]
+		await mockTime.advanceTimeToTicks(15100)
+
+		// Another layer of the device changes in the first half of the second clip:
+		commandReceiver0.mockClear()
+		myConductor.timeline = [
+			playlist,
+			{
+				id: 'video0',
+				enable: {
+					start: 15100
+				},
+				layer: 'myLayer1',
+				content: {
+					deviceType: DeviceType.CASPARCG,
+					type: TimelineContentTypeCasparCg.MEDIA,
+					file: 'AMB'
+				}
+			}
+		]
+		await mockTime.advanceTimeToTicks(16500)
+		expect(commandReceiver0).toHaveBeenCalledTimes(2)
+		expect(getMockCall(commandReceiver0, 0, 1).name).toEqual('PlayCommand')
+		expect(getMockCall(commandReceiver0, 0, 1)._objectParams).toMatchObject({
+			layer: 20,
+			clip: 'AMB'
+		})
+		// The clip after the second one is still loaded:
+		expect(getMockCall(commandReceiver0, 1, 0)).toEqual(16000)
+		expect(getMockCall(commandReceiver0, 1, 1).name).toEqual('LoadbgCommand')
+		expect(getMockCall(commandReceiver0, 1, 1)._objectParams).toMatchObject({
+			layer: 10,
+			clip: 'BUMPER2',
+			auto: true
+		})
+
+		await myConductor.destroy()
+	})
+	test('CasparCG: Simulation mode', async () => {
+		let myLayerMapping: Mappings = {
+			'myLayer0': literal<MappingCasparCG>({
+				device: DeviceType.CASPARCG,
+				deviceId: 'myCCG',
+				channel: 2,
+				layer: 42
+			})
+		}
+
+		let myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime,
+			simulation: true
+		})
+		await myConductor.init()
+		await myConductor.setMapping(myLayerMapping)
+		// @ts-ignore MockCasparCG
+		const instanceCount = MockCasparCG.instances.length
+		await myConductor.addDevice('myCCG', {
+			type: DeviceType.CASPARCG,
+			options: {
+				host: '127.0.0.1',
+				useScheduling: false
+			}
+		})
+		// No connection is made to the server:
+		// @ts-ignore MockCasparCG
+		expect(MockCasparCG.instances).toHaveLength(instanceCount)
+
+		myConductor.timeline = [
+			{
+				id: 'obj0',
+				enable: {
+					start: 11000,
+					duration: 2000
+				},
+				layer: 'myLayer0',
+				content: {
+					deviceType: DeviceType.CASPARCG,
+					type: TimelineContentTypeCasparCg.MEDIA,
+
+					file: 'AMB',
+					loop: true
+				}
+			}
+		]
+
+		await mockTime.advanceTimeToTicks(14000)
+
+		const commands = myConductor.getSimulatedCommands()
+		expect(commands).toHaveLength(2)
+		expect(commands[0]).toMatchObject({
+			time: 11000,
+			deviceId: 'myCCG',
+			command: { timelineObjId: 'obj0' }
+		})
+		expect(commands[0].command.command._objectParams).toMatchObject({
+			channel: 2,
+			layer: 42,
+			clip: 'AMB',
+			loop: true
+		})
+		expect(commands[1]).toMatchObject({
+			time: 13000,
+			deviceId: 'myCCG'
+		})
+		expect(commands[1].command.command.name).toEqual('ClearCommand')
+
+		await myConductor.destroy()
+	})
 })
@@ -0,0 +1,220 @@
+import { Socket as MockSocket } from 'dgram'
+import {
+	Mappings,
+	DeviceType,
+	MappingDMX,
+	DMXProtocol,
+	TimelineContentTypeDMX,
+	DMXMergeMode
+} from '../../types/src'
+import { MockTime } from '../../__tests__/mockTime'
+import { setupConductor } from '../../__tests__/lib'
+import { encodeArtDMX, encodeSACN } from '../dmxAPI'
+
+jest.mock('dgram')
+
+describe('DMX', () => {
+	let mockTime = new MockTime()
+	beforeAll(() => {
+		mockTime.mockDateNow()
+	})
+	beforeEach(() => {
+		mockTime.init()
+	})
+	function setupDMXMock () {
+		const onPacket = jest.fn((_packet: Buffer, _port: number, _host: string) => {
+			// console.log('onPacket', _packet, _port, _host)
+		})
+		// @ts-ignore MockSocket
+		MockSocket.mockOnNextSocket((socket: any) => {
+			socket.onSend = onPacket
+		})
+		return { onPacket }
+	}
+	function getMappings (universe: number): Mappings {
+		let myLayerMapping: Mappings = {}
+		for (let i = 0; i < 3; i++) {
+			myLayerMapping['dmx' + i] = {
+				device: DeviceType.DMX,
+				deviceId: 'myDMX',
+				universe: universe
+			} as MappingDMX
+		}
+		return myLayerMapping
+	}
+	/** Returns the channel data of the last ArtDMX packet */
+	function getLastArtNetData (onPacket: jest.Mock): number[] {
+		const packet: Buffer = onPacket.mock.calls[onPacket.mock.calls.length - 1][0]
+		return [0, ...packet.slice(18)] // so that the channels are numbered from 1
+	}
+	test('Art-Net', async () => {
+		const { onPacket } = setupDMXMock()
+		const { myConductor, commandReceiver0, errorHandler } = await setupConductor(mockTime, 'myDMX', {
+			type: DeviceType.DMX,
+			options: { protocol: DMXProtocol.ARTNET, refreshRate: 25 }
+		}, getMappings(0))
+
+		await mockTime.advanceTimeToTicks(10100)
+		myConductor.timeline = [
+			{
+				id: 'channels0',
+				enable: {
+					start: 11000,
+					duration: 2000
+				},
+				layer: 'dmx0',
+				content: {
+					deviceType: DeviceType.DMX,
+					type: TimelineContentTypeDMX.CHANNELS,
+					channels: {
+						1: 255,
+						2: 100
+					},
+					fade: {
+						duration: 1000,
+						type: 'Linear',
+						direction: 'None'
+					}
+				}
+			},
+			{
+				id: 'fixtures0',
+				enable: {
+					start: 11000,
+					duration: 3000
+				},
+				layer: 'dmx1',
+				content: {
+					deviceType: DeviceType.DMX,
+					type: TimelineContentTypeDMX.FIXTURES,
+					fixtures: [10, 13],
+					values: [50, 60, 70]
+				}
+			},
+			{
+				id: 'htp0',
+				enable: {
+					start: 11000,
+					duration: 3000
+				},
+				priority: 1,
+				layer: 'dmx2',
+				content: {
+					deviceType: DeviceType.DMX,
+					type: TimelineContentTypeDMX.CHANNELS,
+					merge: DMXMergeMode.HTP,
+					channels: {
+						1: 100,
+						2: 200
+					}
+				}
+			}
+		]
+
+		await mockTime.advanceTimeToTicks(11020)
+		expect(commandReceiver0).toHaveBeenCalledWith(11000, {
+			universe: 0,
+			channels: { 10: 50, 11: 60, 12: 70, 13: 50, 14: 60, 15: 70 },
+			fade: undefined
+		}, expect.any(String), 'fixtures0')
+		// The highest value of channel 2 is taken, channel 1 keeps the value of the object below:
+		expect(commandReceiver0).toHaveBeenCalledWith(11000, {
+			universe: 0,
+			channels: { 1: 255 },
+			fade: expect.objectContaining({ duration: 1000 })
+		}, expect.any(String), 'channels0')
+		expect(commandReceiver0).toHaveBeenCalledWith(11000, {
+			universe: 0,
+			channels: { 2: 200 },
+			fade: undefined
+		}, expect.any(String), 'htp0')
+
+		// The universe is sent continuously:
+		onPacket.mockClear()
+		await mockTime.advanceTimeToTicks(11520)
+		expect(onPacket.mock.calls.length).toBeGreaterThanOrEqual(12)
+		expect(onPacket).toHaveBeenLastCalledWith(expect.any(Buffer), 6454, '255.255.255.255')
+
+		// Halfway through the fade:
+		let data = getLastArtNetData(onPacket)
+		expect(data[1]).toBeGreaterThan(100)
+		expect(data[1]).toBeLessThan(155)
+		expect(data[2]).toEqual(200)
+		expect(data.slice(10, 16)).toEqual([50, 60, 70, 50, 60, 70])
+
+		await mockTime.advanceTimeToTicks(12100)
+		data = getLastArtNetData(onPacket)
+		expect(data[1]).toEqual(255)
+
+		// The channels fade back to 0 when the object ends:
+		await mockTime.advanceTimeToTicks(14100)
+		data = getLastArtNetData(onPacket)
+		expect(data[1]).toEqual(0)
+		expect(data[2]).toEqual(0)
+		expect(data[10]).toEqual(0)
+
+		expect(errorHandler).toHaveBeenCalledTimes(0)
+		await myConductor.destroy()
+	})
+	test('sACN', async () => {
+		const { onPacket } = setupDMXMock()
+		const { myConductor, errorHandler } = await setupConductor(mockTime, 'myDMX', {
+			type: DeviceType.DMX,
+			options: { protocol: DMXProtocol.SACN, refreshRate: 25 }
+		}, getMappings(300))
+
+		await mockTime.advanceTimeToTicks(10100)
+		myConductor.timeline = [
+			{
+				id: 'channels0',
+				enable: {
+					start: 11000,
+					duration: 2000
+				},
+				layer: 'dmx0',
+				content: {
+					deviceType: DeviceType.DMX,
+					type: TimelineContentTypeDMX.CHANNELS,
+					channels: {
+						512: 128
+					}
+				}
+			}
+		]
+		await mockTime.advanceTimeToTicks(11100)
+		expect(onPacket).toHaveBeenLastCalledWith(expect.any(Buffer), 5568, '239.255.1.44')
+
+		const packet: Buffer = onPacket.mock.calls[onPacket.mock.calls.length - 1][0]
+		expect(packet.length).toEqual(638)
+		expect(packet.readUInt16BE(113)).toEqual(300)
+		expect(packet.toString('ascii', 44, 47)).toEqual('TSR')
+		expect(packet[637]).toEqual(128)
+
+		expect(errorHandler).toHaveBeenCalledTimes(0)
+		await myConductor.destroy()
+	})
+	test('Packets', () => {
+		const data = Buffer.alloc(512)
+		data[0] = 255
+
+		const artDMX = encodeArtDMX(0x123, 7, data)
+		expect([...artDMX.slice(0, 19)]).toEqual([
+			0x41, 0x72, 0x74, 0x2d, 0x4e, 0x65, 0x74, 0x00, // Art-Net
+			0x00, 0x50, // OpDmx
+			0x00, 0x0e, // version
+			7, 0, 0x23, 0x01, // sequence, physical, universe
+			0x02, 0x00, // length
+			255
+		])
+
+		const cid = Buffer.alloc(16, 0xab)
+		const sacn = encodeSACN(1, 3, data, cid, 'Playout', 150)
+		expect(sacn.readUInt16BE(16)).toEqual(0x7000 | 622)
+		expect(sacn.readUInt16BE(38)).toEqual(0x7000 | 600)
+		expect(sacn.readUInt16BE(115)).toEqual(0x7000 | 523)
+		expect(sacn.slice(22, 38)).toEqual(cid)
+		expect(sacn[108]).toEqual(150)
+		expect(sacn[111]).toEqual(3)
+		expect(sacn[126]).toEqual(255)
+	})
+})
@@ -192,4 +192,76 @@ describe('HTTP-Send', () => {
 		expect(commandReceiver0).toHaveBeenNthCalledWith(2, expect.anything(), expect.objectContaining({ url: 'http://superfly.tv/3' }), expect.anything(), expect.stringContaining('obj2'))
 		expect(commandReceiver0).toHaveBeenNthCalledWith(3, expect.anything(), expect.objectContaining({ url: 'http://superfly.tv/2' }), expect.anything(), expect.stringContaining('obj1'))
 	})
+	test('Retry failed commands', async () => {
+		const commandReceiver0: any = jest.fn(() => {
+			return Promise.reject(new Error('Network error'))
+		})
+		let myLayerMapping0: MappingHTTPSend = {
+			device: DeviceType.HTTPSEND,
+			deviceId: 'myHTTP'
+		}
+		let myLayerMapping: Mappings = {
+			'myLayer0': myLayerMapping0
+		}
+
+		let myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime
+		})
+		await myConductor.init()
+		await myConductor.addDevice('myHTTP', {
+			type: DeviceType.HTTPSEND,
+			retryPolicy: {
+				maxAttempts: 3,
+				retryDelay: 100
+			},
+			options: {
+				commandReceiver: commandReceiver0
+			}
+		})
+		await myConductor.setMapping(myLayerMapping)
+		await mockTime.advanceTimeToTicks(10100)
+
+		let deviceContainer = myConductor.getDevice('myHTTP')
+		let device = deviceContainer.device as ThreadedClass<HTTPSendDevice>
+
+		const onCommandError = jest.fn()
+		const onError = jest.fn()
+		await device.on('commandError', onCommandError)
+		await device.on('error', onError)
+
+		myConductor.timeline = [
+			{
+				id: 'obj0',
+				enable: {
+					start: mockTime.now + 1000, // in 1 second
+					duration: 2000
+				},
+				layer: 'myLayer0',
+				content: {
+					deviceType: DeviceType.HTTPSEND,
+					type: TimelineContentTypeHTTP.POST,
+
+					url: 'http://superfly.tv',
+					params: {}
+				}
+			}
+		]
+		await mockTime.advanceTimeToTicks(11500)
+
+		expect(commandReceiver0).toHaveBeenCalledTimes(3)
+		expect(onError).toHaveBeenCalledTimes(0)
+		expect(onCommandError).toHaveBeenCalledTimes(1)
+		expect(onCommandError).toBeCalledWith(
+			new Error('Network error'),
+			expect.objectContaining({
+				timelineObjId: 'obj0',
+				command: expect.objectContaining({ url: 'http://superfly.tv' })
+			}),
+			expect.objectContaining({
+				plannedSend: 11100,
+				attempts: 3
+			})
+		)
+	})
 })
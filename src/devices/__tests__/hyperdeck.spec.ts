@@ -141,4 +141,83 @@ describe('Hyperdeck', () => {
 		expect(commandReceiver0).toHaveBeenCalledTimes(2)
 		// no new commands should have been sent, becuse obj2 is the same as obj1
 	})
+	test('Hyperdeck: State drift', async () => {
+		const commandReceiver0: any = jest.fn(() => {
+			return Promise.resolve()
+		})
+		let myChannelMapping: Mappings = {
+			'hyperdeck0_transport': myChannelMapping0
+		}
+
+		let myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime
+		})
+		await myConductor.setMapping(myChannelMapping)
+
+		await myConductor.init()
+		await myConductor.addDevice('hyperdeck0', {
+			type: DeviceType.HYPERDECK,
+			correctStateDrift: true,
+			options: {
+				host: '127.0.0.1',
+				port: 9993,
+				commandReceiver: commandReceiver0
+			}
+		})
+		await mockTime.advanceTimeToTicks(10100)
+
+		let hyperdeckInstances = Hyperdeck.getMockInstances()
+		let hyperdeckMock: Hyperdeck = hyperdeckInstances[hyperdeckInstances.length - 1]
+
+		let device = myConductor.getDevice('hyperdeck0').device as ThreadedClass<HyperdeckDevice>
+		const onStateDrift = jest.fn()
+		await device.on('stateDrift', onStateDrift)
+
+		myConductor.timeline = [
+			{
+				id: 'obj0',
+				enable: {
+					start: 10000,
+					duration: 10000
+				},
+				layer: 'hyperdeck0_transport',
+				content: {
+					deviceType: DeviceType.HYPERDECK,
+					type: TimelineContentTypeHyperdeck.TRANSPORT,
+
+					status: TransportStatus.RECORD,
+					recordFilename: 'sofie_dev'
+				}
+			}
+		]
+		await mockTime.advanceTimeToTicks(10200)
+		expect(commandReceiver0).toHaveBeenCalledTimes(1)
+		expect(getMockCall(commandReceiver0, 0, 1)).toBeInstanceOf(RecordCommand)
+
+		// The Hyperdeck reports that it is recording:
+		hyperdeckMock.emit('notify.transport', { status: TransportStatus.RECORD })
+		await mockTime.advanceTimeToTicks(12000)
+		expect(onStateDrift).toHaveBeenCalledTimes(0)
+
+		// Someone stops the recording manually:
+		hyperdeckMock.emit('notify.transport', { status: TransportStatus.PREVIEW })
+		await mockTime.advanceTimeToTicks(12100)
+
+		expect(onStateDrift).toHaveBeenCalledTimes(1)
+		expect(onStateDrift.mock.calls[0][0]).toMatch(/recording/)
+
+		// The recording should have been restarted:
+		expect(commandReceiver0).toHaveBeenCalledTimes(2)
+		expect(getMockCall(commandReceiver0, 1, 1)).toBeInstanceOf(RecordCommand)
+		expect(getMockCall(commandReceiver0, 1, 1)).toHaveProperty('filename', 'sofie_dev')
+
+		// The same drift is only reported once:
+		hyperdeckMock.emit('notify.transport', { status: TransportStatus.PREVIEW })
+		await mockTime.advanceTimeToTicks(12200)
+		expect(onStateDrift).toHaveBeenCalledTimes(1)
+		expect(commandReceiver0).toHaveBeenCalledTimes(2)
+
+		await myConductor.destroy()
+	})
 })
@@ -10,6 +10,7 @@ import {
 import { MockTime } from '../../__tests__/mockTime'
 import { ThreadedClass } from 'threadedclass'
 import { getMockCall } from '../../__tests__/lib'
+import { Node as MockNode } from '../../__mocks__/emberplus'
 
 describe('Lawo', () => {
 	let mockTime = new MockTime()
@@ -507,4 +508,89 @@ describe('Lawo', () => {
 			}
 		)
 	})
+	test('Lawo: State drift', async () => {
+		const faderPath = 'Sapphire.Sources.RM1.Fader.Motor dB Value'
+		const faderNode = new MockNode(faderPath)
+		const originalValue = faderNode.contents.value
+
+		const setValueFn: any = jest.fn((command) => {
+			new MockNode(command.path).contents.value = command.value
+			return Promise.resolve()
+		})
+		let myChannelMapping: Mappings = {
+			'lawo_c1_fader': {
+				device: DeviceType.LAWO,
+				deviceId: 'myLawo',
+				mappingType: MappingLawoType.SOURCE,
+				identifier: 'RM1'
+			} as MappingLawo
+		}
+
+		let myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime
+		})
+		await myConductor.setMapping(myChannelMapping)
+		await myConductor.init()
+		await myConductor.addDevice('myLawo', {
+			type: DeviceType.LAWO,
+			correctStateDrift: true,
+			options: {
+				host: '160.67.96.51',
+				port: 9000,
+				setValueFn: setValueFn,
+				sourcesPath: 'Sapphire.Sources'
+			}
+		})
+		await mockTime.advanceTimeToTicks(10100)
+
+		let device = myConductor.getDevice('myLawo').device as ThreadedClass<LawoDevice>
+		const onStateDrift = jest.fn()
+		await device.on('stateDrift', onStateDrift)
+
+		myConductor.timeline = [
+			{
+				id: 'obj0',
+				enable: {
+					start: 10000,
+					duration: 10000
+				},
+				layer: 'lawo_c1_fader',
+				content: {
+					deviceType: DeviceType.LAWO,
+					type: TimelineContentTypeLawo.SOURCE,
+
+					'Fader/Motor dB Value': {
+						value: -6
+					}
+				}
+			}
+		]
+		await mockTime.advanceTimeToTicks(10200)
+		expect(setValueFn).toHaveBeenCalledTimes(1)
+		expect(faderNode.contents.value).toEqual(-6)
+
+		// Values within the tolerance are not a drift:
+		faderNode.contents.value = -6.2
+		await mockTime.advanceTimeToTicks(12500)
+		expect(onStateDrift).toHaveBeenCalledTimes(0)
+
+		// Someone moves the fader manually:
+		faderNode.contents.value = -20
+		await mockTime.advanceTimeToTicks(13500)
+
+		expect(onStateDrift).toHaveBeenCalledTimes(1)
+		expect(onStateDrift.mock.calls[0][0]).toMatch(/-20/)
+
+		// The fader should have been set back:
+		expect(setValueFn).toHaveBeenCalledTimes(2)
+		expect(getMockCall(setValueFn, 1, 0)).toMatchObject({
+			path: faderPath,
+			value: -6
+		})
+		expect(faderNode.contents.value).toEqual(-6)
+
+		await myConductor.destroy()
+		faderNode.contents.value = originalValue
+	})
 })
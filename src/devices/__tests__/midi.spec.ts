@@ -0,0 +1,252 @@
+import { setupRTPMIDIMock } from './rtpMidiMock'
+import {
+	Mappings,
+	DeviceType,
+	MappingMIDI,
+	TimelineContentTypeMIDI,
+	MSCCommand,
+	MIDICommandType
+} from '../../types/src'
+import { MockTime } from '../../__tests__/mockTime'
+import { setupConductor } from '../../__tests__/lib'
+import { MIDIDevice } from '../midi'
+import { StatusCode } from '../device'
+import { getMIDIBytes, RTPMIDISession } from '../rtpMidiAPI'
+
+jest.mock('dgram')
+
+describe('MIDI', () => {
+	let mockTime = new MockTime()
+	beforeAll(() => {
+		mockTime.mockDateNow()
+	})
+	beforeEach(() => {
+		mockTime.init()
+	})
+	function getMappings (): Mappings {
+		let myLayerMapping: Mappings = {}
+		for (let i = 0; i < 3; i++) {
+			myLayerMapping['midi' + i] = {
+				device: DeviceType.MIDI,
+				deviceId: 'myMIDI'
+			} as MappingMIDI
+		}
+		return myLayerMapping
+	}
+	test('Notes, controllers and programs', async () => {
+		const { onInvite, onBye, onMIDI } = setupRTPMIDIMock()
+		const { myConductor, device, commandReceiver0, errorHandler } = await setupConductor<MIDIDevice>(mockTime, 'myMIDI', {
+			type: DeviceType.MIDI,
+			options: { host: '127.0.0.1', sessionName: 'Playout' }
+		}, getMappings())
+
+		// Both the control and the data port are invited:
+		expect(onInvite).toHaveBeenCalledTimes(2)
+		expect(onInvite).toHaveBeenNthCalledWith(1, 5004, 'Playout')
+		expect(onInvite).toHaveBeenNthCalledWith(2, 5005, 'Playout')
+		expect((await device.getStatus()).statusCode).toEqual(StatusCode.GOOD)
+
+		await mockTime.advanceTimeToTicks(10100)
+		myConductor.timeline = [
+			{
+				id: 'note0',
+				enable: {
+					start: 11000,
+					duration: 2000
+				},
+				layer: 'midi0',
+				content: {
+					deviceType: DeviceType.MIDI,
+					type: TimelineContentTypeMIDI.NOTE,
+					channel: 1,
+					note: 60,
+					velocity: 100
+				}
+			},
+			{
+				id: 'program0',
+				enable: {
+					start: 11000,
+					duration: 2000
+				},
+				layer: 'midi1',
+				content: {
+					deviceType: DeviceType.MIDI,
+					type: TimelineContentTypeMIDI.PROGRAM_CHANGE,
+					channel: 2,
+					program: 5
+				}
+			},
+			{
+				id: 'fader0',
+				enable: {
+					start: 11000,
+					duration: 2000
+				},
+				layer: 'midi2',
+				content: {
+					deviceType: DeviceType.MIDI,
+					type: TimelineContentTypeMIDI.CONTROL_CHANGE,
+					channel: 1,
+					controller: 7,
+					value: 127,
+					from: 0,
+					transition: {
+						duration: 1000,
+						type: 'Linear',
+						direction: 'None'
+					}
+				}
+			}
+		]
+
+		await mockTime.advanceTimeToTicks(11020)
+		expect(commandReceiver0).toHaveBeenCalledTimes(3)
+		expect(commandReceiver0).toHaveBeenCalledWith(11000, {
+			type: MIDICommandType.NOTE_ON,
+			channel: 1,
+			note: 60,
+			velocity: 100
+		}, expect.any(String), 'note0')
+		expect(commandReceiver0).toHaveBeenCalledWith(11000, {
+			type: MIDICommandType.PROGRAM_CHANGE,
+			channel: 2,
+			program: 5
+		}, expect.any(String), 'program0')
+		expect(onMIDI).toHaveBeenCalledWith([0x90, 60, 100])
+		expect(onMIDI).toHaveBeenCalledWith([0xc1, 5])
+		// The transition starts at the from-value:
+		expect(onMIDI).toHaveBeenCalledWith([0xb0, 7, 0])
+
+		// Halfway through the transition:
+		onMIDI.mockClear()
+		await mockTime.advanceTimeToTicks(11520)
+		const faderValues = onMIDI.mock.calls.map(call => call[0][2])
+		expect(faderValues.length).toBeGreaterThan(5)
+		expect(faderValues[faderValues.length - 1]).toBeGreaterThan(50)
+		expect(faderValues[faderValues.length - 1]).toBeLessThan(80)
+
+		// The transition ends at the value:
+		await mockTime.advanceTimeToTicks(12100)
+		expect(onMIDI).toHaveBeenLastCalledWith([0xb0, 7, 127])
+
+		// The note is turned off when the object ends, the others are left as is:
+		onMIDI.mockClear()
+		await mockTime.advanceTimeToTicks(13100)
+		expect(onMIDI).toHaveBeenCalledTimes(1)
+		expect(onMIDI).toHaveBeenCalledWith([0x80, 60, 0])
+
+		expect(errorHandler).toHaveBeenCalledTimes(0)
+		await myConductor.destroy()
+		expect(onBye).toHaveBeenCalledTimes(1)
+	})
+	test('MIDI Show Control', async () => {
+		const { onMIDI } = setupRTPMIDIMock()
+		const { myConductor, commandReceiver0, errorHandler } = await setupConductor<MIDIDevice>(mockTime, 'myMIDI', {
+			type: DeviceType.MIDI,
+			options: { host: '127.0.0.1', sessionName: 'Playout' }
+		}, getMappings())
+
+		await mockTime.advanceTimeToTicks(10100)
+		myConductor.timeline = [
+			{
+				id: 'go0',
+				enable: {
+					start: 11000,
+					duration: 1000
+				},
+				layer: 'midi0',
+				content: {
+					deviceType: DeviceType.MIDI,
+					type: TimelineContentTypeMIDI.MSC,
+					command: MSCCommand.GO,
+					cue: '12.5',
+					list: '1'
+				}
+			},
+			{
+				id: 'stop0',
+				enable: {
+					start: 12000,
+					duration: 1000
+				},
+				layer: 'midi0',
+				content: {
+					deviceType: DeviceType.MIDI,
+					type: TimelineContentTypeMIDI.MSC,
+					command: MSCCommand.STOP,
+					mscDeviceId: 3
+				}
+			}
+		]
+
+		await mockTime.advanceTimeToTicks(11100)
+		expect(commandReceiver0).toHaveBeenCalledTimes(1)
+		expect(onMIDI).toHaveBeenCalledTimes(1)
+		expect(onMIDI).toHaveBeenNthCalledWith(1, [
+			0xf0, 0x7f, 0x7f, 0x02, 0x01, 0x01,
+			0x31, 0x32, 0x2e, 0x35, 0x00, 0x31,
+			0xf7
+		])
+
+		await mockTime.advanceTimeToTicks(12100)
+		expect(onMIDI).toHaveBeenCalledTimes(2)
+		expect(onMIDI).toHaveBeenNthCalledWith(2, [0xf0, 0x7f, 0x03, 0x02, 0x01, 0x02, 0xf7])
+
+		// Nothing is sent when the object ends:
+		await mockTime.advanceTimeToTicks(13100)
+		expect(onMIDI).toHaveBeenCalledTimes(2)
+
+		expect(errorHandler).toHaveBeenCalledTimes(0)
+		await myConductor.destroy()
+	})
+	test('Timestamps after a long uptime', async () => {
+		const { onMIDI, onTimestamp } = setupRTPMIDIMock()
+		const session = new RTPMIDISession()
+		await session.connect('127.0.0.1')
+
+		// The timestamps are in units of 100 microseconds, passing 2^31 after about 60 hours:
+		mockTime.setNow(10000 + 60 * 3600 * 1000)
+		await session.send([0x90, 60, 100])
+		expect(onMIDI).toHaveBeenLastCalledWith([0x90, 60, 100])
+		expect(onTimestamp).toHaveBeenLastCalledWith(2160000000)
+
+		// And wrap around after 2^32:
+		mockTime.setNow(10000 + 120 * 3600 * 1000)
+		await session.send([0x80, 60, 0])
+		expect(onMIDI).toHaveBeenLastCalledWith([0x80, 60, 0])
+		expect(onTimestamp).toHaveBeenLastCalledWith(4320000000 - 0x100000000)
+
+		session.dispose()
+	})
+	test('Session started after the device', async () => {
+		const { session: mockSession, onInvite } = setupRTPMIDIMock()
+		mockSession.offline = true
+		const session = new RTPMIDISession()
+		const onError = jest.fn()
+		session.on('error', onError)
+		const sendInvitation = jest.spyOn(session as any, '_sendInvitation')
+
+		const connecting = expect(session.connect('127.0.0.1')).rejects.toThrow(/Unable to connect/)
+		await mockTime.advanceTimeTicks(3100)
+		await connecting
+		expect(session.connected).toEqual(false)
+		// The unanswered invitation has been given up on:
+		expect(sendInvitation).toHaveBeenCalledTimes(1)
+		await expect(sendInvitation.mock.results[0].value).rejects.toThrow(/Unable to connect/)
+
+		// The invitation is retried until the other end replies:
+		mockSession.offline = false
+		await mockTime.advanceTimeTicks(5000)
+		expect(onInvite).toHaveBeenCalledTimes(2)
+		expect(session.connected).toEqual(true)
+		expect(onError).toHaveBeenCalledTimes(0)
+
+		session.dispose()
+	})
+	test('MIDI messages', () => {
+		expect(getMIDIBytes({ type: MIDICommandType.NOTE_ON, channel: 16, note: 64, velocity: 127 })).toEqual([0x9f, 64, 127])
+		expect(getMIDIBytes({ type: MIDICommandType.CONTROL_CHANGE, channel: 3, controller: 1, value: 64 })).toEqual([0xb2, 1, 64])
+		expect(getMIDIBytes({ type: MIDICommandType.MSC, command: MSCCommand.RESET, commandFormat: 0x10 })).toEqual([0xf0, 0x7f, 0x7f, 0x02, 0x10, 0x0a, 0xf7])
+	})
+})
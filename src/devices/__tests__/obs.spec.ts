@@ -0,0 +1,282 @@
+jest.mock('ws')
+import {
+	Mappings,
+	DeviceType,
+	MappingOBS,
+	MappingOBSType,
+	TimelineContentTypeOBS,
+	OBSRequestName
+} from '../../types/src'
+import { MockTime } from '../../__tests__/mockTime'
+import { OBSDevice } from '../obs'
+import { StatusCode } from '../device'
+import { getMockCall, setupConductor } from '../../__tests__/lib'
+import { setupOBSMock } from './obsMock'
+
+describe('OBS', () => {
+	let mockTime = new MockTime()
+	beforeAll(() => {
+		mockTime.mockDateNow()
+	})
+	beforeEach(() => {
+		mockTime.init()
+	})
+	test('Scenes and transitions', async () => {
+		const { obsServer, onRequest, onAuthenticate } = setupOBSMock()
+		obsServer.password = 'secret'
+
+		let myLayerMapping: Mappings = {
+			'obs_scene': {
+				device: DeviceType.OBS,
+				deviceId: 'myOBS',
+				mappingType: MappingOBSType.CurrentScene
+			} as MappingOBS,
+			'obs_preview': {
+				device: DeviceType.OBS,
+				deviceId: 'myOBS',
+				mappingType: MappingOBSType.PreviewScene
+			} as MappingOBS,
+			'obs_transition': {
+				device: DeviceType.OBS,
+				deviceId: 'myOBS',
+				mappingType: MappingOBSType.CurrentTransition
+			} as MappingOBS
+		}
+		const { myConductor, device, commandReceiver0, errorHandler } = await setupConductor<OBSDevice>(mockTime, 'myOBS', {
+			type: DeviceType.OBS,
+			options: { host: '127.0.0.1', password: 'secret' }
+		}, myLayerMapping)
+
+		expect(onAuthenticate).toHaveBeenCalledTimes(1)
+		expect((await device.getStatus()).statusCode).toEqual(StatusCode.GOOD)
+
+		// Nothing is sent when there are no objects on the layers:
+		await mockTime.advanceTimeToTicks(10100)
+		expect(onRequest).toHaveBeenCalledTimes(0)
+
+		myConductor.timeline = [
+			{
+				id: 'transition0',
+				enable: {
+					start: 11000,
+					duration: 5000
+				},
+				layer: 'obs_transition',
+				content: {
+					deviceType: DeviceType.OBS,
+					type: TimelineContentTypeOBS.CURRENT_TRANSITION,
+					transitionName: 'Fade',
+					duration: 500
+				}
+			},
+			{
+				id: 'scene0',
+				enable: {
+					start: 11000,
+					duration: 5000
+				},
+				layer: 'obs_scene',
+				content: {
+					deviceType: DeviceType.OBS,
+					type: TimelineContentTypeOBS.CURRENT_SCENE,
+					sceneName: 'Studio'
+				}
+			},
+			{
+				id: 'preview0',
+				enable: {
+					start: 12000,
+					duration: 4000
+				},
+				layer: 'obs_preview',
+				content: {
+					deviceType: DeviceType.OBS,
+					type: TimelineContentTypeOBS.PREVIEW_SCENE,
+					sceneName: 'Remote'
+				}
+			}
+		]
+
+		await mockTime.advanceTimeToTicks(11100)
+		expect(commandReceiver0).toHaveBeenCalledTimes(3)
+		expect(commandReceiver0).toHaveBeenNthCalledWith(1, 11000, {
+			requestName: OBSRequestName.SET_CURRENT_TRANSITION,
+			args: { 'transition-name': 'Fade' }
+		}, expect.any(String), 'transition0')
+
+		expect(onRequest).toHaveBeenCalledTimes(3)
+		expect(onRequest).toHaveBeenNthCalledWith(1, 'SetCurrentTransition', { 'transition-name': 'Fade' })
+		expect(onRequest).toHaveBeenNthCalledWith(2, 'SetTransitionDuration', { 'duration': 500 })
+		expect(onRequest).toHaveBeenNthCalledWith(3, 'SetCurrentScene', { 'scene-name': 'Studio' })
+
+		// Setting a preview scene enables studio mode:
+		await mockTime.advanceTimeToTicks(12100)
+		expect(onRequest).toHaveBeenCalledTimes(5)
+		expect(onRequest).toHaveBeenNthCalledWith(4, 'EnableStudioMode', {})
+		expect(onRequest).toHaveBeenNthCalledWith(5, 'SetPreviewScene', { 'scene-name': 'Remote' })
+
+		// Scenes and transitions are left as they are when the objects end:
+		await mockTime.advanceTimeToTicks(17000)
+		expect(onRequest).toHaveBeenCalledTimes(5)
+
+		expect(errorHandler).toHaveBeenCalledTimes(0)
+		await myConductor.destroy()
+	})
+	test('Sources, recording and streaming', async () => {
+		const { obsServer, onRequest, onAuthenticate, onGetStreamingStatus } = setupOBSMock()
+		// OBS is already streaming, but not recording:
+		obsServer.streaming = true
+
+		let myLayerMapping: Mappings = {
+			'obs_render': {
+				device: DeviceType.OBS,
+				deviceId: 'myOBS',
+				mappingType: MappingOBSType.SourceRender,
+				sceneName: 'Studio',
+				source: 'Lower third'
+			} as MappingOBS,
+			'obs_settings': {
+				device: DeviceType.OBS,
+				deviceId: 'myOBS',
+				mappingType: MappingOBSType.SourceSettings,
+				source: 'Clip'
+			} as MappingOBS,
+			'obs_mute': {
+				device: DeviceType.OBS,
+				deviceId: 'myOBS',
+				mappingType: MappingOBSType.Mute,
+				source: 'Mic'
+			} as MappingOBS,
+			'obs_recording': {
+				device: DeviceType.OBS,
+				deviceId: 'myOBS',
+				mappingType: MappingOBSType.Recording
+			} as MappingOBS,
+			'obs_streaming': {
+				device: DeviceType.OBS,
+				deviceId: 'myOBS',
+				mappingType: MappingOBSType.Streaming
+			} as MappingOBS
+		}
+		const { myConductor, device, errorHandler } = await setupConductor<OBSDevice>(mockTime, 'myOBS', {
+			type: DeviceType.OBS,
+			options: { host: '127.0.0.1' }
+		}, myLayerMapping)
+		expect(onAuthenticate).toHaveBeenCalledTimes(0)
+		expect(onGetStreamingStatus).toHaveBeenCalledTimes(1)
+
+		// The mapped source is hidden, and the outputs that are running are stopped initially:
+		await mockTime.advanceTimeToTicks(10100)
+		expect(onRequest).toHaveBeenCalledTimes(2)
+		expect(onRequest).toHaveBeenNthCalledWith(1, 'SetSceneItemRender', { 'scene-name': 'Studio', source: 'Lower third', render: false })
+		expect(onRequest).toHaveBeenNthCalledWith(2, 'StopStreaming', {})
+		onRequest.mockClear()
+
+		// The status of the outputs is read again when making ready, nothing needs to be stopped:
+		obsServer.streaming = false
+		await device.makeReady(true)
+		expect(onGetStreamingStatus).toHaveBeenCalledTimes(2)
+		myConductor.resetResolver()
+		await mockTime.advanceTimeToTicks(10200)
+		expect(onRequest).toHaveBeenCalledTimes(1)
+		expect(onRequest).toHaveBeenNthCalledWith(1, 'SetSceneItemRender', { 'scene-name': 'Studio', source: 'Lower third', render: false })
+		onRequest.mockClear()
+
+		myConductor.timeline = [
+			{
+				id: 'render0',
+				enable: {
+					start: 11000,
+					duration: 1000
+				},
+				layer: 'obs_render',
+				content: {
+					deviceType: DeviceType.OBS,
+					type: TimelineContentTypeOBS.SOURCE_RENDER,
+					render: true
+				}
+			},
+			{
+				id: 'settings0',
+				enable: {
+					start: 11000,
+					duration: 5000
+				},
+				layer: 'obs_settings',
+				content: {
+					deviceType: DeviceType.OBS,
+					type: TimelineContentTypeOBS.SOURCE_SETTINGS,
+					sourceType: 'ffmpeg_source',
+					sourceSettings: {
+						local_file: 'C:/clips/amb.mp4'
+					}
+				}
+			},
+			{
+				id: 'mute0',
+				enable: {
+					start: 11000,
+					duration: 5000
+				},
+				layer: 'obs_mute',
+				content: {
+					deviceType: DeviceType.OBS,
+					type: TimelineContentTypeOBS.MUTE,
+					mute: true
+				}
+			},
+			{
+				id: 'recording0',
+				enable: {
+					start: 11000,
+					duration: 2000
+				},
+				layer: 'obs_recording',
+				content: {
+					deviceType: DeviceType.OBS,
+					type: TimelineContentTypeOBS.RECORDING,
+					on: true
+				}
+			},
+			{
+				id: 'streaming0',
+				enable: {
+					start: 11000,
+					duration: 5000
+				},
+				layer: 'obs_streaming',
+				content: {
+					deviceType: DeviceType.OBS,
+					type: TimelineContentTypeOBS.STREAMING,
+					on: true
+				}
+			}
+		]
+
+		await mockTime.advanceTimeToTicks(11100)
+		expect(onRequest).toHaveBeenCalledTimes(5)
+		expect(onRequest).toHaveBeenNthCalledWith(1, 'SetSourceSettings', {
+			sourceName: 'Clip',
+			sourceType: 'ffmpeg_source',
+			sourceSettings: { local_file: 'C:/clips/amb.mp4' }
+		})
+		expect(onRequest).toHaveBeenNthCalledWith(2, 'SetSceneItemRender', { 'scene-name': 'Studio', source: 'Lower third', render: true })
+		expect(onRequest).toHaveBeenNthCalledWith(3, 'SetMute', { source: 'Mic', mute: true })
+		expect(onRequest).toHaveBeenNthCalledWith(4, 'StartRecording', {})
+		expect(onRequest).toHaveBeenNthCalledWith(5, 'StartStreaming', {})
+
+		await mockTime.advanceTimeToTicks(12100)
+		expect(onRequest).toHaveBeenCalledTimes(6)
+		expect(onRequest).toHaveBeenNthCalledWith(6, 'SetSceneItemRender', { 'scene-name': 'Studio', source: 'Lower third', render: false })
+
+		// Errors reported by OBS are command errors:
+		obsServer.requestError = 'recording not active'
+		await mockTime.advanceTimeToTicks(13100)
+		expect(onRequest).toHaveBeenCalledTimes(7)
+		expect(onRequest).toHaveBeenNthCalledWith(7, 'StopRecording', {})
+		expect(errorHandler).toHaveBeenCalledTimes(1)
+		expect(getMockCall(errorHandler, 0, 0).message).toMatch(/OBS: recording not active/)
+
+		await myConductor.destroy()
+	})
+})
@@ -0,0 +1,72 @@
+import * as _ from 'underscore'
+import * as crypto from 'crypto'
+import * as WebSocket from '../../__mocks__/ws'
+
+/*
+	This file mocks the server-side part of obs-websocket (protocol version 4)
+	https://github.com/Palakis/obs-websocket/blob/4.x-current/docs/generated/protocol.md
+*/
+
+export interface OBSServerMockOptions {
+	/** If set, the server requires authentication with this password */
+	password: string | null
+	/** If set, requests are replied to with this error */
+	requestError: string | null
+	/** The status of the outputs */
+	recording: boolean
+	streaming: boolean
+}
+const SALT = 'PZVbYpvAnZut2SS6JNJytDm9'
+const CHALLENGE = 'ztTBnnuqrqaKDzRM3xcVdbYm'
+
+export function setupOBSMock () {
+	const obsServer: OBSServerMockOptions = {
+		password: null,
+		requestError: null,
+		recording: false,
+		streaming: false
+	}
+	const onRequest = jest.fn((_requestType: string, _args: {[key: string]: any}) => {
+		// console.log('onRequest', _requestType, _args)
+	})
+	const onAuthenticate = jest.fn()
+	const onGetStreamingStatus = jest.fn()
+
+	WebSocket.mockConstructor((ws: WebSocket) => {
+		// @ts-ignore mock
+		ws.mockReplyFunction((message: string) => {
+			const request = JSON.parse(message)
+			const requestType: string = request['request-type']
+			const reply = {
+				'message-id': request['message-id'],
+				status: 'ok'
+			}
+
+			if (requestType === 'GetAuthRequired') {
+				if (!obsServer.password) return _.extend(reply, { authRequired: false })
+				return _.extend(reply, { authRequired: true, salt: SALT, challenge: CHALLENGE })
+			} else if (requestType === 'Authenticate') {
+				onAuthenticate(request.auth)
+				const secret = sha256Base64(obsServer.password + SALT)
+				if (request.auth === sha256Base64(secret + CHALLENGE)) return reply
+				return _.extend(reply, { status: 'error', error: 'Authentication Failed.' })
+			} else if (requestType === 'GetStreamingStatus') {
+				onGetStreamingStatus()
+				return _.extend(reply, { streaming: obsServer.streaming, recording: obsServer.recording })
+			}
+
+			onRequest(requestType, _.omit(request, 'request-type', 'message-id'))
+			if (obsServer.requestError) return _.extend(reply, { status: 'error', error: obsServer.requestError })
+			return reply
+		})
+	})
+	return {
+		obsServer,
+		onRequest,
+		onAuthenticate,
+		onGetStreamingStatus
+	}
+}
+function sha256Base64 (str: string): string {
+	return crypto.createHash('sha256').update(str).digest('base64')
+}
@@ -162,7 +162,8 @@ describe('Quantel', () => {
 		await mockTime.advanceTimeToTicks(10990)
 
 		expect(commandReceiver0).toHaveBeenCalledTimes(1)
-		expect(commandReceiver0).toHaveBeenNthCalledWith(1, 10150, expect.objectContaining({
+		// The clip is loaded right away when the new state is handled, as the last state of the device is from 10000:
+		expect(commandReceiver0).toHaveBeenNthCalledWith(1, 10115, expect.objectContaining({
 			type: QuantelCommandType.LOADCLIPFRAGMENTS
 		}), expect.any(String), expect.any(String))
 
@@ -336,7 +337,7 @@ describe('Quantel', () => {
 		await mockTime.advanceTimeToTicks(10990)
 
 		expect(commandReceiver0).toHaveBeenCalledTimes(1)
-		expect(commandReceiver0).toHaveBeenNthCalledWith(1, 10150, expect.objectContaining({
+		expect(commandReceiver0).toHaveBeenNthCalledWith(1, 10115, expect.objectContaining({
 			type: QuantelCommandType.LOADCLIPFRAGMENTS
 		}), expect.any(String), expect.any(String))
 
@@ -749,7 +750,7 @@ describe('Quantel', () => {
 		await mockTime.advanceTimeToTicks(10990)
 
 		expect(commandReceiver0).toHaveBeenCalledTimes(1)
-		expect(commandReceiver0).toHaveBeenNthCalledWith(1, 10150, expect.objectContaining({
+		expect(commandReceiver0).toHaveBeenNthCalledWith(1, 10115, expect.objectContaining({
 			type: QuantelCommandType.LOADCLIPFRAGMENTS
 		}), expect.any(String), expect.any(String))
 
@@ -946,7 +947,7 @@ describe('Quantel', () => {
 		await mockTime.advanceTimeToTicks(10990)
 
 		expect(commandReceiver0).toHaveBeenCalledTimes(1)
-		expect(commandReceiver0).toHaveBeenNthCalledWith(1, 10150, expect.objectContaining({
+		expect(commandReceiver0).toHaveBeenNthCalledWith(1, 10115, expect.objectContaining({
 			type: QuantelCommandType.LOADCLIPFRAGMENTS
 		}), expect.any(String), expect.any(String))
 
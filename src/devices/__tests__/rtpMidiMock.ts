@@ -0,0 +1,74 @@
+import { Socket as MockSocket } from 'dgram'
+import { encodeSessionPacket, encodeSyncPacket } from '../rtpMidiAPI'
+
+/*
+	This file mocks the server-side part of an RTP-MIDI (AppleMIDI) session
+*/
+
+export interface RTPMIDIMockOptions {
+	/** If true, invitations are rejected */
+	rejectInvitation: boolean
+	/** If true, the session doesn't reply at all (as if it hasn't been started yet) */
+	offline: boolean
+}
+function reply (socket: any, data: Buffer, port: number, host: string) {
+	Promise.resolve()
+	.then(() => socket.mockMessage(data, port, host))
+	.catch(console.error)
+}
+
+export function setupRTPMIDIMock () {
+	const session: RTPMIDIMockOptions = {
+		rejectInvitation: false,
+		offline: false
+	}
+	const ssrc = 0x12345678
+	const onInvite = jest.fn((_port: number, _name: string) => {
+		// console.log('onInvite', _port, _name)
+	})
+	const onBye = jest.fn()
+	const onMIDI = jest.fn((_bytes: number[]) => {
+		// console.log('onMIDI', _bytes)
+	})
+	const onTimestamp = jest.fn((_timestamp: number) => {
+		// console.log('onTimestamp', _timestamp)
+	})
+
+	const setupSocket = (socket: any) => {
+		socket.onSend = (msg: Buffer, port: number, host: string) => {
+			if (session.offline) return
+			if (msg[0] === 0xff && msg[1] === 0xff) {
+				const command = msg.toString('ascii', 2, 4)
+				if (command === 'IN') {
+					const name = msg.toString('utf8', 16, msg.length - 1)
+					onInvite(port, name)
+					reply(socket, encodeSessionPacket(session.rejectInvitation ? 'NO' : 'OK', msg.readUInt32BE(8), ssrc, 'MockSession'), port, host)
+				} else if (command === 'BY') {
+					onBye()
+				} else if (command === 'CK' && msg[8] === 0) {
+					reply(socket, encodeSyncPacket(ssrc, 1, [msg.readUInt32BE(16), 1, 0]), port, host)
+				}
+			} else if (msg[0] === 0x80 && msg[1] === 0x61) {
+				// An RTP-MIDI packet, with one MIDI message:
+				const header = msg[12]
+				const length = header & 0x80 ? ((header & 0x0f) << 8) | msg[13] : header & 0x0f
+				const start = header & 0x80 ? 14 : 13
+				onTimestamp(msg.readUInt32BE(4))
+				onMIDI(Array.from(msg.slice(start, start + length)))
+			}
+		}
+	}
+	// The control and the data socket:
+	// @ts-ignore MockSocket
+	MockSocket.mockOnNextSocket(setupSocket)
+	// @ts-ignore MockSocket
+	MockSocket.mockOnNextSocket(setupSocket)
+
+	return {
+		session,
+		onInvite,
+		onBye,
+		onMIDI,
+		onTimestamp
+	}
+}
@@ -1,4 +1,5 @@
 jest.mock('osc')
+import * as _ from 'underscore'
 import { Conductor } from '../../conductor'
 import {
 	Mappings,
@@ -10,6 +11,8 @@ import { ThreadedClass } from 'threadedclass'
 import { MappingSisyfos, TimelineContentTypeSisyfos } from '../../types/src/sisyfos'
 import { SisyfosMessageDevice } from '../sisyfos'
 import { getMockCall } from '../../__tests__/lib'
+import { StateStore, PersistedDeviceState } from '../../stateStore'
+import { StatusCode } from '../device'
 
 describe('Sisyfos', () => {
 	let mockTime = new MockTime()
@@ -337,6 +340,129 @@ describe('Sisyfos', () => {
 			value: false
 		})
 	})
+	test('Channel properties and several channels in one object', async () => {
+		const commandReceiver0: any = jest.fn(() => {
+			return Promise.resolve()
+		})
+		let myChannelMapping: Mappings = {
+			'sisyfos_channel_1': {
+				device: DeviceType.SISYFOS,
+				deviceId: 'mySisyfos',
+				channel: 0
+			} as MappingSisyfos,
+			'sisyfos_channel_2': {
+				device: DeviceType.SISYFOS,
+				deviceId: 'mySisyfos',
+				channel: 1
+			} as MappingSisyfos,
+			'sisyfos_scene': {
+				device: DeviceType.SISYFOS,
+				deviceId: 'mySisyfos',
+				channel: 0
+			} as MappingSisyfos
+		}
+
+		let myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime
+		})
+		await myConductor.setMapping(myChannelMapping)
+		await myConductor.init()
+		await myConductor.addDevice('mySisyfos', {
+			type: DeviceType.SISYFOS,
+			options: {
+				commandReceiver: commandReceiver0,
+				host: '127.0.0.1',
+				port: 1234
+			}
+		})
+		await mockTime.advanceTimeToTicks(10100)
+
+		myConductor.timeline = [
+			{
+				id: 'obj0',
+				enable: {
+					start: 11000,
+					duration: 2000
+				},
+				layer: 'sisyfos_channel_1',
+				content: {
+					deviceType: DeviceType.SISYFOS,
+					type: TimelineContentTypeSisyfos.SISYFOS,
+
+					faderLevel: 0.5,
+					fadeTime: 400,
+					label: 'Host',
+					mute: true
+				}
+			},
+			{
+				id: 'scene0',
+				enable: {
+					start: 12000,
+					duration: 2000
+				},
+				layer: 'sisyfos_scene',
+				content: {
+					deviceType: DeviceType.SISYFOS,
+					type: TimelineContentTypeSisyfos.CHANNELS,
+
+					channels: [
+						{
+							mappedLayer: 'sisyfos_channel_1',
+							pfl: true
+						},
+						{
+							mappedLayer: 'sisyfos_channel_2',
+							isPgm: true,
+							visible: false
+						}
+					]
+				}
+			}
+		]
+
+		await mockTime.advanceTimeToTicks(11100)
+		expect(commandReceiver0.mock.calls.length).toEqual(3)
+		expect(getMockCall(commandReceiver0, 0, 1)).toEqual({
+			type: 'setFader',
+			channel: 0,
+			value: 0.5,
+			fadeTime: 400
+		})
+		expect(getMockCall(commandReceiver0, 1, 1)).toEqual({
+			type: 'setLabel',
+			channel: 0,
+			value: 'Host'
+		})
+		expect(getMockCall(commandReceiver0, 2, 1)).toEqual({
+			type: 'setMute',
+			channel: 0,
+			value: true
+		})
+		commandReceiver0.mockClear()
+
+		await mockTime.advanceTimeToTicks(12100)
+		expect(commandReceiver0.mock.calls.length).toEqual(4)
+		expect(getMockCall(commandReceiver0, 0, 1)).toMatchObject({ type: 'togglePst', channel: 1, value: true })
+		expect(getMockCall(commandReceiver0, 1, 1)).toEqual({ type: 'setPfl', channel: 0, value: true })
+		expect(getMockCall(commandReceiver0, 2, 1)).toEqual({ type: 'setVisible', channel: 1, value: false })
+		expect(getMockCall(commandReceiver0, 3, 1)).toMatchObject({ type: 'take' })
+		commandReceiver0.mockClear()
+
+		// The fader level is reset when the objects end, the other properties are left as they are:
+		await mockTime.advanceTimeToTicks(13100)
+		expect(commandReceiver0.mock.calls.length).toEqual(1)
+		expect(getMockCall(commandReceiver0, 0, 1)).toEqual({ type: 'setFader', channel: 0, value: 0.75, fadeTime: undefined })
+		commandReceiver0.mockClear()
+
+		await mockTime.advanceTimeToTicks(14100)
+		expect(commandReceiver0.mock.calls.length).toEqual(2)
+		expect(getMockCall(commandReceiver0, 0, 1)).toMatchObject({ type: 'take' })
+		expect(getMockCall(commandReceiver0, 1, 1)).toMatchObject({ type: 'togglePst', channel: 1, value: false })
+
+		await myConductor.destroy()
+	})
 	test('Connection status', async () => {
 		const commandReceiver0: any = jest.fn(() => {
 			return Promise.resolve()
@@ -390,4 +516,346 @@ describe('Sisyfos', () => {
 		expect(await device.connected).toEqual(true)
 		expect(onConnectionChanged).toHaveBeenCalledTimes(2)
 	})
+	test('Restore persisted state', async () => {
+		const persistedStates: {[deviceId: string]: PersistedDeviceState} = {
+			'mySisyfos0': {
+				time: 5000,
+				state: {
+					channels: {
+						0: { faderLevel: 0.75, pgmOn: false, pstOn: false, tlObjIds: ['obj0'] },
+						1: { faderLevel: 0.75, pgmOn: false, pstOn: false, tlObjIds: ['obj1'] }
+					}
+				}
+			},
+			'mySisyfos1': {
+				time: 5000,
+				state: {
+					channels: {
+						// Doesn't match what Sisyfos reports:
+						0: { faderLevel: 0.5, pgmOn: false, pstOn: false, tlObjIds: ['obj0'] },
+						1: { faderLevel: 0.75, pgmOn: false, pstOn: false, tlObjIds: ['obj1'] }
+					}
+				}
+			}
+		}
+		const stateStore: StateStore = {
+			load: jest.fn((deviceId: string) => Promise.resolve(persistedStates[deviceId] || null)),
+			save: jest.fn((deviceId: string, persistedState: PersistedDeviceState) => {
+				persistedStates[deviceId] = persistedState
+				return Promise.resolve()
+			}),
+			remove: jest.fn((deviceId: string) => {
+				delete persistedStates[deviceId]
+				return Promise.resolve()
+			})
+		}
+
+		let myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime,
+			stateStore: stateStore
+		})
+		const onWarning = jest.fn()
+		myConductor.on('warning', onWarning)
+		await myConductor.init()
+		await myConductor.addDevice('mySisyfos0', {
+			type: DeviceType.SISYFOS,
+			options: {
+				commandReceiver: jest.fn(() => Promise.resolve()),
+				host: '127.0.0.1',
+				port: 1234
+			}
+		})
+		await myConductor.addDevice('mySisyfos1', {
+			type: DeviceType.SISYFOS,
+			options: {
+				commandReceiver: jest.fn(() => Promise.resolve()),
+				host: '127.0.0.1',
+				port: 1234
+			}
+		})
+		// A device that doesn't restore persisted states:
+		await myConductor.addDevice('myAbstract', {
+			type: DeviceType.ABSTRACT,
+			options: {
+				commandReceiver: jest.fn(() => Promise.resolve())
+			}
+		})
+		await mockTime.advanceTimeToTicks(10100)
+
+		expect(stateStore.load).toHaveBeenCalledTimes(2)
+
+		const getFirstSavedState = (deviceId: string): PersistedDeviceState => {
+			const call = _.find((stateStore.save as jest.Mock).mock.calls, call => call[0] === deviceId)
+			return call && call[1]
+		}
+		// The persisted state is valid, and should have been restored:
+		expect(getFirstSavedState('mySisyfos0').time).toBeGreaterThanOrEqual(10000)
+		expect(getFirstSavedState('mySisyfos0').state.channels[0].tlObjIds).toEqual(['obj0'])
+		expect(getFirstSavedState('mySisyfos0').state.channels[1].tlObjIds).toEqual(['obj1'])
+
+		// The persisted state is not valid, and the state from the device should have been used instead:
+		expect(getFirstSavedState('mySisyfos1').time).toBeGreaterThanOrEqual(10000)
+		expect(getFirstSavedState('mySisyfos1').state.channels[0]).toMatchObject({ faderLevel: 0.75, tlObjIds: [] })
+		expect(getFirstSavedState('mySisyfos1').state.channels[1]).toMatchObject({ faderLevel: 0.75, tlObjIds: [] })
+		expect(onWarning).toHaveBeenCalledTimes(1)
+
+		// Only the states that have gone on air are persisted, not the ones in the future:
+		await myConductor.setMapping({
+			'sisyfos_channel_1': {
+				device: DeviceType.SISYFOS,
+				deviceId: 'mySisyfos0',
+				channel: 0
+			} as MappingSisyfos
+		})
+		myConductor.timeline = [
+			{
+				id: 'obj2',
+				enable: {
+					start: 11000,
+					duration: 2000
+				},
+				layer: 'sisyfos_channel_1',
+				content: {
+					deviceType: DeviceType.SISYFOS,
+					type: TimelineContentTypeSisyfos.SISYFOS,
+					isPgm: true
+				}
+			}
+		]
+		await mockTime.advanceTimeToTicks(10900)
+		expect(persistedStates['mySisyfos0'].time).toBeLessThan(11000)
+		expect(persistedStates['mySisyfos0'].state.channels[0].tlObjIds).toEqual([])
+
+		await mockTime.advanceTimeToTicks(11100)
+		expect(persistedStates['mySisyfos0'].time).toEqual(11000)
+		expect(persistedStates['mySisyfos0'].state.channels[0]).toMatchObject({ pgmOn: true, tlObjIds: ['obj2'] })
+
+		// The device that doesn't restore persisted states doesn't persist them either:
+		expect(_.find((stateStore.save as jest.Mock).mock.calls, call => call[0] === 'myAbstract')).toBeUndefined()
+
+		// The state at the end of obj2 is not persisted once the devices are terminated:
+		const saveCount = (stateStore.save as jest.Mock).mock.calls.length
+		await myConductor.destroy()
+		await mockTime.advanceTimeToTicks(13100)
+		expect(stateStore.save).toHaveBeenCalledTimes(saveCount)
+		expect(persistedStates['mySisyfos0'].time).toEqual(11000)
+	})
+	test('State drift', async () => {
+		const commandReceiver0: any = jest.fn(() => {
+			return Promise.resolve()
+		})
+		let myChannelMapping: Mappings = {
+			'sisyfos_channel_1': {
+				device: DeviceType.SISYFOS,
+				deviceId: 'mySisyfos',
+				channel: 0
+			} as MappingSisyfos
+		}
+
+		let myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime
+		})
+		await myConductor.setMapping(myChannelMapping)
+		await myConductor.init()
+		await myConductor.addDevice('mySisyfos', {
+			type: DeviceType.SISYFOS,
+			correctStateDrift: true,
+			options: {
+				commandReceiver: commandReceiver0,
+				host: '127.0.0.1',
+				port: 1234
+			}
+		})
+		await mockTime.advanceTimeToTicks(10100)
+
+		const oscPorts = MockOSC.getMockInstances()
+		const oscPort = oscPorts[oscPorts.length - 1]
+
+		let device = myConductor.getDevice('mySisyfos').device as ThreadedClass<SisyfosMessageDevice>
+		const onStateDrift = jest.fn()
+		await device.on('stateDrift', onStateDrift)
+
+		myConductor.timeline = [
+			{
+				id: 'obj0',
+				enable: {
+					start: 10000,
+					duration: 10000
+				},
+				layer: 'sisyfos_channel_1',
+				content: {
+					deviceType: DeviceType.SISYFOS,
+					type: TimelineContentTypeSisyfos.SISYFOS,
+
+					isPgm: true
+				}
+			}
+		]
+		await mockTime.advanceTimeToTicks(10200)
+		expect(commandReceiver0.mock.calls.length).toEqual(2) // pst on, take
+		commandReceiver0.mockClear()
+
+		// Sisyfos reports the new state:
+		oscPort.emit('message', { address: '/state/ch/0/pgm', args: [{ type: 'i', value: 1 }] })
+		await mockTime.advanceTimeToTicks(12000)
+
+		// A change on a channel that isn't mapped is not a drift:
+		oscPort.emit('message', { address: '/state/ch/1/pgm', args: [{ type: 'i', value: 1 }] })
+		await mockTime.advanceTimeToTicks(12100)
+		expect(onStateDrift).toHaveBeenCalledTimes(0)
+
+		// Neither is a change of a property that the object doesn't set:
+		oscPort.emit('message', { address: '/state/ch/0/pfl', args: [{ type: 'i', value: 1 }] })
+		oscPort.emit('message', { address: '/state/ch/0/label', args: [{ type: 's', value: 'Guest' }] })
+		await mockTime.advanceTimeToTicks(12150)
+		expect(onStateDrift).toHaveBeenCalledTimes(0)
+		expect(commandReceiver0.mock.calls.length).toEqual(0)
+
+		// Someone turns off the mapped channel manually:
+		oscPort.emit('message', { address: '/state/ch/0/pgm', args: [{ type: 'i', value: 0 }] })
+		await mockTime.advanceTimeToTicks(12200)
+
+		expect(onStateDrift).toHaveBeenCalledTimes(1)
+		expect(onStateDrift.mock.calls[0][0]).toMatch(/pgmOn/)
+
+		// The channel should have been turned on again:
+		expect(commandReceiver0.mock.calls.length).toEqual(2)
+		expect(getMockCall(commandReceiver0, 0, 1)).toMatchObject({
+			type: 'togglePst',
+			channel: 0,
+			value: true
+		})
+		expect(getMockCall(commandReceiver0, 1, 1)).toMatchObject({
+			type: 'take'
+		})
+
+		await myConductor.destroy()
+	})
+	test('Reconciliation on reconnection, and operator overrides', async () => {
+		const commandReceiver0: any = jest.fn(() => {
+			return Promise.resolve()
+		})
+		let myChannelMapping: Mappings = {
+			'sisyfos_channel_1': {
+				device: DeviceType.SISYFOS,
+				deviceId: 'mySisyfos',
+				channel: 0
+			} as MappingSisyfos,
+			'sisyfos_channel_2': {
+				device: DeviceType.SISYFOS,
+				deviceId: 'mySisyfos',
+				channel: 1,
+				operatorMayOverride: true
+			} as MappingSisyfos
+		}
+
+		let myConductor = new Conductor({
+			initializeAsClear: true,
+			getCurrentTime: mockTime.getCurrentTime
+		})
+		await myConductor.setMapping(myChannelMapping)
+		await myConductor.init()
+		await myConductor.addDevice('mySisyfos', {
+			type: DeviceType.SISYFOS,
+			correctStateDrift: true,
+			options: {
+				commandReceiver: commandReceiver0,
+				host: '127.0.0.1',
+				port: 1234
+			}
+		})
+		await mockTime.advanceTimeToTicks(10100)
+
+		const oscPorts = MockOSC.getMockInstances()
+		const oscPort = oscPorts[oscPorts.length - 1]
+
+		let device = myConductor.getDevice('mySisyfos').device as ThreadedClass<SisyfosMessageDevice>
+		const onConnectionChanged = jest.fn()
+		await device.on('connectionChanged', onConnectionChanged)
+
+		myConductor.timeline = [
+			{
+				id: 'obj0',
+				enable: {
+					start: 10000,
+					duration: 60000
+				},
+				layer: 'sisyfos_channel_1',
+				content: {
+					deviceType: DeviceType.SISYFOS,
+					type: TimelineContentTypeSisyfos.SISYFOS,
+
+					isPgm: true
+				}
+			},
+			{
+				id: 'obj1',
+				enable: {
+					start: 10000,
+					duration: 60000
+				},
+				layer: 'sisyfos_channel_2',
+				content: {
+					deviceType: DeviceType.SISYFOS,
+					type: TimelineContentTypeSisyfos.SISYFOS,
+
+					faderLevel: 0.5
+				}
+			}
+		]
+		await mockTime.advanceTimeToTicks(10200)
+		expect(commandReceiver0.mock.calls.length).toEqual(3) // pst on, fader, take
+
+		// Sisyfos reports the new state:
+		oscPort.emit('message', { address: '/state/ch/0/pgm', args: [{ type: 'i', value: 1 }] })
+		oscPort.emit('message', { address: '/state/ch/1/faderlevel', args: [{ type: 'f', value: 0.5 }] })
+		await mockTime.advanceTimeToTicks(12000)
+		commandReceiver0.mockClear()
+		expect((await device.getStatus()).statusCode).toEqual(StatusCode.GOOD)
+
+		// Sisyfos is restarted while disconnected:
+		MockOSC.connectionIsGood = false
+		await mockTime.advanceTimeTicks(3000)
+		await wait(1)
+		await mockTime.advanceTimeTicks(3000)
+		await wait(1)
+		expect(await device.connected).toEqual(false)
+
+		MockOSC.connectionIsGood = true
+		await mockTime.advanceTimeTicks(3000)
+		await wait(1)
+		await mockTime.advanceTimeTicks(3000)
+		await wait(1)
+		expect(await device.connected).toEqual(true)
+		await wait(1)
+		await mockTime.advanceTimeTicks(100)
+
+		// The full state is read back, and the channel is put back on air:
+		expect(commandReceiver0.mock.calls.length).toEqual(2)
+		expect(getMockCall(commandReceiver0, 0, 1)).toMatchObject({
+			type: 'togglePst',
+			channel: 0,
+			value: true
+		})
+		expect(getMockCall(commandReceiver0, 1, 1)).toMatchObject({
+			type: 'take'
+		})
+
+		// The channel the operator may override is not corrected, but reported:
+		const status = await device.getStatus()
+		expect(status.statusCode).toEqual(StatusCode.WARNING_MINOR)
+		expect(status.messages).toHaveLength(1)
+		expect(status.messages![0]).toMatch(/Channel 1.*faderLevel/)
+		expect(onConnectionChanged).toHaveBeenLastCalledWith(status)
+
+		// The operator sets the fader back:
+		oscPort.emit('message', { address: '/state/ch/1/faderlevel', args: [{ type: 'f', value: 0.5 }] })
+		await mockTime.advanceTimeTicks(100)
+		expect((await device.getStatus()).statusCode).toEqual(StatusCode.GOOD)
+		expect(commandReceiver0.mock.calls.length).toEqual(2)
+
+		await myConductor.destroy()
+	})
 })
@@ -1,6 +1,7 @@
 jest.mock('osc')
 import { SisyfosInterface } from '../sisyfosAPI'
 import { MockOSC } from '../../__mocks__/osc'
+import { Commands } from '../../types/src/sisyfos'
 
 const orgSetTimeout = setTimeout
 
@@ -62,6 +63,46 @@ describe('SisyfosAPI', () => {
 		expect(onDisconnected).toHaveBeenCalledTimes(2)
 		expect(onError).toHaveBeenCalledTimes(0)
 	})
+	test('Channel properties', async () => {
+		let sisyfos = new SisyfosInterface()
+		const connected = sisyfos.connect('127.0.0.1', 1234)
+		jest.advanceTimersByTime(10)
+		await connected
+
+		// The full state is parsed, with defaults for the properties Sisyfos didn't send:
+		expect(sisyfos.state.channels[0]).toEqual({
+			faderLevel: 0.75,
+			pgmOn: false,
+			pstOn: false,
+			label: '',
+			visible: true,
+			muteOn: false,
+			pflOn: false
+		})
+
+		const oscPorts = MockOSC.getMockInstances()
+		const oscPort = oscPorts[oscPorts.length - 1]
+		oscPort.emit('message', { address: '/state/ch/1/label', args: [{ type: 's', value: 'Guest' }] })
+		oscPort.emit('message', { address: '/state/ch/1/visible', args: [{ type: 'i', value: 0 }] })
+		oscPort.emit('message', { address: '/state/ch/1/mute', args: [{ type: 'i', value: 1 }] })
+		oscPort.emit('message', { address: '/state/ch/1/pfl', args: [{ type: 'i', value: 1 }] })
+		expect(sisyfos.state.channels[1]).toMatchObject({
+			label: 'Guest',
+			visible: false,
+			muteOn: true,
+			pflOn: true
+		})
+
+		const send = jest.spyOn(oscPort, 'send')
+		sisyfos.send({ type: Commands.SET_FADER, channel: 1, value: 0.5, fadeTime: 400 })
+		sisyfos.send({ type: Commands.SET_LABEL, channel: 1, value: 'Host' })
+		sisyfos.send({ type: Commands.SET_MUTE, channel: 1, value: false })
+		expect(send).toHaveBeenNthCalledWith(1, { address: '/ch/2/faderlevel', args: [{ type: 'f', value: 0.5 }, { type: 'i', value: 400 }] })
+		expect(send).toHaveBeenNthCalledWith(2, { address: '/ch/2/label', args: [{ type: 's', value: 'Host' }] })
+		expect(send).toHaveBeenNthCalledWith(3, { address: '/ch/2/mute', args: [{ type: 'i', value: 0 }] })
+
+		sisyfos.dispose()
+	})
 	// test('Functionality', async () => {
 		// todo:
 
@@ -0,0 +1,214 @@
+import { setupVizEngineMock } from './vizEngineMock'
+import {
+	Mappings,
+	DeviceType,
+	MappingTemplateCG,
+	TemplateCGProtocol,
+	TimelineContentTypeTemplateCG,
+	TemplateCGCommand
+} from '../../types/src'
+import { MockTime } from '../../__tests__/mockTime'
+import { TemplateCGDevice } from '../templateCG'
+import { StatusCode } from '../device'
+import { getMockCall, setupConductor } from '../../__tests__/lib'
+import { getVizCommands } from '../vizEngineAPI'
+
+jest.mock('net')
+
+describe('Template CG', () => {
+	let mockTime = new MockTime()
+	beforeAll(() => {
+		mockTime.mockDateNow()
+	})
+	beforeEach(() => {
+		mockTime.init()
+	})
+	const myLayerMapping: Mappings = {
+		'cg_front': {
+			device: DeviceType.TEMPLATE_CG,
+			deviceId: 'myViz',
+			layer: 'FRONT_LAYER'
+		} as MappingTemplateCG,
+		'cg_main': {
+			device: DeviceType.TEMPLATE_CG,
+			deviceId: 'myViz',
+			layer: 'MAIN_LAYER'
+		} as MappingTemplateCG
+	}
+	test('Take in, continue and take out', async () => {
+		const { onCommand, onConnect } = setupVizEngineMock()
+		const { myConductor, device, commandReceiver0, errorHandler } = await setupConductor<TemplateCGDevice>(mockTime, 'myViz', {
+			type: DeviceType.TEMPLATE_CG,
+			options: { protocol: TemplateCGProtocol.VIZ_ENGINE, host: '127.0.0.1' }
+		}, myLayerMapping)
+
+		expect(onConnect).toHaveBeenCalledWith(6100, '127.0.0.1')
+		expect((await device.getStatus()).statusCode).toEqual(StatusCode.GOOD)
+
+		await mockTime.advanceTimeToTicks(10100)
+		expect(onCommand).toHaveBeenCalledTimes(0)
+
+		myConductor.timeline = [
+			{
+				id: 'lowerThird0',
+				enable: {
+					start: 11000,
+					duration: 3000
+				},
+				layer: 'cg_front',
+				content: {
+					deviceType: DeviceType.TEMPLATE_CG,
+					type: TimelineContentTypeTemplateCG.TEMPLATE,
+					templateName: 'LowerThird',
+					data: {
+						name: 'John Doe',
+						title: 'Reporter'
+					},
+					useStopCommand: true
+				},
+				keyframes: [{
+					id: 'lowerThird0_kf0',
+					enable: {
+						start: 1000 // 0 = parent's start
+					},
+					content: {
+						continueStep: 1
+					}
+				}]
+			},
+			{
+				id: 'fullscreen0',
+				enable: {
+					start: 11000,
+					duration: 1000
+				},
+				layer: 'cg_main',
+				content: {
+					deviceType: DeviceType.TEMPLATE_CG,
+					type: TimelineContentTypeTemplateCG.TEMPLATE,
+					templateName: 'Fullscreen'
+				}
+			}
+		]
+
+		await mockTime.advanceTimeToTicks(11100)
+		expect(commandReceiver0).toHaveBeenCalledTimes(5)
+		expect(commandReceiver0).toHaveBeenCalledWith(11000, {
+			command: TemplateCGCommand.LOAD,
+			layer: 'FRONT_LAYER',
+			templateName: 'LowerThird'
+		}, expect.any(String), 'lowerThird0')
+		expect(commandReceiver0).toHaveBeenCalledWith(11000, {
+			command: TemplateCGCommand.SET_DATA,
+			layer: 'FRONT_LAYER',
+			data: { name: 'John Doe', title: 'Reporter' }
+		}, expect.any(String), 'lowerThird0')
+		expect(commandReceiver0).toHaveBeenCalledWith(11000, {
+			command: TemplateCGCommand.TAKE_IN,
+			layer: 'FRONT_LAYER'
+		}, expect.any(String), 'lowerThird0')
+
+		expect(commandReceiver0).toHaveBeenCalledWith(11000, {
+			command: TemplateCGCommand.LOAD,
+			layer: 'MAIN_LAYER',
+			templateName: 'Fullscreen'
+		}, expect.any(String), 'fullscreen0')
+
+		// The commands of each layer are sent in order:
+		expect(onCommand).toHaveBeenCalledTimes(6)
+		const sentCommands = onCommand.mock.calls.map(args => args[0])
+		expect(sentCommands.filter(cmd => cmd.match(/FRONT_LAYER/))).toEqual([
+			'RENDERER*FRONT_LAYER SET_OBJECT SCENE*LowerThird',
+			'RENDERER*FRONT_LAYER*TREE*$object*FUNCTION*ControlObject*in SET ON name SET John Doe',
+			'RENDERER*FRONT_LAYER*TREE*$object*FUNCTION*ControlObject*in SET ON title SET Reporter',
+			'RENDERER*FRONT_LAYER*STAGE START'
+		])
+		expect(sentCommands.filter(cmd => cmd.match(/MAIN_LAYER/))).toEqual([
+			'RENDERER*MAIN_LAYER SET_OBJECT SCENE*Fullscreen',
+			'RENDERER*MAIN_LAYER*STAGE START'
+		])
+		onCommand.mockClear()
+
+		// The fullscreen is cleared, and the lower third is continued:
+		await mockTime.advanceTimeToTicks(12100)
+		expect(onCommand).toHaveBeenCalledTimes(2)
+		expect(onCommand).toHaveBeenCalledWith('RENDERER*FRONT_LAYER*STAGE CONTINUE')
+		expect(onCommand).toHaveBeenCalledWith('RENDERER*MAIN_LAYER SET_OBJECT')
+
+		// The lower third is taken out:
+		await mockTime.advanceTimeToTicks(14100)
+		expect(onCommand).toHaveBeenCalledTimes(3)
+		expect(onCommand).toHaveBeenNthCalledWith(3, 'RENDERER*FRONT_LAYER*STAGE*DIRECTOR*OUT START')
+
+		expect(errorHandler).toHaveBeenCalledTimes(0)
+		await myConductor.destroy()
+	})
+	test('Cue and errors', async () => {
+		const { vizServer, onCommand } = setupVizEngineMock()
+		const { myConductor, errorHandler } = await setupConductor<TemplateCGDevice>(mockTime, 'myViz', {
+			type: DeviceType.TEMPLATE_CG,
+			options: { protocol: TemplateCGProtocol.VIZ_ENGINE, host: '127.0.0.1' }
+		}, myLayerMapping)
+
+		await mockTime.advanceTimeToTicks(10100)
+
+		myConductor.timeline = [
+			{
+				id: 'graphic0',
+				enable: {
+					start: 11000,
+					duration: 3000
+				},
+				layer: 'cg_front',
+				content: {
+					deviceType: DeviceType.TEMPLATE_CG,
+					type: TimelineContentTypeTemplateCG.TEMPLATE,
+					templateName: 'Score',
+					data: { home: 1 },
+					cue: true
+				},
+				keyframes: [{
+					id: 'graphic0_kf0',
+					enable: {
+						start: 1000 // 0 = parent's start
+					},
+					content: {
+						cue: false
+					}
+				}]
+			}
+		]
+
+		// The template is loaded, but not taken in:
+		await mockTime.advanceTimeToTicks(11100)
+		expect(onCommand).toHaveBeenCalledTimes(2)
+		expect(onCommand).toHaveBeenNthCalledWith(1, 'RENDERER*FRONT_LAYER SET_OBJECT SCENE*Score')
+		expect(onCommand).toHaveBeenNthCalledWith(2, 'RENDERER*FRONT_LAYER*TREE*$object*FUNCTION*ControlObject*in SET ON home SET 1')
+
+		await mockTime.advanceTimeToTicks(12100)
+		expect(onCommand).toHaveBeenCalledTimes(3)
+		expect(onCommand).toHaveBeenNthCalledWith(3, 'RENDERER*FRONT_LAYER*STAGE START')
+
+		// Errors reported by the engine are command errors:
+		vizServer.commandError = 'object not found'
+		await mockTime.advanceTimeToTicks(14100)
+		expect(onCommand).toHaveBeenCalledTimes(4)
+		expect(onCommand).toHaveBeenNthCalledWith(4, 'RENDERER*FRONT_LAYER SET_OBJECT')
+		expect(errorHandler).toHaveBeenCalledTimes(1)
+		expect(getMockCall(errorHandler, 0, 0).message).toMatch(/Viz Engine: ERROR object not found/)
+
+		await myConductor.destroy()
+	})
+	test('getVizCommands', () => {
+		expect(getVizCommands({ command: TemplateCGCommand.TAKE_OUT, layer: 'BACK_LAYER' }, 'AnimOut')).toEqual([
+			'RENDERER*BACK_LAYER*STAGE*DIRECTOR*AnimOut START'
+		])
+		expect(getVizCommands({ command: TemplateCGCommand.SET_DATA, layer: 'FRONT_LAYER', data: { list: [1, 2] } })).toEqual([
+			'RENDERER*FRONT_LAYER*TREE*$object*FUNCTION*ControlObject*in SET ON list SET [1,2]'
+		])
+		// Line breaks and NUL would end the command early:
+		expect(() => getVizCommands({ command: TemplateCGCommand.SET_DATA, layer: 'FRONT_LAYER', data: { name: 'John\nDoe' } })).toThrow(/line breaks/)
+		expect(() => getVizCommands({ command: TemplateCGCommand.SET_DATA, layer: 'FRONT_LAYER', data: { name: 'John\0Doe' } })).toThrow(/line breaks/)
+		expect(() => getVizCommands({ command: TemplateCGCommand.SET_DATA, layer: 'FRONT_LAYER', data: { 'first name': 'John' } })).toThrow(/Invalid field name/)
+	})
+})
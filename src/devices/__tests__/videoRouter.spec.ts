@@ -0,0 +1,211 @@
+import { setupVideohubMock, setupSWP08Mock } from './videoRouterMock'
+import {
+	Mappings,
+	DeviceType,
+	MappingVideoRouter,
+	VideoRouterProtocol,
+	TimelineContentTypeVideoRouter,
+	TSRTimeline
+} from '../../types/src'
+import { MockTime } from '../../__tests__/mockTime'
+import { VideoRouterDevice } from '../videoRouter'
+import { StatusCode } from '../device'
+import { getMockCall, setupConductor } from '../../__tests__/lib'
+import { encodeMessage, encodeCrosspoint, decodeMessage, SWP08Command, SWP08Interface } from '../swp08API'
+import { VideohubInterface } from '../videohubAPI'
+
+jest.mock('net')
+let setTimeoutOrg = setTimeout
+
+function waitALittleBit () {
+	return new Promise((resolve) => {
+		setTimeoutOrg(resolve, 10)
+	})
+}
+
+describe('Video router', () => {
+	let mockTime = new MockTime()
+	beforeAll(() => {
+		mockTime.mockDateNow()
+	})
+	beforeEach(() => {
+		mockTime.init()
+	})
+	function getMappings (): Mappings {
+		let myLayerMapping: Mappings = {}
+		for (let destination = 0; destination < 3; destination++) {
+			myLayerMapping['router_dest' + destination] = {
+				device: DeviceType.VIDEO_ROUTER,
+				deviceId: 'myRouter',
+				destination: destination
+			} as MappingVideoRouter
+		}
+		return myLayerMapping
+	}
+	function getTimeline (): TSRTimeline {
+		return [
+			{
+				id: 'route0',
+				enable: {
+					start: 11000,
+					duration: 2000
+				},
+				layer: 'router_dest0',
+				content: {
+					deviceType: DeviceType.VIDEO_ROUTER,
+					type: TimelineContentTypeVideoRouter.ROUTE,
+					source: 1
+				}
+			},
+			{
+				id: 'route1',
+				enable: {
+					start: 11000,
+					duration: 2000
+				},
+				layer: 'router_dest1',
+				content: {
+					deviceType: DeviceType.VIDEO_ROUTER,
+					type: TimelineContentTypeVideoRouter.ROUTE,
+					source: 4
+				}
+			},
+			{
+				id: 'route2',
+				enable: {
+					start: 12000,
+					duration: 1000
+				},
+				layer: 'router_dest2',
+				content: {
+					deviceType: DeviceType.VIDEO_ROUTER,
+					type: TimelineContentTypeVideoRouter.ROUTE,
+					source: 200
+				}
+			}
+		]
+	}
+	test('Videohub', async () => {
+		const { router, onRoute, onConnect } = setupVideohubMock({ 0: 1, 1: 1, 2: 3 })
+		const { myConductor, device, commandReceiver0, errorHandler } = await setupConductor<VideoRouterDevice>(mockTime, 'myRouter', {
+			type: DeviceType.VIDEO_ROUTER,
+			options: { protocol: VideoRouterProtocol.VIDEOHUB, host: '127.0.0.1' }
+		}, getMappings())
+
+		expect(onConnect).toHaveBeenCalledWith(9990, '127.0.0.1')
+		expect((await device.getStatus()).statusCode).toEqual(StatusCode.GOOD)
+
+		await mockTime.advanceTimeToTicks(10100)
+		expect(onRoute).toHaveBeenCalledTimes(0)
+
+		myConductor.timeline = getTimeline()
+
+		// Only the crosspoints that differ from the router are sent:
+		await mockTime.advanceTimeToTicks(11100)
+		expect(commandReceiver0).toHaveBeenCalledTimes(1)
+		expect(commandReceiver0).toHaveBeenNthCalledWith(1, 11000, {
+			destination: 1,
+			source: 4
+		}, expect.any(String), 'route1')
+		expect(onRoute).toHaveBeenCalledTimes(1)
+		expect(onRoute).toHaveBeenNthCalledWith(1, 1, 4)
+
+		await mockTime.advanceTimeToTicks(12100)
+		expect(onRoute).toHaveBeenCalledTimes(2)
+		expect(onRoute).toHaveBeenNthCalledWith(2, 2, 200)
+
+		// The crosspoints are left as they are when the objects end:
+		await mockTime.advanceTimeToTicks(14000)
+		expect(onRoute).toHaveBeenCalledTimes(2)
+
+		// Routes not acknowledged by the router are command errors:
+		router.nak = true
+		myConductor.timeline = [{
+			id: 'route3',
+			enable: {
+				start: 15000
+			},
+			layer: 'router_dest0',
+			content: {
+				deviceType: DeviceType.VIDEO_ROUTER,
+				type: TimelineContentTypeVideoRouter.ROUTE,
+				source: 5
+			}
+		}]
+		await mockTime.advanceTimeToTicks(15100)
+		expect(errorHandler).toHaveBeenCalledTimes(1)
+		expect(getMockCall(errorHandler, 0, 0).message).toMatch(/Videohub: command was not acknowledged/)
+
+		await myConductor.destroy()
+	})
+	test('SW-P-08', async () => {
+		const { onRoute, onConnect } = setupSWP08Mock({ 0: 1, 1: 1, 2: 3 })
+		const { myConductor, device, commandReceiver0, errorHandler } = await setupConductor<VideoRouterDevice>(mockTime, 'myRouter', {
+			type: DeviceType.VIDEO_ROUTER,
+			options: { protocol: VideoRouterProtocol.SWP08, host: '127.0.0.1' }
+		}, getMappings())
+
+		expect(onConnect).toHaveBeenCalledWith(8910, '127.0.0.1')
+		expect((await device.getStatus()).statusCode).toEqual(StatusCode.GOOD)
+
+		await mockTime.advanceTimeToTicks(10100)
+		expect(onRoute).toHaveBeenCalledTimes(0)
+
+		myConductor.timeline = getTimeline()
+
+		await mockTime.advanceTimeToTicks(11100)
+		expect(commandReceiver0).toHaveBeenCalledTimes(1)
+		expect(onRoute).toHaveBeenCalledTimes(1)
+		expect(onRoute).toHaveBeenNthCalledWith(1, 1, 4)
+
+		await mockTime.advanceTimeToTicks(12100)
+		expect(onRoute).toHaveBeenCalledTimes(2)
+		expect(onRoute).toHaveBeenNthCalledWith(2, 2, 200)
+
+		expect(errorHandler).toHaveBeenCalledTimes(0)
+		await myConductor.destroy()
+	})
+	test('Routers started after the device', async () => {
+		for (const protocol of [VideoRouterProtocol.VIDEOHUB, VideoRouterProtocol.SWP08]) {
+			const { router, onConnect } = (
+				protocol === VideoRouterProtocol.VIDEOHUB ?
+				setupVideohubMock({ 0: 1 }) :
+				setupSWP08Mock({ 0: 1 })
+			)
+			router.offline = true
+			const routerInterface = protocol === VideoRouterProtocol.VIDEOHUB ? new VideohubInterface() : new SWP08Interface()
+			const onError = jest.fn()
+			routerInterface.on('error', onError)
+
+			const connecting = expect(routerInterface.connect('127.0.0.1')).rejects.toThrow(/Unable to connect/)
+			await mockTime.advanceTimeTicks(3100)
+			await connecting
+			expect(routerInterface.connected).toEqual(false)
+			expect(onConnect).toHaveBeenCalledTimes(1)
+
+			// The connection is retried until the router replies:
+			router.offline = false
+			await mockTime.advanceTimeTicks(5000)
+			expect(onConnect).toHaveBeenCalledTimes(2)
+			await waitALittleBit() // allow for the async socket events to fire
+			expect(routerInterface.connected).toEqual(true)
+			expect(routerInterface.getRoutes()).toEqual({ 0: 1 })
+
+			routerInterface.dispose()
+		}
+	})
+	test('SW-P-08 messages', () => {
+		// Crosspoint connect, destination 2, source 5:
+		expect([...encodeMessage(encodeCrosspoint(SWP08Command.CROSSPOINT_CONNECT, 0, 0, 2, 5))]).toEqual([
+			0x10, 0x02, 0x02, 0x00, 0x00, 0x02, 0x05, 0x05, 0xf2, 0x10, 0x03
+		])
+		// Destinations and sources above 127 use the multiplier:
+		expect(encodeCrosspoint(SWP08Command.CROSSPOINT_CONNECT, 1, 2, 200, 130)).toEqual([0x02, 0x12, 0x11, 72, 2])
+		// DLE in the data is doubled:
+		const framed = encodeMessage(encodeCrosspoint(SWP08Command.CROSSPOINT_CONNECT, 0, 0, 16, 1))
+		expect([...framed]).toEqual([0x10, 0x02, 0x02, 0x00, 0x00, 0x10, 0x10, 0x01, 0x05, 0xe8, 0x10, 0x03])
+		expect(decodeMessage(framed.slice(2, framed.length - 2))).toEqual([0x02, 0x00, 0x00, 0x10, 0x01])
+		// Invalid checksums are rejected:
+		expect(decodeMessage(Buffer.from([0x02, 0x00, 0x00, 0x02, 0x05, 0x05, 0xf3]))).toEqual(null)
+	})
+})
@@ -0,0 +1,127 @@
+import * as _ from 'underscore'
+import { Socket as MockSocket } from 'net'
+import { encodeMessage, decodeMessage, decodeCrosspoint, encodeCrosspoint, SWP08Command } from '../swp08API'
+
+/*
+	This file mocks the server-side part of video routers, speaking
+	the Blackmagic Videohub Ethernet protocol or SW-P-08
+*/
+
+export interface VideoRouterMockOptions {
+	/** The source routed to each destination */
+	routes: {[destination: string]: number}
+	/** If true, routing commands are not acknowledged */
+	nak: boolean
+	/** If true, the router doesn't reply at all (as if it hasn't been started yet) */
+	offline: boolean
+}
+function reply (socket: any, data: Buffer | string) {
+	Promise.resolve()
+	.then(() => socket.mockData(Buffer.from(data as any)))
+	.catch(console.error)
+}
+
+export function setupVideohubMock (routes: {[destination: string]: number}) {
+	const router: VideoRouterMockOptions = {
+		routes: routes,
+		nak: false,
+		offline: false
+	}
+	const onRoute = jest.fn((_destination: number, _source: number) => {
+		// console.log('onRoute', _destination, _source)
+	})
+	const onConnect = jest.fn()
+
+	// @ts-ignore MockSocket
+	MockSocket.mockOnNextSocket((socket: any) => {
+		socket.onConnect = (port: number, host: string) => {
+			onConnect(port, host)
+			if (router.offline) return
+			// The router sends its state when connected to:
+			reply(socket,
+				'PROTOCOL PREAMBLE:\nVersion: 2.7\n\n' +
+				'VIDEOHUB DEVICE:\nDevice present: true\nVideo inputs: 10\nVideo outputs: 10\n\n' +
+				'VIDEO OUTPUT ROUTING:\n' + _.map(router.routes, (source, destination) => `${destination} ${source}\n`).join('') + '\n' +
+				'END PRELUDE:\n\n'
+			)
+		}
+		socket.onWrite = (data: Buffer | string) => {
+			_.each(_.compact((data + '').split('\n\n')), (block: string) => {
+				const lines = block.split('\n')
+				if (lines[0] !== 'VIDEO OUTPUT ROUTING:') return
+
+				if (router.nak) {
+					reply(socket, 'NAK\n\n')
+					return
+				}
+				_.each(lines.slice(1), (line: string) => {
+					const [destination, source] = line.split(' ')
+					onRoute(Number(destination), Number(source))
+					router.routes[destination] = Number(source)
+				})
+				reply(socket, `ACK\n\n${block}\n\n`)
+			})
+		}
+	})
+	return {
+		router,
+		onRoute,
+		onConnect
+	}
+}
+
+export function setupSWP08Mock (routes: {[destination: string]: number}) {
+	const router: VideoRouterMockOptions = {
+		routes: routes,
+		nak: false,
+		offline: false
+	}
+	const onRoute = jest.fn((_destination: number, _source: number) => {
+		// console.log('onRoute', _destination, _source)
+	})
+	const onConnect = jest.fn()
+	const DLE_ACK = Buffer.from([0x10, 0x06])
+	const DLE_NAK = Buffer.from([0x10, 0x15])
+
+	// @ts-ignore MockSocket
+	MockSocket.mockOnNextSocket((socket: any) => {
+		socket.onConnect = onConnect
+		socket.onWrite = (data: Buffer) => {
+			if (router.offline) return
+			// The messages from the client, without the DLE ACKs of our messages:
+			const buffer = Buffer.from(data)
+			if (buffer[0] !== 0x10 || buffer[1] !== 0x02) return
+			const message = decodeMessage(buffer.slice(2, buffer.length - 2))
+			if (!message) {
+				reply(socket, DLE_NAK)
+				return
+			}
+			if (message[0] === SWP08Command.CROSSPOINT_TALLY_DUMP_REQUEST) {
+				const destinations = _.map(_.keys(router.routes), Number).sort((a, b) => a - b)
+				const dump = [SWP08Command.CROSSPOINT_TALLY_DUMP_WORD, message[1], destinations.length, 0, destinations[0]]
+				_.each(destinations, (destination) => {
+					const source = router.routes[destination]
+					dump.push(Math.floor(source / 256), source % 256)
+				})
+				reply(socket, Buffer.concat([DLE_ACK, encodeMessage(dump)]))
+			} else if (message[0] === SWP08Command.CROSSPOINT_CONNECT) {
+				if (router.nak) {
+					reply(socket, DLE_NAK)
+					return
+				}
+				const crosspoint = decodeCrosspoint(message)
+				onRoute(crosspoint.destination, crosspoint.source)
+				router.routes[crosspoint.destination] = crosspoint.source
+				reply(socket, Buffer.concat([
+					DLE_ACK,
+					encodeMessage(encodeCrosspoint(SWP08Command.CROSSPOINT_CONNECTED, crosspoint.matrix, crosspoint.level, crosspoint.destination, crosspoint.source))
+				]))
+			}
+		}
+	})
+	return {
+		router,
+		onRoute,
+		onConnect
+	}
+}
@@ -0,0 +1,43 @@
+import * as _ from 'underscore'
+import { Socket as MockSocket } from 'net'
+
+/*
+	This file mocks the server-side part of the TCP command protocol of Viz Engine
+*/
+
+export interface VizEngineMockOptions {
+	/** If set, commands are replied to with this error */
+	commandError: string | null
+}
+export function setupVizEngineMock () {
+	const vizServer: VizEngineMockOptions = {
+		commandError: null
+	}
+	const onCommand = jest.fn((_command: string) => {
+		// console.log('onCommand', _command)
+	})
+	const onConnect = jest.fn()
+
+	// @ts-ignore MockSocket
+	MockSocket.mockOnNextSocket((socket: any) => {
+		socket.onConnect = onConnect
+		socket.onWrite = (data: Buffer | string) => {
+			_.each(_.compact((data + '').split('\0')), (message: string) => {
+				const m = message.match(/^(\d+) (.*)$/)
+				if (!m) return
+
+				onCommand(m[2])
+
+				const reply = vizServer.commandError ? `${m[1]} ERROR ${vizServer.commandError}\0` : `${m[1]} 1\0`
+				Promise.resolve()
+				.then(() => socket.mockData(Buffer.from(reply)))
+				.catch(console.error)
+			})
+		}
+	})
+	return {
+		vizServer,
+		onCommand,
+		onConnect
+	}
+}
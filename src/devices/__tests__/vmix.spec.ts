@@ -0,0 +1,266 @@
+import { setupVMixMock } from './vmixMock'
+import {
+	Mappings,
+	DeviceType,
+	MappingVMix,
+	MappingVMixType,
+	TimelineContentTypeVMix,
+	VMixTransitionType,
+	VMixCommand
+} from '../../types/src'
+import { MockTime } from '../../__tests__/mockTime'
+import { VMixDevice } from '../vmix'
+import { StatusCode } from '../device'
+import { getMockCall, setupConductor } from '../../__tests__/lib'
+
+jest.mock('net')
+
+describe('vMix', () => {
+	let mockTime = new MockTime()
+	beforeAll(() => {
+		mockTime.mockDateNow()
+	})
+	beforeEach(() => {
+		mockTime.init()
+	})
+	test('Program, preview and overlays', async () => {
+		const { onFunction, onConnect } = setupVMixMock()
+
+		let myLayerMapping: Mappings = {
+			'vmix_program': {
+				device: DeviceType.VMIX,
+				deviceId: 'myVMix',
+				mappingType: MappingVMixType.Program
+			} as MappingVMix,
+			'vmix_preview': {
+				device: DeviceType.VMIX,
+				deviceId: 'myVMix',
+				mappingType: MappingVMixType.Preview
+			} as MappingVMix,
+			'vmix_overlay1': {
+				device: DeviceType.VMIX,
+				deviceId: 'myVMix',
+				mappingType: MappingVMixType.Overlay,
+				index: 1
+			} as MappingVMix
+		}
+		const { myConductor, device, commandReceiver0, errorHandler } = await setupConductor<VMixDevice>(mockTime, 'myVMix', {
+			type: DeviceType.VMIX,
+			options: { host: '127.0.0.1' }
+		}, myLayerMapping)
+
+		expect(onConnect).toHaveBeenCalledWith(8099, '127.0.0.1')
+		expect((await device.getStatus()).statusCode).toEqual(StatusCode.GOOD)
+
+		await mockTime.advanceTimeToTicks(10100)
+		// The mapped overlay is taken out initially:
+		expect(onFunction).toHaveBeenCalledTimes(1)
+		expect(onFunction).toHaveBeenNthCalledWith(1, 'OverlayInput1Out', {})
+		onFunction.mockClear()
+		commandReceiver0.mockClear()
+
+		myConductor.timeline = [
+			{
+				id: 'program0',
+				enable: {
+					start: 11000,
+					duration: 5000
+				},
+				layer: 'vmix_program',
+				content: {
+					deviceType: DeviceType.VMIX,
+					type: TimelineContentTypeVMix.PROGRAM,
+					input: 2,
+					transition: {
+						effect: VMixTransitionType.Fade,
+						duration: 500
+					}
+				}
+			},
+			{
+				id: 'preview0',
+				enable: {
+					start: 11000,
+					duration: 5000
+				},
+				layer: 'vmix_preview',
+				content: {
+					deviceType: DeviceType.VMIX,
+					type: TimelineContentTypeVMix.PREVIEW,
+					input: 'Camera 3'
+				}
+			},
+			{
+				id: 'overlay0',
+				enable: {
+					start: 12000,
+					duration: 1000
+				},
+				layer: 'vmix_overlay1',
+				content: {
+					deviceType: DeviceType.VMIX,
+					type: TimelineContentTypeVMix.OVERLAY,
+					input: 5
+				}
+			}
+		]
+
+		await mockTime.advanceTimeToTicks(11100)
+		expect(commandReceiver0).toHaveBeenCalledTimes(2)
+		expect(commandReceiver0).toHaveBeenNthCalledWith(1, 11000, {
+			command: VMixCommand.TRANSITION,
+			input: 2,
+			transition: {
+				effect: VMixTransitionType.Fade,
+				duration: 500
+			}
+		}, expect.any(String), 'program0')
+		expect(commandReceiver0).toHaveBeenNthCalledWith(2, 11000, {
+			command: VMixCommand.PREVIEW_INPUT,
+			input: 'Camera 3'
+		}, expect.any(String), 'preview0')
+
+		expect(onFunction).toHaveBeenCalledTimes(2)
+		expect(onFunction).toHaveBeenNthCalledWith(1, 'Fade', { Input: '2', Duration: '500' })
+		expect(onFunction).toHaveBeenNthCalledWith(2, 'PreviewInput', { Input: 'Camera 3' })
+
+		await mockTime.advanceTimeToTicks(12100)
+		expect(onFunction).toHaveBeenCalledTimes(3)
+		expect(onFunction).toHaveBeenNthCalledWith(3, 'OverlayInput1In', { Input: '5' })
+
+		await mockTime.advanceTimeToTicks(13100)
+		expect(onFunction).toHaveBeenCalledTimes(4)
+		expect(onFunction).toHaveBeenNthCalledWith(4, 'OverlayInput1Out', {})
+
+		// Program and preview are left as they are when the objects end:
+		await mockTime.advanceTimeToTicks(17000)
+		expect(onFunction).toHaveBeenCalledTimes(4)
+
+		expect(errorHandler).toHaveBeenCalledTimes(0)
+		await myConductor.destroy()
+	})
+	test('Audio, recording and streaming', async () => {
+		const { vmixServer, onFunction, onXML } = setupVMixMock()
+		// vMix is already streaming, but not recording:
+		vmixServer.streaming = true
+
+		let myLayerMapping: Mappings = {
+			'vmix_master': {
+				device: DeviceType.VMIX,
+				deviceId: 'myVMix',
+				mappingType: MappingVMixType.AudioBus,
+				index: 'M'
+			} as MappingVMix,
+			'vmix_busA': {
+				device: DeviceType.VMIX,
+				deviceId: 'myVMix',
+				mappingType: MappingVMixType.AudioBus,
+				index: 'A'
+			} as MappingVMix,
+			'vmix_recording': {
+				device: DeviceType.VMIX,
+				deviceId: 'myVMix',
+				mappingType: MappingVMixType.Recording
+			} as MappingVMix,
+			'vmix_streaming': {
+				device: DeviceType.VMIX,
+				deviceId: 'myVMix',
+				mappingType: MappingVMixType.Streaming
+			} as MappingVMix
+		}
+		const { myConductor, device, errorHandler } = await setupConductor<VMixDevice>(mockTime, 'myVMix', {
+			type: DeviceType.VMIX,
+			options: { host: '127.0.0.1' }
+		}, myLayerMapping)
+		expect(onXML).toHaveBeenCalledTimes(1)
+
+		// Only the outputs that are running are stopped initially:
+		await mockTime.advanceTimeToTicks(10100)
+		expect(onFunction).toHaveBeenCalledTimes(1)
+		expect(onFunction).toHaveBeenNthCalledWith(1, 'StopStreaming', {})
+		onFunction.mockClear()
+
+		// The status of the outputs is read again when making ready, nothing needs to be stopped:
+		vmixServer.streaming = false
+		await device.makeReady(true)
+		expect(onXML).toHaveBeenCalledTimes(2)
+		myConductor.resetResolver()
+		await mockTime.advanceTimeToTicks(10200)
+		expect(onFunction).toHaveBeenCalledTimes(0)
+
+		myConductor.timeline = [
+			{
+				id: 'master0',
+				enable: {
+					start: 11000,
+					duration: 5000
+				},
+				layer: 'vmix_master',
+				content: {
+					deviceType: DeviceType.VMIX,
+					type: TimelineContentTypeVMix.AUDIO_BUS,
+					volume: 80
+				}
+			},
+			{
+				id: 'busA0',
+				enable: {
+					start: 11000,
+					duration: 5000
+				},
+				layer: 'vmix_busA',
+				content: {
+					deviceType: DeviceType.VMIX,
+					type: TimelineContentTypeVMix.AUDIO_BUS,
+					muted: true
+				}
+			},
+			{
+				id: 'recording0',
+				enable: {
+					start: 11000,
+					duration: 2000
+				},
+				layer: 'vmix_recording',
+				content: {
+					deviceType: DeviceType.VMIX,
+					type: TimelineContentTypeVMix.RECORDING,
+					on: true
+				}
+			},
+			{
+				id: 'streaming0',
+				enable: {
+					start: 12000,
+					duration: 2000
+				},
+				layer: 'vmix_streaming',
+				content: {
+					deviceType: DeviceType.VMIX,
+					type: TimelineContentTypeVMix.STREAMING,
+					on: true
+				}
+			}
+		]
+
+		await mockTime.advanceTimeToTicks(11100)
+		expect(onFunction).toHaveBeenCalledTimes(3)
+		expect(onFunction).toHaveBeenCalledWith('SetMasterVolume', { Value: '80' })
+		expect(onFunction).toHaveBeenCalledWith('BusAAudioOff', {})
+		expect(onFunction).toHaveBeenNthCalledWith(3, 'StartRecording', {})
+
+		await mockTime.advanceTimeToTicks(12100)
+		expect(onFunction).toHaveBeenCalledTimes(4)
+		expect(onFunction).toHaveBeenNthCalledWith(4, 'StartStreaming', {})
+
+		// Errors reported by vMix are command errors:
+		vmixServer.functionError = 'Recording not available'
+		await mockTime.advanceTimeToTicks(13100)
+		expect(onFunction).toHaveBeenCalledTimes(5)
+		expect(onFunction).toHaveBeenNthCalledWith(5, 'StopRecording', {})
+		expect(errorHandler).toHaveBeenCalledTimes(1)
+		expect(getMockCall(errorHandler, 0, 0).message).toMatch(/vMix: Recording not available/)
+
+		await myConductor.destroy()
+	})
+})
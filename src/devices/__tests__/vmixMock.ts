@@ -0,0 +1,66 @@
+import * as _ from 'underscore'
+import { Socket as MockSocket } from 'net'
+
+/*
+	This file mocks the server-side part of the TCP API of vMix
+	https://www.vmix.com/help22/TCPAPI.html
+*/
+
+export interface VMixServerMockOptions {
+	/** If set, function calls are replied to with this error */
+	functionError: string | null
+	/** The status of the outputs */
+	recording: boolean
+	streaming: boolean
+}
+export function setupVMixMock () {
+	const vmixServer: VMixServerMockOptions = {
+		functionError: null,
+		recording: false,
+		streaming: false
+	}
+	const onFunction = jest.fn((_name: string, _params: {[key: string]: string}) => {
+		// console.log('onFunction', _name, _params)
+	})
+	const onConnect = jest.fn()
+	const onXML = jest.fn()
+
+	// @ts-ignore MockSocket
+	MockSocket.mockOnNextSocket((socket: any) => {
+		socket.onConnect = onConnect
+		socket.onWrite = (data: Buffer | string) => {
+			_.each((data + '').split('\r\n'), (line: string) => {
+				if (line === 'XML') {
+					onXML()
+					const xml = '<vmix><version>22.0.0.67</version><inputs></inputs>' +
+						`<recording${vmixServer.recording ? ' duration="10"' : ''}>${vmixServer.recording ? 'True' : 'False'}</recording>` +
+						`<external>False</external><streaming>${vmixServer.streaming ? 'True' : 'False'}</streaming></vmix>`
+					Promise.resolve()
+					.then(() => socket.mockData(Buffer.from(`XML ${Buffer.byteLength(xml)}\r\n${xml}`)))
+					.catch(console.error)
+					return
+				}
+				const m = line.match(/^FUNCTION (\S+)\s?(.*)$/)
+				if (!m) return
+
+				const params: {[key: string]: string} = {}
+				_.each(_.compact(m[2].split('&')), (param: string) => {
+					const [key, value] = param.split('=')
+					params[key] = decodeURIComponent(value)
+				})
+				onFunction(m[1], params)
+
+				const reply = vmixServer.functionError ? `FUNCTION ER ${vmixServer.functionError}\r\n` : 'FUNCTION OK Completed\r\n'
+				Promise.resolve()
+				.then(() => socket.mockData(Buffer.from(reply)))
+				.catch(console.error)
+			})
+		}
+	})
+	return {
+		vmixServer,
+		onFunction,
+		onConnect,
+		onXML
+	}
+}
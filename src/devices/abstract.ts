@@ -43,6 +43,7 @@ export class AbstractDevice extends DeviceWithState<TimelineState> implements ID
 		if (deviceOptions.options) {
 			if (deviceOptions.options.commandReceiver) this._commandReceiver = deviceOptions.options.commandReceiver
 			else this._commandReceiver = this._defaultCommandReceiver
+			this._commandReceiver = this.handleCommandReceiver(this._commandReceiver)
 		}
 		this._doOnTime = new DoOnTime(() => {
 			return this.getCurrentTime()
@@ -98,6 +99,7 @@ export class AbstractDevice extends DeviceWithState<TimelineState> implements ID
 	 */
 	terminate () {
 		this._doOnTime.dispose()
+		this.disposeStates()
 		return Promise.resolve(true)
 	}
 	get canConnect (): boolean {
@@ -106,6 +108,9 @@ export class AbstractDevice extends DeviceWithState<TimelineState> implements ID
 	get connected (): boolean {
 		return false
 	}
+	convertTimelineState (state: TimelineState) {
+		return this.convertStateToAbstract(state)
+	}
 	/**
 	 * converts the timeline state into something we can use
 	 * @param state
@@ -28,7 +28,8 @@ import {
 	Atem,
 	VideoState,
 	AtemState as AtemAtemState,
-	Commands as AtemCommands
+	Commands as AtemCommands,
+	Enums
 } from 'atem-connection'
 import {
 	AtemState,
@@ -36,6 +37,7 @@ import {
 	Defaults as StateDefault
 } from 'atem-state'
 import { DoOnTime, SendMode } from '../doOnTime'
+import { getDiff } from '../lib'
 import { SuperSourceInfo } from 'atem-connection/dist/state/info'
 
 _.mixin({ deepExtend: underScoreDeepExtend(_) })
@@ -48,12 +50,34 @@ function deepExtend<T> (destination: T, ...sources: any[]) {
 	return _.deepExtend(destination, ...sources)
 }
 
+/** A part of the state that is controlled by the timeline */
+interface ControlledStatePath {
+	/** Path to the value in the state */
+	path: Array<string | number>
+	/** Path to the value in the state reported by the Atem, if it differs from path */
+	actualPath?: Array<string | number>
+}
+function getValueAtPath (obj: any, path: Array<string | number>): any {
+	return _.reduce(path, (o: any, key) => (o ? o[key] : undefined), obj)
+}
+function setValueAtPath (obj: any, path: Array<string | number>, value: any) {
+	const parent = getValueAtPath(obj, path.slice(0, -1))
+	if (parent) parent[path[path.length - 1]] = value
+}
+
 export interface AtemCommandWithContext {
 	command: AtemCommands.AbstractCommand
 	context: CommandContext
 	timelineObjId: string
 }
 type CommandContext = any
+/** An ATEM command, as stored in the command log */
+interface LoggedAtemCommand {
+	/** The name of the class of the command */
+	className: string
+	/** The fields of the command */
+	fields: any
+}
 
 export interface DeviceOptionsAtemInternal extends DeviceOptionsAtem {
 	options: (
@@ -70,6 +94,8 @@ export class AtemDevice extends DeviceWithState<DeviceState> implements IDevice
 	private _doOnTime: DoOnTime
 
 	private _atem: Atem
+	/** The state of the Atem to start from, when initialized offline */
+	private _offlineState: AtemAtemState | undefined
 	private _state: AtemState
 	private _initialized: boolean = false
 	private _connected: boolean = false // note: ideally this should be replaced by this._atem.connected
@@ -83,12 +109,15 @@ export class AtemDevice extends DeviceWithState<DeviceState> implements IDevice
 	}
 
 	private _commandReceiver: CommandReceiver
+	/** The parts of the states that are controlled by the timeline, per state time */
+	private _controlledPaths: {[time: string]: ControlledStatePath[]} = {}
 
 	constructor (deviceId: string, deviceOptions: DeviceOptionsAtemInternal, options) {
 		super(deviceId, deviceOptions, options)
 		if (deviceOptions.options) {
 			if (deviceOptions.options.commandReceiver) this._commandReceiver = deviceOptions.options.commandReceiver
 			else this._commandReceiver = this._defaultCommandReceiver
+			this._commandReceiver = this.handleCommandReceiver(this._commandReceiver)
 		}
 		this._doOnTime = new DoOnTime(() => {
 			return this.getCurrentTime()
@@ -132,12 +161,23 @@ export class AtemDevice extends DeviceWithState<DeviceState> implements IDevice
 			})
 		})
 	}
+	/**
+	 * Initializes the device without connecting to the Atem, with the mix effects, keyers etc used by the mappings
+	 */
+	initOffline (_options: AtemOptions): Promise<boolean> {
+		this._state = new AtemState()
+		this._offlineState = this._getOfflineAtemState()
+		this._initialized = true
+		return Promise.resolve(true)
+	}
 	/**
 	 * Safely terminate everything to do with this device such that it can be
 	 * garbage collected.
 	 */
 	terminate (): Promise<boolean> {
 		this._doOnTime.dispose()
+		this.disposeStates()
+		if (this._offlineState) return Promise.resolve(true)
 
 		return new Promise((resolve) => {
 			// TODO: implement dispose function in atem-connection
@@ -159,7 +199,7 @@ export class AtemDevice extends DeviceWithState<DeviceState> implements IDevice
 		this.firstStateAfterMakeReady = true
 		if (okToDestroyStuff) {
 			this._doOnTime.clearQueueNowAndAfter(this.getCurrentTime())
-			this.setState(this._atem.state, this.getCurrentTime())
+			this.setState(this._getAtemState(), this.getCurrentTime())
 		}
 	}
 	/** Called by the Conductor a bit before a .handleState is called */
@@ -167,6 +207,9 @@ export class AtemDevice extends DeviceWithState<DeviceState> implements IDevice
 		// clear any queued commands later than this time:
 		this._doOnTime.clearQueueNowAndAfter(newStateTime)
 		this.cleanUpStates(0, newStateTime)
+		_.each(_.keys(this._controlledPaths), (time: string) => {
+			if (parseFloat(time) >= newStateTime) delete this._controlledPaths[time]
+		})
 	}
 	/**
 	 * Process a state, diff against previous state and generate commands to
@@ -199,6 +242,7 @@ export class AtemDevice extends DeviceWithState<DeviceState> implements IDevice
 
 		// store the new state, for later use:
 		this.setState(newAtemState, newState.time)
+		this._controlledPaths[newState.time + ''] = this._getControlledPaths(newState)
 	}
 	/**
 	 * Clear any scheduled commands after `clearAfterTime`
@@ -213,6 +257,9 @@ export class AtemDevice extends DeviceWithState<DeviceState> implements IDevice
 	get connected (): boolean {
 		return this._connected
 	}
+	convertTimelineState (state: TimelineState) {
+		return this.convertStateToAtem(state)
+	}
 	/**
 	 * Convert a timeline state into an Atem state.
 	 * @param state The state to be converted
@@ -366,7 +413,7 @@ export class AtemDevice extends DeviceWithState<DeviceState> implements IDevice
 	 */
 	private _diffStates (oldAtemState: DeviceState, newAtemState: DeviceState): Array<AtemCommandWithContext> {
 		// Ensure the state diffs the correct version
-		this._state.version = this._atem.state.info.apiVersion
+		this._state.version = this._getAtemState().info.apiVersion
 
 		return _.map(
 			this._state.diffStates(oldAtemState, newAtemState),
@@ -390,29 +437,30 @@ export class AtemDevice extends DeviceWithState<DeviceState> implements IDevice
 	 * properties. This can be used to augment with device state info.
 	 */
 	private _getDefaultState (): DeviceState {
+		const atemState = this._getAtemState()
 		let deviceState = new DeviceState()
 
-		for (let i = 0; i < this._atem.state.info.capabilities.MEs; i++) {
+		for (let i = 0; i < atemState.info.capabilities.MEs; i++) {
 			deviceState.video.ME[i] = Object.assign(new VideoState.MixEffect(i), jsonClone(StateDefault.Video.MixEffect))
-			for (const usk in this._atem.state.video.ME[i].upstreamKeyers) {
+			for (const usk in atemState.video.ME[i].upstreamKeyers) {
 				deviceState.video.ME[i].upstreamKeyers[usk] = jsonClone(StateDefault.Video.UpstreamKeyer(Number(usk)))
-				for (const flyKf in this._atem.state.video.ME[i].upstreamKeyers[usk].flyKeyframes) {
+				for (const flyKf in atemState.video.ME[i].upstreamKeyers[usk].flyKeyframes) {
 					deviceState.video.ME[i].upstreamKeyers[usk].flyKeyframes[flyKf] = jsonClone(StateDefault.Video.flyKeyframe(Number(flyKf)))
 				}
 			}
 		}
-		for (let i = 0; i < Object.keys(this._atem.state.video.downstreamKeyers).length; i++) {
+		for (let i = 0; i < Object.keys(atemState.video.downstreamKeyers).length; i++) {
 			deviceState.video.downstreamKeyers[i] = jsonClone(StateDefault.Video.DownStreamKeyer)
 		}
-		for (let i = 0; i < this._atem.state.info.capabilities.auxilliaries; i++) {
+		for (let i = 0; i < atemState.info.capabilities.auxilliaries; i++) {
 			deviceState.video.auxilliaries[i] = jsonClone(StateDefault.Video.defaultInput)
 		}
-		for (let i = 0; i < this._atem.state.info.capabilities.superSources; i++) {
+		for (let i = 0; i < atemState.info.capabilities.superSources; i++) {
 			const ssrc = new VideoState.SuperSource(i)
 			ssrc.properties = jsonClone(StateDefault.Video.SuperSourceProperties)
 			ssrc.border = jsonClone(StateDefault.Video.SuperSourceBorder)
 
-			const ssrcInfo = this._atem.state.info.superSources[i] as SuperSourceInfo | undefined
+			const ssrcInfo = atemState.info.superSources[i] as SuperSourceInfo | undefined
 			const boxCount = ssrcInfo ? ssrcInfo.boxCount : 4
 			for (let i = 0; i < boxCount; i++) {
 				ssrc.boxes[i] = jsonClone(StateDefault.Video.SuperSourceBox)
@@ -420,7 +468,7 @@ export class AtemDevice extends DeviceWithState<DeviceState> implements IDevice
 
 			deviceState.video.superSources[i] = ssrc
 		}
-		for (const i of Object.keys(this._atem.state.audio.channels)) {
+		for (const i of Object.keys(atemState.audio.channels)) {
 			deviceState.audio.channels[i] = jsonClone(StateDefault.Audio.Channel)
 		}
 
@@ -429,6 +477,69 @@ export class AtemDevice extends DeviceWithState<DeviceState> implements IDevice
 		return deviceState
 	}
 
+	/**
+	 * Returns the state reported by the Atem, or the one to start from when initialized offline
+	 */
+	private _getAtemState (): AtemAtemState {
+		return this._offlineState || this._atem.state
+	}
+	/**
+	 * Returns the state of an Atem with the mix effects, keyers etc used by the mappings (the upstream keyers can't be known)
+	 */
+	private _getOfflineAtemState (): AtemAtemState {
+		const counts: {[mappingType: number]: number} = {}
+		_.each(this.getMapping(), (mapping: MappingAtem) => {
+			if (
+				mapping.device === DeviceType.ATEM &&
+				mapping.deviceId === this.deviceId &&
+				mapping.index !== undefined &&
+				mapping.index >= 0
+			) {
+				counts[mapping.mappingType] = Math.max(counts[mapping.mappingType] || 0, mapping.index + 1)
+			}
+		})
+		const count = (mappingType: MappingAtemType): number => counts[mappingType] || 0
+		const superSources = Math.max(count(MappingAtemType.SuperSourceBox), count(MappingAtemType.SuperSourceProperties))
+
+		const state = new AtemAtemState()
+		state.info.apiVersion = Enums.ProtocolVersion.V8_0_1
+		state.info.capabilities = {
+			MEs: count(MappingAtemType.MixEffect),
+			sources: 0,
+			colorGenerators: 0,
+			auxilliaries: count(MappingAtemType.Auxilliary),
+			talkbackOutputs: 0,
+			mediaPlayers: count(MappingAtemType.MediaPlayer),
+			serialPorts: 0,
+			maxHyperdecks: 0,
+			DVEs: 0,
+			stingers: 0,
+			hasSuperSources: superSources > 0,
+			superSources: superSources,
+			talkbackOverSDI: 0
+		}
+		for (let i = 0; i < count(MappingAtemType.MixEffect); i++) {
+			state.video.ME[i] = new VideoState.MixEffect(i)
+		}
+		for (let i = 0; i < count(MappingAtemType.DownStreamKeyer); i++) {
+			state.video.downstreamKeyers[i] = jsonClone(StateDefault.Video.DownStreamKeyer)
+		}
+		for (let i = 0; i < count(MappingAtemType.AudioChannel); i++) {
+			state.audio.channels[i] = jsonClone(StateDefault.Audio.Channel)
+		}
+		return state
+	}
+	protected serializeLoggedCommand (command: AtemCommands.AbstractCommand): LoggedAtemCommand {
+		return {
+			className: command.constructor.name,
+			fields: jsonClone(command)
+		}
+	}
+	protected deserializeLoggedCommand (command: LoggedAtemCommand): AtemCommands.AbstractCommand {
+		const CommandClass = command && AtemCommands[command.className]
+		if (!_.isFunction(CommandClass)) throw new Error(`Unknown ATEM command "${command && command.className}"`)
+		return Object.assign(new CommandClass(), command.fields)
+	}
 	private _defaultCommandReceiver (_time: number, command: AtemCommands.AbstractCommand, context: CommandContext, timelineObjId: string): Promise<any> {
 		let cwc: CommandWithContext = {
 			context: context,
@@ -453,6 +564,63 @@ export class AtemDevice extends DeviceWithState<DeviceState> implements IDevice
 
 			this._connectionChanged()
 		}
+		this.checkStateDrift(newState)
+	}
+	/**
+	 * Only the parts of the state that are controlled by the timeline are compared
+	 */
+	protected getStateDrift (expectedState: DeviceState, actualState: DeviceState, expectedStateTime: number): string | null {
+		// Remove the paths of older states, they're not needed anymore:
+		_.each(_.keys(this._controlledPaths), (time: string) => {
+			if (parseFloat(time) < expectedStateTime) delete this._controlledPaths[time]
+		})
+		const expectedValues = {}
+		const actualValues = {}
+		_.each(this._controlledPaths[expectedStateTime + ''] || [], (p: ControlledStatePath) => {
+			const key = p.path.join('.')
+			expectedValues[key] = getValueAtPath(expectedState, p.path)
+			actualValues[key] = getValueAtPath(actualState, p.actualPath || p.path)
+		})
+		return getDiff(expectedValues, actualValues)
+	}
+	protected correctStateDrift (expectedState: DeviceState, actualState: DeviceState, expectedStateTime: number) {
+		// Diff against the expected state, but with the actual values of the controlled parts:
+		const fromState = jsonClone(expectedState)
+		_.each(this._controlledPaths[expectedStateTime + ''] || [], (p: ControlledStatePath) => {
+			const value = getValueAtPath(actualState, p.actualPath || p.path)
+			setValueAtPath(fromState, p.path, value)
+			if (p.actualPath) setValueAtPath(fromState, p.actualPath, value)
+		})
+		this._addToQueue(this._diffStates(fromState, expectedState), this.getCurrentTime())
+	}
+	/**
+	 * Returns the parts of the Atem state that are controlled by the timeline state
+	 */
+	private _getControlledPaths (state: TimelineState): ControlledStatePath[] {
+		const paths: ControlledStatePath[] = []
+		_.each(state.layers, (tlObject, layerName) => {
+			const mapping = this.getMapping()[layerName] as MappingAtem | undefined
+			if (!mapping || mapping.index === undefined || mapping.index < 0) return
+
+			const i = mapping.index
+			if (mapping.mappingType === MappingAtemType.MixEffect && tlObject.content.type === TimelineContentTypeAtem.ME) {
+				const me = (tlObject as any as TimelineObjAtemME).content.me
+				if (me.input !== undefined) paths.push({ path: ['video', 'ME', i, 'input'], actualPath: ['video', 'ME', i, 'programInput'] })
+				if (me.previewInput !== undefined) paths.push({ path: ['video', 'ME', i, 'previewInput'] })
+				_.each(me.upstreamKeyers || [], (keyer) => {
+					if (keyer.onAir !== undefined) paths.push({ path: ['video', 'ME', i, 'upstreamKeyers', keyer.upstreamKeyerId, 'onAir'] })
+				})
+			} else if (mapping.mappingType === MappingAtemType.DownStreamKeyer && tlObject.content.type === TimelineContentTypeAtem.DSK) {
+				paths.push({ path: ['video', 'downstreamKeyers', i, 'onAir'] })
+			} else if (mapping.mappingType === MappingAtemType.Auxilliary && tlObject.content.type === TimelineContentTypeAtem.AUX) {
+				paths.push({ path: ['video', 'auxilliaries', i] })
+			} else if (mapping.mappingType === MappingAtemType.AudioChannel && tlObject.content.type === TimelineContentTypeAtem.AUDIOCHANNEL) {
+				_.each(_.keys((tlObject as any as TimelineObjAtemAudioChannel).content.audioChannel), (key: string) => {
+					paths.push({ path: ['audio', 'channels', i, key] })
+				})
+			}
+		})
+		return paths
 	}
 	private _connectionChanged () {
 		this.emit('connectionChanged', this.getStatus())
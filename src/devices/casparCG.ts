@@ -29,7 +29,17 @@ import {
 	TimelineObjCCGProducerContentBase,
 	ResolvedTimelineObjectInstanceExtended,
 	TimelineObjCCGIP,
-	DeviceOptionsCasparCG
+	Ease,
+	DeviceOptionsCasparCG,
+	CasparCGPreflightIssue,
+	TimelineObjCasparCGAny,
+	CasparCGServerOptions,
+	CasparCGServerStatus,
+	CasparCGOptionsBase,
+	CasparCGDecklinkOutput,
+	TimelineObjCCGPlaylist,
+	PlaylistClip,
+	Transition
 } from '../types/src'
 
 import {
@@ -45,6 +55,12 @@ import * as request from 'request'
 
 const MAX_TIMESYNC_TRIES = 5
 const MAX_TIMESYNC_DURATION = 40
+/** The commands that start a producer, which the parameters of newer CasparCG versions can be added to */
+const PRODUCER_COMMANDS = [
+	'PlayCommand', 'LoadCommand', 'LoadbgCommand',
+	'PlayHtmlPageCommand', 'LoadHtmlPageCommand', 'LoadHtmlPageBgCommand',
+	'PlayDecklinkCommand', 'LoadDecklinkCommand', 'LoadDecklinkBgCommand'
+]
 
 export interface DeviceOptionsCasparCGInternal extends DeviceOptionsCasparCG {
 	options: (
@@ -52,7 +68,26 @@ export interface DeviceOptionsCasparCGInternal extends DeviceOptionsCasparCG {
 		{ commandReceiver?: CommandReceiver }
 	)
 }
-export type CommandReceiver = (time: number, cmd: CommandNS.IAMCPCommand, context: string, timelineObjId: string) => Promise<any>
+/** If serverId is set, the command is only to be sent to that server (otherwise to all connected servers) */
+export type CommandReceiver = (time: number, cmd: CommandNS.IAMCPCommand, context: string, timelineObjId: string, serverId?: string) => Promise<any>
+/** A CasparCG server controlled by the device. All servers receive the same commands */
+interface CasparCGServer {
+	id: string
+	options: CasparCGServerOptions
+	ccg: CasparCG
+	connected: boolean
+	/** The version of the server (example: [2, 3, 0]), known once connected */
+	version?: number[]
+}
+/** A media file or template used by a timeline object, to be checked before it goes on air */
+interface PreflightReference {
+	timelineObjId: string
+	type: TimelineContentTypeCasparCg.MEDIA | TimelineContentTypeCasparCg.TEMPLATE
+	name: string
+	seek?: number
+	inPoint?: number
+	length?: number
+}
 /**
  * This class is used to interface with CasparCG installations. It creates
  * device states from timeline states and then diffs these states to generate
@@ -61,16 +96,19 @@ export type CommandReceiver = (time: number, cmd: CommandNS.IAMCPCommand, contex
  */
 export class CasparCGDevice extends DeviceWithState<TimelineState> implements IDevice {
 
-	private _ccg: CasparCG
+	private _servers: CasparCGServer[] = []
+	private _onAirServerId: string = ''
 	private _ccgState: CasparCGState
+	private _virginServer: boolean = false
 	private _queue: { [token: string]: {time: number, command: CommandNS.IAMCPCommand} } = {}
 	private _commandReceiver: CommandReceiver
 	private _timeToTimecodeMap: {time: number, timecode: number} = { time: 0, timecode: 0 }
 	private _timeBase: {[channel: string]: number} | number = {}
 	private _useScheduling?: boolean
+	private _options: CasparCGOptionsBase = {}
 	private _doOnTime: DoOnTime
-	private initOptions?: CasparCGOptions
-	private _connected: boolean = false
+	private _preflightReferences: PreflightReference[] = []
+	private _preflightIssues: CasparCGPreflightIssue[] = []
 
 	constructor (deviceId: string, deviceOptions: DeviceOptionsCasparCGInternal, options) {
 		super(deviceId, deviceOptions, options)
@@ -78,6 +116,7 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 		if (deviceOptions.options) {
 			if (deviceOptions.options.commandReceiver) this._commandReceiver = deviceOptions.options.commandReceiver
 			else this._commandReceiver = this._defaultCommandReceiver
+			this._commandReceiver = this.handleCommandReceiver(this._commandReceiver)
 			if (deviceOptions.options.timeBase) this._timeBase = deviceOptions.options.timeBase
 		}
 
@@ -97,42 +136,138 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 	 * initializes CasparCG State library.
 	 */
 	async init (initOptions: CasparCGOptions): Promise<boolean> {
-		this.initOptions = initOptions
 		this._useScheduling = initOptions.useScheduling
-		this._ccg = new CasparCG({
-			host: initOptions.host,
-			port: initOptions.port,
-			autoConnect: true,
-			virginServerCheck: true,
-			onConnectionChanged: (connected: boolean) => {
-				this._connected = connected
-				this._connectionChanged()
+		this._options = initOptions
+
+		const serverOptions = 'servers' in initOptions ? initOptions.servers : [{ ...initOptions, id: 'main' }]
+		if (!serverOptions.length) throw new Error('CasparCG: No servers specified')
+		this._servers = _.map(serverOptions, (options) => this._connectServer(options.id, options))
+		this._onAirServerId = ('onAirServerId' in initOptions && initOptions.onAirServerId) || this._servers[0].id
+
+		// The channels are the same on all servers, use whichever server replies first:
+		const { server, command } = await Promise.race(_.map(this._servers, async (server) => {
+			return { server, command: await server.ccg.info() }
+		}))
+		await this._detectServerVersion(server)
+		this._ccgState.initStateFromChannelInfo(_.map(command.response.data, (obj: any) => {
+			return {
+				channelNo: obj.channel,
+				videoMode: obj.format.toUpperCase(),
+				fps: obj.frameRate
+			}
+		}) as StateNS.ChannelInfo[], this.getCurrentTime())
+
+		await this.restorePersistedState()
+
+		return true
+	}
+	/**
+	 * Initializes the CasparCG State library without connecting to the servers, with the channels used by the mappings.
+	 * The frame rates of the channels are taken from the timeBase option.
+	 */
+	async initOffline (initOptions: CasparCGOptions): Promise<boolean> {
+		this._useScheduling = initOptions.useScheduling
+		this._options = initOptions
+
+		let channelCount = 0
+		_.each(this.getMapping(), (mapping: MappingCasparCG) => {
+			if (mapping.device === DeviceType.CASPARCG && mapping.deviceId === this.deviceId) {
+				channelCount = Math.max(channelCount, mapping.channel)
 			}
 		})
+		const channels: StateNS.ChannelInfo[] = []
+		for (let channel = 1; channel <= channelCount; channel++) {
+			channels.push({
+				videoMode: 'UNKNOWN', // (only known by the server, and not used to generate the commands)
+				fps: this._getTimeBase(channel)
+			})
+		}
+		this._ccgState.initStateFromChannelInfo(channels, this.getCurrentTime())
+
+		return true
+	}
+
+	private _connectServer (id: string, options: CasparCGServerOptions): CasparCGServer {
+		const server: CasparCGServer = {
+			id: id,
+			options: options,
+			ccg: new CasparCG({
+				host: options.host,
+				port: options.port,
+				autoConnect: true,
+				virginServerCheck: true,
+				onConnectionChanged: (connected: boolean) => {
+					server.connected = connected
+					this._connectionChanged()
+				}
+			}),
+			connected: false
+		}
 
-		this._ccg.on(CasparCGSocketStatusEvent.CONNECTED, (event: CasparCGSocketStatusEvent) => {
-			this.makeReady(false) // always make sure timecode is correct, setting it can never do bad
+		server.ccg.on(CasparCGSocketStatusEvent.CONNECTED, (event: CasparCGSocketStatusEvent) => {
+			this._makeServerReady(server, false) // always make sure timecode is correct, setting it can never do bad
 			.catch((e) => this.emit('error', 'casparCG.makeReady', e))
+			this._detectServerVersion(server)
+			.then(() => this._addDecklinkOutputs(server))
+			.catch((e) => this.emit('error', 'casparCG.detectServerVersion', e))
 			if (event.valueOf().virginServer === true) {
 				// a "virgin server" was just restarted (so it is cleared & black).
 				// Otherwise it was probably just a loss of connection
 
-				this._ccgState.softClearState()
-				this.clearStates()
-				this.emit('resetResolver')
+				this._virginServer = true
+				if (this._servers.length > 1) {
+					// The other servers are still playing out the current state, so only this one is brought up to date:
+					this._resendState(server)
+				} else {
+					this._ccgState.softClearState()
+					this.clearStates()
+					this.emit('resetResolver')
+				}
 			}
+			// The media may have changed while disconnected:
+			if (this._preflightReferences.length) this._runPreflight()
 		})
+		return server
+	}
 
-		let command = await this._ccg.info()
-		this._ccgState.initStateFromChannelInfo(_.map(command.response.data, (obj: any) => {
-			return {
-				channelNo: obj.channel,
-				videoMode: obj.format.toUpperCase(),
-				fps: obj.frameRate
-			}
-		}) as StateNS.ChannelInfo[], this.getCurrentTime())
+	private async _detectServerVersion (server: CasparCGServer): Promise<void> {
+		if (this._options.serverVersion) {
+			server.version = parseVersion(this._options.serverVersion)
+		} else {
+			const command = await server.ccg.version()
+			server.version = parseVersion(command.response.data + '')
+		}
+	}
+	/**
+	 * Returns true if all servers (that have been connected) are at least of the given version
+	 */
+	private _supportsVersion (minimum: number[]): boolean {
+		const versions = _.compact(_.map(this._servers, server => server.version))
+		if (!this._servers.length && this._options.serverVersion) versions.push(parseVersion(this._options.serverVersion)) // (initialized offline)
+		return versions.length > 0 && _.all(versions, version => versionAtLeast(version, minimum))
+	}
+	private async _addDecklinkOutputs (server: CasparCGServer): Promise<void> {
+		const outputs = this._options.decklinkOutputs || []
+		if (!outputs.length) return
+		if (!server.version || !versionAtLeast(server.version, [2, 2])) {
+			this.emit('warning', `CasparCG ${server.id}: Decklink outputs require CasparCG 2.2 or later`)
+			return
+		}
+		// Adding an output again replaces it, so this is done on every connection:
+		await Promise.all(_.map(outputs, (output: CasparCGDecklinkOutput) => {
+			let command = `ADD ${output.channel} DECKLINK DEVICE ${output.device}`
+			if (output.keyDevice !== undefined) command += ` KEY_DEVICE ${output.keyDevice} EXTERNAL_KEY`
+			if (output.embeddedAudio) command += ' EMBEDDED_AUDIO'
+
+			return this._commandReceiver(this.getCurrentTime(), new AMCP.CustomCommand({ command }), 'decklinkOutputs', '', server.id)
+		}))
+	}
 
-		return true
+	/**
+	 * A persisted state is not valid if the server has been restarted (since it is then cleared)
+	 */
+	protected validatePersistedState (_state: TimelineState): boolean {
+		return !this._virginServer
 	}
 
 	/**
@@ -140,12 +275,16 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 	 */
 	terminate (): Promise<boolean> {
 		this._doOnTime.dispose()
-		return new Promise((resolve) => {
-			this._ccg.disconnect()
-			this._ccg.onDisconnected = () => {
-				resolve()
-			}
-		})
+		this.disposeStates()
+		return Promise.all(_.map(this._servers, (server) => {
+			return new Promise((resolve) => {
+				server.ccg.disconnect()
+				server.ccg.onDisconnected = () => {
+					resolve()
+				}
+			})
+		}))
+		.then(() => true)
 	}
 	/** Called by the Conductor a bit before a .handleState is called */
 	prepareForHandleState (newStateTime: number) {
@@ -172,10 +311,12 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 
 		let oldState: TimelineState = (this.getStateBefore(previousStateTime) || ({ state: { time: 0, layers: {}, nextEvents: [] } })).state
 
-		let newCasparState = this.convertStateToCaspar(newState)
-		let oldCasparState = this.convertStateToCaspar(oldState)
+		// The playlists of both states are resolved at the time the commands are sent:
+		let newCasparState = this.convertStateToCaspar(newState, previousStateTime)
+		let oldCasparState = this.convertStateToCaspar(oldState, previousStateTime)
 
 		let commandsToAchieveState = this._diffStates(oldCasparState, newCasparState, newState.time)
+		commandsToAchieveState = this._addNewerFeatures(commandsToAchieveState, oldState, newState)
 
 		// clear any queued commands later than this time:
 		if (this._useScheduling) {
@@ -185,9 +326,13 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 		}
 		// add the new commands to the queue:
 		this._addToQueue(commandsToAchieveState, newState.time)
+		this._queuePlaylists(newState, previousStateTime, commandsToAchieveState)
 
 		// store the new state, for later use:
 		this.setState(newState, newState.time)
+
+		// (The servers can't be checked when initialized offline)
+		if (this._servers.length) this._checkPreflight(newState)
 	}
 
 	/**
@@ -214,15 +359,17 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 	}
 	get connected (): boolean {
 		// Returns connection status
-		return this._ccg ? this._ccg.connected : false
+		return _.any(this._servers, server => server.ccg.connected)
 	}
 
 	get deviceType () {
 		return DeviceType.CASPARCG
 	}
 	get deviceName (): string {
-		if (this._ccg) {
-		  return 'CasparCG ' + this.deviceId + ' ' + this._ccg.host + ':' + this._ccg.port
+		if (this._servers.length === 1) {
+			return 'CasparCG ' + this.deviceId + ' ' + this._servers[0].ccg.host + ':' + this._servers[0].ccg.port
+		} else if (this._servers.length) {
+			return 'CasparCG ' + this.deviceId + ' ' + _.map(this._servers, server => `${server.id} ${server.ccg.host}:${server.ccg.port}`).join(', ')
 		} else {
 			return 'Uninitialized CasparCG ' + this.deviceId
 		}
@@ -236,11 +383,15 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 		}
 	}
 
+	convertTimelineState (state: TimelineState) {
+		return this.convertStateToCaspar(state)
+	}
 	/**
 	 * Takes a timeline state and returns a CasparCG State that will work with the state lib.
 	 * @param timelineState The timeline state to generate from.
+	 * @param time The time to resolve which clips of the playlists are playing at, defaults to the time of the state
 	 */
-	convertStateToCaspar (timelineState: TimelineState): StateNS.State {
+	convertStateToCaspar (timelineState: TimelineState, time?: number): StateNS.State {
 
 		const caspar = new StateNS.State()
 
@@ -390,6 +541,42 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 						playing:		true,
 						playTime:		null // layer.resolved.startTime || null,
 					})
+				} else if (layer.content.type === TimelineContentTypeCasparCg.PLAYLIST) {
+					const playlistObj = layer as any as TimelineObjCCGPlaylist
+					const clips = playlistObj.content.clips
+
+					if (clips.length) {
+						const clipStarts = getPlaylistClipStarts(playlistObj.content, startTime)
+						// The clip playing at the time (a clip that has been joined mid-way is seeked into):
+						let i = 0
+						while (i + 1 < clips.length && clipStarts[i + 1] <= (time !== undefined ? time : timelineState.time)) i++
+
+						const mediaLayer = literal<StateNS.IMediaLayer>({
+							...getPlaylistClipLayer(clips[i]),
+							id: 			layer.id,
+							layerNo:		mapping.layer,
+							content:		StateNS.LayerContentType.MEDIA,
+							playTime:		clipStarts[i],
+							playing:		true
+						})
+						// The next clip is started by CasparCG when this one ends:
+						const nextClip = clips[i + 1]
+						if (nextClip && !layerExt.isLookahead) {
+							mediaLayer.nextUp = literal<StateNS.NextUp>({
+								...getPlaylistClipLayer(nextClip),
+								id: 			layer.id,
+								layerNo:		mapping.layer,
+								content:		StateNS.LayerContentType.MEDIA,
+								auto:			true
+							})
+							if (nextClip.transition) {
+								mediaLayer.nextUp.media = new StateNS.TransitionObject(nextClip.file, {
+									inTransition: new StateNS.Transition(nextClip.transition)
+								})
+							}
+						}
+						stateLayer = mediaLayer
+					}
 				} else if (layer.content.type === TimelineContentTypeCasparCg.RECORD) {
 					const recordObj = layer as any as TimelineObjCCGRecord
 
@@ -426,6 +613,7 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 						case TimelineContentTypeCasparCg.TEMPLATE:
 						case TimelineContentTypeCasparCg.INPUT:
 						case TimelineContentTypeCasparCg.ROUTE:
+						case TimelineContentTypeCasparCg.PLAYLIST:
 							// create transition object
 							let media = stateLayer.media
 							let transitions = {} as any
@@ -445,12 +633,23 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 							break
 					}
 				}
-				if (layer.content.mixer) { // add mixer properties
+				if (layer.content.mixer || baseContent.mixerTween) { // add mixer properties
 					// just pass through values here:
 					let mixer: StateNS.Mixer = {}
-					_.each(layer.content.mixer, (value, property) => {
+					_.each(layer.content.mixer || {}, (value, property) => {
 						mixer[property] = value
 					})
+					if (baseContent.mixerTween) {
+						// Animate the changes, and commit all animations on the channel at once:
+						const tween: StateNS.ITransition = {
+							type: 'MIX',
+							duration: baseContent.mixerTween.duration,
+							easing: baseContent.mixerTween.easing || Ease.LINEAR
+						}
+						mixer.changeTransition = tween
+						mixer.outTransition = tween
+						mixer.bundleWithCommands = timelineState.time
+					}
 					stateLayer.mixer = mixer
 				}
 				stateLayer.layerNo = mapping.layer
@@ -458,6 +657,23 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 				if (!layerExt.isLookahead) { // foreground layer
 					const prev = channel.layers[mapping.layer] || {}
 					channel.layers[mapping.layer] = _.extend(stateLayer, _.pick(prev, 'nextUp'))
+
+					const inputObj = layer as any as TimelineObjCCGInput
+					if (inputObj.content.type === TimelineContentTypeCasparCg.INPUT && inputObj.content.keyDevice !== undefined) {
+						// The key is played on the layer below, keying the fill:
+						channel.layers[mapping.layer - 1] = literal<StateNS.IInputLayer>({
+							id: 			layer.id,
+							layerNo:		mapping.layer - 1,
+							content:		StateNS.LayerContentType.INPUT,
+							media:			stateLayer.media as StateNS.IInputLayer['media'],
+							input: {
+								device:			inputObj.content.keyDevice
+							},
+							mixer:			{ keyer: true },
+							playing:		true,
+							playTime:		null
+						})
+					}
 				} else { // background layer
 					let s = stateLayer as StateNS.NextUp
 					s.auto = false
@@ -491,8 +707,17 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 	 * @param okToDestroyStuff Whether it is OK to restart the device
 	 */
 	async makeReady (okToDestroyStuff?: boolean): Promise<void> {
+		await Promise.all(_.map(this._servers, server => this._makeServerReady(server, okToDestroyStuff)))
+
+		// reset our own state(s):
+		if (okToDestroyStuff) {
+			this.clearStates()
+		}
+		// a resolveTimeline will be triggered later
+	}
+	private async _makeServerReady (server: CasparCGServer, okToDestroyStuff?: boolean): Promise<void> {
 		// Sync Caspar Time to our time:
-		let command = await this._ccg.info()
+		let command = await server.ccg.info()
 		let channels: any[] = command.response.data
 		const attemptSync = async (channelNo, tries): Promise<void> => {
 			let startTime = this.getCurrentTime()
@@ -503,7 +728,8 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 					timecode: this.convertTimeToTimecode(startTime, channelNo)
 				}),
 				'makeReady',
-				''
+				'',
+				server.id
 			)
 
 			let duration = this.getCurrentTime() - startTime
@@ -535,29 +761,27 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 							channel: channel.channel
 						}),
 						'makeReady and destroystuff',
-						''
+						'',
+						server.id
 					)
 				})
 			)
 		}
-		// reset our own state(s):
-		if (okToDestroyStuff) {
-			this.clearStates()
-		}
-		// a resolveTimeline will be triggered later
 	}
 
 	/**
 	 * Attemps to restart casparcg over the HTTP API provided by CasparCG launcher.
+	 * @param serverId The server to restart, defaults to the one feeding air
 	 */
-	restartCasparCG (): Promise<any> {
+	restartCasparCG (serverId?: string): Promise<any> {
 		return new Promise((resolve, reject) => {
 
-			if (!this.initOptions) throw new Error('CasparCGDevice._connectionOptions is not set!')
-			if (!this.initOptions.launcherHost) throw new Error('CasparCGDevice: config.launcherHost is not set!')
-			if (!this.initOptions.launcherPort) throw new Error('CasparCGDevice: config.launcherPort is not set!')
+			const server = this._getServer(serverId || this._onAirServerId)
+			if (!server) throw new Error(`CasparCG: Unknown server "${serverId || this._onAirServerId}"`)
+			if (!server.options.launcherHost) throw new Error('CasparCGDevice: config.launcherHost is not set!')
+			if (!server.options.launcherPort) throw new Error('CasparCGDevice: config.launcherPort is not set!')
 
-			let url = `http://${this.initOptions.launcherHost}:${this.initOptions.launcherPort}/processes/casparcg/restart`
+			let url = `http://${server.options.launcherHost}:${server.options.launcherPort}/processes/casparcg/restart`
 			request.post(
 				url,
 				{}, // json: cmd.params
@@ -577,23 +801,314 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 		let statusCode = StatusCode.GOOD
 		let messages: Array<string> = []
 
-		if (statusCode === StatusCode.GOOD) {
-			if (!this._connected) {
-				statusCode = StatusCode.BAD
-				messages.push(`CasparCG disconnected`)
-			}
+		// The device is usable as long as one of the servers is:
+		const serverStatuses = this.getServerStatuses()
+		if (!_.any(serverStatuses, status => status.connected)) {
+			statusCode = StatusCode.BAD
 		}
+		_.each(serverStatuses, (status: CasparCGServerStatus) => {
+			messages.push(...status.messages)
+		})
 
 		if (!this._ccgState.isInitialised) {
 			statusCode = StatusCode.BAD
 			messages.push(`CasparCG device connection not initialized (restart required)`)
 		}
 
+		if (statusCode === StatusCode.GOOD && this._preflightIssues.length) {
+			statusCode = StatusCode.WARNING_MAJOR
+		}
+		_.each(this._preflightIssues, (issue: CasparCGPreflightIssue) => {
+			messages.push(`${issue.name} (${issue.timelineObjId}): ${issue.message}`)
+		})
+
 		return {
 			statusCode: statusCode,
 			messages: messages
 		}
 	}
+	/**
+	 * Returns the status of each of the servers
+	 */
+	getServerStatuses (): CasparCGServerStatus[] {
+		return _.map(this._servers, (server: CasparCGServer) => {
+			const messages: Array<string> = []
+			if (!server.connected) {
+				messages.push(this._servers.length > 1 ? `CasparCG ${server.id} disconnected` : `CasparCG disconnected`)
+			}
+			return {
+				serverId: server.id,
+				connected: server.connected,
+				onAir: server.id === this._onAirServerId,
+				messages: messages
+			}
+		})
+	}
+	/**
+	 * Marks which of the servers is currently feeding air
+	 */
+	setOnAirServer (serverId: string): void {
+		if (!this._getServer(serverId)) throw new Error(`CasparCG: Unknown server "${serverId}"`)
+		if (serverId === this._onAirServerId) return
+
+		this._onAirServerId = serverId
+		this._connectionChanged()
+		// The media is checked on the server feeding air:
+		if (this._preflightReferences.length) this._runPreflight()
+	}
+	private _getServer (serverId: string): CasparCGServer | undefined {
+		return _.find(this._servers, server => server.id === serverId)
+	}
+	/**
+	 * Sends the commands to bring a server that has been cleared up to the current state,
+	 * including the commands scheduled in the other servers
+	 */
+	private _resendState (server: CasparCGServer) {
+		const time = this.getCurrentTime()
+		const currentState = this.getState(time)
+		if (!currentState) return
+
+		const emptyState: TimelineState = { time: 0, layers: {}, nextEvents: [] }
+		const commands = this._addNewerFeatures(
+			this._diffStates(this.convertStateToCaspar(emptyState), this.convertStateToCaspar(currentState.state), time),
+			emptyState,
+			currentState.state
+		)
+		_.each(commands, (cmd: IAMCPCommandVOWithContext) => {
+			this._commandReceiver(time, AMCPUtil.deSerialize(cmd, 'id'), cmd.context.context, cmd.context.layerId, server.id)
+			.catch(e => this.emit('error', 'CasparCG._resendState', e))
+		})
+		_.each(this._queue, (q, token: string) => {
+			if (q.time <= time) return
+			const scheduleCommand = new AMCP.ScheduleSetCommand({
+				token,
+				timecode: this.convertTimeToTimecode(q.time, q.command.channel),
+				command: q.command
+			})
+			this._commandReceiver(time, scheduleCommand, '_resendState', '', server.id)
+			.catch(e => this.emit('error', 'CasparCG._resendState', e))
+		})
+	}
+	/**
+	 * Checks the media and templates of the objects in the current and the new state (including the lookahead objects),
+	 * if they have changed since they were last checked
+	 */
+	private _checkPreflight (newState: TimelineState) {
+		const references: {[timelineObjId: string]: PreflightReference} = {}
+		const currentState = this.getState(this.getCurrentTime())
+
+		_.each([currentState && currentState.state, newState], (state: TimelineState | null) => {
+			if (!state) return
+			_.each(state.layers, (tlObject: ResolvedTimelineObjectInstance) => {
+				const obj = tlObject as any as TimelineObjCasparCGAny
+				if (obj.content.type === TimelineContentTypeCasparCg.MEDIA) {
+					references[obj.id] = {
+						timelineObjId: obj.id,
+						type: obj.content.type,
+						name: obj.content.file,
+						seek: obj.content.seek,
+						inPoint: obj.content.inPoint,
+						length: obj.content.length
+					}
+				} else if (obj.content.type === TimelineContentTypeCasparCg.PLAYLIST) {
+					_.each(obj.content.clips, (clip: PlaylistClip, i: number) => {
+						references[obj.id + '_' + i] = {
+							timelineObjId: obj.id,
+							type: TimelineContentTypeCasparCg.MEDIA,
+							name: clip.file,
+							inPoint: clip.inPoint,
+							length: clip.outPoint - (clip.inPoint || 0)
+						}
+					})
+				} else if (obj.content.type === TimelineContentTypeCasparCg.TEMPLATE) {
+					references[obj.id] = {
+						timelineObjId: obj.id,
+						type: obj.content.type,
+						name: obj.content.name
+					}
+				}
+			})
+		})
+		const sortedReferences = _.sortBy(_.values(references), 'timelineObjId')
+		if (_.isEqual(sortedReferences, this._preflightReferences)) return
+
+		this._preflightReferences = sortedReferences
+		this._runPreflight()
+	}
+	private _runPreflight () {
+		const references = this._preflightReferences
+		this._preflight(references)
+		.then((issues: CasparCGPreflightIssue[]) => {
+			if (references !== this._preflightReferences) return // A newer check has been started
+
+			if (!_.isEqual(issues, this._preflightIssues)) {
+				this._preflightIssues = issues
+				this._connectionChanged()
+			}
+			this.emit('preflight', issues)
+		})
+		.catch(e => this.emit('warning', 'CasparCG preflight failed: ' + e))
+	}
+	/**
+	 * Checks that the media files and templates exist in CasparCG, and that the media is long enough
+	 */
+	private async _preflight (references: PreflightReference[]): Promise<CasparCGPreflightIssue[]> {
+		const issues: CasparCGPreflightIssue[] = []
+
+		const templateReferences = _.filter(references, reference => reference.type === TimelineContentTypeCasparCg.TEMPLATE)
+		if (templateReferences.length) {
+			const tls = await this._getPrimaryServer().ccg.tls()
+			const templates = _.map(tls.response.data, (template: any) => normalizeName(template.name))
+
+			_.each(templateReferences, (reference) => {
+				if (templates.indexOf(normalizeName(reference.name)) === -1) {
+					issues.push({ timelineObjId: reference.timelineObjId, name: reference.name, message: 'Template not found' })
+				}
+			})
+		}
+
+		const durations: {[name: string]: number | null} = {}
+		for (const reference of references) {
+			if (reference.type !== TimelineContentTypeCasparCg.MEDIA) continue
+
+			const name = normalizeName(reference.name)
+			if (!_.has(durations, name)) durations[name] = await this._getMediaDuration(reference.name)
+			const duration = durations[name]
+
+			const addIssue = (message: string) => {
+				issues.push({ timelineObjId: reference.timelineObjId, name: reference.name, message })
+			}
+			if (duration === null) {
+				addIssue('Media not found')
+			} else if (duration) {
+				if (reference.seek && reference.seek > duration) {
+					addIssue(`Seek (${reference.seek} ms) is beyond the end of the media (${duration} ms)`)
+				}
+				if (reference.inPoint && reference.inPoint > duration) {
+					addIssue(`The inPoint (${reference.inPoint} ms) is beyond the end of the media (${duration} ms)`)
+				}
+				if (reference.length && (reference.inPoint || 0) + reference.length > duration) {
+					addIssue(`The length (${reference.length} ms) exceeds the media (${duration} ms)`)
+				}
+			}
+		}
+		return issues
+	}
+	/** The server feeding air, or any connected server if that one is disconnected */
+	private _getPrimaryServer (): CasparCGServer {
+		const onAirServer = this._getServer(this._onAirServerId)
+		if (onAirServer && onAirServer.connected) return onAirServer
+		return _.find(this._servers, server => server.connected) || onAirServer || this._servers[0]
+	}
+	/**
+	 * Returns the duration of a media file [ms] (0 if not applicable, such as for still images), or null if it doesn't exist
+	 */
+	private async _getMediaDuration (name: string): Promise<number | null> {
+		try {
+			const cinf = await this._getPrimaryServer().ccg.cinf(name)
+			const info = cinf.response.data
+			// The frame time is given as a fraction, eg "1/25":
+			const frameTime = (info.fps + '').split('/')
+			return Math.round(info.duration * Number(frameTime[0]) / Number(frameTime[1]) * 1000) || 0
+		} catch (e) {
+			if (e && e.response && e.response.code === 404) return null
+			throw e
+		}
+	}
+	/**
+	 * Queues the loading of the clips of the playlists, each clip being loaded in the background
+	 * when the clip before it has started (the first ones are loaded through the state)
+	 */
+	private _queuePlaylists (newState: TimelineState, time: number, commandsToAchieveState: Array<IAMCPCommandVOWithContext>) {
+		_.each(newState.layers, (layer: ResolvedTimelineObjectInstance, layerName: string) => {
+			const playlistObj = layer as any as TimelineObjCCGPlaylist
+			const mapping = this.getMapping()[layerName] as MappingCasparCG | undefined
+			if (playlistObj.content.type !== TimelineContentTypeCasparCg.PLAYLIST || !mapping || mapping.device !== DeviceType.CASPARCG) return
+			if ((layer as ResolvedTimelineObjectInstanceExtended).isLookahead) return
+
+			const isLoadingNextClip = (cmd: IAMCPCommandVOWithContext) => {
+				return (
+					cmd._commandName === 'LoadbgCommand' &&
+					cmd._objectParams.clip !== 'EMPTY' &&
+					cmd._objectParams.channel === mapping.channel &&
+					cmd._objectParams.layer === mapping.layer
+				)
+			}
+			const clipStarts = getPlaylistClipStarts(playlistObj.content, layer.instance.originalStart || layer.instance.start)
+			for (let i = 1; i < clipStarts.length - 1; i++) {
+				if (clipStarts[i + 1] <= time) continue
+				if (layer.instance.end !== null && clipStarts[i] >= layer.instance.end) break
+				// When the clip is playing, the next one is loaded through the state unless the playlist was playing already,
+				// in which case its queued loading could have been cleared, so it's loaded again:
+				if (clipStarts[i] <= time && _.any(commandsToAchieveState, isLoadingNextClip)) continue
+
+				// Diffing the states just before and after the clip has started gives the loading of the next clip:
+				const commands = _.filter(this._diffStates(
+					this.convertStateToCaspar(newState, clipStarts[i] - 1),
+					this.convertStateToCaspar(newState, clipStarts[i]),
+					clipStarts[i]
+				), isLoadingNextClip)
+				// Halfway through the clip (or right away if that's passed), to leave a margin for CasparCG starting it:
+				this._addToQueue(commands, Math.max(Math.round((clipStarts[i] + clipStarts[i + 1]) / 2), time))
+			}
+		})
+	}
+	/**
+	 * Adds the parameters and CALL commands of newer CasparCG versions, which the state library doesn't know about
+	 */
+	private _addNewerFeatures (commands: Array<IAMCPCommandVOWithContext>, oldState: TimelineState, newState: TimelineState): Array<IAMCPCommandVOWithContext> {
+		const supported = this._supportsVersion([2, 2])
+		const warnUnsupported = (timelineObjId: string) => {
+			this.emit('warning', `CasparCG: The object "${timelineObjId}" uses features that require CasparCG 2.2 or later`)
+		}
+		const objects: {[id: string]: { tlObject: ResolvedTimelineObjectInstance, layerNo: number }} = {}
+		_.each(newState.layers, (tlObject: ResolvedTimelineObjectInstance, layerName: string) => {
+			const mapping = (this.getMapping()[layerName] || this.getMapping()[(tlObject as ResolvedTimelineObjectInstanceExtended).lookaheadForLayer || '']) as MappingCasparCG | undefined
+			if (mapping) objects[tlObject.id] = { tlObject, layerNo: mapping.layer }
+		})
+
+		const result = _.map(commands, (cmd: IAMCPCommandVOWithContext) => {
+			const object = objects[cmd.context.layerId]
+			if (!object || PRODUCER_COMMANDS.indexOf(cmd._commandName) === -1) return cmd
+			// Only the commands for the mapped layer (not eg the key of a key/fill input):
+			if (cmd._objectParams.layer !== object.layerNo) return cmd
+			const tlObject = object.tlObject
+			// A PLAY without a producer plays what was loaded in the background:
+			if (!_.any(['clip', 'url', 'device'], param => _.has(cmd._objectParams, param))) return cmd
+
+			const parameters = getProducerParameters(tlObject.content as TimelineObjCasparCGAny['content'])
+			if (!parameters.length) return cmd
+			if (!supported) {
+				warnUnsupported(tlObject.id)
+				return cmd
+			}
+			return literal<IAMCPCommandVOWithContext>({
+				...new AMCP.CustomCommand({ command: commandToString(cmd) + ' ' + parameters.join(' ') }).serialize(),
+				context: cmd.context
+			})
+		})
+
+		_.each(newState.layers, (tlObject: ResolvedTimelineObjectInstance, layerName: string) => {
+			const content = tlObject.content as TimelineObjCCGProducerContentBase
+			const mapping = this.getMapping()[layerName] as MappingCasparCG | undefined
+			if (!content.calls || !content.calls.length || !mapping || mapping.device !== DeviceType.CASPARCG) return
+			if ((tlObject as ResolvedTimelineObjectInstanceExtended).isLookahead) return
+
+			const oldObject = oldState.layers[layerName]
+			if (oldObject && oldObject.id === tlObject.id && _.isEqual(oldObject.content.calls, content.calls)) return
+			if (!supported) {
+				warnUnsupported(tlObject.id)
+				return
+			}
+			_.each(content.calls, (call: string) => {
+				result.push(literal<IAMCPCommandVOWithContext>({
+					...new AMCP.CustomCommand({ command: `CALL ${mapping.channel}-${mapping.layer} ${call}` }).serialize(),
+					context: { context: `calls (${tlObject.id})`, layerId: tlObject.id }
+				}))
+			})
+		})
+		return result
+	}
 	/**
 	 * Compares the new timeline-state with the old one, and generates commands to account for the difference
 	 */
@@ -698,12 +1213,18 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 		})
 
 	}
+	protected serializeLoggedCommand (command: CommandNS.IAMCPCommand): CommandNS.IAMCPCommandVO {
+		return command.serialize()
+	}
+	protected deserializeLoggedCommand (command: CommandNS.IAMCPCommandVO): CommandNS.IAMCPCommand {
+		return AMCPUtil.deSerialize(command, 'id')
+	}
 	/**
 	 * Sends a command over a casparcg-connection instance
 	 * @param time deprecated
 	 * @param cmd Command to execute
 	 */
-	private _defaultCommandReceiver (_time: number, cmd: CommandNS.IAMCPCommand, context: string, timelineObjId: string): Promise<any> {
+	private _defaultCommandReceiver (_time: number, cmd: CommandNS.IAMCPCommand, context: string, timelineObjId: string, serverId?: string): Promise<any> {
 
 		let cwc: CommandWithContext = {
 			context: context,
@@ -712,7 +1233,20 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 		}
 		this.emit('debug', cwc)
 
-		return this._ccg.do(cmd)
+		const primaryServer = serverId ? this._getServer(serverId) : this._getPrimaryServer()
+		if (!primaryServer) return Promise.reject(new Error(`CasparCG: Unknown server "${serverId}"`))
+
+		// Disconnected servers are skipped, they are brought up to date by _resendState() once they connect:
+		const mirrorServers = serverId ? [] : _.filter(this._servers, server => server !== primaryServer && server.connected)
+		_.each(mirrorServers, server => {
+			// A command can only be sent once, so the other servers get copies of it:
+			this._sendCommand(server, AMCPUtil.deSerialize(cmd.serialize(), 'id'), cwc)
+			.catch(e => this.emit('error', 'CasparCG._sendCommand', e))
+		})
+		return this._sendCommand(primaryServer, cmd, cwc)
+	}
+	private _sendCommand (server: CasparCGServer, cmd: CommandNS.IAMCPCommand, cwc: CommandWithContext): Promise<any> {
+		return server.ccg.do(cmd)
 		.then((resCommand) => {
 			if (this._queue[resCommand.token]) {
 				delete this._queue[resCommand.token]
@@ -735,6 +1269,9 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 			if (cmd.name) {
 				errorString += ` ${cmd.name} `
 			}
+			if (this._servers.length > 1) {
+				errorString += `(${server.id})`
+			}
 			if (cmd['_objectParams'] && !_.isEmpty(cmd['_objectParams'])) {
 				errorString += ', params: ' + JSON.stringify(cmd['_objectParams'])
 			} else if (cmd.payload && !_.isEmpty(cmd.payload)) {
@@ -758,11 +1295,7 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 		let relTime = time - this._timeToTimecodeMap.time
 		let timecodeTime = this._timeToTimecodeMap.timecode + relTime
 
-		let timeBase = (
-			typeof this._timeBase === 'object' ?
-			this._timeBase[channel + ''] :
-			this._timeBase
-		) || 25
+		let timeBase = this._getTimeBase(channel)
 
 		let timecode = [
 			('0' + (Math.floor(timecodeTime / 3.6e6) % 24)).substr(-2),
@@ -773,7 +1306,85 @@ export class CasparCGDevice extends DeviceWithState<TimelineState> implements ID
 
 		return timecode.join(':')
 	}
+	private _getTimeBase (channel: number): number {
+		return (
+			typeof this._timeBase === 'object' ?
+			this._timeBase[channel + ''] :
+			this._timeBase
+		) || 25
+	}
 	private _connectionChanged () {
 		this.emit('connectionChanged', this.getStatus())
 	}
 }
+/** Media and templates are case-insensitive in CasparCG */
+function normalizeName (name: string): string {
+	return (name + '').replace(/\\/g, '/').toUpperCase()
+}
+/**
+ * Returns the parameters of newer CasparCG versions to add to the command starting the producer of an object
+ */
+function getProducerParameters (content: TimelineObjCasparCGAny['content']): string[] {
+	const parameters: string[] = []
+	if (content.type === TimelineContentTypeCasparCg.HTMLPAGE) {
+		_.each(content.cefParameters || {}, (value: string | number, name: string) => {
+			parameters.push(`${name} ${value}`)
+		})
+	} else if (
+		content.type === TimelineContentTypeCasparCg.MEDIA ||
+		content.type === TimelineContentTypeCasparCg.IP ||
+		content.type === TimelineContentTypeCasparCg.INPUT
+	) {
+		if (content.audioChannels && content.audioChannels.length) {
+			// Map the source channels to the output channels with an ffmpeg audio filter:
+			const channels = _.map(content.audioChannels, (sourceChannel: number, i: number) => `c${i}=c${sourceChannel - 1}`)
+			parameters.push(`AF "pan=${content.audioChannels.length}c|${channels.join('|')}"`)
+		}
+	}
+	return parameters
+}
+/**
+ * Returns the times the clips of a playlist start at
+ */
+function getPlaylistClipStarts (content: TimelineObjCCGPlaylist['content'], startTime: number): number[] {
+	const clipStarts: number[] = []
+	let time = startTime
+	_.each(content.clips, (clip: PlaylistClip, i: number) => {
+		// A clip started by AUTO starts before the end of the previous clip, by the duration of its transition:
+		if (i > 0 && clip.transition && clip.transition.type !== Transition.STING) {
+			time -= clip.transition.duration || 0
+		}
+		clipStarts.push(time)
+		time += clip.outPoint - (clip.inPoint || 0)
+	})
+	return clipStarts
+}
+function getPlaylistClipLayer (clip: PlaylistClip) {
+	return {
+		media:		clip.file,
+		seek:		clip.inPoint,
+		inPoint:	clip.inPoint,
+		length:		clip.outPoint - (clip.inPoint || 0)
+	}
+}
+/** Returns the AMCP string of a command */
+function commandToString (cmd: CommandNS.IAMCPCommandVO): string {
+	const command = AMCPUtil.deSerialize(cmd, 'id')
+	command.validateParams()
+	return _.compact([
+		command.constructor['commandString'],
+		command.address,
+		..._.map(command.payload, (payload: any) => (payload.key ? payload.key + ' ' : '') + payload.value)
+	]).join(' ')
+}
+/** Parses a version string (example: "2.3.0 a0af4ec Stable") */
+function parseVersion (version: string): number[] {
+	const match = version.match(/^\d+(\.\d+)*/)
+	return _.map((match ? match[0] : '0').split('.'), Number)
+}
+function versionAtLeast (version: number[], minimum: number[]): boolean {
+	for (let i = 0; i < minimum.length; i++) {
+		if ((version[i] || 0) !== minimum[i]) return (version[i] || 0) > minimum[i]
+	}
+	return true
+}
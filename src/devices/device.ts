@@ -2,11 +2,19 @@ import * as _ from 'underscore'
 import { TimelineState } from 'superfly-timeline'
 import {
 	Mappings,
-	DeviceType
+	DeviceType,
+	CasparCGPreflightIssue
 } from '../types/src'
 import { EventEmitter } from 'events'
 import { CommandReport, DoOnTime } from '../doOnTime'
 import { DeviceInitOptions, DeviceOptionsAny } from '../types/src/device'
+import { DeviceStateStore, PersistedDeviceState } from '../stateStore'
+import { CommandLog, CommandLogEntry } from '../commandLog'
+import { getDiff } from '../lib'
+
+/** How long to wait after a state change before comparing the actual state with the expected state */
+const STATE_DRIFT_SETTLE_TIME = 1000
+
 /*
 	This is a base class for all the Device wrappers.
 	The Device wrappers will
@@ -27,6 +35,19 @@ export interface CommandWithContext {
 	timelineObjId: string
 	command: any
 }
+/**
+ * The changes of a timeline state since the previous state, as sent from the Conductor to the devices
+ */
+export interface TimelineStateDelta {
+	time: number
+	/** The layers that have been added or changed */
+	layers: TimelineState['layers']
+	/** The ids of the layers that have been removed */
+	removedLayers: string[]
+	/** If true, the layers make up the whole state, instead of being changes to the previous state */
+	full: boolean
+}
+export type CommandReceiverAny = (time: number, cmd: any, context: any, timelineObjId: string, ...args: any[]) => Promise<any>
 export enum StatusCode {
 	UNKNOWN = 0, 		// Status unknown
 	GOOD = 1, 			// All good and green
@@ -44,16 +65,26 @@ export function literal<T> (o: T) { return o }
 
 export interface DeviceClassOptions {
 	getCurrentTime: () => number
+	/** If true, the device will always pull the time from getCurrentTime, instead of syncing to the local clock */
+	useDirectTime?: boolean
+	/** If set, devices with state will persist their state in the store, so that it can be restored after a restart */
+	stateStore?: DeviceStateStore
+	/** If set, all commands sent by the device are appended to the log */
+	commandLog?: CommandLog
 }
 
 export interface IDevice {
 	init: (initOptions: DeviceInitOptions) => Promise<boolean>
+	initOffline: (initOptions: DeviceInitOptions) => Promise<boolean>
 
 	getCurrentTime: () => number
 
 	prepareForHandleState: (newStateTime: number) => void
 	handleState: (newState: TimelineState) => void
+	handleStateDelta: (delta: TimelineStateDelta) => void
 	clearFuture: (clearAfterTime: number) => void
+	convertTimelineState: (state: TimelineState) => any
+	replayCommand: (entry: CommandLogEntry) => Promise<any>
 	canConnect: boolean
 	connected: boolean
 
@@ -87,6 +118,10 @@ export abstract class Device extends EventEmitter implements IDevice {
 	private _currentTimeUpdated: number = 0
 	private _instanceId: number
 	private _startTime: number
+	private _commandLog: CommandLog | undefined
+	private _replayCommandReceiver: CommandReceiverAny | undefined
+	private _deltaLayers: TimelineState['layers'] | null = null
+	private _doOnTimes: DoOnTime[] = []
 
 	public useDirectTime: boolean = false
 	protected _deviceOptions: DeviceOptionsAny
@@ -109,10 +144,14 @@ export abstract class Device extends EventEmitter implements IDevice {
 			// Because Jest does a lot of funky stuff with the timing, we have to pull the time directly.
 			this.useDirectTime = true
 		}
+		if (options.useDirectTime) {
+			this.useDirectTime = true
+		}
 
 		if (options.getCurrentTime) {
 			this._getCurrentTime = () => options.getCurrentTime()
 		}
+		this._commandLog = options.commandLog
 
 		this._updateCurrentTime()
 	}
@@ -122,6 +161,14 @@ export abstract class Device extends EventEmitter implements IDevice {
 	 * @param initOptions Device-specific options
 	 */
 	abstract init (initOptions: DeviceInitOptions): Promise<boolean>
+	/**
+	 * Prepare the device for generating commands without connecting to it (such as when simulating).
+	 * Devices that generate their commands from the state of the physical device start out from a state based on the mappings.
+	 * @param initOptions Device-specific options
+	 */
+	initOffline (_initOptions: DeviceInitOptions): Promise<boolean> {
+		return Promise.resolve(true)
+	}
 	terminate (): Promise<boolean> {
 		return Promise.resolve(true)
 	}
@@ -141,11 +188,70 @@ export abstract class Device extends EventEmitter implements IDevice {
 	abstract prepareForHandleState (newStateTime: number)
 	/** Called from Conductor when a new state is to be handled */
 	abstract handleState (newState: TimelineState)
+	/**
+	 * Called from Conductor when a new state is to be handled, containing only the changes since the previous delta.
+	 * The full state is put together and passed on to handleState.
+	 */
+	handleStateDelta (delta: TimelineStateDelta) {
+		if (!delta.full && !this._deltaLayers) throw new Error(`Device "${this.deviceId}" got a state delta without a previous state`)
+
+		const layers: TimelineState['layers'] = delta.full ? {} : _.clone(this._deltaLayers || {})
+		_.extend(layers, delta.layers)
+		_.each(delta.removedLayers, (layerId: string) => {
+			delete layers[layerId]
+		})
+		this._deltaLayers = layers
+
+		return this.handleState({
+			time: delta.time,
+			layers: _.clone(layers),
+			nextEvents: []
+		})
+	}
 	/**
 	 * Clear any scheduled commands after this time
 	 * @param clearAfterTime
 	 */
 	abstract clearFuture (clearAfterTime: number)
+	/**
+	 * Converts a timeline state into the device-specific state
+	 * Returns null for devices that don't have a device-specific state
+	 * @param state The timeline state, filtered to contain only the layers of this device
+	 */
+	convertTimelineState (_state: TimelineState): any {
+		// This method should be overwritten by child
+		return null
+	}
+	/**
+	 * Sends a command from the command log to the device again.
+	 * The command is sent right away, bypassing the queue and the command log.
+	 */
+	replayCommand (entry: CommandLogEntry): Promise<any> {
+		if (!this._replayCommandReceiver) return Promise.reject(new Error(`Device "${this.deviceId}" doesn't support replaying commands`))
+		let command: any
+		try {
+			command = this.deserializeLoggedCommand(entry.command)
+		} catch (e) {
+			return Promise.reject(e)
+		}
+		return this._replayCommandReceiver(this.getCurrentTime(), command, entry.context, entry.timelineObjId)
+	}
+	/**
+	 * Returns the time of the earliest command queued by the device, or null if there are none.
+	 * Used to run the queues without waiting for the time to pass (see renderTimeline())
+	 */
+	getNextQueuedTime (): number | null {
+		const times = _.filter(_.map(this._doOnTimes, doOnTime => doOnTime.getNextTime()), time => time !== null) as number[]
+		return times.length ? _.min(times) : null
+	}
+	/**
+	 * Executes the queued commands that are due, without waiting for the next scheduled check of the queues.
+	 * Resolves once the commands have been executed.
+	 */
+	async executeDueCommands (): Promise<void> {
+		_.each(this._doOnTimes, doOnTime => doOnTime.checkQueue())
+		await Promise.all(_.map(this._doOnTimes, doOnTime => doOnTime.waitForDueCommands()))
+	}
 	abstract get canConnect (): boolean
 	abstract get connected (): boolean
 
@@ -218,8 +324,12 @@ export abstract class Device extends EventEmitter implements IDevice {
 	on (event: 'resetResolver',		listener: () => void): this
 	/** A report that a command was sent too late */
 	on (event: 'slowCommand',		listener: (commandInfo: string) => void): this
-	/** Something went wrong when executing a command  */
-	on (event: 'commandError', listener: (error: Error, context: CommandWithContext) => void): this
+	/** Something went wrong when executing a command. The commandReport is provided for commands that have failed after all attempts of the retry policy */
+	on (event: 'commandError', listener: (error: Error, context: CommandWithContext, commandReport?: CommandReport) => void): this
+	/** The actual state of the device has drifted from the expected state (ie someone changed something manually) */
+	on (event: 'stateDrift',		listener: (diff: string) => void): this
+	/** The media and templates of the current and upcoming objects have been checked (CasparCG) */
+	on (event: 'preflight',			listener: (issues: CasparCGPreflightIssue[]) => void): this
 	on (event: string | symbol, listener: (...args: any[]) => void): this {
 		return super.on(event, listener)
 	}
@@ -232,7 +342,9 @@ export abstract class Device extends EventEmitter implements IDevice {
 	emit (event: 'resetResolver'): boolean
 	emit (event: 'slowCommand',			commandInfo: string): boolean
 	emit (event: 'commandReport',		commandReport: CommandReport): boolean
-	emit (event: 'commandError',		error: Error, context: CommandWithContext): boolean
+	emit (event: 'commandError',		error: Error, context: CommandWithContext, commandReport?: CommandReport): boolean
+	emit (event: 'stateDrift',			diff: string): boolean
+	emit (event: 'preflight',			issues: CasparCGPreflightIssue[]): boolean
 	emit (event: string, ...args: any[]): boolean {
 		return super.emit(event, ...args)
 	}
@@ -244,7 +356,66 @@ export abstract class Device extends EventEmitter implements IDevice {
 	public get startTime (): number {
 		return this._startTime
 	}
+	/**
+	 * Sets up the commandReceiver of the device to be used when replaying commands,
+	 * and wraps it so that all commands sent are appended to the command log (if any).
+	 * Returns the commandReceiver to be used by the device.
+	 */
+	protected handleCommandReceiver<T extends CommandReceiverAny> (commandReceiver: T): T {
+		this._replayCommandReceiver = (time, cmd, context, timelineObjId) => commandReceiver.call(this, time, cmd, context, timelineObjId)
+
+		const commandLog = this._commandLog
+		if (!commandLog) return commandReceiver
+
+		const loggingCommandReceiver: CommandReceiverAny = (time, cmd, context, timelineObjId, ...args) => {
+			const send = this.getCurrentTime()
+			const appendToLog = (error?: any) => {
+				const entry: CommandLogEntry = {
+					deviceId: this.deviceId,
+					plannedSend: time,
+					send: send,
+					fullfilled: this.getCurrentTime(),
+					timelineObjId: timelineObjId,
+					context: context,
+					command: this.serializeLoggedCommand(cmd)
+				}
+				if (error) entry.error = error + ''
+				commandLog.append(entry)
+				.catch(e => this.emit('error', 'commandLog.append', e))
+			}
+			let p: Promise<any>
+			try {
+				p = Promise.resolve(commandReceiver.call(this, time, cmd, context, timelineObjId, ...args))
+			} catch (e) {
+				p = Promise.reject(e)
+			}
+			return p.then((result) => {
+				appendToLog()
+				return result
+			}, (error) => {
+				appendToLog(error)
+				throw error
+			})
+		}
+		return loggingCommandReceiver as T
+	}
+	/**
+	 * Converts a command into something that can be stored in the command log
+	 */
+	protected serializeLoggedCommand (command: any): any {
+		// This method should be overwritten by child, if the commands aren't plain objects
+		return command
+	}
+	/**
+	 * Converts a command from the command log back into a command to be sent by the device.
+	 * Throws if the command can't be replayed
+	 */
+	protected deserializeLoggedCommand (command: any): any {
+		// This method should be overwritten by child, if the commands aren't plain objects
+		return command
+	}
 	protected handleDoOnTime (doOnTime: DoOnTime, deviceType: string) {
+		this._doOnTimes.push(doOnTime)
 		doOnTime.on('error', e => this.emit('error', `${deviceType}.doOnTime`, e))
 		doOnTime.on('slowCommand', msg => this.emit('slowCommand', this.deviceName + ': ' + msg))
 		doOnTime.on('commandReport', commandReport => {
@@ -263,6 +434,17 @@ export abstract class Device extends EventEmitter implements IDevice {
 export abstract class DeviceWithState<T> extends Device {
 	private _states: {[time: string]: T} = {}
 	private _setStateCount: number = 0
+	private _stateStore: DeviceStateStore | undefined
+	/** Set when the device restores persisted states, as there's no point in persisting them otherwise */
+	private _persistStates: boolean = false
+	private _persistedState: T | undefined
+	private _persistTimeout: NodeJS.Timer | null = null
+	private _stateDrift: string | null = null
+
+	constructor (deviceId: string, deviceOptions: DeviceOptionsAny, options: DeviceClassOptions) {
+		super(deviceId, deviceOptions, options)
+		this._stateStore = options.stateStore
+	}
 
 	/**
 	 * Get the last known state before a point time. Useful for creating device
@@ -327,6 +509,7 @@ export abstract class DeviceWithState<T> extends Device {
 		this.cleanUpStates(0, time) // remove states after this time, as they are not relevant anymore
 
 		this._states[time + ''] = state
+		this._persistCommittedState()
 
 		this._setStateCount++
 		if (this._setStateCount > 10) {
@@ -369,5 +552,136 @@ export abstract class DeviceWithState<T> extends Device {
 		_.each(_.keys(this._states), (time: string) => {
 			delete this._states[time]
 		})
+		this._persistedState = undefined
+		if (this._persistStates && this._stateStore) {
+			this._stateStore.remove()
+			.catch(e => this.emit('error', 'stateStore.remove', e))
+		}
+	}
+	/**
+	 * Loads the state persisted in the state store and restores it as the current state,
+	 * provided that validatePersistedState() approves of it.
+	 * To be called by the device after it has connected.
+	 * @returns true if a state was restored
+	 */
+	protected async restorePersistedState (): Promise<boolean> {
+		if (!this._stateStore) return false
+		this._persistStates = true
+
+		let persistedState: PersistedDeviceState | null
+		try {
+			persistedState = await this._stateStore.load()
+		} catch (e) {
+			this.emit('error', 'stateStore.load', e)
+			return false
+		}
+		if (!persistedState) return false
+
+		const state: T = persistedState.state
+		if (!this.validatePersistedState(state)) {
+			this.emit('warning', `Persisted state from ${persistedState.time} does not match the state of the device, discarding it`)
+			return false
+		}
+		this.emit('info', `Restoring persisted state from ${persistedState.time}`)
+		this.setState(state, this.getCurrentTime())
+		return true
+	}
+	/**
+	 * Called when restoring a persisted state, to validate it against what the device reports.
+	 * Devices that are able to read back their state should override this.
+	 * @param _state The persisted state
+	 * @returns false if the persisted state does not reflect the device
+	 */
+	protected validatePersistedState (_state: T): boolean {
+		return true
+	}
+	/**
+	 * Compares the state the device is expected to be in with the actual state, as reported by the device.
+	 * If they differ, a 'stateDrift' event is emitted and, if the correctStateDrift-option is set,
+	 * the drift is corrected.
+	 * To be called by the device whenever it receives state from the device.
+	 * @param actualState The state as reported by the device
+	 */
+	protected checkStateDrift (actualState: T) {
+		const now = this.getCurrentTime()
+		const expected = this.getState(now)
+		if (!expected) return
+		// Give the device some time to reach the new state before comparing:
+		if (now - expected.time < STATE_DRIFT_SETTLE_TIME) return
+
+		const drift = this.getStateDrift(expected.state, actualState, expected.time)
+		if (drift === this._stateDrift) return // Only report (and correct) each drift once
+		this._stateDrift = drift
+
+		if (drift) {
+			this.emit('stateDrift', drift)
+			if (this._deviceOptions.correctStateDrift) {
+				this.correctStateDrift(expected.state, actualState, expected.time)
+			}
+		}
+	}
+	/**
+	 * Forgets the last reported drift, so that a drift that remains is reported (and corrected) again.
+	 * To be called when the device reconnects, as the commands sent while disconnected may have been lost.
+	 */
+	protected resetStateDrift () {
+		this._stateDrift = null
+	}
+	/**
+	 * Compares the expected state with the actual state.
+	 * Devices should override this to only compare the parts of the state that are controlled by the timeline.
+	 * @param expectedState The state the device is expected to be in
+	 * @param actualState The state as reported by the device
+	 * @param _expectedStateTime The time of the expected state
+	 * @returns an explanation of the difference, or null if there is no drift
+	 */
+	protected getStateDrift (expectedState: T, actualState: T, _expectedStateTime: number): string | null {
+		return getDiff(expectedState, actualState)
+	}
+	/**
+	 * Sends the commands needed to bring the device from the actual state back to the expected state.
+	 * @param _expectedState The state the device is expected to be in
+	 * @param _actualState The state as reported by the device
+	 * @param _expectedStateTime The time of the expected state
+	 */
+	protected correctStateDrift (_expectedState: T, _actualState: T, _expectedStateTime: number): void {
+		// This method should be overwritten by child
+		this.emit('warning', `Correcting state drift is not supported by ${this.deviceName}`)
+	}
+	/**
+	 * Stops persisting the states, to be called when the device is terminated.
+	 */
+	protected disposeStates () {
+		if (this._persistTimeout) {
+			clearTimeout(this._persistTimeout)
+			this._persistTimeout = null
+		}
+		this._persistStates = false
+	}
+	/**
+	 * Persists the last committed state, ie the last state whose time has passed.
+	 * States in the future (and lookahead) might never go on air, so they are persisted when their time comes
+	 */
+	private _persistCommittedState () {
+		if (!this._persistStates || !this._stateStore) return
+		if (this._persistTimeout) {
+			clearTimeout(this._persistTimeout)
+			this._persistTimeout = null
+		}
+		const now = this.getCurrentTime()
+		const committed = this.getState(now)
+		if (committed && committed.state !== this._persistedState) {
+			this._persistedState = committed.state
+			this._stateStore.save({ state: committed.state, time: committed.time })
+			.catch(e => this.emit('error', 'stateStore.save', e))
+		}
+		const futureTimes = _.filter(_.map(_.keys(this._states), time => parseFloat(time)), time => time > now)
+		if (futureTimes.length) {
+			const nextTime = _.min(futureTimes)
+			this._persistTimeout = setTimeout(() => {
+				this._persistTimeout = null
+				this._persistCommittedState()
+			}, nextTime - now)
+		}
 	}
 }
@@ -0,0 +1,59 @@
+import { DeviceType } from '../types/src'
+import { Device, DeviceClassOptions } from './device'
+import { AbstractDevice } from './abstract'
+import { CasparCGDevice } from './casparCG'
+import { AtemDevice } from './atem'
+import { HTTPSendDevice } from './httpSend'
+import { HTTPWatcherDevice } from './httpWatcher'
+import { LawoDevice } from './lawo'
+import { TCPSendDevice } from './tcpSend'
+import { PanasonicPtzDevice } from './panasonicPTZ'
+import { HyperdeckDevice } from './hyperdeck'
+import { PharosDevice } from './pharos'
+import { OSCMessageDevice } from './osc'
+import { QuantelDevice } from './quantel'
+import { SisyfosMessageDevice } from './sisyfos'
+import { SingularLiveDevice } from './singularLive'
+import { VMixDevice } from './vmix'
+import { OBSDevice } from './obs'
+import { TemplateCGDevice } from './templateCG'
+import { VideoRouterDevice } from './videoRouter'
+import { MIDIDevice } from './midi'
+import { DMXDevice } from './dmx'
+
+export interface DeviceClass {
+	/** The file of the class, relative to the DeviceContainer (used when running the device in a thread) */
+	file: string
+	deviceClass: new (deviceId: string, deviceOptions: any, options: DeviceClassOptions) => Device
+}
+
+const deviceClasses: {[deviceType: number]: DeviceClass} = {
+	[DeviceType.ABSTRACT]:		{ file: '../../dist/devices/abstract.js',		deviceClass: AbstractDevice },
+	[DeviceType.CASPARCG]:		{ file: '../../dist/devices/casparCG.js',		deviceClass: CasparCGDevice },
+	[DeviceType.ATEM]:			{ file: '../../dist/devices/atem.js',			deviceClass: AtemDevice },
+	[DeviceType.HTTPSEND]:		{ file: '../../dist/devices/httpSend.js',		deviceClass: HTTPSendDevice },
+	[DeviceType.HTTPWATCHER]:	{ file: '../../dist/devices/httpWatcher.js',	deviceClass: HTTPWatcherDevice },
+	[DeviceType.LAWO]:			{ file: '../../dist/devices/lawo.js',			deviceClass: LawoDevice },
+	[DeviceType.TCPSEND]:		{ file: '../../dist/devices/tcpSend.js',		deviceClass: TCPSendDevice },
+	[DeviceType.PANASONIC_PTZ]:	{ file: '../../dist/devices/panasonicPTZ.js',	deviceClass: PanasonicPtzDevice },
+	[DeviceType.HYPERDECK]:		{ file: '../../dist/devices/hyperdeck.js',		deviceClass: HyperdeckDevice },
+	[DeviceType.PHAROS]:		{ file: '../../dist/devices/pharos.js',			deviceClass: PharosDevice },
+	[DeviceType.OSC]:			{ file: '../../dist/devices/osc.js',			deviceClass: OSCMessageDevice },
+	[DeviceType.QUANTEL]:		{ file: '../../dist/devices/quantel.js',		deviceClass: QuantelDevice },
+	[DeviceType.SISYFOS]:		{ file: '../../dist/devices/sisyfos.js',		deviceClass: SisyfosMessageDevice },
+	[DeviceType.SINGULAR_LIVE]:	{ file: '../../dist/devices/singularLive.js',	deviceClass: SingularLiveDevice },
+	[DeviceType.VMIX]:			{ file: '../../dist/devices/vmix.js',			deviceClass: VMixDevice },
+	[DeviceType.OBS]:			{ file: '../../dist/devices/obs.js',			deviceClass: OBSDevice },
+	[DeviceType.TEMPLATE_CG]:	{ file: '../../dist/devices/templateCG.js',		deviceClass: TemplateCGDevice },
+	[DeviceType.VIDEO_ROUTER]:	{ file: '../../dist/devices/videoRouter.js',	deviceClass: VideoRouterDevice },
+	[DeviceType.MIDI]:			{ file: '../../dist/devices/midi.js',			deviceClass: MIDIDevice },
+	[DeviceType.DMX]:			{ file: '../../dist/devices/dmx.js',			deviceClass: DMXDevice }
+}
+
+/**
+ * Returns the class of the device of a type, or undefined if there is no such type
+ * (used both by the Conductor and renderTimeline(), to create the devices)
+ */
+export function getDeviceClass (deviceType: DeviceType): DeviceClass | undefined {
+	return deviceClasses[deviceType]
+}
@@ -0,0 +1,363 @@
+import * as _ from 'underscore'
+import { EventEmitter } from 'events'
+import {
+	DeviceWithState,
+	CommandWithContext,
+	DeviceStatus,
+	StatusCode,
+	IDevice
+} from './device'
+import {
+	DeviceType,
+	DeviceOptionsDMX,
+	DMXOptions,
+	DMXProtocol,
+	MappingDMX,
+	TimelineContentTypeDMX,
+	TimelineObjDMXAny,
+	DMXMergeMode,
+	DMXFade,
+	DMXState,
+	DMXCommand
+} from '../types/src'
+import { DoOnTime, SendMode } from '../doOnTime'
+import {
+	TimelineState,
+	ResolvedTimelineObjectInstance
+} from 'superfly-timeline'
+import { ArtNetSender, SACNSender } from './dmxAPI'
+import { Easing } from '../easings'
+
+const DEFAULT_REFRESH_RATE = 30 // Hz
+
+export interface DeviceOptionsDMXInternal extends DeviceOptionsDMX {
+	options: (
+		DeviceOptionsDMX['options'] &
+		{ commandReceiver?: CommandReceiver }
+	)
+}
+export type CommandReceiver = (time: number, cmd: DMXCommand, context: CommandContext, timelineObjId: string) => Promise<any>
+interface Command {
+	content: DMXCommand
+	context: CommandContext
+	timelineObjId: string
+}
+type CommandContext = string
+
+/** Sends the data of a universe */
+interface DMXSender extends EventEmitter {
+	open (host?: string, port?: number): Promise<void>
+	dispose (): void
+	send (universe: number, data: Buffer): void
+}
+
+/**
+ * This is a wrapper for DMX, output using Art-Net or sACN.
+ * The commands set the values of the universes, which are sent continuously
+ */
+export class DMXDevice extends DeviceWithState<DMXState> implements IDevice {
+
+	private _doOnTime: DoOnTime
+	private _sender: DMXSender
+	private _refreshRate: number
+	private _refreshInterval: NodeJS.Timer | undefined
+	/** The output data of each universe */
+	private _universes: { [universe: string]: Buffer } = {}
+	private _fades: { [universeChannel: string]: {
+		universe: number
+		channel: number
+		from: number
+		to: number
+		started: number
+		fade: DMXFade
+	} } = {}
+
+	private _commandReceiver: CommandReceiver
+
+	constructor (deviceId: string, deviceOptions: DeviceOptionsDMXInternal, options) {
+		super(deviceId, deviceOptions, options)
+		if (deviceOptions.options) {
+			if (deviceOptions.options.commandReceiver) this._commandReceiver = deviceOptions.options.commandReceiver
+			else this._commandReceiver = this._defaultCommandReceiver
+			this._commandReceiver = this.handleCommandReceiver(this._commandReceiver)
+		}
+
+		this._sender = createSender(deviceOptions.options)
+		this._sender.on('error', e => this.emit('error', 'DMX', e))
+
+		this._doOnTime = new DoOnTime(() => {
+			return this.getCurrentTime()
+		}, SendMode.BURST, this._deviceOptions)
+		this.handleDoOnTime(this._doOnTime, 'DMX')
+		this._doOnTime.on('commandError', (error, commandReport) => {
+			const cmd: Command = commandReport.args[0]
+			this.emit('commandError', error, {
+				context: cmd.context,
+				command: cmd.content,
+				timelineObjId: cmd.timelineObjId
+			}, commandReport)
+		})
+	}
+	init (initOptions: DMXOptions): Promise<boolean> {
+		this._refreshRate = initOptions.refreshRate || DEFAULT_REFRESH_RATE
+
+		return this._sender.open(initOptions.host, initOptions.port)
+		.then(() => {
+			this._refreshInterval = setInterval(() => this._refresh(), 1000 / this._refreshRate)
+			return true
+		})
+	}
+	/** Called by the Conductor a bit before a .handleState is called */
+	prepareForHandleState (newStateTime: number) {
+		// clear any queued commands later than this time:
+		this._doOnTime.clearQueueNowAndAfter(newStateTime)
+		this.cleanUpStates(0, newStateTime)
+	}
+	/**
+	 * Handles a new state such that the device will be in that state at a specific point
+	 * in time.
+	 * @param newState
+	 */
+	handleState (newState: TimelineState) {
+		// Transform timeline states into device states
+		let previousStateTime = Math.max(this.getCurrentTime(), newState.time)
+		let oldState: DMXState = (this.getStateBefore(previousStateTime) || { state: { universes: {} } }).state
+
+		let newDMXState = this.convertStateToDMX(newState)
+
+		// Generate commands necessary to transition to the new state
+		let commandsToAchieveState: Array<Command> = this._diffStates(oldState, newDMXState)
+
+		// clear any queued commands later than this time:
+		this._doOnTime.clearQueueNowAndAfter(previousStateTime)
+		// add the new commands to the queue:
+		this._addToQueue(commandsToAchieveState, newState.time)
+
+		// store the new state, for later use:
+		this.setState(newDMXState, newState.time)
+	}
+	/**
+	 * Clear any scheduled commands after this time
+	 * @param clearAfterTime
+	 */
+	clearFuture (clearAfterTime: number) {
+		this._doOnTime.clearQueueAfter(clearAfterTime)
+	}
+	terminate () {
+		this._doOnTime.dispose()
+		this.disposeStates()
+		if (this._refreshInterval) {
+			clearInterval(this._refreshInterval)
+			this._refreshInterval = undefined
+		}
+		this._sender.dispose()
+		return Promise.resolve(true)
+	}
+	getStatus (): DeviceStatus {
+		// Good, since the universes are just sent
+		return {
+			statusCode: StatusCode.GOOD
+		}
+	}
+	makeReady (_okToDestroyStuff?: boolean): Promise<void> {
+		return Promise.resolve()
+	}
+	get canConnect (): boolean {
+		return false
+	}
+	get connected (): boolean {
+		return false
+	}
+	convertTimelineState (state: TimelineState) {
+		return this.convertStateToDMX(state)
+	}
+	/**
+	 * Transform the timeline state into a device state.
+	 * The objects are applied in order of priority, and the ones with the same priority in the order they started.
+	 * An LTP object replaces the values before it, an HTP object keeps the highest values
+	 * @param state
+	 */
+	convertStateToDMX (state: TimelineState): DMXState {
+		const deviceState: DMXState = { universes: {} }
+		const mappings = this.getMapping()
+
+		const tlObjects = _.filter(state.layers, (tlObject: ResolvedTimelineObjectInstance & TimelineObjDMXAny, layerName: string) => {
+			// Lookahead is not used, as there is no preview of a light:
+			if (tlObject.isLookahead) return false
+
+			const mapping = mappings[layerName] as MappingDMX | undefined
+			return !!mapping && mapping.device === DeviceType.DMX
+		}) as Array<ResolvedTimelineObjectInstance & TimelineObjDMXAny>
+		tlObjects.sort((a, b) => ((a.priority || 0) - (b.priority || 0)) || (a.instance.start - b.instance.start))
+
+		_.each(tlObjects, (tlObject) => {
+			const mapping = mappings[tlObject.layer] as MappingDMX
+			const universe = deviceState.universes[mapping.universe] = deviceState.universes[mapping.universe] || {}
+			const content = tlObject.content
+
+			_.each(getChannelValues(tlObject), (value: number, channel: string) => {
+				const existing = universe[channel]
+				if (content.merge === DMXMergeMode.HTP && existing && existing.value >= value) return
+
+				universe[channel] = {
+					value: value,
+					fade: content.fade,
+					tlObjId: tlObject.id
+				}
+			})
+		})
+		return deviceState
+	}
+	get deviceType () {
+		return DeviceType.DMX
+	}
+	get deviceName (): string {
+		return 'DMX ' + this.deviceId
+	}
+	get queue () {
+		return this._doOnTime.getQueue()
+	}
+	/**
+	 * add the new commands to the queue:
+	 * @param commandsToAchieveState
+	 * @param time
+	 */
+	private _addToQueue (commandsToAchieveState: Array<Command>, time: number) {
+		_.each(commandsToAchieveState, (cmd: Command) => {
+			this._doOnTime.queue(time, undefined, (cmd: Command) => {
+				return this._commandReceiver(time, cmd.content, cmd.context, cmd.timelineObjId)
+			}, cmd)
+		})
+	}
+	/**
+	 * Compares the new state with the old one, and generates a command for the changed channels of each object.
+	 * Channels no longer set by any object go back to 0
+	 */
+	private _diffStates (oldState: DMXState, newState: DMXState): Array<Command> {
+		const commands: { [key: string]: Command } = {}
+		const addChannel = (universe: string, channel: string, value: number, fade: DMXFade | undefined, tlObjId: string, context: string) => {
+			const key = `${universe}_${tlObjId}_${context}`
+			if (!commands[key]) {
+				commands[key] = {
+					content: {
+						universe: Number(universe),
+						channels: {},
+						fade: fade
+					},
+					context: context,
+					timelineObjId: tlObjId
+				}
+			}
+			commands[key].content.channels[channel] = value
+		}
+
+		_.each(newState.universes, (newChannels, universe: string) => {
+			const oldChannels = oldState.universes[universe] || {}
+			_.each(newChannels, (newChannel, channel: string) => {
+				const oldChannel = oldChannels[channel]
+				if (!oldChannel || oldChannel.value !== newChannel.value) {
+					addChannel(universe, channel, newChannel.value, newChannel.fade, newChannel.tlObjId, 'Channels set')
+				}
+			})
+		})
+		_.each(oldState.universes, (oldChannels, universe: string) => {
+			const newChannels = newState.universes[universe] || {}
+			_.each(oldChannels, (oldChannel, channel: string) => {
+				if (!newChannels[channel] && oldChannel.value !== 0) {
+					addChannel(universe, channel, 0, oldChannel.fade, oldChannel.tlObjId, 'Channels released')
+				}
+			})
+		})
+		return _.values(commands)
+	}
+	private _defaultCommandReceiver (time: number, cmd: DMXCommand, context: CommandContext, timelineObjId: string): Promise<any> {
+
+		let cwc: CommandWithContext = {
+			context: context,
+			command: cmd,
+			timelineObjId: timelineObjId
+		}
+		this.emit('debug', cwc)
+
+		if (cmd.fade) {
+			const easingType = Easing[cmd.fade.type]
+			const easing = (easingType || {})[cmd.fade.direction]
+			if (!easing) return Promise.reject(new Error(`Easing "${cmd.fade.type}.${cmd.fade.direction}" not found`))
+		}
+		const data = this._getUniverse(cmd.universe)
+		_.each(cmd.channels, (value: number, channel: string) => {
+			const key = `${cmd.universe}_${channel}`
+			if (cmd.fade) {
+				// The fade starts from the value currently output:
+				this._fades[key] = {
+					universe: cmd.universe,
+					channel: Number(channel),
+					from: data[Number(channel) - 1],
+					to: value,
+					started: time,
+					fade: cmd.fade
+				}
+			} else {
+				delete this._fades[key]
+				data[Number(channel) - 1] = value
+			}
+		})
+		return Promise.resolve()
+	}
+	private _getUniverse (universe: number): Buffer {
+		if (!this._universes[universe]) this._universes[universe] = Buffer.alloc(512)
+		return this._universes[universe]
+	}
+	/** Updates the values of the running fades, and sends all universes */
+	private _refresh () {
+		const now = this.getCurrentTime()
+		_.each(_.keys(this._fades), (key: string) => {
+			const fade = this._fades[key]
+			const easing = Easing[fade.fade.type][fade.fade.direction]
+
+			// scale time in range 0...1, then calculate progress in range 0..1
+			const progress = Math.max(0, Math.min(1, (now - fade.started) / fade.fade.duration))
+			this._getUniverse(fade.universe)[fade.channel - 1] = progress >= 1 ?
+				fade.to :
+				Math.round(fade.from + (fade.to - fade.from) * easing(progress))
+
+			if (progress >= 1) delete this._fades[key]
+		})
+		_.each(this._universes, (data: Buffer, universe: string) => {
+			this._sender.send(Number(universe), data)
+		})
+	}
+}
+/** Returns the value of each channel set by an object */
+function getChannelValues (tlObject: TimelineObjDMXAny): { [channel: string]: number } {
+	const values: { [channel: string]: number } = {}
+	const content = tlObject.content
+	if (content.type === TimelineContentTypeDMX.CHANNELS) {
+		_.each(content.channels, (value: number, channel: string) => {
+			values[channel] = value
+		})
+	} else if (content.type === TimelineContentTypeDMX.FIXTURES) {
+		_.each(content.fixtures, (firstChannel: number) => {
+			_.each(content.values, (value: number, i: number) => {
+				values[firstChannel + i] = value
+			})
+		})
+	}
+	// Leave out channels outside of the universe, and clamp the values to 0-255:
+	_.each(_.keys(values), (channel: string) => {
+		if (Number(channel) < 1 || Number(channel) > 512) delete values[channel]
+		else values[channel] = Math.max(0, Math.min(255, Math.round(values[channel])))
+	})
+	return values
+}
+function createSender (options: DMXOptions): DMXSender {
+	if (options.protocol === DMXProtocol.ARTNET) {
+		return new ArtNetSender()
+	} else if (options.protocol === DMXProtocol.SACN) {
+		return new SACNSender({
+			sourceName: options.sourceName,
+			priority: options.priority
+		})
+	}
+	throw new Error(`Unsupported DMX protocol "${options.protocol}"`)
+}
@@ -0,0 +1,162 @@
+import * as dgram from 'dgram'
+import * as crypto from 'crypto'
+import { EventEmitter } from 'events'
+
+const ARTNET_PORT = 6454
+const ARTNET_BROADCAST = '255.255.255.255'
+const SACN_PORT = 5568
+const UNIVERSE_SIZE = 512
+
+/**
+ * Sends the channel data of DMX universes, using Art-Net
+ */
+export class ArtNetSender extends EventEmitter {
+	host: string
+	port: number
+
+	private _socket: dgram.Socket | null = null
+	private _sequence: { [universe: string]: number } = {}
+
+	/**
+	 * @param host ip to send to, defaults to the broadcast address
+	 * @param port defaults to 6454
+	 */
+	open (host?: string, port?: number): Promise<void> {
+		this.host = host || ARTNET_BROADCAST
+		this.port = port || ARTNET_PORT
+
+		return new Promise((resolve) => {
+			this._socket = dgram.createSocket('udp4')
+			this._socket.on('error', (e) => this.emit('error', e))
+			this._socket.bind(undefined, () => {
+				this._socket!.setBroadcast(true)
+				resolve()
+			})
+		})
+	}
+	dispose () {
+		if (this._socket) {
+			this._socket.removeAllListeners()
+			this._socket.close()
+			this._socket = null
+		}
+	}
+	send (universe: number, data: Buffer) {
+		if (!this._socket) return
+
+		// The sequence goes from 1 to 255, 0 means that it isn't used:
+		const sequence = (this._sequence[universe] || 0) % 255 + 1
+		this._sequence[universe] = sequence
+		this._socket.send(encodeArtDMX(universe, sequence, data), this.port, this.host)
+	}
+}
+
+export interface SACNSourceOptions {
+	/** The name of the source, defaults to "TSR" */
+	sourceName?: string
+	/** 0-200, defaults to 100 */
+	priority?: number
+}
+/**
+ * Sends the channel data of DMX universes, using sACN (E1.31)
+ */
+export class SACNSender extends EventEmitter {
+	host: string | undefined
+	port: number
+
+	private _socket: dgram.Socket | null = null
+	private _sequence: { [universe: string]: number } = {}
+	private _cid: Buffer = crypto.randomBytes(16)
+	private _sourceName: string
+	private _priority: number
+
+	constructor (options: SACNSourceOptions) {
+		super()
+		this._sourceName = options.sourceName || 'TSR'
+		this._priority = options.priority !== undefined ? options.priority : 100
+	}
+	/**
+	 * @param host ip to send to, defaults to the multicast address of each universe
+	 * @param port defaults to 5568
+	 */
+	open (host?: string, port?: number): Promise<void> {
+		this.host = host
+		this.port = port || SACN_PORT
+
+		return new Promise((resolve) => {
+			this._socket = dgram.createSocket('udp4')
+			this._socket.on('error', (e) => this.emit('error', e))
+			this._socket.bind(undefined, () => resolve())
+		})
+	}
+	dispose () {
+		if (this._socket) {
+			this._socket.removeAllListeners()
+			this._socket.close()
+			this._socket = null
+		}
+	}
+	send (universe: number, data: Buffer) {
+		if (!this._socket) return
+
+		const sequence = ((this._sequence[universe] || 0) + 1) % 256
+		this._sequence[universe] = sequence
+		const packet = encodeSACN(universe, sequence, data, this._cid, this._sourceName, this._priority)
+		this._socket.send(packet, this.port, this.host || getSACNMulticastAddress(universe))
+	}
+}
+
+/**
+ * Returns an ArtDMX packet
+ * @param universe The 15-bit port-address (net, sub-net and universe)
+ */
+export function encodeArtDMX (universe: number, sequence: number, data: Buffer): Buffer {
+	const packet = Buffer.alloc(18 + UNIVERSE_SIZE)
+	packet.write('Art-Net\0', 0, 8, 'ascii')
+	packet.writeUInt16LE(0x5000, 8) // OpDmx
+	packet.writeUInt16BE(14, 10) // Protocol version
+	packet.writeUInt8(sequence, 12)
+	packet.writeUInt8(0, 13) // Physical
+	packet.writeUInt8(universe & 0xff, 14) // SubUni
+	packet.writeUInt8((universe >> 8) & 0x7f, 15) // Net
+	packet.writeUInt16BE(UNIVERSE_SIZE, 16)
+	data.copy(packet, 18, 0, UNIVERSE_SIZE)
+	return packet
+}
+/**
+ * Returns an E1.31 data packet
+ * @param cid The 16 byte id of the source
+ */
+export function encodeSACN (universe: number, sequence: number, data: Buffer, cid: Buffer, sourceName: string, priority: number): Buffer {
+	const packet = Buffer.alloc(126 + UNIVERSE_SIZE)
+	// Root layer:
+	packet.writeUInt16BE(0x0010, 0) // Preamble size
+	packet.writeUInt16BE(0x0000, 2) // Postamble size
+	packet.write('ASC-E1.17\0\0\0', 4, 12, 'ascii')
+	packet.writeUInt16BE(0x7000 | (packet.length - 16), 16)
+	packet.writeUInt32BE(0x00000004, 18) // VECTOR_ROOT_E131_DATA
+	cid.copy(packet, 22, 0, 16)
+	// Framing layer:
+	packet.writeUInt16BE(0x7000 | (packet.length - 38), 38)
+	packet.writeUInt32BE(0x00000002, 40) // VECTOR_E131_DATA_PACKET
+	packet.write(sourceName.slice(0, 63), 44, 64, 'utf8')
+	packet.writeUInt8(priority, 108)
+	packet.writeUInt16BE(0, 109) // Synchronization address
+	packet.writeUInt8(sequence, 111)
+	packet.writeUInt8(0, 112) // Options
+	packet.writeUInt16BE(universe, 113)
+	// DMP layer:
+	packet.writeUInt16BE(0x7000 | (packet.length - 115), 115)
+	packet.writeUInt8(0x02, 117) // VECTOR_DMP_SET_PROPERTY
+	packet.writeUInt8(0xa1, 118) // Address type & data type
+	packet.writeUInt16BE(0x0000, 119) // First property address
+	packet.writeUInt16BE(0x0001, 121) // Address increment
+	packet.writeUInt16BE(UNIVERSE_SIZE + 1, 123) // Property value count
+	packet.writeUInt8(0x00, 125) // DMX start code
+	data.copy(packet, 126, 0, UNIVERSE_SIZE)
+	return packet
+}
+/** Returns the multicast address that a sACN universe is sent to */
+export function getSACNMulticastAddress (universe: number): string {
+	return `239.255.${(universe >> 8) & 0xff}.${universe & 0xff}`
+}
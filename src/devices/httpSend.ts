@@ -49,11 +49,20 @@ export class HTTPSendDevice extends DeviceWithState<TimelineState> implements ID
 		if (deviceOptions.options) {
 			if (deviceOptions.options.commandReceiver) this._commandReceiver = deviceOptions.options.commandReceiver
 			else this._commandReceiver = this._defaultCommandReceiver
+			this._commandReceiver = this.handleCommandReceiver(this._commandReceiver)
 		}
 		this._doOnTime = new DoOnTime(() => {
 			return this.getCurrentTime()
 		}, SendMode.IN_ORDER, this._deviceOptions)
 		this.handleDoOnTime(this._doOnTime, 'HTTPSend')
+		this._doOnTime.on('commandError', (error, commandReport) => {
+			const cmd: Command = commandReport.args[0]
+			this.emit('commandError', error, {
+				context: cmd.context,
+				command: cmd.content,
+				timelineObjId: cmd.timelineObjId
+			}, commandReport)
+		})
 	}
 	init (initOptions: HTTPSendOptions): Promise<boolean> {
 		this._makeReadyCommands = initOptions.makeReadyCommands || []
@@ -91,6 +100,7 @@ export class HTTPSendDevice extends DeviceWithState<TimelineState> implements ID
 	}
 	terminate () {
 		this._doOnTime.dispose()
+		this.disposeStates()
 		return Promise.resolve(true)
 	}
 	getStatus (): DeviceStatus {
@@ -102,10 +112,17 @@ export class HTTPSendDevice extends DeviceWithState<TimelineState> implements ID
 	async makeReady (okToDestroyStuff?: boolean): Promise<void> {
 		if (okToDestroyStuff && this._makeReadyCommands && this._makeReadyCommands.length > 0) {
 			const time = this.getCurrentTime()
-			_.each(this._makeReadyCommands, (cmd: HTTPSendCommandContent) => {
+			_.each(this._makeReadyCommands, (content: HTTPSendCommandContent) => {
+				const cmd: Command = {
+					commandName: 'added',
+					content: content,
+					context: 'makeReady',
+					timelineObjId: '',
+					layer: ''
+				}
 				// add the new commands to the queue:
-				this._doOnTime.queue(time, cmd.queueId, (cmd: HTTPSendCommandContent) => {
-					return this._commandReceiver(time, cmd, 'makeReady', '')
+				this._doOnTime.queue(time, content.queueId, (cmd: Command) => {
+					return this._commandReceiver(time, cmd.content, cmd.context, cmd.timelineObjId)
 				}, cmd)
 			})
 		}
@@ -117,6 +134,9 @@ export class HTTPSendDevice extends DeviceWithState<TimelineState> implements ID
 	get connected (): boolean {
 		return false
 	}
+	convertTimelineState (state: TimelineState) {
+		return this.convertStateToHttpSend(state)
+	}
 	convertStateToHttpSend (state: TimelineState) {
 		// convert the timeline state into something we can use
 		// (won't even use this.mapping)
@@ -215,11 +235,13 @@ export class HTTPSendDevice extends DeviceWithState<TimelineState> implements ID
 		return new Promise((resolve, reject) => {
 			let handleResponse = (error, response) => {
 				if (error) {
-					this.emit('error', `HTTPSend.response error ${cmd.type} (${context}`, error)
 					reject(error)
 				} else if (response.statusCode === 200) {
 					this.emit('debug', `HTTPSend: ${cmd.type}: Good statuscode response on url "${cmd.url}": ${response.statusCode} (${context})`)
 					resolve()
+				} else if (response.statusCode >= 500) {
+					// A server error might be temporary, so let the command be retried:
+					reject(new Error(`HTTPSend: ${cmd.type}: Bad statuscode response on url "${cmd.url}": ${response.statusCode} (${context})`))
 				} else {
 					this.emit('warning', `HTTPSend: ${cmd.type}: Bad statuscode response on url "${cmd.url}": ${response.statusCode} (${context})`)
 					resolve()
@@ -235,11 +257,8 @@ export class HTTPSendDevice extends DeviceWithState<TimelineState> implements ID
 					handleResponse
 				)
 			} else {
-				reject(`Unknown HTTP-send type: "${cmd.type}"`)
+				reject(new Error(`Unknown HTTP-send type: "${cmd.type}"`))
 			}
 		})
-		.catch(error => {
-			this.emit('commandError', error, cwc)
-		})
 	}
 }
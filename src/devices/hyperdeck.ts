@@ -26,6 +26,7 @@ import {
 	SlotStatus
 } from 'hyperdeck-connection'
 import { DoOnTime, SendMode } from '../doOnTime'
+import { getDiff } from '../lib'
 import { SlotInfoCommandResponse } from 'hyperdeck-connection/dist/commands'
 
 export interface DeviceOptionsHyperdeckInternal extends DeviceOptionsHyperdeck {
@@ -54,6 +55,13 @@ export interface DeviceState {
 }
 
 type CommandContext = any
+/** A Hyperdeck command, as stored in the command log */
+interface LoggedHyperdeckCommand {
+	/** The name of the class of the command */
+	className: string
+	/** The fields of the command */
+	fields: any
+}
 /**
  * This is a wrapper for the Hyperdeck Device. Commands to any and all hyperdeck devices will be sent through here.
  */
@@ -79,6 +87,7 @@ export class HyperdeckDevice extends DeviceWithState<DeviceState> implements IDe
 		if (deviceOptions.options) {
 			if (deviceOptions.options.commandReceiver) this._commandReceiver = deviceOptions.options.commandReceiver
 			else this._commandReceiver = this._defaultCommandReceiver
+			this._commandReceiver = this.handleCommandReceiver(this._commandReceiver)
 		}
 		this._doOnTime = new DoOnTime(() => {
 			return this.getCurrentTime()
@@ -148,16 +157,34 @@ export class HyperdeckDevice extends DeviceWithState<DeviceState> implements IDe
 					if (state && state.state.transport.status !== res.status) {
 						this._connectionChanged()
 					}
+					if (state) {
+						this.checkStateDrift({
+							...state.state,
+							transport: {
+								...state.state.transport,
+								status: res.status
+							}
+						})
+					}
 				}
 			})
 		})
 	}
+	/**
+	 * Initializes the device without connecting to the Hyperdeck, starting out from the default state
+	 */
+	initOffline (_initOptions: HyperdeckOptions): Promise<boolean> {
+		this._initialized = true
+		return Promise.resolve(true)
+	}
 	/**
 	 * Makes this device ready for garbage collection.
 	 */
 	terminate (): Promise<boolean> {
 		this._doOnTime.dispose()
+		this.disposeStates()
 		if (this._recTimePollTimer) clearTimeout(this._recTimePollTimer)
+		if (!this._hyperdeck) return Promise.resolve(true) // initialized offline
 
 		return new Promise(async (resolve) => {
 			await this._hyperdeck.disconnect()
@@ -264,6 +291,9 @@ export class HyperdeckDevice extends DeviceWithState<DeviceState> implements IDe
 	get connected (): boolean {
 		return this._connected
 	}
+	convertTimelineState (state: TimelineState) {
+		return this.convertStateToHyperdeck(state)
+	}
 	/**
 	 * Converts a timeline state to a device state.
 	 * @param state
@@ -369,6 +399,19 @@ export class HyperdeckDevice extends DeviceWithState<DeviceState> implements IDe
 			messages
 		}
 	}
+	/**
+	 * Only whether the device is recording or not is compared, as that is what is controlled by the timeline
+	 */
+	protected getStateDrift (expectedState: DeviceState, actualState: DeviceState): string | null {
+		const isRecording = (state: DeviceState) => state.transport.status === TransportStatus.RECORD
+		return getDiff(
+			{ recording: isRecording(expectedState) },
+			{ recording: isRecording(actualState) }
+		)
+	}
+	protected correctStateDrift (expectedState: DeviceState, actualState: DeviceState) {
+		this._addToQueue(this._diffStates(actualState, expectedState), this.getCurrentTime())
+	}
 	/**
 	 * Add commands to queue, to be executed at the right time
 	 */
@@ -569,6 +612,17 @@ export class HyperdeckDevice extends DeviceWithState<DeviceState> implements IDe
 		return res
 	}
 
+	protected serializeLoggedCommand (command: HyperdeckCommands.AbstractCommand): LoggedHyperdeckCommand {
+		return {
+			className: command.constructor.name,
+			fields: JSON.parse(JSON.stringify(command))
+		}
+	}
+	protected deserializeLoggedCommand (command: LoggedHyperdeckCommand): HyperdeckCommands.AbstractCommand {
+		const CommandClass = command && HyperdeckCommands[command.className]
+		if (!_.isFunction(CommandClass)) throw new Error(`Unknown Hyperdeck command "${command && command.className}"`)
+		return Object.assign(new CommandClass(), command.fields)
+	}
 	private _defaultCommandReceiver (_time: number, command: HyperdeckCommands.AbstractCommand, context: CommandContext, timelineObjId: string): Promise<any> {
 		let cwc: CommandWithContext = {
 			context: context,
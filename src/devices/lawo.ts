@@ -68,12 +68,16 @@ export interface LawoCommandWithContext {
 }
 type CommandContext = string
 const FADER_THRESHOLD = -90 // below this value the channel is considered muted
+/** How often the values of the nodes are read back, to detect state drift */
+const STATE_DRIFT_CHECK_INTERVAL = 1000
+/** Values read back within this margin of the expected value are not considered drifted (as they are rounded by the mixer) */
+const STATE_DRIFT_TOLERANCE = 0.5
 /**
  * This is a wrapper for a Lawo sound mixer
  *
  * It controls mutes and fades over Ember Plus.
  */
-export class LawoDevice extends DeviceWithState<TimelineState> implements IDevice {
+export class LawoDevice extends DeviceWithState<LawoState> implements IDevice {
 	private _doOnTime: DoOnTime
 	private _lawo: DeviceTree
 
@@ -93,6 +97,7 @@ export class LawoDevice extends DeviceWithState<TimelineState> implements IDevic
 		started: number
 	} & LawoCommand } = {}
 	private transitionInterval: NodeJS.Timer | undefined
+	private _stateDriftInterval: NodeJS.Timer | undefined
 
 	constructor (deviceId: string, deviceOptions: DeviceOptionsLawoInternal, options) {
 		super(deviceId, deviceOptions, options)
@@ -102,6 +107,7 @@ export class LawoDevice extends DeviceWithState<TimelineState> implements IDevic
 			} else {
 				this._commandReceiver = this._defaultCommandReceiver
 			}
+			this._commandReceiver = this.handleCommandReceiver(this._commandReceiver)
 			if (deviceOptions.options.setValueFn) {
 				this._setValueFn = deviceOptions.options.setValueFn
 			} else {
@@ -147,6 +153,8 @@ export class LawoDevice extends DeviceWithState<TimelineState> implements IDevic
 			}
 		})
 		this._lawo.on('connected', () => {
+			// The commands sent while disconnected may have been lost, any remaining drift is to be reported again:
+			this.resetStateDrift()
 			this._setConnected(true)
 		})
 		this._lawo.on('disconnected', () => {
@@ -165,6 +173,10 @@ export class LawoDevice extends DeviceWithState<TimelineState> implements IDevic
 				this._lawo.connect()	// default timeout = 2
 				.then(() => {
 					this._lawo.removeListener('error', fail)
+					this._stateDriftInterval = setInterval(() => {
+						this._readNodeValues()
+						.catch(e => this.emit('error', 'Lawo._readNodeValues', e))
+					}, STATE_DRIFT_CHECK_INTERVAL)
 					resolve(true)
 				})
 				.catch((e) => {
@@ -190,9 +202,8 @@ export class LawoDevice extends DeviceWithState<TimelineState> implements IDevic
 	handleState (newState: TimelineState) {
 		// Convert timeline states to device states
 		let previousStateTime = Math.max(this.getCurrentTime(), newState.time)
-		let oldState: TimelineState = (this.getStateBefore(previousStateTime) || { state: { time: 0, layers: {}, nextEvents: [] } }).state
+		let oldLawoState: LawoState = (this.getStateBefore(previousStateTime) || { state: { nodes: {} } }).state
 
-		let oldLawoState = this.convertStateToLawo(oldState)
 		let newLawoState = this.convertStateToLawo(newState)
 
 		// generate commands to transition to new state
@@ -204,7 +215,7 @@ export class LawoDevice extends DeviceWithState<TimelineState> implements IDevic
 		this._addToQueue(commandsToAchieveState, newState.time)
 
 		// store the new state, for later use:
-		this.setState(newState, newState.time)
+		this.setState(newLawoState, newState.time)
 	}
 	/**
 	 * Clear any scheduled commands after this time
@@ -219,7 +230,9 @@ export class LawoDevice extends DeviceWithState<TimelineState> implements IDevic
 	 */
 	terminate () {
 		this._doOnTime.dispose()
+		this.disposeStates()
 		if (this.transitionInterval) clearInterval(this.transitionInterval)
+		if (this._stateDriftInterval) clearInterval(this._stateDriftInterval)
 
 		// @todo: Implement lawo dispose function upstream
 		try {
@@ -239,6 +252,9 @@ export class LawoDevice extends DeviceWithState<TimelineState> implements IDevic
 	get connected (): boolean {
 		return this._connected
 	}
+	convertTimelineState (state: TimelineState) {
+		return this.convertStateToLawo(state)
+	}
 	/**
 	 * Converts a timeline state into a device state.
 	 * @param state
@@ -318,6 +334,73 @@ export class LawoDevice extends DeviceWithState<TimelineState> implements IDevic
 			messages: messages
 		}
 	}
+	/**
+	 * Only the values of the nodes are compared, once any transitions to them have finished
+	 */
+	protected getStateDrift (expectedState: LawoState, actualState: LawoState, expectedStateTime: number): string | null {
+		const paths = this._getDriftedPaths(expectedState, actualState, expectedStateTime)
+		return getDiff(
+			_.object(paths, _.map(paths, path => expectedState.nodes[path].value)),
+			_.object(paths, _.map(paths, path => actualState.nodes[path].value))
+		)
+	}
+	protected correctStateDrift (expectedState: LawoState, actualState: LawoState, expectedStateTime: number) {
+		const paths = this._getDriftedPaths(expectedState, actualState, expectedStateTime)
+		const commands = this._diffStates(
+			{ nodes: _.pick(actualState.nodes, paths) },
+			{ nodes: _.pick(expectedState.nodes, paths) }
+		)
+		// The values are corrected right away, without transitions:
+		_.each(commands, (command: LawoCommandWithContext) => delete command.cmd.transitionDuration)
+		this._addToQueue(commands, this.getCurrentTime())
+	}
+	/**
+	 * Returns the paths of the nodes whose actual value differs from the expected value
+	 */
+	private _getDriftedPaths (expectedState: LawoState, actualState: LawoState, expectedStateTime: number): string[] {
+		return _.filter(_.keys(actualState.nodes), (path: string) => {
+			const expectedNode: LawoStateNode | undefined = expectedState.nodes[path]
+			if (!expectedNode) return false
+			// The value is still changing during a transition:
+			if (this.transitions[path] || expectedStateTime + (expectedNode.transitionDuration || 0) > this.getCurrentTime()) return false
+
+			const expectedValue = expectedNode.value
+			const actualValue = actualState.nodes[path].value
+			if (typeof expectedValue === 'number' && typeof actualValue === 'number') {
+				if (
+					expectedNode.key === 'Fader/Motor dB Value' &&
+					expectedValue <= FADER_THRESHOLD &&
+					actualValue <= FADER_THRESHOLD
+				) return false // Both are muted
+				return Math.abs(expectedValue - actualValue) > STATE_DRIFT_TOLERANCE
+			}
+			return !_.isEqual(expectedValue, actualValue)
+		})
+	}
+	/**
+	 * Reads back the values of the nodes controlled by the timeline, and checks them for state drift
+	 */
+	private async _readNodeValues () {
+		const expected = this.getState()
+		if (!expected || !this._connected) return
+
+		const actualState: LawoState = { nodes: {} }
+		for (const path of _.keys(expected.state.nodes)) {
+			let node: Ember.Node | undefined = this._savedNodes[path]
+			if (!node) {
+				// Errors are reported when sending commands to the node, not when reading it back:
+				node = await this._lawo.getNodeByPath(path).catch(() => undefined)
+				if (node) this._savedNodes[path] = node
+			}
+			if (node && node.contents && node.contents.value !== undefined) {
+				actualState.nodes[path] = {
+					...expected.state.nodes[path],
+					value: node.contents.value
+				}
+			}
+		}
+		this.checkStateDrift(actualState)
+	}
 	private _setConnected (connected: boolean) {
 		if (this._connected !== connected) {
 			this._connected = connected
@@ -0,0 +1,375 @@
+import * as _ from 'underscore'
+import {
+	DeviceWithState,
+	CommandWithContext,
+	DeviceStatus,
+	StatusCode,
+	IDevice
+} from './device'
+import {
+	DeviceType,
+	DeviceOptionsMIDI,
+	MIDIOptions,
+	MappingMIDI,
+	TimelineContentTypeMIDI,
+	TimelineObjMIDIAny,
+	MIDIState,
+	MIDICommandType,
+	MIDICommandAny,
+	MIDIControlChangeCommand
+} from '../types/src'
+import { DoOnTime, SendMode } from '../doOnTime'
+import {
+	TimelineState,
+	ResolvedTimelineObjectInstance
+} from 'superfly-timeline'
+import { RTPMIDISession, getMIDIBytes } from './rtpMidiAPI'
+import { Easing } from '../easings'
+
+export interface DeviceOptionsMIDIInternal extends DeviceOptionsMIDI {
+	options: (
+		DeviceOptionsMIDI['options'] &
+		{ commandReceiver?: CommandReceiver }
+	)
+}
+export type CommandReceiver = (time: number, cmd: MIDICommandAny, context: CommandContext, timelineObjId: string) => Promise<any>
+interface Command {
+	content: MIDICommandAny
+	context: CommandContext
+	timelineObjId: string
+}
+type CommandContext = string
+
+/**
+ * This is a wrapper for MIDI devices, reached over the network using RTP-MIDI (AppleMIDI)
+ */
+export class MIDIDevice extends DeviceWithState<MIDIState> implements IDevice {
+
+	private _doOnTime: DoOnTime
+	private _session: RTPMIDISession
+	private _transitions: { [key: string]: {
+		started: number
+		lastValue: number
+	} & MIDIControlChangeCommand } = {}
+	private _transitionInterval: NodeJS.Timer | undefined
+
+	private _commandReceiver: CommandReceiver
+
+	constructor (deviceId: string, deviceOptions: DeviceOptionsMIDIInternal, options) {
+		super(deviceId, deviceOptions, options)
+		if (deviceOptions.options) {
+			if (deviceOptions.options.commandReceiver) this._commandReceiver = deviceOptions.options.commandReceiver
+			else this._commandReceiver = this._defaultCommandReceiver
+			this._commandReceiver = this.handleCommandReceiver(this._commandReceiver)
+		}
+
+		this._session = new RTPMIDISession()
+		this._session.on('error', e => this.emit('error', 'MIDI', e))
+		this._session.on('connected', () => this._connectionChanged())
+		this._session.on('disconnected', () => this._connectionChanged())
+
+		this._doOnTime = new DoOnTime(() => {
+			return this.getCurrentTime()
+		}, SendMode.BURST, this._deviceOptions)
+		this.handleDoOnTime(this._doOnTime, 'MIDI')
+		this._doOnTime.on('commandError', (error, commandReport) => {
+			const cmd: Command = commandReport.args[0]
+			this.emit('commandError', error, {
+				context: cmd.context,
+				command: cmd.content,
+				timelineObjId: cmd.timelineObjId
+			}, commandReport)
+		})
+	}
+	init (initOptions: MIDIOptions): Promise<boolean> {
+		return this._session.connect(initOptions.host, initOptions.port, initOptions.sessionName)
+		.then(() => true)
+	}
+	/** Called by the Conductor a bit before a .handleState is called */
+	prepareForHandleState (newStateTime: number) {
+		// clear any queued commands later than this time:
+		this._doOnTime.clearQueueNowAndAfter(newStateTime)
+		this.cleanUpStates(0, newStateTime)
+	}
+	/**
+	 * Handles a new state such that the device will be in that state at a specific point
+	 * in time.
+	 * @param newState
+	 */
+	handleState (newState: TimelineState) {
+		// Transform timeline states into device states
+		let previousStateTime = Math.max(this.getCurrentTime(), newState.time)
+		let oldState: MIDIState = (this.getStateBefore(previousStateTime) || { state: this._getDefaultState() }).state
+
+		let newMIDIState = this.convertStateToMIDI(newState)
+
+		// Generate commands necessary to transition to the new state
+		let commandsToAchieveState: Array<Command> = this._diffStates(oldState, newMIDIState)
+
+		// clear any queued commands later than this time:
+		this._doOnTime.clearQueueNowAndAfter(previousStateTime)
+		// add the new commands to the queue:
+		this._addToQueue(commandsToAchieveState, newState.time)
+
+		// store the new state, for later use:
+		this.setState(newMIDIState, newState.time)
+	}
+	/**
+	 * Clear any scheduled commands after this time
+	 * @param clearAfterTime
+	 */
+	clearFuture (clearAfterTime: number) {
+		this._doOnTime.clearQueueAfter(clearAfterTime)
+	}
+	terminate () {
+		this._doOnTime.dispose()
+		this.disposeStates()
+		if (this._transitionInterval) {
+			clearInterval(this._transitionInterval)
+			this._transitionInterval = undefined
+		}
+		this._session.dispose()
+		return Promise.resolve(true)
+	}
+	getStatus (): DeviceStatus {
+		let statusCode = StatusCode.GOOD
+		let messages: Array<string> = []
+
+		if (!this._session.connected) {
+			statusCode = StatusCode.BAD
+			messages.push('Not connected')
+		}
+		return {
+			statusCode: statusCode,
+			messages: messages
+		}
+	}
+	makeReady (_okToDestroyStuff?: boolean): Promise<void> {
+		return Promise.resolve()
+	}
+	get canConnect (): boolean {
+		return true
+	}
+	get connected (): boolean {
+		return this._session.connected
+	}
+	convertTimelineState (state: TimelineState) {
+		return this.convertStateToMIDI(state)
+	}
+	/**
+	 * Transform the timeline state into a device state.
+	 * @param state
+	 */
+	convertStateToMIDI (state: TimelineState): MIDIState {
+		const deviceState: MIDIState = this._getDefaultState()
+		const mappings = this.getMapping()
+
+		_.each(state.layers, (tlObject: ResolvedTimelineObjectInstance & TimelineObjMIDIAny, layerName: string) => {
+			// Lookahead is not used, as a MIDI message can't be previewed:
+			if (tlObject.isLookahead) return
+
+			const mapping = mappings[layerName] as MappingMIDI | undefined
+			if (!mapping || mapping.device !== DeviceType.MIDI) return
+
+			const content = tlObject.content
+			if (content.type === TimelineContentTypeMIDI.NOTE) {
+				deviceState.notes[`${content.channel}:${content.note}`] = {
+					velocity: content.velocity !== undefined ? content.velocity : 127,
+					tlObjId: tlObject.id
+				}
+			} else if (content.type === TimelineContentTypeMIDI.CONTROL_CHANGE) {
+				deviceState.controls[`${content.channel}:${content.controller}`] = {
+					value: content.value,
+					transition: content.transition,
+					from: content.from,
+					tlObjId: tlObject.id
+				}
+			} else if (content.type === TimelineContentTypeMIDI.PROGRAM_CHANGE) {
+				deviceState.programs[content.channel + ''] = {
+					program: content.program,
+					tlObjId: tlObject.id
+				}
+			} else if (content.type === TimelineContentTypeMIDI.MSC) {
+				deviceState.msc[layerName] = {
+					command: content.command,
+					cue: content.cue,
+					list: content.list,
+					mscDeviceId: content.mscDeviceId,
+					commandFormat: content.commandFormat,
+					tlObjId: tlObject.id
+				}
+			}
+		})
+		return deviceState
+	}
+	get deviceType () {
+		return DeviceType.MIDI
+	}
+	get deviceName (): string {
+		return 'MIDI ' + this.deviceId
+	}
+	get queue () {
+		return this._doOnTime.getQueue()
+	}
+	private _getDefaultState (): MIDIState {
+		return {
+			notes: {},
+			controls: {},
+			programs: {},
+			msc: {}
+		}
+	}
+	/**
+	 * add the new commands to the queue:
+	 * @param commandsToAchieveState
+	 * @param time
+	 */
+	private _addToQueue (commandsToAchieveState: Array<Command>, time: number) {
+		_.each(commandsToAchieveState, (cmd: Command) => {
+			this._doOnTime.queue(time, undefined, (cmd: Command) => {
+				return this._commandReceiver(time, cmd.content, cmd.context, cmd.timelineObjId)
+			}, cmd)
+		})
+	}
+	/**
+	 * Compares the new state with the old one, and generates commands to account for the difference
+	 * @param oldState The assumed current state
+	 * @param newState The desired state of the device
+	 */
+	private _diffStates (oldState: MIDIState, newState: MIDIState): Array<Command> {
+		const commands: Array<Command> = []
+
+		// Notes that have ended are turned off first:
+		_.each(oldState.notes, (oldNote, key: string) => {
+			if (!newState.notes[key]) {
+				const [channel, note] = key.split(':').map(Number)
+				commands.push({
+					content: { type: MIDICommandType.NOTE_OFF, channel, note, velocity: 0 },
+					context: `Note ${note} on channel ${channel} ended`,
+					timelineObjId: oldNote.tlObjId
+				})
+			}
+		})
+		_.each(newState.notes, (newNote, key: string) => {
+			const oldNote = oldState.notes[key]
+			if (!oldNote || oldNote.velocity !== newNote.velocity) {
+				const [channel, note] = key.split(':').map(Number)
+				commands.push({
+					content: { type: MIDICommandType.NOTE_ON, channel, note, velocity: newNote.velocity },
+					context: `Note ${note} on channel ${channel} started`,
+					timelineObjId: newNote.tlObjId
+				})
+			}
+		})
+		// Controllers keep their value when the object has ended:
+		_.each(newState.controls, (newControl, key: string) => {
+			const oldControl = oldState.controls[key]
+			if (!oldControl || oldControl.value !== newControl.value) {
+				const [channel, controller] = key.split(':').map(Number)
+				commands.push({
+					content: {
+						type: MIDICommandType.CONTROL_CHANGE,
+						channel,
+						controller,
+						value: newControl.value,
+						transition: newControl.transition,
+						from: newControl.from !== undefined ? newControl.from : (oldControl ? oldControl.value : undefined)
+					},
+					context: `Controller ${controller} on channel ${channel} changed (was ${oldControl ? oldControl.value : 'unknown'})`,
+					timelineObjId: newControl.tlObjId
+				})
+			}
+		})
+		_.each(newState.programs, (newProgram, channel: string) => {
+			const oldProgram = oldState.programs[channel]
+			if (!oldProgram || oldProgram.program !== newProgram.program) {
+				commands.push({
+					content: { type: MIDICommandType.PROGRAM_CHANGE, channel: Number(channel), program: newProgram.program },
+					context: `Program changed on channel ${channel} (was ${oldProgram ? oldProgram.program : 'unknown'})`,
+					timelineObjId: newProgram.tlObjId
+				})
+			}
+		})
+		// MSC commands are sent when an object starts:
+		_.each(newState.msc, (newMSC, layer: string) => {
+			const oldMSC = oldState.msc[layer]
+			if (!oldMSC || !_.isEqual(oldMSC, newMSC)) {
+				commands.push({
+					content: {
+						type: MIDICommandType.MSC,
+						command: newMSC.command,
+						cue: newMSC.cue,
+						list: newMSC.list,
+						mscDeviceId: newMSC.mscDeviceId,
+						commandFormat: newMSC.commandFormat
+					},
+					context: `MSC object started on layer ${layer}`,
+					timelineObjId: newMSC.tlObjId
+				})
+			}
+		})
+		return commands
+	}
+	private _defaultCommandReceiver (time: number, cmd: MIDICommandAny, context: CommandContext, timelineObjId: string): Promise<any> {
+
+		let cwc: CommandWithContext = {
+			context: context,
+			command: cmd,
+			timelineObjId: timelineObjId
+		}
+		this.emit('debug', cwc)
+
+		if (cmd.type === MIDICommandType.CONTROL_CHANGE) {
+			const key = `${cmd.channel}:${cmd.controller}`
+			// A new value replaces any running transition:
+			delete this._transitions[key]
+
+			if (cmd.transition && cmd.from !== undefined && cmd.from !== cmd.value) {
+				const easingType = Easing[cmd.transition.type]
+				const easing = (easingType || {})[cmd.transition.direction]
+				if (!easing) return Promise.reject(new Error(`Easing "${cmd.transition.type}.${cmd.transition.direction}" not found`))
+
+				this._transitions[key] = { // push the tween
+					started: time,
+					lastValue: cmd.from,
+					...cmd
+				}
+				// trigger loop:
+				if (!this._transitionInterval) this._transitionInterval = setInterval(() => this._runAnimation(), 40)
+
+				// send the first value:
+				return this._session.send(getMIDIBytes({ ...cmd, value: cmd.from }))
+			}
+		}
+		return this._session.send(getMIDIBytes(cmd))
+	}
+	private _runAnimation () {
+		_.each(_.keys(this._transitions), (key: string) => {
+			const tween = this._transitions[key]
+			const easing = Easing[tween.transition!.type][tween.transition!.direction]
+
+			// scale time in range 0...1, then calculate progress in range 0..1
+			const progress = Math.min(1, (this.getCurrentTime() - tween.started) / tween.transition!.duration)
+			const value = progress >= 1 ?
+				tween.value :
+				Math.round(tween.from! + (tween.value - tween.from!) * easing(progress))
+
+			if (progress >= 1) delete this._transitions[key]
+
+			// Only send when the 7-bit value has changed:
+			if (value !== tween.lastValue) {
+				tween.lastValue = value
+				this._session.send(getMIDIBytes({ ...tween, value }))
+				.catch(e => this.emit('error', 'MIDI transition', e))
+			}
+		})
+
+		if (_.isEmpty(this._transitions) && this._transitionInterval) {
+			clearInterval(this._transitionInterval)
+			this._transitionInterval = undefined
+		}
+	}
+	private _connectionChanged () {
+		this.emit('connectionChanged', this.getStatus())
+	}
+}
@@ -0,0 +1,414 @@
+import * as _ from 'underscore'
+import {
+	DeviceWithState,
+	CommandWithContext,
+	DeviceStatus,
+	StatusCode,
+	IDevice
+} from './device'
+import {
+	DeviceType,
+	DeviceOptionsOBS,
+	OBSOptions,
+	MappingOBS,
+	MappingOBSType,
+	TimelineContentTypeOBS,
+	TimelineObjOBSAny,
+	OBSState,
+	OBSCommand,
+	OBSRequestName
+} from '../types/src'
+import { DoOnTime, SendMode } from '../doOnTime'
+import {
+	TimelineState,
+	ResolvedTimelineObjectInstance
+} from 'superfly-timeline'
+import { OBSInterface } from './obsAPI'
+
+export interface DeviceOptionsOBSInternal extends DeviceOptionsOBS {
+	options: (
+		DeviceOptionsOBS['options'] &
+		{ commandReceiver?: CommandReceiver }
+	)
+}
+export type CommandReceiver = (time: number, cmd: OBSCommand, context: CommandContext, timelineObjId: string) => Promise<any>
+interface Command {
+	content: OBSCommand
+	context: CommandContext
+	timelineObjId: string
+}
+type CommandContext = string
+
+/**
+ * This is a wrapper for OBS Studio, controlled over obs-websocket
+ */
+export class OBSDevice extends DeviceWithState<OBSState> implements IDevice {
+
+	private _doOnTime: DoOnTime
+	private _obs: OBSInterface
+	private _initialized: boolean = false
+	/** Whether OBS is recording and streaming, as last read from OBS */
+	private _outputStatus: { recording?: boolean, streaming?: boolean } = {}
+
+	private _commandReceiver: CommandReceiver
+
+	constructor (deviceId: string, deviceOptions: DeviceOptionsOBSInternal, options) {
+		super(deviceId, deviceOptions, options)
+		if (deviceOptions.options) {
+			if (deviceOptions.options.commandReceiver) this._commandReceiver = deviceOptions.options.commandReceiver
+			else this._commandReceiver = this._defaultCommandReceiver
+			this._commandReceiver = this.handleCommandReceiver(this._commandReceiver)
+		}
+
+		this._obs = new OBSInterface()
+		this._obs.on('error', e => this.emit('error', 'OBS', e))
+		this._obs.on('connected', () => {
+			this._connectionChanged()
+			if (this._initialized) {
+				// OBS might have started or stopped its outputs while we were disconnected:
+				this._readOutputStatus()
+				.then(() => this.emit('resetResolver'))
+				.catch(e => this.emit('error', 'OBS.GetStreamingStatus', e))
+			}
+		})
+		this._obs.on('disconnected', () => {
+			this._connectionChanged()
+		})
+
+		this._doOnTime = new DoOnTime(() => {
+			return this.getCurrentTime()
+		}, SendMode.IN_ORDER, this._deviceOptions)
+		this.handleDoOnTime(this._doOnTime, 'OBS')
+		this._doOnTime.on('commandError', (error, commandReport) => {
+			const cmd: Command = commandReport.args[0]
+			this.emit('commandError', error, {
+				context: cmd.context,
+				command: cmd.content,
+				timelineObjId: cmd.timelineObjId
+			}, commandReport)
+		})
+	}
+	init (initOptions: OBSOptions): Promise<boolean> {
+		return this._obs.connect(initOptions.host, initOptions.port, initOptions.password)
+		.then(() => this.restorePersistedState())
+		.then(() => this._readOutputStatus())
+		.then(() => {
+			this._initialized = true
+			return true
+		})
+	}
+	/** Called by the Conductor a bit before a .handleState is called */
+	prepareForHandleState (newStateTime: number) {
+		// clear any queued commands later than this time:
+		this._doOnTime.clearQueueNowAndAfter(newStateTime)
+		this.cleanUpStates(0, newStateTime)
+	}
+	/**
+	 * Handles a new state such that the device will be in that state at a specific point
+	 * in time.
+	 * @param newState
+	 */
+	handleState (newState: TimelineState) {
+		// Transform timeline states into device states
+		let previousStateTime = Math.max(this.getCurrentTime(), newState.time)
+		let oldState: OBSState = (this.getStateBefore(previousStateTime) || { state: this._getDefaultState() }).state
+
+		let newOBSState = this.convertStateToOBS(newState)
+
+		// Generate commands necessary to transition to the new state
+		let commandsToAchieveState: Array<Command> = this._diffStates(oldState, newOBSState)
+
+		// clear any queued commands later than this time:
+		this._doOnTime.clearQueueNowAndAfter(previousStateTime)
+		// add the new commands to the queue:
+		this._addToQueue(commandsToAchieveState, newState.time)
+
+		// store the new state, for later use:
+		this.setState(newOBSState, newState.time)
+	}
+	/**
+	 * Clear any scheduled commands after this time
+	 * @param clearAfterTime
+	 */
+	clearFuture (clearAfterTime: number) {
+		this._doOnTime.clearQueueAfter(clearAfterTime)
+	}
+	terminate () {
+		this._doOnTime.dispose()
+		this.disposeStates()
+		this._obs.dispose()
+		return Promise.resolve(true)
+	}
+	getStatus (): DeviceStatus {
+		let statusCode = StatusCode.GOOD
+		let messages: Array<string> = []
+
+		if (!this._obs.connected) {
+			statusCode = StatusCode.BAD
+			messages.push('Not connected')
+		}
+		return {
+			statusCode: statusCode,
+			messages: messages
+		}
+	}
+	makeReady (okToDestroyStuff?: boolean): Promise<void> {
+		if (okToDestroyStuff) {
+			// Forget the current state, so that the full state is sent again:
+			this._doOnTime.clearQueueNowAndAfter(this.getCurrentTime())
+			return this._readOutputStatus()
+			.then(() => this.clearStates())
+		}
+		return Promise.resolve()
+	}
+	get canConnect (): boolean {
+		return true
+	}
+	get connected (): boolean {
+		return this._obs.connected
+	}
+	convertTimelineState (state: TimelineState) {
+		return this.convertStateToOBS(state)
+	}
+	/**
+	 * Transform the timeline state into a device state
+	 * @param state
+	 */
+	convertStateToOBS (state: TimelineState): OBSState {
+		const deviceState: OBSState = getEmptyState()
+		const mappings = this.getMapping()
+
+		// The mapped sources are hidden, and recording and streaming are off unless there's an object on their layer:
+		_.each(mappings, (mapping: MappingOBS) => {
+			if (
+				mapping.device === DeviceType.OBS &&
+				mapping.deviceId === this.deviceId
+			) {
+				if (mapping.mappingType === MappingOBSType.SourceRender && mapping.source) {
+					const sceneName = mapping.sceneName || ''
+					if (!deviceState.sceneItemRender[sceneName]) deviceState.sceneItemRender[sceneName] = {}
+					deviceState.sceneItemRender[sceneName][mapping.source] = { render: false, tlObjId: '' }
+				} else if (mapping.mappingType === MappingOBSType.Recording) {
+					deviceState.recording = false
+				} else if (mapping.mappingType === MappingOBSType.Streaming) {
+					deviceState.streaming = false
+				}
+			}
+		})
+
+		_.each(state.layers, (tlObject: ResolvedTimelineObjectInstance & TimelineObjOBSAny, layerName: string) => {
+			// Lookahead is not used, as showing it in preview would require OBS to be in studio mode:
+			if (tlObject.isLookahead) return
+
+			const mapping = mappings[layerName] as MappingOBS | undefined
+			if (!mapping || mapping.device !== DeviceType.OBS) return
+
+			const content = tlObject.content
+			if (mapping.mappingType === MappingOBSType.CurrentScene && content.type === TimelineContentTypeOBS.CURRENT_SCENE) {
+				deviceState.currentScene = { sceneName: content.sceneName, tlObjId: tlObject.id }
+			} else if (mapping.mappingType === MappingOBSType.PreviewScene && content.type === TimelineContentTypeOBS.PREVIEW_SCENE) {
+				deviceState.previewScene = { sceneName: content.sceneName, tlObjId: tlObject.id }
+			} else if (mapping.mappingType === MappingOBSType.CurrentTransition && content.type === TimelineContentTypeOBS.CURRENT_TRANSITION) {
+				deviceState.currentTransition = {
+					transitionName: content.transitionName,
+					duration: content.duration,
+					tlObjId: tlObject.id
+				}
+			} else if (mapping.mappingType === MappingOBSType.SourceRender && content.type === TimelineContentTypeOBS.SOURCE_RENDER) {
+				if (!mapping.source) return
+				const sceneName = mapping.sceneName || ''
+				if (!deviceState.sceneItemRender[sceneName]) deviceState.sceneItemRender[sceneName] = {}
+				deviceState.sceneItemRender[sceneName][mapping.source] = { render: content.render, tlObjId: tlObject.id }
+			} else if (mapping.mappingType === MappingOBSType.SourceSettings && content.type === TimelineContentTypeOBS.SOURCE_SETTINGS) {
+				if (!mapping.source) return
+				deviceState.sourceSettings[mapping.source] = {
+					sourceType: content.sourceType,
+					sourceSettings: content.sourceSettings,
+					tlObjId: tlObject.id
+				}
+			} else if (mapping.mappingType === MappingOBSType.Mute && content.type === TimelineContentTypeOBS.MUTE) {
+				if (!mapping.source) return
+				deviceState.mutes[mapping.source] = { mute: content.mute, tlObjId: tlObject.id }
+			} else if (mapping.mappingType === MappingOBSType.Recording && content.type === TimelineContentTypeOBS.RECORDING) {
+				deviceState.recording = content.on
+			} else if (mapping.mappingType === MappingOBSType.Streaming && content.type === TimelineContentTypeOBS.STREAMING) {
+				deviceState.streaming = content.on
+			}
+		})
+		return deviceState
+	}
+	get deviceType () {
+		return DeviceType.OBS
+	}
+	get deviceName (): string {
+		return 'OBS ' + this.deviceId
+	}
+	get queue () {
+		return this._doOnTime.getQueue()
+	}
+	/**
+	 * add the new commands to the queue:
+	 * @param commandsToAchieveState
+	 * @param time
+	 */
+	private _addToQueue (commandsToAchieveState: Array<Command>, time: number) {
+		_.each(commandsToAchieveState, (cmd: Command) => {
+			this._doOnTime.queue(time, undefined, (cmd: Command) => {
+				return this._commandReceiver(time, cmd.content, cmd.context, cmd.timelineObjId)
+			}, cmd)
+		})
+	}
+	/**
+	 * Compares the new state with the old one, and generates commands to account for the difference
+	 */
+	private _diffStates (oldState: OBSState, newState: OBSState): Array<Command> {
+		const commands: Array<Command> = []
+
+		// The transition is set first, so that it is used for the scene changes:
+		const newTransition = newState.currentTransition
+		const oldTransition = oldState.currentTransition
+		if (newTransition) {
+			if (!oldTransition || oldTransition.transitionName !== newTransition.transitionName) {
+				commands.push({
+					content: {
+						requestName: OBSRequestName.SET_CURRENT_TRANSITION,
+						args: { 'transition-name': newTransition.transitionName }
+					},
+					context: `Transition changed to ${newTransition.transitionName}`,
+					timelineObjId: newTransition.tlObjId
+				})
+			}
+			if (newTransition.duration !== undefined && (!oldTransition || oldTransition.duration !== newTransition.duration)) {
+				commands.push({
+					content: {
+						requestName: OBSRequestName.SET_TRANSITION_DURATION,
+						args: { 'duration': newTransition.duration }
+					},
+					context: `Transition duration changed to ${newTransition.duration}`,
+					timelineObjId: newTransition.tlObjId
+				})
+			}
+		}
+
+		// Sources are set up before the scenes change:
+		_.each(newState.sourceSettings, (newSettings, source: string) => {
+			const oldSettings = oldState.sourceSettings[source]
+			if (!oldSettings || !_.isEqual(oldSettings.sourceSettings, newSettings.sourceSettings)) {
+				const args: OBSCommand['args'] = { sourceName: source, sourceSettings: newSettings.sourceSettings }
+				if (newSettings.sourceType) args.sourceType = newSettings.sourceType
+				commands.push({
+					content: { requestName: OBSRequestName.SET_SOURCE_SETTINGS, args: args },
+					context: `Settings of source ${source} changed`,
+					timelineObjId: newSettings.tlObjId
+				})
+			}
+		})
+		_.each(newState.sceneItemRender, (newSources, sceneName: string) => {
+			const oldSources = oldState.sceneItemRender[sceneName] || {}
+			_.each(newSources, (newRender, source: string) => {
+				const oldRender = oldSources[source]
+				if (!oldRender || oldRender.render !== newRender.render) {
+					const args: OBSCommand['args'] = { source: source, render: newRender.render }
+					if (sceneName) args['scene-name'] = sceneName
+					commands.push({
+						content: { requestName: OBSRequestName.SET_SCENE_ITEM_RENDER, args: args },
+						context: `Source ${source} ${newRender.render ? 'shown' : 'hidden'}`,
+						timelineObjId: newRender.tlObjId || (oldRender ? oldRender.tlObjId : '')
+					})
+				}
+			})
+		})
+		_.each(newState.mutes, (newMute, source: string) => {
+			const oldMute = oldState.mutes[source]
+			if (!oldMute || oldMute.mute !== newMute.mute) {
+				commands.push({
+					content: { requestName: OBSRequestName.SET_MUTE, args: { source: source, mute: newMute.mute } },
+					context: `Source ${source} ${newMute.mute ? 'muted' : 'unmuted'}`,
+					timelineObjId: newMute.tlObjId
+				})
+			}
+		})
+
+		// Scenes:
+		if (newState.currentScene && (!oldState.currentScene || oldState.currentScene.sceneName !== newState.currentScene.sceneName)) {
+			commands.push({
+				content: {
+					requestName: OBSRequestName.SET_CURRENT_SCENE,
+					args: { 'scene-name': newState.currentScene.sceneName }
+				},
+				context: `Current scene changed to ${newState.currentScene.sceneName}`,
+				timelineObjId: newState.currentScene.tlObjId
+			})
+		}
+		if (newState.previewScene && (!oldState.previewScene || oldState.previewScene.sceneName !== newState.previewScene.sceneName)) {
+			if (!oldState.previewScene) {
+				// A preview scene is only available in studio mode:
+				commands.push({
+					content: { requestName: OBSRequestName.ENABLE_STUDIO_MODE, args: {} },
+					context: `Studio mode enabled`,
+					timelineObjId: newState.previewScene.tlObjId
+				})
+			}
+			commands.push({
+				content: {
+					requestName: OBSRequestName.SET_PREVIEW_SCENE,
+					args: { 'scene-name': newState.previewScene.sceneName }
+				},
+				context: `Preview scene changed to ${newState.previewScene.sceneName}`,
+				timelineObjId: newState.previewScene.tlObjId
+			})
+		}
+
+		// Recording & streaming, only stopped if they are known to be running:
+		if (newState.recording !== undefined && (newState.recording ? !oldState.recording : oldState.recording === true)) {
+			commands.push({
+				content: { requestName: newState.recording ? OBSRequestName.START_RECORDING : OBSRequestName.STOP_RECORDING, args: {} },
+				context: `Recording ${newState.recording ? 'started' : 'stopped'}`,
+				timelineObjId: ''
+			})
+		}
+		if (newState.streaming !== undefined && (newState.streaming ? !oldState.streaming : oldState.streaming === true)) {
+			commands.push({
+				content: { requestName: newState.streaming ? OBSRequestName.START_STREAMING : OBSRequestName.STOP_STREAMING, args: {} },
+				context: `Streaming ${newState.streaming ? 'started' : 'stopped'}`,
+				timelineObjId: ''
+			})
+		}
+		return commands
+	}
+	private _defaultCommandReceiver (_time: number, cmd: OBSCommand, context: CommandContext, timelineObjId: string): Promise<any> {
+
+		let cwc: CommandWithContext = {
+			context: context,
+			command: cmd,
+			timelineObjId: timelineObjId
+		}
+		this.emit('debug', cwc)
+
+		return this._obs.send(cmd)
+	}
+	/**
+	 * Reads whether OBS is recording and streaming, so that the outputs are only started or stopped when needed
+	 */
+	private _readOutputStatus (): Promise<void> {
+		return this._obs.getStreamingStatus()
+		.then((status) => {
+			this._outputStatus = status
+			const current = this.getState()
+			if (current) this.setState(_.extend({}, current.state, status), current.time)
+		})
+	}
+	private _getDefaultState (): OBSState {
+		return _.extend(getEmptyState(), this._outputStatus)
+	}
+	private _connectionChanged () {
+		this.emit('connectionChanged', this.getStatus())
+	}
+}
+function getEmptyState (): OBSState {
+	return {
+		sceneItemRender: {},
+		sourceSettings: {},
+		mutes: {}
+	}
+}
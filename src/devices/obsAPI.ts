@@ -0,0 +1,207 @@
+import * as WebSocket from 'ws'
+import * as crypto from 'crypto'
+import { EventEmitter } from 'events'
+import * as _ from 'underscore'
+import { OBSCommand } from '../types/src/obs'
+
+const DEFAULT_PORT = 4444
+const TIMEOUT = 3000 // ms
+const RETRY_TIMEOUT = 5000 // ms
+
+interface PendingRequest {
+	resolve: (response: any) => void
+	reject: (error: Error) => void
+}
+
+/**
+ * A connection to OBS Studio, using the obs-websocket protocol (version 4)
+ * https://github.com/Palakis/obs-websocket/blob/4.x-current/docs/generated/protocol.md
+ */
+export class OBSInterface extends EventEmitter {
+	host: string
+	port: number
+
+	private _password: string | undefined
+	private _socket: WebSocket | null = null
+	private _connected: boolean = false
+	private _setDisconnected: boolean = false // set to true if dispose() has been called (then do not try to reconnect)
+	private _retryConnectTimeout: NodeJS.Timer | null = null
+	private _messageId: number = 0
+	private _pendingRequests: {[messageId: string]: PendingRequest} = {}
+
+	/**
+	 * Connects to OBS
+	 * @param host ip to connect to
+	 * @param port port of the obs-websocket server, defaults to 4444
+	 * @param password password to authenticate with, if the server requires it
+	 */
+	connect (host: string, port?: number, password?: string): Promise<void> {
+		this.host = host
+		this.port = port || DEFAULT_PORT
+		this._password = password
+		this._setDisconnected = false
+
+		return this._connectSocket()
+	}
+	dispose () {
+		this._setDisconnected = true
+		if (this._retryConnectTimeout) {
+			clearTimeout(this._retryConnectTimeout)
+			this._retryConnectTimeout = null
+		}
+		this._closeSocket()
+		this._setConnected(false)
+	}
+	get connected (): boolean {
+		return this._connected
+	}
+	/**
+	 * Sends a command to OBS. Resolves when OBS has confirmed the command
+	 */
+	send (command: OBSCommand): Promise<any> {
+		if (!this._connected) return Promise.reject(new Error('Not connected to OBS'))
+		return this._request(command.requestName, command.args)
+	}
+	/**
+	 * Reads whether OBS is streaming and recording
+	 */
+	getStreamingStatus (): Promise<{ streaming: boolean, recording: boolean }> {
+		if (!this._connected) return Promise.reject(new Error('Not connected to OBS'))
+		return this._request('GetStreamingStatus')
+		.then((response) => ({
+			streaming: !!response.streaming,
+			recording: !!response.recording
+		}))
+	}
+
+	private _connectSocket (): Promise<void> {
+		this._closeSocket()
+
+		return new Promise((resolve, reject) => {
+			const timeout = setTimeout(() => {
+				reject(new Error(`OBS timeout: Unable to connect to ${this.host}:${this.port}`))
+			}, TIMEOUT)
+
+			const socket = new WebSocket(`ws://${this.host}:${this.port}`)
+			this._socket = socket
+
+			socket.on('open', () => {
+				this._authenticate()
+				.then(() => {
+					clearTimeout(timeout)
+					this._setConnected(true)
+					resolve()
+				})
+				.catch((e) => {
+					clearTimeout(timeout)
+					reject(e)
+				})
+			})
+			socket.on('message', (data: WebSocket.Data) => {
+				this._receive(data + '')
+			})
+			socket.on('error', (e: Error) => {
+				this.emit('error', e)
+			})
+			socket.on('close', () => {
+				this._rejectPendingRequests()
+				this._setConnected(false)
+				this._triggerRetryConnection()
+			})
+		})
+	}
+	private _closeSocket () {
+		if (this._socket) {
+			this._socket.removeAllListeners()
+			this._socket.close()
+			this._socket = null
+		}
+		this._rejectPendingRequests()
+	}
+	/**
+	 * Authenticates with the server, if it requires it
+	 */
+	private _authenticate (): Promise<void> {
+		return this._request('GetAuthRequired')
+		.then((response) => {
+			if (!response.authRequired) return
+
+			if (!this._password) throw new Error('OBS requires a password')
+			const secret = sha256Base64(this._password + response.salt)
+			return this._request('Authenticate', { auth: sha256Base64(secret + response.challenge) })
+			.then(() => undefined)
+		})
+	}
+	private _request (requestType: string, args: {[key: string]: any} = {}): Promise<any> {
+		const socket = this._socket
+		if (!socket || socket.readyState !== socket.OPEN) return Promise.reject(new Error('Not connected to OBS'))
+
+		const messageId = (this._messageId++) + ''
+		return new Promise((resolve, reject) => {
+			this._pendingRequests[messageId] = { resolve, reject }
+
+			socket.send(JSON.stringify(_.extend({}, args, {
+				'request-type': requestType,
+				'message-id': messageId
+			})), (err?: Error) => {
+				if (err) {
+					delete this._pendingRequests[messageId]
+					reject(err)
+				}
+			})
+		})
+	}
+	private _receive (data: string) {
+		let message: any
+		try {
+			message = JSON.parse(data)
+		} catch (e) {
+			this.emit('error', new Error(`OBS: Unable to parse message: ${data}`))
+			return
+		}
+		// Events from OBS carry an "update-type" instead of a "message-id", and are not used:
+		const messageId = message['message-id']
+		if (messageId === undefined) return
+
+		const pending = this._pendingRequests[messageId]
+		if (pending) {
+			delete this._pendingRequests[messageId]
+			if (message.status === 'ok') pending.resolve(message)
+			else pending.reject(new Error(`OBS: ${message.error}`))
+		}
+	}
+	private _rejectPendingRequests () {
+		// Any unconfirmed requests will never be confirmed:
+		const pendingRequests = this._pendingRequests
+		this._pendingRequests = {}
+		_.each(pendingRequests, pending => pending.reject(new Error('Disconnected from OBS')))
+	}
+	private _setConnected (connected: boolean) {
+		if (this._connected !== connected) {
+			this._connected = connected
+
+			if (connected) {
+				this.emit('connected')
+			} else {
+				this.emit('disconnected')
+			}
+		}
+	}
+	private _triggerRetryConnection () {
+		if (!this._retryConnectTimeout && !this._setDisconnected) {
+			this._retryConnectTimeout = setTimeout(() => {
+				this._retryConnectTimeout = null
+				if (!this._connected && !this._setDisconnected) {
+					this._connectSocket()
+					.catch((e) => {
+						this.emit('error', e)
+						this._triggerRetryConnection()
+					})
+				}
+			}, RETRY_TIMEOUT)
+		}
+	}
+}
+function sha256Base64 (str: string): string {
+	return crypto.createHash('sha256').update(str).digest('base64')
+}
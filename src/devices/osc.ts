@@ -65,6 +65,7 @@ export class OSCMessageDevice extends DeviceWithState<TimelineState> implements
 		if (deviceOptions.options) {
 			if (deviceOptions.options.commandReceiver) this._commandReceiver = deviceOptions.options.commandReceiver
 			else this._commandReceiver = this._defaultCommandReceiver
+			this._commandReceiver = this.handleCommandReceiver(this._commandReceiver)
 
 			if (deviceOptions.options.oscSender) this._oscSender = deviceOptions.options.oscSender
 			else this._oscSender = this._defaultOscSender
@@ -126,6 +127,7 @@ export class OSCMessageDevice extends DeviceWithState<TimelineState> implements
 	}
 	terminate () {
 		this._doOnTime.dispose()
+		this.disposeStates()
 		return Promise.resolve(true)
 	}
 	getStatus (): DeviceStatus {
@@ -144,6 +146,9 @@ export class OSCMessageDevice extends DeviceWithState<TimelineState> implements
 	get connected (): boolean {
 		return false
 	}
+	convertTimelineState (state: TimelineState) {
+		return this.convertStateToOSCMessage(state)
+	}
 	/**
 	 * Transform the timeline state into a device state, which is in this case also
 	 * a timeline state.
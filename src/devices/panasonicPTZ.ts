@@ -84,6 +84,7 @@ export class PanasonicPtzDevice extends DeviceWithState<TimelineState> implement
 			} else {
 				this._commandReceiver = this._defaultCommandReceiver
 			}
+			this._commandReceiver = this.handleCommandReceiver(this._commandReceiver)
 		}
 		this._doOnTime = new DoOnTime(() => {
 			return this.getCurrentTime()
@@ -135,6 +136,9 @@ export class PanasonicPtzDevice extends DeviceWithState<TimelineState> implement
 		return Promise.reject('There are no cameras set up for this device')
 	}
 
+	convertTimelineState (state: TimelineState) {
+		return this.convertStateToPtz(state)
+	}
 	/**
 	 * Converts a timeline state into a device state.
 	 * @param state
@@ -213,6 +217,7 @@ export class PanasonicPtzDevice extends DeviceWithState<TimelineState> implement
 		this._doOnTime.clearQueueAfter(clearAfterTime)
 	}
 	terminate () {
+		this.disposeStates()
 		if (this._device) {
 			this._device.dispose()
 		}
@@ -60,6 +60,7 @@ export class PharosDevice extends DeviceWithState<TimelineState> implements IDev
 		if (deviceOptions.options) {
 			if (deviceOptions.options.commandReceiver) this._commandReceiver = deviceOptions.options.commandReceiver
 			else this._commandReceiver = this._defaultCommandReceiver
+			this._commandReceiver = this.handleCommandReceiver(this._commandReceiver)
 		}
 		this._doOnTime = new DoOnTime(() => {
 			return this.getCurrentTime()
@@ -90,6 +91,7 @@ export class PharosDevice extends DeviceWithState<TimelineState> implements IDev
 			.then((systemInfo) => {
 				this._pharosProjectInfo = systemInfo
 			})
+			.then(() => this.restorePersistedState())
 			.then(() => resolve(true))
 			.catch(e => reject(e))
 		})
@@ -130,6 +132,7 @@ export class PharosDevice extends DeviceWithState<TimelineState> implements IDev
 	}
 	terminate () {
 		this._doOnTime.dispose()
+		this.disposeStates()
 		return this._pharos.dispose()
 		.then(() => {
 			return true
@@ -141,6 +144,9 @@ export class PharosDevice extends DeviceWithState<TimelineState> implements IDev
 	get connected (): boolean {
 		return this._pharos.connected
 	}
+	convertTimelineState (state: TimelineState) {
+		return this.convertStateToPharos(state)
+	}
 	convertStateToPharos (state: TimelineState): PharosState {
 		return state as PharosState
 	}
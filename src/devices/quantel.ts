@@ -70,6 +70,7 @@ export class QuantelDevice extends DeviceWithState<QuantelState> implements IDev
 		if (deviceOptions.options) {
 			if (deviceOptions.options.commandReceiver) this._commandReceiver = deviceOptions.options.commandReceiver
 			else this._commandReceiver = this._defaultCommandReceiver
+			this._commandReceiver = this.handleCommandReceiver(this._commandReceiver)
 		}
 		this._quantel = new QuantelGateway()
 		this._quantel.on('error', e => this.emit('error', 'Quantel.QuantelGateway', e))
@@ -120,6 +121,7 @@ export class QuantelDevice extends DeviceWithState<QuantelState> implements IDev
 	async terminate (): Promise<boolean> {
 		this._quantel.dispose()
 		this._doOnTime.dispose()
+		this.disposeStates()
 
 		return true
 	}
@@ -228,6 +230,9 @@ export class QuantelDevice extends DeviceWithState<QuantelState> implements IDev
 		return ports
 	}
 
+	convertTimelineState (state: TimelineState) {
+		return this.convertStateToQuantel(state)
+	}
 	/**
 	 * Takes a timeline state and returns a Quantel State that will work with the state lib.
 	 * @param timelineState The timeline state to generate from.
@@ -0,0 +1,314 @@
+import * as dgram from 'dgram'
+import { EventEmitter } from 'events'
+import * as _ from 'underscore'
+import {
+	MIDICommandAny,
+	MIDICommandType
+} from '../types/src'
+
+const DEFAULT_PORT = 5004
+const DEFAULT_NAME = 'TSR'
+const PROTOCOL_VERSION = 2
+const TIMEOUT = 3000 // ms
+const RETRY_TIMEOUT = 5000 // ms
+const SYNC_INTERVAL = 10000 // ms
+
+interface PendingInvitation {
+	token: number
+	resolve: () => void
+	reject: (error: Error) => void
+}
+
+/**
+ * A session in an RTP-MIDI (AppleMIDI) network, in which we are the initiator.
+ * The session uses two UDP ports: the control port, and the data port after it.
+ * Only sending of MIDI is supported.
+ */
+export class RTPMIDISession extends EventEmitter {
+	host: string
+	port: number
+	name: string
+
+	private _control: dgram.Socket | null = null
+	private _data: dgram.Socket | null = null
+	private _ssrc: number = Math.floor(Math.random() * 0xffffffff)
+	private _sequenceNumber: number = Math.floor(Math.random() * 0xffff)
+	private _startTime: number = Date.now()
+	private _connected: boolean = false
+	private _setDisconnected: boolean = false // set to true if dispose() has been called (then do not try to reconnect)
+	private _retryConnectTimeout: NodeJS.Timer | null = null
+	private _syncInterval: NodeJS.Timer | null = null
+	private _syncAnswered: boolean = true
+	private _pendingInvitations: PendingInvitation[] = []
+
+	/**
+	 * Joins the session
+	 * @param host ip of the session to join
+	 * @param port control port of the session, defaults to 5004
+	 * @param name the name to show in the session
+	 */
+	connect (host: string, port?: number, name?: string): Promise<void> {
+		this.host = host
+		this.port = port || DEFAULT_PORT
+		this.name = name || DEFAULT_NAME
+		this._setDisconnected = false
+
+		if (!this._control) {
+			this._control = this._createSocket()
+			this._data = this._createSocket()
+		}
+		return this._invite()
+		.catch((e) => {
+			// Keep trying, in case the other end is started later:
+			this._triggerRetryConnection()
+			throw e
+		})
+	}
+	dispose () {
+		this._setDisconnected = true
+		if (this._retryConnectTimeout) {
+			clearTimeout(this._retryConnectTimeout)
+			this._retryConnectTimeout = null
+		}
+		if (this._control && this._connected) {
+			// Tell the other end that we're leaving the session:
+			this._control.send(encodeSessionPacket('BY', 0, this._ssrc), this.port, this.host)
+		}
+		this._rejectPendingInvitations(new Error('RTP-MIDI session disposed'))
+		this._setConnected(false)
+		_.each(_.compact([this._control, this._data]), (socket: dgram.Socket) => {
+			socket.removeAllListeners()
+			socket.close()
+		})
+		this._control = null
+		this._data = null
+	}
+	get connected (): boolean {
+		return this._connected
+	}
+	/**
+	 * Sends a MIDI message
+	 * @param message The bytes of the message, eg [0x90, 60, 127]
+	 */
+	send (message: number[]): Promise<void> {
+		if (!this._data || !this._connected) return Promise.reject(new Error('Not connected to RTP-MIDI session'))
+
+		this._sequenceNumber = (this._sequenceNumber + 1) & 0xffff
+		const packet = encodeRTPMIDIPacket(message, this._sequenceNumber, this._getTimestamp() % 0x100000000, this._ssrc)
+		return new Promise((resolve, reject) => {
+			this._data!.send(packet, this.port + 1, this.host, (err) => {
+				if (err) reject(err)
+				else resolve()
+			})
+		})
+	}
+
+	private _createSocket (): dgram.Socket {
+		const socket = dgram.createSocket('udp4')
+		socket.on('message', (msg: Buffer) => this._receive(socket, msg))
+		socket.on('error', (e) => this.emit('error', e))
+		socket.bind()
+		return socket
+	}
+	/**
+	 * Invites the other end into the session, first on the control port and then on the data port
+	 */
+	private _invite (): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const timeout = setTimeout(() => {
+				const error = new Error(`RTP-MIDI timeout: Unable to connect to ${this.host}:${this.port}`)
+				this._rejectPendingInvitations(error)
+				reject(error)
+			}, TIMEOUT)
+
+			this._sendInvitation(this._control!, this.port)
+			.then(() => this._sendInvitation(this._data!, this.port + 1))
+			.then(() => {
+				clearTimeout(timeout)
+				this._setConnected(true)
+				this._sync()
+				resolve()
+			})
+			.catch((e) => {
+				clearTimeout(timeout)
+				reject(e)
+			})
+		})
+	}
+	private _sendInvitation (socket: dgram.Socket, port: number): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const token = Math.floor(Math.random() * 0xffffffff)
+			this._pendingInvitations.push({ token, resolve, reject })
+			socket.send(encodeSessionPacket('IN', token, this._ssrc, this.name), port, this.host)
+		})
+	}
+	/** Rejects the invitations that haven't been answered, as they won't be anymore */
+	private _rejectPendingInvitations (error: Error) {
+		const pendingInvitations = this._pendingInvitations
+		this._pendingInvitations = []
+		_.each(pendingInvitations, pending => pending.reject(error))
+	}
+	/** Starts a clock synchronization, which also tells the other end that we're still here */
+	private _sync () {
+		if (!this._data) return
+		this._syncAnswered = false
+		this._data.send(encodeSyncPacket(this._ssrc, 0, [this._getTimestamp(), 0, 0]), this.port + 1, this.host)
+	}
+	private _getTimestamp (): number {
+		// The timestamps are in units of 100 microseconds:
+		return Math.round((Date.now() - this._startTime) * 10)
+	}
+	private _setConnected (connected: boolean) {
+		if (this._connected !== connected) {
+			this._connected = connected
+
+			if (connected) {
+				this._syncAnswered = true
+				this._syncInterval = setInterval(() => {
+					if (!this._syncAnswered) {
+						// The other end has gone away:
+						this._setConnected(false)
+					} else {
+						this._sync()
+					}
+				}, SYNC_INTERVAL)
+				this.emit('connected')
+			} else {
+				if (this._syncInterval) {
+					clearInterval(this._syncInterval)
+					this._syncInterval = null
+				}
+				this.emit('disconnected')
+				this._triggerRetryConnection()
+			}
+		}
+	}
+	private _triggerRetryConnection () {
+		if (!this._retryConnectTimeout && !this._setDisconnected) {
+			this._retryConnectTimeout = setTimeout(() => {
+				this._retryConnectTimeout = null
+				if (!this._connected && !this._setDisconnected) {
+					this._invite()
+					.catch((e) => {
+						this.emit('error', e)
+						this._triggerRetryConnection()
+					})
+				}
+			}, RETRY_TIMEOUT)
+		}
+	}
+	private _receive (socket: dgram.Socket, msg: Buffer) {
+		// Only session packets are handled, as we don't receive any MIDI:
+		if (msg.length < 4 || msg[0] !== 0xff || msg[1] !== 0xff) return
+
+		const command = msg.toString('ascii', 2, 4)
+		if (command === 'OK' || command === 'NO') {
+			const token = msg.readUInt32BE(8)
+			const pending = _.find(this._pendingInvitations, p => p.token === token)
+			if (pending) {
+				this._pendingInvitations = _.without(this._pendingInvitations, pending)
+				if (command === 'OK') pending.resolve()
+				else pending.reject(new Error('RTP-MIDI: The invitation was rejected'))
+			}
+		} else if (command === 'BY') {
+			this._setConnected(false)
+		} else if (command === 'CK') {
+			const count = msg[8]
+			const timestamps = [0, 1, 2].map(i => msg.readUInt32BE(12 + i * 8) * 0x100000000 + msg.readUInt32BE(16 + i * 8))
+			if (count === 0) {
+				// The other end is synchronizing:
+				socket.send(encodeSyncPacket(this._ssrc, 1, [timestamps[0], this._getTimestamp(), 0]), this.port + 1, this.host)
+			} else if (count === 1) {
+				this._syncAnswered = true
+				socket.send(encodeSyncPacket(this._ssrc, 2, [timestamps[0], timestamps[1], this._getTimestamp()]), this.port + 1, this.host)
+			}
+		}
+	}
+}
+
+/**
+ * Returns a session packet (invitation, acceptance, rejection or end of session)
+ */
+export function encodeSessionPacket (command: 'IN' | 'OK' | 'NO' | 'BY', token: number, ssrc: number, name?: string): Buffer {
+	const header = Buffer.alloc(16)
+	header.writeUInt16BE(0xffff, 0)
+	header.write(command, 2, 2, 'ascii')
+	header.writeUInt32BE(PROTOCOL_VERSION, 4)
+	header.writeUInt32BE(token, 8)
+	header.writeUInt32BE(ssrc, 12)
+	if (name === undefined) return header
+	return Buffer.concat([header, Buffer.from(name + '\0', 'utf8')])
+}
+/**
+ * Returns a clock synchronization packet
+ */
+export function encodeSyncPacket (ssrc: number, count: number, timestamps: number[]): Buffer {
+	const packet = Buffer.alloc(36)
+	packet.writeUInt16BE(0xffff, 0)
+	packet.write('CK', 2, 2, 'ascii')
+	packet.writeUInt32BE(ssrc, 4)
+	packet.writeUInt8(count, 8)
+	_.each(timestamps, (timestamp, i) => {
+		packet.writeUInt32BE(Math.floor(timestamp / 0x100000000), 12 + i * 8)
+		packet.writeUInt32BE(timestamp % 0x100000000, 16 + i * 8)
+	})
+	return packet
+}
+/**
+ * Returns an RTP packet carrying a MIDI message, without a recovery journal
+ */
+export function encodeRTPMIDIPacket (message: number[], sequenceNumber: number, timestamp: number, ssrc: number): Buffer {
+	const header = Buffer.alloc(12)
+	header.writeUInt8(0x80, 0) // Version 2
+	header.writeUInt8(0x61, 1) // Payload type 97
+	header.writeUInt16BE(sequenceNumber, 2)
+	header.writeUInt32BE(timestamp, 4)
+	header.writeUInt32BE(ssrc, 8)
+
+	// The MIDI command section, with a short or long length field:
+	const length = message.length
+	const commandHeader = length <= 0x0f ?
+		[length] :
+		[0x80 | (length >> 8), length & 0xff]
+	return Buffer.concat([header, Buffer.from(commandHeader), Buffer.from(message)])
+}
+/**
+ * Returns the bytes of the MIDI message of a command
+ */
+export function getMIDIBytes (cmd: MIDICommandAny): number[] {
+	switch (cmd.type) {
+		case MIDICommandType.NOTE_ON:
+			return [0x90 | channelNibble(cmd.channel), cmd.note & 0x7f, cmd.velocity & 0x7f]
+		case MIDICommandType.NOTE_OFF:
+			return [0x80 | channelNibble(cmd.channel), cmd.note & 0x7f, cmd.velocity & 0x7f]
+		case MIDICommandType.CONTROL_CHANGE:
+			return [0xb0 | channelNibble(cmd.channel), cmd.controller & 0x7f, cmd.value & 0x7f]
+		case MIDICommandType.PROGRAM_CHANGE:
+			return [0xc0 | channelNibble(cmd.channel), cmd.program & 0x7f]
+		case MIDICommandType.MSC:
+			// A MIDI Show Control System Exclusive message:
+			const bytes = [
+				0xf0, 0x7f,
+				cmd.mscDeviceId !== undefined ? cmd.mscDeviceId & 0x7f : 0x7f,
+				0x02,
+				cmd.commandFormat !== undefined ? cmd.commandFormat & 0x7f : 0x01,
+				cmd.command
+			]
+			if (cmd.cue !== undefined) {
+				bytes.push(...asciiBytes(cmd.cue))
+				if (cmd.list !== undefined) {
+					bytes.push(0x00, ...asciiBytes(cmd.list))
+				}
+			}
+			bytes.push(0xf7)
+			return bytes
+	}
+	throw new Error(`Unknown MIDI command "${(cmd as any).type}"`)
+}
+/** Returns the channel (1-16) as the low nibble of a status byte */
+function channelNibble (channel: number): number {
+	return (channel - 1) & 0x0f
+}
+function asciiBytes (str: string): number[] {
+	return _.map(str.split(''), c => c.charCodeAt(0) & 0x7f)
+}
@@ -90,11 +90,20 @@ export class SingularLiveDevice extends DeviceWithState<TimelineState> implement
 		if (deviceOptions.options) {
 			if (deviceOptions.options.commandReceiver) this._commandReceiver = deviceOptions.options.commandReceiver
 			else this._commandReceiver = this._defaultCommandReceiver
+			this._commandReceiver = this.handleCommandReceiver(this._commandReceiver)
 		}
 		this._doOnTime = new DoOnTime(() => {
 			return this.getCurrentTime()
 		}, SendMode.IN_ORDER, this._deviceOptions)
 		this.handleDoOnTime(this._doOnTime, 'SingularLive')
+		this._doOnTime.on('commandError', (error, commandReport) => {
+			const cmd: Command = commandReport.args[0]
+			this.emit('commandError', error, {
+				context: cmd.context,
+				command: cmd.content,
+				timelineObjId: cmd.timelineObjId
+			}, commandReport)
+		})
 	}
 	init (initOptions: SingularLiveOptions): Promise<boolean> {
 		// this._makeReadyCommands = options.makeReadyCommands || []
@@ -135,6 +144,7 @@ export class SingularLiveDevice extends DeviceWithState<TimelineState> implement
 	}
 	terminate () {
 		this._doOnTime.dispose()
+		this.disposeStates()
 		return Promise.resolve(true)
 	}
 	getStatus (): DeviceStatus {
@@ -164,6 +174,9 @@ export class SingularLiveDevice extends DeviceWithState<TimelineState> implement
 			compositions: {}
 		}
 	}
+	convertTimelineState (state: TimelineState) {
+		return this.convertStateToSingularLive(state)
+	}
 	convertStateToSingularLive (state: TimelineState) {
 		// convert the timeline state into something we can use
 		// (won't even use this.mapping)
@@ -305,11 +318,13 @@ export class SingularLiveDevice extends DeviceWithState<TimelineState> implement
 		return new Promise((resolve, reject) => {
 			let handleResponse = (error, response) => {
 				if (error) {
-					this.emit('error', `SingularLive.response error ${cmd.compositionName} (${context}`, error)
 					reject(error)
 				} else if (response.statusCode === 200) {
 					this.emit('debug', `SingularLive: ${cmd.compositionName}: Good statuscode response on url "${url}": ${response.statusCode} (${context})`)
 					resolve()
+				} else if (response.statusCode >= 500) {
+					// A server error might be temporary, so let the command be retried:
+					reject(new Error(`SingularLive: ${cmd.compositionName}: Bad statuscode response on url "${url}": ${response.statusCode} (${context})`))
 				} else {
 					this.emit('warning', `SingularLive: ${cmd.compositionName}: Bad statuscode response on url "${url}": ${response.statusCode} (${context})`)
 					resolve()
@@ -324,8 +339,5 @@ export class SingularLiveDevice extends DeviceWithState<TimelineState> implement
 				handleResponse
 			)
 		})
-		.catch(error => {
-			this.emit('commandError', error, cwc)
-		})
 	}
 }
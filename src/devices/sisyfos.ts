@@ -11,11 +11,24 @@ import {
 	DeviceOptionsSisyfos
 } from '../types/src'
 import { DoOnTime, SendMode } from '../doOnTime'
+import { getDiff } from '../lib'
 
 import {
 	TimelineState, ResolvedTimelineObjectInstance
 } from 'superfly-timeline'
-import { SisyfosOptions, SisyfosState, SisyfosChannel, TimelineObjSisyfosMessage, MappingSisyfos, ToggleCommand, Commands, SisyfosCommand } from '../types/src/sisyfos'
+import {
+	SisyfosOptions,
+	SisyfosState,
+	SisyfosChannel,
+	SisyfosAPIChannel,
+	SisyfosChannelOptions,
+	TimelineObjSisyfosAny,
+	TimelineContentTypeSisyfos,
+	MappingSisyfos,
+	ToggleCommand,
+	Commands,
+	SisyfosCommand
+} from '../types/src/sisyfos'
 import { SisyfosInterface } from './sisyfosAPI'
 
 export interface DeviceOptionsSisyfosInternal extends DeviceOptionsSisyfos {
@@ -31,6 +44,8 @@ interface Command {
 	timelineObjId: string
 }
 type CommandContext = string
+/** The properties of a channel that are controlled by the timeline */
+const CHANNEL_PROPERTIES: Array<keyof SisyfosAPIChannel> = ['faderLevel', 'pgmOn', 'pstOn', 'label', 'visible', 'muteOn', 'pflOn']
 /**
  * This is a generic wrapper for any osc-enabled device.
  */
@@ -40,22 +55,30 @@ export class SisyfosMessageDevice extends DeviceWithState<SisyfosState> implemen
 	private _sisyfos: SisyfosInterface
 
 	private _commandReceiver: CommandReceiver
+	/** The channels the operator has changed (where allowed to), and how they differ from the timeline */
+	private _overriddenChannels: {[channel: string]: string} = {}
 
 	constructor (deviceId: string, deviceOptions: DeviceOptionsSisyfosInternal, options) {
 		super(deviceId, deviceOptions, options)
 		if (deviceOptions.options) {
 			if (deviceOptions.options.commandReceiver) this._commandReceiver = deviceOptions.options.commandReceiver
 			else this._commandReceiver = this._defaultCommandReceiver
+			this._commandReceiver = this.handleCommandReceiver(this._commandReceiver)
 		}
 
 		this._sisyfos = new SisyfosInterface()
 		this._sisyfos.on('error', e => this.emit('error', 'Sisyfos', e))
 		this._sisyfos.on('connected', () => {
+			// The state is read back on reconnection, any remaining drift is to be corrected again:
+			this.resetStateDrift()
 			this._connectionChanged()
 		})
 		this._sisyfos.on('disconnected', () => {
 			this._connectionChanged()
 		})
+		this._sisyfos.on('stateChanged', () => {
+			this.checkStateDrift(this._getActualState())
+		})
 
 		this._doOnTime = new DoOnTime(() => {
 			return this.getCurrentTime()
@@ -65,13 +88,41 @@ export class SisyfosMessageDevice extends DeviceWithState<SisyfosState> implemen
 	init (initOptions: SisyfosOptions): Promise<boolean> {
 
 		this._sisyfos.once('initialized', () => {
-			this.setState(this.getDeviceState(), this.getCurrentTime())
-			this.emit('resetResolver')
+			this.restorePersistedState()
+			.then((restored) => {
+				if (!restored) this.setState(this.getDeviceState(), this.getCurrentTime())
+				this.emit('resetResolver')
+			})
+			.catch(e => this.emit('error', 'Sisyfos.restorePersistedState', e))
 		})
 
 		return this._sisyfos.connect(initOptions.host, initOptions.port)
 			.then(() => true)
 	}
+	/**
+	 * Initializes the device without connecting to Sisyfos, with the mapped channels in their default state
+	 */
+	initOffline (_initOptions: SisyfosOptions): Promise<boolean> {
+		const channels: {[index: string]: SisyfosAPIChannel} = {}
+		_.each(this.getMapping(), (_mapping, layerName: string) => {
+			const mapping = this._getChannelMapping(layerName)
+			if (!mapping) return
+			for (let ch = 0; ch <= mapping.channel; ch++) {
+				channels[ch] = channels[ch] || {
+					faderLevel: 0.75, // 0 dB
+					pgmOn: false,
+					pstOn: false,
+					label: '',
+					visible: true,
+					muteOn: false,
+					pflOn: false
+				}
+			}
+		})
+		this._sisyfos.initOffline({ channels })
+		this.setState(this.getDeviceState(), this.getCurrentTime())
+		return Promise.resolve(true)
+	}
 	/** Called by the Conductor a bit before a .handleState is called */
 	prepareForHandleState (newStateTime: number) {
 		// clear any queued commands later than this time:
@@ -115,6 +166,7 @@ export class SisyfosMessageDevice extends DeviceWithState<SisyfosState> implemen
 	}
 	terminate () {
 		this._doOnTime.dispose()
+		this.disposeStates()
 		return Promise.resolve(true)
 	}
 	getStatus (): DeviceStatus {
@@ -130,6 +182,13 @@ export class SisyfosMessageDevice extends DeviceWithState<SisyfosState> implemen
 			statusCode = StatusCode.BAD
 			messages.push(`Sisyfos device connection not initialized (restart required)`)
 		}
+
+		if (statusCode === StatusCode.GOOD && !_.isEmpty(this._overriddenChannels)) {
+			statusCode = StatusCode.WARNING_MINOR
+		}
+		_.each(this._overriddenChannels, (diff: string, ch: string) => {
+			messages.push(`Channel ${ch} has been changed by the operator: ${diff}`)
+		})
 		return {
 			statusCode: statusCode,
 			messages: messages
@@ -149,16 +208,26 @@ export class SisyfosMessageDevice extends DeviceWithState<SisyfosState> implemen
 	get connected (): boolean {
 		return this._sisyfos.connected
 	}
+	/**
+	 * A persisted state is valid only if the channels are still in the same state on the device
+	 */
+	protected validatePersistedState (state: SisyfosState): boolean {
+		const deviceStateFromAPI = this._sisyfos.state
+		if (_.keys(state.channels).length !== _.keys(deviceStateFromAPI.channels).length) return false
+
+		return _.every(deviceStateFromAPI.channels, (channelFromAPI, ch: string) => {
+			const channel = state.channels[ch]
+			if (!channel) return false
+			return _.every(CHANNEL_PROPERTIES, (property) => channel[property] === undefined || channel[property] === channelFromAPI[property])
+		})
+	}
 	getDeviceState (): SisyfosState {
 		const deviceStateFromAPI = this._sisyfos.state
 		const deviceState: SisyfosState = { channels: {} }
 
 		for (const ch of Object.keys(deviceStateFromAPI.channels)) {
 
-			const channelFromAPI = deviceStateFromAPI.channels[ch]
-
 			const channel: SisyfosChannel = {
-				...channelFromAPI,
 				faderLevel:  0.75,  // 0 dB
 				pgmOn:  false,
 				pstOn:  false,
@@ -169,6 +238,9 @@ export class SisyfosMessageDevice extends DeviceWithState<SisyfosState> implemen
 		}
 		return deviceState
 	}
+	convertTimelineState (state: TimelineState) {
+		return this.convertStateToSisyfosState(state)
+	}
 	/**
 	 * Transform the timeline state into a device state, which is in this case also
 	 * a timeline state.
@@ -177,37 +249,27 @@ export class SisyfosMessageDevice extends DeviceWithState<SisyfosState> implemen
 	convertStateToSisyfosState (state: TimelineState) {
 		const deviceState: SisyfosState = this.getDeviceState()
 
-		_.each(state.layers, (tlObject, layerName) => {
-			const layer = tlObject as ResolvedTimelineObjectInstance & TimelineObjSisyfosMessage
-			let foundMapping: MappingSisyfos = this.getMapping()[layerName] as any // @todo: make ts understand this
-
-			// if the tlObj is specifies to load to PST the original Layer is used to resolve the mapping
-			if (!foundMapping && layer.isLookahead && layer.lookaheadForLayer) {
-				foundMapping = this.getMapping()[layer.lookaheadForLayer] as any
-			}
-
-			if (foundMapping) {
-				const channel = deviceState.channels[foundMapping.channel]
+		_.each(state.layers, (tlObject, layerName: string) => {
+			const layer = tlObject as ResolvedTimelineObjectInstance & TimelineObjSisyfosAny
 
-				if (layer.isLookahead) {
-					if (layer.content.isPgm) {
-						channel.pstOn = true
-					} else {
-						channel.pstOn = false
-					}
-				} else {
-					if (layer.content.isPst) {
-						channel.pstOn = true
-					}
-					if (layer.content.isPgm) {
-						channel.pgmOn = true
+			if (layer.content.type === TimelineContentTypeSisyfos.CHANNELS) {
+				_.each(layer.content.channels, (options) => {
+					const mapping = this._getChannelMapping(options.mappedLayer)
+					if (mapping) {
+						this._applyChannelOptions(deviceState.channels[mapping.channel], options, layer)
 					}
+				})
+			} else {
+				let foundMapping = this._getChannelMapping(layerName)
+
+				// if the tlObj is specifies to load to PST the original Layer is used to resolve the mapping
+				if (!foundMapping && layer.isLookahead && layer.lookaheadForLayer) {
+					foundMapping = this._getChannelMapping(layer.lookaheadForLayer)
 				}
 
-				if (layer.content.faderLevel !== undefined) {
-					channel.faderLevel = layer.content.faderLevel
+				if (foundMapping) {
+					this._applyChannelOptions(deviceState.channels[foundMapping.channel], layer.content, layer)
 				}
-				channel.tlObjIds.push(tlObject.id)
 			}
 		})
 
@@ -222,6 +284,133 @@ export class SisyfosMessageDevice extends DeviceWithState<SisyfosState> implemen
 	get queue () {
 		return this._doOnTime.getQueue()
 	}
+	/**
+	 * Only the mapped channels controlled by the timeline objects are compared.
+	 * The channels that the operator may override are not drifting, but reported in the status
+	 */
+	protected getStateDrift (expectedState: SisyfosState, actualState: SisyfosState): string | null {
+		this._updateOverriddenChannels(expectedState, actualState)
+
+		return getDiff(
+			this._getStateDriftValues(expectedState, expectedState, false),
+			this._getStateDriftValues(expectedState, actualState, false)
+		)
+	}
+	protected correctStateDrift (expectedState: SisyfosState, actualState: SisyfosState) {
+		// Diff against the expected state, but with the actual values of the mapped channels:
+		const fromState: SisyfosState = { channels: { ...expectedState.channels } }
+		_.each(this._getStateDriftValues(expectedState, actualState, false), (values, ch: string) => {
+			fromState.channels[ch] = {
+				...expectedState.channels[ch],
+				...values
+			}
+		})
+		this._addToQueue(this._diffStates(fromState, expectedState), this.getCurrentTime())
+	}
+	/**
+	 * Returns the state of the channels, as reported by Sisyfos
+	 */
+	private _getActualState (): SisyfosState {
+		const deviceState: SisyfosState = { channels: {} }
+		_.each(this._sisyfos.state.channels, (channelFromAPI, ch: string) => {
+			deviceState.channels[ch] = {
+				...channelFromAPI,
+				tlObjIds: []
+			}
+		})
+		return deviceState
+	}
+	private _getChannelMapping (layerName: string | number): MappingSisyfos | undefined {
+		const mapping = this.getMapping()[layerName] as MappingSisyfos | undefined
+		if (
+			mapping &&
+			mapping.device === DeviceType.SISYFOS &&
+			mapping.deviceId === this.deviceId
+		) {
+			return mapping
+		}
+		return undefined
+	}
+	/**
+	 * Applies the options of a timeline object to a channel of the state
+	 */
+	private _applyChannelOptions (channel: SisyfosChannel | undefined, options: SisyfosChannelOptions, tlObject: ResolvedTimelineObjectInstance & TimelineObjSisyfosAny) {
+		if (!channel) return
+
+		if (tlObject.isLookahead) {
+			if (options.isPgm) {
+				channel.pstOn = true
+			} else {
+				channel.pstOn = false
+			}
+		} else {
+			if (options.isPst) {
+				channel.pstOn = true
+			}
+			if (options.isPgm) {
+				channel.pgmOn = true
+			}
+		}
+
+		if (options.faderLevel !== undefined) {
+			channel.faderLevel = options.faderLevel
+		}
+		if (options.label !== undefined) {
+			channel.label = options.label
+		}
+		if (options.visible !== undefined) {
+			channel.visible = options.visible
+		}
+		if (options.mute !== undefined) {
+			channel.muteOn = options.mute
+		}
+		if (options.pfl !== undefined) {
+			channel.pflOn = options.pfl
+		}
+		if (options.fadeTime !== undefined) {
+			channel.fadeTime = options.fadeTime
+		}
+		channel.tlObjIds.push(tlObject.id)
+	}
+	private _updateOverriddenChannels (expectedState: SisyfosState, actualState: SisyfosState) {
+		const expectedValues = this._getStateDriftValues(expectedState, expectedState, true)
+		const actualValues = this._getStateDriftValues(expectedState, actualState, true)
+
+		const overriddenChannels: {[channel: string]: string} = {}
+		_.each(expectedValues, (values, ch: string) => {
+			const diff = getDiff(values, actualValues[ch])
+			if (diff) overriddenChannels[ch] = diff
+		})
+		if (!_.isEqual(overriddenChannels, this._overriddenChannels)) {
+			this._overriddenChannels = overriddenChannels
+			this._connectionChanged()
+		}
+	}
+	/**
+	 * Returns the values of the mapped channels controlled by the timeline, of the properties that are set in the expected state
+	 * @param expectedState The state of the timeline
+	 * @param state The state to return the values of
+	 * @param operatorMayOverride Whether to return the channels that the operator may override, or the others
+	 */
+	private _getStateDriftValues (expectedState: SisyfosState, state: SisyfosState, operatorMayOverride: boolean): {[channel: string]: Partial<SisyfosAPIChannel>} {
+		const values = {}
+		_.each(this.getMapping(), (mapping: MappingSisyfos) => {
+			if (
+				mapping.device === DeviceType.SISYFOS &&
+				mapping.deviceId === this.deviceId &&
+				!!mapping.operatorMayOverride === operatorMayOverride
+			) {
+				const expectedChannel = expectedState.channels[mapping.channel]
+				const channel = state.channels[mapping.channel]
+				// Only the channels controlled by the timeline objects are compared:
+				if (expectedChannel && expectedChannel.tlObjIds.length && channel) {
+					const properties = _.filter(CHANNEL_PROPERTIES, property => expectedChannel[property] !== undefined)
+					values[mapping.channel] = _.pick(channel, ...properties)
+				}
+			}
+		})
+		return values
+	}
 	/**
 	 * add the new commands to the queue:
 	 * @param commandsToAchieveState
@@ -353,7 +542,52 @@ export class SisyfosMessageDevice extends DeviceWithState<SisyfosState> implemen
 					content: {
 						type: Commands.SET_FADER,
 						channel: Number(index),
-						value: newChannel.faderLevel
+						value: newChannel.faderLevel,
+						fadeTime: newChannel.fadeTime
+					},
+					timelineObjId: newChannel.tlObjIds[0] || ''
+				})
+			}
+			if (oldChannel && newChannel.label !== undefined && oldChannel.label !== newChannel.label) {
+				commands.push({
+					context: 'label change',
+					content: {
+						type: Commands.SET_LABEL,
+						channel: Number(index),
+						value: newChannel.label
+					},
+					timelineObjId: newChannel.tlObjIds[0] || ''
+				})
+			}
+			if (oldChannel && newChannel.visible !== undefined && oldChannel.visible !== newChannel.visible) {
+				commands.push({
+					context: 'visibility change',
+					content: {
+						type: Commands.SET_VISIBLE,
+						channel: Number(index),
+						value: newChannel.visible
+					},
+					timelineObjId: newChannel.tlObjIds[0] || ''
+				})
+			}
+			if (oldChannel && newChannel.muteOn !== undefined && oldChannel.muteOn !== newChannel.muteOn) {
+				commands.push({
+					context: 'mute change',
+					content: {
+						type: Commands.SET_MUTE,
+						channel: Number(index),
+						value: newChannel.muteOn
+					},
+					timelineObjId: newChannel.tlObjIds[0] || ''
+				})
+			}
+			if (oldChannel && newChannel.pflOn !== undefined && oldChannel.pflOn !== newChannel.pflOn) {
+				commands.push({
+					context: 'pfl change',
+					content: {
+						type: Commands.SET_PFL,
+						channel: Number(index),
+						value: newChannel.pflOn
 					},
 					timelineObjId: newChannel.tlObjIds[0] || ''
 				})
@@ -1,11 +1,13 @@
 import * as osc from 'osc'
+import * as _ from 'underscore'
 import {
-	SisyfosState,
 	SisyfosCommand,
 	Commands,
 	ToggleCommand,
 	FaderCommand,
-	SisyfosAPIState
+	LabelCommand,
+	SisyfosAPIState,
+	SisyfosAPIChannel
 } from '../types/src/sisyfos'
 import { EventEmitter } from 'events'
 
@@ -18,7 +20,7 @@ export class SisyfosInterface extends EventEmitter {
 	port: number
 
 	private _oscClient: osc.UDPPort
-	private _state: SisyfosState
+	private _state: SisyfosAPIState
 
 	private _connectivityCheckInterval: NodeJS.Timer
 	private _pingCounter: number = Math.round(Math.random() * 10000)
@@ -87,9 +89,37 @@ export class SisyfosInterface extends EventEmitter {
 				value: (command as ToggleCommand).value ? 1 : 0
 			}] })
 		} else if (command.type === Commands.SET_FADER) {
-			this._oscClient.send({ address: `/ch/${(command as FaderCommand).channel + 1}/faderlevel`, args: [{
+			const fadeTime = (command as FaderCommand).fadeTime
+			const args: osc.MetaArgument[] = [{
 				type: 'f',
 				value: (command as FaderCommand).value
+			}]
+			if (fadeTime !== undefined) {
+				args.push({
+					type: 'i',
+					value: fadeTime
+				})
+			}
+			this._oscClient.send({ address: `/ch/${(command as FaderCommand).channel + 1}/faderlevel`, args: args })
+		} else if (command.type === Commands.SET_LABEL) {
+			this._oscClient.send({ address: `/ch/${(command as LabelCommand).channel + 1}/label`, args: [{
+				type: 's',
+				value: (command as LabelCommand).value
+			}] })
+		} else if (command.type === Commands.SET_VISIBLE) {
+			this._oscClient.send({ address: `/ch/${(command as ToggleCommand).channel + 1}/visible`, args: [{
+				type: 'i',
+				value: (command as ToggleCommand).value ? 1 : 0
+			}] })
+		} else if (command.type === Commands.SET_MUTE) {
+			this._oscClient.send({ address: `/ch/${(command as ToggleCommand).channel + 1}/mute`, args: [{
+				type: 'i',
+				value: (command as ToggleCommand).value ? 1 : 0
+			}] })
+		} else if (command.type === Commands.SET_PFL) {
+			this._oscClient.send({ address: `/ch/${(command as ToggleCommand).channel + 1}/pfl`, args: [{
+				type: 'i',
+				value: (command as ToggleCommand).value ? 1 : 0
 			}] })
 		}
 	}
@@ -97,6 +127,12 @@ export class SisyfosInterface extends EventEmitter {
 	disconnect () {
 		this._oscClient.close()
 	}
+	/**
+	 * Sets the state of the channels without connecting to Sisyfos, for generating commands offline
+	 */
+	initOffline (state: SisyfosAPIState) {
+		this._state = state
+	}
 	isInitialized (): boolean {
 		return !!this._state
 	}
@@ -136,16 +172,23 @@ export class SisyfosInterface extends EventEmitter {
 		if (address[0] === 'state') {
 			if (address[1] === 'full') {
 				const extState = JSON.parse(message.args[0].value)
+				const channels: {[index: string]: SisyfosAPIChannel} = {}
+				_.each(extState.channel, (channel: any, index: number) => {
+					channels[index] = this.parseChannel(channel)
+				})
+				const wasInitialized = this.isInitialized()
 				this._state = {
-					channels: extState.channel
+					channels: channels
 				}
-				this.emit('initialized')
+				if (!wasInitialized) this.emit('initialized')
+				this.emit('stateChanged', this._state)
 			} else if (address[1] === 'ch') {
 				const ch = address[2]
 				this._state.channels[ch] = {
 					...this._state.channels[ch],
 					...this.parseChannelCommand(message, address.slice(3))
 				}
+				this.emit('stateChanged', this._state)
 			}
 		} else if (address[0] === 'pong') { // a reply to "/ping"
 			let pingValue = parseInt(message.args[0].value, 10)
@@ -165,6 +208,10 @@ export class SisyfosInterface extends EventEmitter {
 
 			if (connected) {
 				this.emit('connected')
+				if (this.isInitialized()) {
+					// The state may have been changed while disconnected:
+					this._oscClient.send({ address: '/state/full', args: [] })
+				}
 			} else {
 				this.emit('disconnected')
 			}
@@ -172,6 +219,20 @@ export class SisyfosInterface extends EventEmitter {
 
 	}
 
+	/**
+	 * Parses a channel of the full state. Sisyfos calls the visibility "showChannel"
+	 */
+	private parseChannel (channel: any): SisyfosAPIChannel {
+		return {
+			faderLevel: channel.faderLevel,
+			pgmOn: !!channel.pgmOn,
+			pstOn: !!channel.pstOn,
+			label: channel.label || '',
+			visible: channel.showChannel !== undefined ? !!channel.showChannel : channel.visible !== false,
+			muteOn: !!channel.muteOn,
+			pflOn: !!channel.pflOn
+		}
+	}
 	private parseChannelCommand (message: osc.OscMessage, address: Array<string>) {
 		const boolVal = message.args[0].value === 1 || message.args[0].value === true
 		if (address[0] === 'pgm') {
@@ -180,6 +241,14 @@ export class SisyfosInterface extends EventEmitter {
 			return { pstOn: boolVal }
 		} else if (address[0] === 'faderlevel') {
 			return { faderLevel: message.args[0].value }
+		} else if (address[0] === 'label') {
+			return { label: message.args[0].value + '' }
+		} else if (address[0] === 'visible') {
+			return { visible: boolVal }
+		} else if (address[0] === 'mute') {
+			return { muteOn: boolVal }
+		} else if (address[0] === 'pfl') {
+			return { pflOn: boolVal }
 		}
 		return {}
 	}
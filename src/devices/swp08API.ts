@@ -0,0 +1,318 @@
+import { Socket } from 'net'
+import { EventEmitter } from 'events'
+import * as _ from 'underscore'
+
+const DEFAULT_PORT = 8910
+const TIMEOUT = 3000 // ms
+const RETRY_TIMEOUT = 5000 // ms
+
+const DLE = 0x10
+const STX = 0x02
+const ETX = 0x03
+const ACK = 0x06
+const NAK = 0x15
+
+export enum SWP08Command {
+	CROSSPOINT_INTERROGATE = 0x01,
+	CROSSPOINT_CONNECT = 0x02,
+	CROSSPOINT_TALLY = 0x03,
+	CROSSPOINT_CONNECTED = 0x04,
+	CROSSPOINT_TALLY_DUMP_REQUEST = 0x15,
+	CROSSPOINT_TALLY_DUMP_BYTE = 0x16,
+	CROSSPOINT_TALLY_DUMP_WORD = 0x17
+}
+
+interface PendingMessage {
+	resolve: () => void
+	reject: (error: Error) => void
+}
+
+/**
+ * A connection to a router using the SW-P-08 protocol, over TCP
+ */
+export class SWP08Interface extends EventEmitter {
+	host: string
+	port: number
+	/** The matrix (0-15) to control */
+	matrix: number = 0
+	/** The level (0-15) to control */
+	level: number = 0
+
+	private _socket: Socket | null = null
+	private _connected: boolean = false
+	private _setDisconnected: boolean = false // set to true if dispose() has been called (then do not try to reconnect)
+	private _retryConnectTimeout: NodeJS.Timer | null = null
+	private _receiveBuffer: Buffer = Buffer.alloc(0)
+	private _pendingMessages: PendingMessage[] = []
+	private _routes: {[destination: string]: number} = {}
+	private _onTallyDump: (() => void) | null = null
+
+	/**
+	 * Connects to the router. Resolves when the router has sent its crosspoints
+	 * @param host ip to connect to
+	 * @param port port of the protocol, defaults to 8910
+	 */
+	connect (host: string, port?: number): Promise<void> {
+		this.host = host
+		this.port = port || DEFAULT_PORT
+		this._setDisconnected = false
+
+		return this._connectSocket()
+		.catch((e) => {
+			// Keep trying, in case the router is started later:
+			this._triggerRetryConnection()
+			throw e
+		})
+	}
+	dispose () {
+		this._setDisconnected = true
+		if (this._retryConnectTimeout) {
+			clearTimeout(this._retryConnectTimeout)
+			this._retryConnectTimeout = null
+		}
+		if (this._socket) {
+			this._socket.removeAllListeners()
+			this._socket.end()
+			this._socket = null
+		}
+		this._setConnected(false)
+	}
+	get connected (): boolean {
+		return this._connected
+	}
+	/** The source routed to each destination, as last reported by the router */
+	getRoutes (): {[destination: string]: number} {
+		return _.clone(this._routes)
+	}
+	/**
+	 * Routes a source to a destination. Resolves when the router has acknowledged it
+	 */
+	setRoute (destination: number, source: number): Promise<void> {
+		if (!this._connected) return Promise.reject(new Error('Not connected to SW-P-08 router'))
+		return this._sendMessage(encodeCrosspoint(SWP08Command.CROSSPOINT_CONNECT, this.matrix, this.level, destination, source))
+	}
+
+	private _sendMessage (data: number[]): Promise<void> {
+		if (!this._socket) return Promise.reject(new Error('Not connected to SW-P-08 router'))
+
+		return new Promise((resolve, reject) => {
+			this._pendingMessages.push({ resolve, reject })
+			this._socket!.write(encodeMessage(data))
+		})
+	}
+	private _connectSocket (): Promise<void> {
+		if (!this._socket) {
+			this._socket = new Socket()
+			this._socket.on('close', () => {
+				this._setConnected(false)
+			})
+			this._socket.on('end', () => {
+				this._setConnected(false)
+			})
+			this._socket.on('error', (e) => {
+				this.emit('error', e)
+			})
+			this._socket.on('data', (data: Buffer) => {
+				this._receive(data)
+			})
+		}
+		return new Promise((resolve, reject) => {
+			const timeout = setTimeout(() => {
+				this._onTallyDump = null
+				reject(new Error(`SW-P-08 timeout: Unable to connect to ${this.host}:${this.port}`))
+			}, TIMEOUT)
+			// We're connected when the router has sent its crosspoints:
+			this._onTallyDump = () => {
+				clearTimeout(timeout)
+				this._setConnected(true)
+				resolve()
+			}
+			this._receiveBuffer = Buffer.alloc(0)
+			this._socket!.connect(this.port, this.host, () => {
+				this._sendMessage([SWP08Command.CROSSPOINT_TALLY_DUMP_REQUEST, matrixLevel(this.matrix, this.level)])
+				.catch((e) => {
+					clearTimeout(timeout)
+					reject(e)
+				})
+			})
+		})
+	}
+	private _setConnected (connected: boolean) {
+		if (this._connected !== connected) {
+			this._connected = connected
+
+			if (connected) {
+				this.emit('connected')
+			} else {
+				// Any unacknowledged messages will never be acknowledged:
+				const pendingMessages = this._pendingMessages
+				this._pendingMessages = []
+				_.each(pendingMessages, pending => pending.reject(new Error('Disconnected from SW-P-08 router')))
+
+				this.emit('disconnected')
+				this._triggerRetryConnection()
+			}
+		}
+	}
+	private _triggerRetryConnection () {
+		if (!this._retryConnectTimeout && !this._setDisconnected) {
+			this._retryConnectTimeout = setTimeout(() => {
+				this._retryConnectTimeout = null
+				if (!this._connected && !this._setDisconnected) {
+					this._connectSocket()
+					.catch((e) => {
+						this.emit('error', e)
+						this._triggerRetryConnection()
+					})
+				}
+			}, RETRY_TIMEOUT)
+		}
+	}
+	private _receive (data: Buffer) {
+		this._receiveBuffer = Buffer.concat([this._receiveBuffer, data])
+
+		let i = 0
+		while (i < this._receiveBuffer.length - 1) {
+			if (this._receiveBuffer[i] !== DLE) {
+				i++
+				continue
+			}
+			const next = this._receiveBuffer[i + 1]
+			if (next === ACK || next === NAK) {
+				const pending = this._pendingMessages.shift()
+				if (pending) {
+					if (next === ACK) pending.resolve()
+					else pending.reject(new Error('SW-P-08: message was not acknowledged'))
+				}
+				i += 2
+			} else if (next === STX) {
+				const end = findMessageEnd(this._receiveBuffer, i + 2)
+				if (end === -1) break // wait for the rest of the message
+
+				const message = decodeMessage(this._receiveBuffer.slice(i + 2, end))
+				if (message) {
+					this._write([DLE, ACK])
+					this._receiveMessage(message)
+				} else {
+					this._write([DLE, NAK])
+				}
+				i = end + 2
+			} else {
+				i++
+			}
+		}
+		this._receiveBuffer = this._receiveBuffer.slice(i)
+	}
+	private _write (bytes: number[]) {
+		if (this._socket) this._socket.write(Buffer.from(bytes))
+	}
+	private _receiveMessage (data: number[]) {
+		const command = data[0]
+		if (
+			command === SWP08Command.CROSSPOINT_TALLY ||
+			command === SWP08Command.CROSSPOINT_CONNECTED
+		) {
+			const crosspoint = decodeCrosspoint(data)
+			if (crosspoint.matrix === this.matrix && crosspoint.level === this.level) {
+				this._setRoute(crosspoint.destination, crosspoint.source)
+			}
+		} else if (
+			command === SWP08Command.CROSSPOINT_TALLY_DUMP_BYTE ||
+			command === SWP08Command.CROSSPOINT_TALLY_DUMP_WORD
+		) {
+			if (data[1] !== matrixLevel(this.matrix, this.level)) return
+			const tallies = data[2]
+			if (command === SWP08Command.CROSSPOINT_TALLY_DUMP_BYTE) {
+				const firstDestination = data[3]
+				for (let i = 0; i < tallies; i++) {
+					this._setRoute(firstDestination + i, data[4 + i])
+				}
+			} else {
+				const firstDestination = data[3] * 256 + data[4]
+				for (let i = 0; i < tallies; i++) {
+					this._setRoute(firstDestination + i, data[5 + i * 2] * 256 + data[6 + i * 2])
+				}
+			}
+			if (this._onTallyDump) {
+				this._onTallyDump()
+				this._onTallyDump = null
+			}
+		}
+	}
+	private _setRoute (destination: number, source: number) {
+		if (this._routes[destination] !== source) {
+			this._routes[destination] = source
+			if (this._connected) this.emit('routeChanged', destination, source)
+		}
+	}
+}
+
+function matrixLevel (matrix: number, level: number): number {
+	return ((matrix & 0x0f) << 4) | (level & 0x0f)
+}
+/**
+ * Returns the data of a crosspoint message (interrogate, connect, tally or connected)
+ */
+export function encodeCrosspoint (command: SWP08Command, matrix: number, level: number, destination: number, source: number): number[] {
+	return [
+		command,
+		matrixLevel(matrix, level),
+		// The multiplier holds destination DIV 128 and source DIV 128:
+		((Math.floor(destination / 128) & 0x07) << 4) | (Math.floor(source / 128) & 0x07),
+		destination % 128,
+		source % 128
+	]
+}
+export function decodeCrosspoint (data: number[]): { matrix: number, level: number, destination: number, source: number } {
+	return {
+		matrix: data[1] >> 4,
+		level: data[1] & 0x0f,
+		destination: ((data[2] >> 4) & 0x07) * 128 + data[3],
+		source: (data[2] & 0x07) * 128 + data[4]
+	}
+}
+/**
+ * Frames the data of a message: DLE STX, data, byte count, checksum, DLE ETX,
+ * with any DLE in the data, byte count and checksum doubled
+ */
+export function encodeMessage (data: number[]): Buffer {
+	const btc = data.length
+	const sum = _.reduce(data, (memo, byte) => memo + byte, btc)
+	const checksum = (-sum) & 0xff
+
+	const bytes: number[] = [DLE, STX]
+	_.each(data.concat([btc, checksum]), (byte) => {
+		bytes.push(byte)
+		if (byte === DLE) bytes.push(DLE)
+	})
+	bytes.push(DLE, ETX)
+	return Buffer.from(bytes)
+}
+/**
+ * Returns the data of a received message (the bytes between DLE STX and DLE ETX), or null if it is invalid
+ */
+export function decodeMessage (framed: Buffer): number[] | null {
+	const bytes: number[] = []
+	for (let i = 0; i < framed.length; i++) {
+		bytes.push(framed[i])
+		if (framed[i] === DLE) i++ // skip the doubled DLE
+	}
+	if (bytes.length < 3) return null
+
+	const data = bytes.slice(0, -2)
+	const btc = bytes[bytes.length - 2]
+	const checksum = bytes[bytes.length - 1]
+	const sum = _.reduce(data, (memo, byte) => memo + byte, btc)
+	if (btc !== data.length || ((sum + checksum) & 0xff) !== 0) return null
+	return data
+}
+/** Returns the index of the DLE ETX ending the message starting at start, or -1 */
+function findMessageEnd (buffer: Buffer, start: number): number {
+	for (let i = start; i < buffer.length - 1; i++) {
+		if (buffer[i] === DLE) {
+			if (buffer[i + 1] === ETX) return i
+			i++ // a doubled DLE
+		}
+	}
+	return -1
+}
@@ -33,6 +33,7 @@ interface TCPSendCommand {
 	content: TcpSendCommandContent
 	context: CommandContext
 	timelineObjId: string
+	layer: string
 }
 type CommandContext = string
 
@@ -59,11 +60,20 @@ export class TCPSendDevice extends DeviceWithState<TimelineState> implements IDe
 		if (deviceOptions.options) {
 			if (deviceOptions.options.commandReceiver) this._commandReceiver = deviceOptions.options.commandReceiver
 			else this._commandReceiver = this._defaultCommandReceiver
+			this._commandReceiver = this.handleCommandReceiver(this._commandReceiver)
 		}
 		this._doOnTime = new DoOnTime(() => {
 			return this.getCurrentTime()
 		}, SendMode.IN_ORDER, this._deviceOptions)
 		this.handleDoOnTime(this._doOnTime, 'TCPSend')
+		this._doOnTime.on('commandError', (error, commandReport) => {
+			const cmd: TCPSendCommand = commandReport.args[0]
+			this.emit('commandError', error, {
+				context: cmd.context,
+				command: cmd.content,
+				timelineObjId: cmd.timelineObjId
+			}, commandReport)
+		})
 	}
 	init (initOptions: TCPSendOptions): Promise<boolean> {
 		this._makeReadyCommands = initOptions.makeReadyCommands || []
@@ -113,16 +123,24 @@ export class TCPSendDevice extends DeviceWithState<TimelineState> implements IDe
 			await this._connectTCPClient()
 
 			const time = this.getCurrentTime()
-			_.each(this._makeReadyCommands, (cmd: TcpSendCommandContent) => {
+			_.each(this._makeReadyCommands, (content: TcpSendCommandContent) => {
+				const cmd: TCPSendCommand = {
+					commandName: 'added',
+					content: content,
+					context: 'makeReady',
+					timelineObjId: '',
+					layer: ''
+				}
 				// add the new commands to the queue:
-				this._doOnTime.queue(time, cmd.queueId, (cmd: TcpSendCommandContent) => {
-					return this._commandReceiver(time, cmd, 'makeReady', '')
+				this._doOnTime.queue(time, content.queueId, (cmd: TCPSendCommand) => {
+					return this._commandReceiver(time, cmd.content, cmd.context, cmd.timelineObjId)
 				}, cmd)
 			})
 		}
 	}
 	async terminate () {
 		this._doOnTime.dispose()
+		this.disposeStates()
 		clearTimeout(this._retryConnectTimeout)
 
 		await this._disconnectTCPClient()
@@ -135,6 +153,9 @@ export class TCPSendDevice extends DeviceWithState<TimelineState> implements IDe
 	get connected (): boolean {
 		return this._connected
 	}
+	convertTimelineState (state: TimelineState) {
+		return this.convertStateToTCPSend(state)
+	}
 	convertStateToTCPSend (state: TimelineState) {
 		// convert the timeline state into something we can use
 		// (won't even use this.mapping)
@@ -218,7 +239,8 @@ export class TCPSendDevice extends DeviceWithState<TimelineState> implements IDe
 						commandName: 'added',
 						content: newLayer.content as TcpSendCommandContent,
 						context: `added: ${newLayer.id}`,
-						timelineObjId: newLayer.id
+						timelineObjId: newLayer.id,
+						layer: layerKey
 					})
 				} else {
 					// changed?
@@ -228,7 +250,8 @@ export class TCPSendDevice extends DeviceWithState<TimelineState> implements IDe
 							commandName: 'changed',
 							content: newLayer.content as TcpSendCommandContent,
 							context: `changed: ${newLayer.id}`,
-							timelineObjId: newLayer.id
+							timelineObjId: newLayer.id,
+							layer: layerKey
 						})
 					}
 				}
@@ -243,7 +266,8 @@ export class TCPSendDevice extends DeviceWithState<TimelineState> implements IDe
 					commandName: 'removed',
 					content: oldLayer.content as TcpSendCommandContent,
 					context: `removed: ${oldLayer.id}`,
-					timelineObjId: oldLayer.id
+					timelineObjId: oldLayer.id,
+					layer: layerKey
 				})
 			}
 		})
@@ -344,7 +368,7 @@ export class TCPSendDevice extends DeviceWithState<TimelineState> implements IDe
 		if (cmd.message) {
 			return this._sendTCPMessage(cmd.message)
 		} else {
-			return Promise.reject('tcpCommand.message not set')
+			return Promise.reject(new Error('tcpCommand.message not set'))
 		}
 	}
 	private _connectionChanged () {
@@ -0,0 +1,330 @@
+import * as _ from 'underscore'
+import { EventEmitter } from 'events'
+import {
+	DeviceWithState,
+	CommandWithContext,
+	DeviceStatus,
+	StatusCode,
+	IDevice
+} from './device'
+import {
+	DeviceType,
+	DeviceOptionsTemplateCG,
+	TemplateCGOptions,
+	TemplateCGProtocol,
+	MappingTemplateCG,
+	TimelineContentTypeTemplateCG,
+	TimelineObjTemplateCGAny,
+	TemplateCGState,
+	TemplateCGLayerState,
+	TemplateCGCommand,
+	TemplateCGCommandAny,
+	ResolvedTimelineObjectInstanceExtended
+} from '../types/src'
+import { DoOnTime, SendMode } from '../doOnTime'
+import {
+	TimelineState,
+	ResolvedTimelineObjectInstance
+} from 'superfly-timeline'
+import { VizEngineInterface } from './vizEngineAPI'
+
+export interface DeviceOptionsTemplateCGInternal extends DeviceOptionsTemplateCG {
+	options: (
+		DeviceOptionsTemplateCG['options'] &
+		{ commandReceiver?: CommandReceiver }
+	)
+}
+export type CommandReceiver = (time: number, cmd: TemplateCGCommandAny, context: CommandContext, timelineObjId: string) => Promise<any>
+interface Command {
+	content: TemplateCGCommandAny
+	context: CommandContext
+	timelineObjId: string
+}
+type CommandContext = string
+
+/** The connection to an engine, translating the template commands into the protocol of the engine */
+interface TemplateCGAdapter extends EventEmitter {
+	readonly connected: boolean
+	connect (host: string, port?: number): Promise<void>
+	dispose (): void
+	send (command: TemplateCGCommandAny): Promise<void>
+}
+
+/**
+ * This is a wrapper for template based CG engines, which are controlled by
+ * loading templates, setting their data, taking them in and out and continuing them
+ */
+export class TemplateCGDevice extends DeviceWithState<TemplateCGState> implements IDevice {
+
+	private _doOnTime: DoOnTime
+	private _adapter: TemplateCGAdapter
+
+	private _commandReceiver: CommandReceiver
+
+	constructor (deviceId: string, deviceOptions: DeviceOptionsTemplateCGInternal, options) {
+		super(deviceId, deviceOptions, options)
+		if (deviceOptions.options) {
+			if (deviceOptions.options.commandReceiver) this._commandReceiver = deviceOptions.options.commandReceiver
+			else this._commandReceiver = this._defaultCommandReceiver
+			this._commandReceiver = this.handleCommandReceiver(this._commandReceiver)
+		}
+
+		this._adapter = createAdapter(deviceOptions.options)
+		this._adapter.on('error', e => this.emit('error', 'TemplateCG', e))
+		this._adapter.on('connected', () => {
+			this._connectionChanged()
+		})
+		this._adapter.on('disconnected', () => {
+			this._connectionChanged()
+		})
+
+		this._doOnTime = new DoOnTime(() => {
+			return this.getCurrentTime()
+		}, SendMode.IN_ORDER, this._deviceOptions)
+		this.handleDoOnTime(this._doOnTime, 'TemplateCG')
+		this._doOnTime.on('commandError', (error, commandReport) => {
+			const cmd: Command = commandReport.args[0]
+			this.emit('commandError', error, {
+				context: cmd.context,
+				command: cmd.content,
+				timelineObjId: cmd.timelineObjId
+			}, commandReport)
+		})
+	}
+	init (initOptions: TemplateCGOptions): Promise<boolean> {
+		return this._adapter.connect(initOptions.host, initOptions.port)
+		.then(() => this.restorePersistedState())
+		.then(() => true)
+	}
+	/** Called by the Conductor a bit before a .handleState is called */
+	prepareForHandleState (newStateTime: number) {
+		// clear any queued commands later than this time:
+		this._doOnTime.clearQueueNowAndAfter(newStateTime)
+		this.cleanUpStates(0, newStateTime)
+	}
+	/**
+	 * Handles a new state such that the device will be in that state at a specific point
+	 * in time.
+	 * @param newState
+	 */
+	handleState (newState: TimelineState) {
+		// Transform timeline states into device states
+		let previousStateTime = Math.max(this.getCurrentTime(), newState.time)
+		let oldState: TemplateCGState = (this.getStateBefore(previousStateTime) || { state: { layers: {} } }).state
+
+		let newCGState = this.convertStateToTemplateCG(newState)
+
+		// Generate commands necessary to transition to the new state
+		let commandsToAchieveState: Array<Command> = this._diffStates(oldState, newCGState)
+
+		// clear any queued commands later than this time:
+		this._doOnTime.clearQueueNowAndAfter(previousStateTime)
+		// add the new commands to the queue:
+		this._addToQueue(commandsToAchieveState, newState.time)
+
+		// store the new state, for later use:
+		this.setState(newCGState, newState.time)
+	}
+	/**
+	 * Clear any scheduled commands after this time
+	 * @param clearAfterTime
+	 */
+	clearFuture (clearAfterTime: number) {
+		this._doOnTime.clearQueueAfter(clearAfterTime)
+	}
+	terminate () {
+		this._doOnTime.dispose()
+		this.disposeStates()
+		this._adapter.dispose()
+		return Promise.resolve(true)
+	}
+	getStatus (): DeviceStatus {
+		let statusCode = StatusCode.GOOD
+		let messages: Array<string> = []
+
+		if (!this._adapter.connected) {
+			statusCode = StatusCode.BAD
+			messages.push('Not connected')
+		}
+		return {
+			statusCode: statusCode,
+			messages: messages
+		}
+	}
+	makeReady (okToDestroyStuff?: boolean): Promise<void> {
+		if (okToDestroyStuff) {
+			// Clear the mapped layers, and forget the current state:
+			this._doOnTime.clearQueueNowAndAfter(this.getCurrentTime())
+			const commands: Array<Command> = _.map(this._getMappedLayers(), (layer: string) => {
+				return {
+					content: { command: TemplateCGCommand.CLEAR, layer: layer },
+					context: 'makeReady',
+					timelineObjId: ''
+				} as Command
+			})
+			this._addToQueue(commands, this.getCurrentTime())
+			this.setState({ layers: {} }, this.getCurrentTime())
+		}
+		return Promise.resolve()
+	}
+	get canConnect (): boolean {
+		return true
+	}
+	get connected (): boolean {
+		return this._adapter.connected
+	}
+	convertTimelineState (state: TimelineState) {
+		return this.convertStateToTemplateCG(state)
+	}
+	/**
+	 * Transform the timeline state into a device state
+	 * @param state
+	 */
+	convertStateToTemplateCG (state: TimelineState): TemplateCGState {
+		const deviceState: TemplateCGState = { layers: {} }
+		const mappings = this.getMapping()
+
+		// Lookahead objects are handled after the others, as they are only cued if nothing else is on the layer:
+		const layers = _.sortBy(_.keys(state.layers), layerName => (state.layers[layerName] as ResolvedTimelineObjectInstanceExtended).isLookahead ? 1 : 0)
+		_.each(layers, (layerName: string) => {
+			const tlObject = state.layers[layerName] as ResolvedTimelineObjectInstance & TimelineObjTemplateCGAny
+			let mapping = mappings[layerName] as MappingTemplateCG | undefined
+			if (!mapping && tlObject.isLookahead && tlObject.lookaheadForLayer) {
+				mapping = mappings[tlObject.lookaheadForLayer] as MappingTemplateCG | undefined
+			}
+			if (!mapping || mapping.device !== DeviceType.TEMPLATE_CG) return
+
+			const content = tlObject.content
+			if (content.type !== TimelineContentTypeTemplateCG.TEMPLATE) return
+			if (tlObject.isLookahead && deviceState.layers[mapping.layer]) return
+
+			deviceState.layers[mapping.layer] = {
+				templateName: content.templateName,
+				data: content.data,
+				onAir: !content.cue && !tlObject.isLookahead,
+				continueStep: content.continueStep || 0,
+				useStopCommand: !!content.useStopCommand,
+				tlObjId: tlObject.id
+			}
+		})
+		return deviceState
+	}
+	get deviceType () {
+		return DeviceType.TEMPLATE_CG
+	}
+	get deviceName (): string {
+		return 'Template CG ' + this.deviceId
+	}
+	get queue () {
+		return this._doOnTime.getQueue()
+	}
+	private _getMappedLayers (): string[] {
+		return _.uniq(_.compact(_.map(this.getMapping(), (mapping: MappingTemplateCG) => {
+			if (
+				mapping.device === DeviceType.TEMPLATE_CG &&
+				mapping.deviceId === this.deviceId
+			) return mapping.layer
+			return undefined
+		})))
+	}
+	/**
+	 * add the new commands to the queue:
+	 * @param commandsToAchieveState
+	 * @param time
+	 */
+	private _addToQueue (commandsToAchieveState: Array<Command>, time: number) {
+		_.each(commandsToAchieveState, (cmd: Command) => {
+			this._doOnTime.queue(time, undefined, (cmd: Command) => {
+				return this._commandReceiver(time, cmd.content, cmd.context, cmd.timelineObjId)
+			}, cmd)
+		})
+	}
+	/**
+	 * Compares the new state with the old one, and generates commands to account for the difference
+	 */
+	private _diffStates (oldState: TemplateCGState, newState: TemplateCGState): Array<Command> {
+		const commands: Array<Command> = []
+
+		_.each(newState.layers, (newLayer: TemplateCGLayerState, layer: string) => {
+			const oldLayer: TemplateCGLayerState | undefined = oldState.layers[layer]
+			const addCommand = (content: TemplateCGCommandAny, context: string) => {
+				commands.push({ content, context, timelineObjId: newLayer.tlObjId })
+			}
+			const addTakeIn = (context: string) => {
+				addCommand({ command: TemplateCGCommand.TAKE_IN, layer }, context)
+				for (let i = 0; i < newLayer.continueStep; i++) {
+					addCommand({ command: TemplateCGCommand.CONTINUE, layer }, `${context}, continued to step ${i + 1}`)
+				}
+			}
+			const addLoad = (context: string) => {
+				addCommand({ command: TemplateCGCommand.LOAD, layer, templateName: newLayer.templateName }, context)
+				if (newLayer.data) addCommand({ command: TemplateCGCommand.SET_DATA, layer, data: newLayer.data }, context)
+			}
+
+			if (!oldLayer || oldLayer.templateName !== newLayer.templateName) {
+				addLoad(`Template ${newLayer.templateName} loaded`)
+				if (newLayer.onAir) addTakeIn(`Template ${newLayer.templateName} taken in`)
+			} else if (oldLayer.onAir && !newLayer.onAir) {
+				// Back to cued:
+				if (oldLayer.useStopCommand) {
+					addCommand({ command: TemplateCGCommand.TAKE_OUT, layer }, `Template ${newLayer.templateName} taken out`)
+					if (newLayer.data && !_.isEqual(oldLayer.data, newLayer.data)) {
+						addCommand({ command: TemplateCGCommand.SET_DATA, layer, data: newLayer.data }, `Data of template ${newLayer.templateName} updated`)
+					}
+				} else {
+					addCommand({ command: TemplateCGCommand.CLEAR, layer }, `Template ${newLayer.templateName} cleared`)
+					addLoad(`Template ${newLayer.templateName} loaded`)
+				}
+			} else {
+				if (newLayer.data && !_.isEqual(oldLayer.data, newLayer.data)) {
+					addCommand({ command: TemplateCGCommand.SET_DATA, layer, data: newLayer.data }, `Data of template ${newLayer.templateName} updated`)
+				}
+				if (newLayer.onAir) {
+					if (!oldLayer.onAir || newLayer.continueStep < oldLayer.continueStep) {
+						// The template is taken in from the start:
+						addTakeIn(`Template ${newLayer.templateName} taken in`)
+					} else {
+						for (let i = oldLayer.continueStep; i < newLayer.continueStep; i++) {
+							addCommand({ command: TemplateCGCommand.CONTINUE, layer }, `Template ${newLayer.templateName} continued to step ${i + 1}`)
+						}
+					}
+				}
+			}
+		})
+		_.each(oldState.layers, (oldLayer: TemplateCGLayerState, layer: string) => {
+			if (!newState.layers[layer]) {
+				commands.push({
+					content: {
+						command: oldLayer.useStopCommand && oldLayer.onAir ? TemplateCGCommand.TAKE_OUT : TemplateCGCommand.CLEAR,
+						layer: layer
+					},
+					context: `Template ${oldLayer.templateName} ${oldLayer.useStopCommand && oldLayer.onAir ? 'taken out' : 'cleared'}`,
+					timelineObjId: oldLayer.tlObjId
+				})
+			}
+		})
+		return commands
+	}
+	private _defaultCommandReceiver (_time: number, cmd: TemplateCGCommandAny, context: CommandContext, timelineObjId: string): Promise<any> {
+
+		let cwc: CommandWithContext = {
+			context: context,
+			command: cmd,
+			timelineObjId: timelineObjId
+		}
+		this.emit('debug', cwc)
+
+		return this._adapter.send(cmd)
+	}
+	private _connectionChanged () {
+		this.emit('connectionChanged', this.getStatus())
+	}
+}
+function createAdapter (options: TemplateCGOptions): TemplateCGAdapter {
+	if (options.protocol === TemplateCGProtocol.VIZ_ENGINE) {
+		const viz = new VizEngineInterface()
+		if (options.outDirector) viz.outDirector = options.outDirector
+		return viz
+	}
+	throw new Error(`Unsupported template CG protocol "${options.protocol}"`)
+}
@@ -0,0 +1,275 @@
+import * as _ from 'underscore'
+import { EventEmitter } from 'events'
+import {
+	DeviceWithState,
+	CommandWithContext,
+	DeviceStatus,
+	StatusCode,
+	IDevice
+} from './device'
+import {
+	DeviceType,
+	DeviceOptionsVideoRouter,
+	VideoRouterOptions,
+	VideoRouterProtocol,
+	MappingVideoRouter,
+	TimelineContentTypeVideoRouter,
+	TimelineObjVideoRouterAny,
+	VideoRouterState,
+	VideoRouterCommand
+} from '../types/src'
+import { DoOnTime, SendMode } from '../doOnTime'
+import {
+	TimelineState,
+	ResolvedTimelineObjectInstance
+} from 'superfly-timeline'
+import { VideohubInterface } from './videohubAPI'
+import { SWP08Interface } from './swp08API'
+
+export interface DeviceOptionsVideoRouterInternal extends DeviceOptionsVideoRouter {
+	options: (
+		DeviceOptionsVideoRouter['options'] &
+		{ commandReceiver?: CommandReceiver }
+	)
+}
+export type CommandReceiver = (time: number, cmd: VideoRouterCommand, context: CommandContext, timelineObjId: string) => Promise<any>
+interface Command {
+	content: VideoRouterCommand
+	context: CommandContext
+	timelineObjId: string
+}
+type CommandContext = string
+
+/** The connection to a router, which keeps track of the crosspoints of the router */
+interface VideoRouterAdapter extends EventEmitter {
+	readonly connected: boolean
+	connect (host: string, port?: number): Promise<void>
+	dispose (): void
+	getRoutes (): {[destination: string]: number}
+	setRoute (destination: number, source: number): Promise<void>
+}
+
+/**
+ * This is a wrapper for video routers (crosspoint matrices).
+ * The crosspoints are read back from the router when connected, so that only
+ * the crosspoints that differ from the router are sent
+ */
+export class VideoRouterDevice extends DeviceWithState<VideoRouterState> implements IDevice {
+
+	private _doOnTime: DoOnTime
+	private _router: VideoRouterAdapter
+
+	private _commandReceiver: CommandReceiver
+
+	constructor (deviceId: string, deviceOptions: DeviceOptionsVideoRouterInternal, options) {
+		super(deviceId, deviceOptions, options)
+		if (deviceOptions.options) {
+			if (deviceOptions.options.commandReceiver) this._commandReceiver = deviceOptions.options.commandReceiver
+			else this._commandReceiver = this._defaultCommandReceiver
+			this._commandReceiver = this.handleCommandReceiver(this._commandReceiver)
+		}
+
+		this._router = createAdapter(deviceOptions.options)
+		this._router.on('error', e => this.emit('error', 'VideoRouter', e))
+		this._router.on('connected', () => {
+			// The crosspoints of the router are what we diff against from now on:
+			this.setState(this._getRouterState(), this.getCurrentTime())
+			this._connectionChanged()
+			this.emit('resetResolver')
+		})
+		this._router.on('disconnected', () => {
+			this._connectionChanged()
+		})
+
+		this._doOnTime = new DoOnTime(() => {
+			return this.getCurrentTime()
+		}, SendMode.IN_ORDER, this._deviceOptions)
+		this.handleDoOnTime(this._doOnTime, 'VideoRouter')
+		this._doOnTime.on('commandError', (error, commandReport) => {
+			const cmd: Command = commandReport.args[0]
+			this.emit('commandError', error, {
+				context: cmd.context,
+				command: cmd.content,
+				timelineObjId: cmd.timelineObjId
+			}, commandReport)
+		})
+	}
+	init (initOptions: VideoRouterOptions): Promise<boolean> {
+		return this._router.connect(initOptions.host, initOptions.port)
+		.then(() => true)
+	}
+	/** Called by the Conductor a bit before a .handleState is called */
+	prepareForHandleState (newStateTime: number) {
+		// clear any queued commands later than this time:
+		this._doOnTime.clearQueueNowAndAfter(newStateTime)
+		this.cleanUpStates(0, newStateTime)
+	}
+	/**
+	 * Handles a new state such that the device will be in that state at a specific point
+	 * in time.
+	 * @param newState
+	 */
+	handleState (newState: TimelineState) {
+		// Transform timeline states into device states
+		let previousStateTime = Math.max(this.getCurrentTime(), newState.time)
+		let oldState: VideoRouterState = (this.getStateBefore(previousStateTime) || { state: this._getRouterState() }).state
+
+		let newRouterState = this.convertStateToVideoRouter(newState, oldState)
+
+		// Generate commands necessary to transition to the new state
+		let commandsToAchieveState: Array<Command> = this._diffStates(oldState, newRouterState)
+
+		// clear any queued commands later than this time:
+		this._doOnTime.clearQueueNowAndAfter(previousStateTime)
+		// add the new commands to the queue:
+		this._addToQueue(commandsToAchieveState, newState.time)
+
+		// store the new state, for later use:
+		this.setState(newRouterState, newState.time)
+	}
+	/**
+	 * Clear any scheduled commands after this time
+	 * @param clearAfterTime
+	 */
+	clearFuture (clearAfterTime: number) {
+		this._doOnTime.clearQueueAfter(clearAfterTime)
+	}
+	terminate () {
+		this._doOnTime.dispose()
+		this.disposeStates()
+		this._router.dispose()
+		return Promise.resolve(true)
+	}
+	getStatus (): DeviceStatus {
+		let statusCode = StatusCode.GOOD
+		let messages: Array<string> = []
+
+		if (!this._router.connected) {
+			statusCode = StatusCode.BAD
+			messages.push('Not connected')
+		}
+		return {
+			statusCode: statusCode,
+			messages: messages
+		}
+	}
+	makeReady (okToDestroyStuff?: boolean): Promise<void> {
+		if (okToDestroyStuff) {
+			// Diff against the crosspoints of the router:
+			this._doOnTime.clearQueueNowAndAfter(this.getCurrentTime())
+			this.setState(this._getRouterState(), this.getCurrentTime())
+		}
+		return Promise.resolve()
+	}
+	get canConnect (): boolean {
+		return true
+	}
+	get connected (): boolean {
+		return this._router.connected
+	}
+	convertTimelineState (state: TimelineState) {
+		return this.convertStateToVideoRouter(state)
+	}
+	/**
+	 * Transform the timeline state into a device state.
+	 * Destinations without an object keep their source
+	 * @param state
+	 * @param baseState The state to keep the other destinations from
+	 */
+	convertStateToVideoRouter (state: TimelineState, baseState?: VideoRouterState): VideoRouterState {
+		const deviceState: VideoRouterState = {
+			routes: baseState ? _.clone(baseState.routes) : {}
+		}
+		const mappings = this.getMapping()
+
+		_.each(state.layers, (tlObject: ResolvedTimelineObjectInstance & TimelineObjVideoRouterAny, layerName: string) => {
+			// Lookahead is not used, as there is no preview of a crosspoint:
+			if (tlObject.isLookahead) return
+
+			const mapping = mappings[layerName] as MappingVideoRouter | undefined
+			if (!mapping || mapping.device !== DeviceType.VIDEO_ROUTER) return
+
+			if (tlObject.content.type === TimelineContentTypeVideoRouter.ROUTE) {
+				deviceState.routes[mapping.destination + ''] = {
+					source: tlObject.content.source,
+					tlObjId: tlObject.id
+				}
+			}
+		})
+		return deviceState
+	}
+	get deviceType () {
+		return DeviceType.VIDEO_ROUTER
+	}
+	get deviceName (): string {
+		return 'Video router ' + this.deviceId
+	}
+	get queue () {
+		return this._doOnTime.getQueue()
+	}
+	private _getRouterState (): VideoRouterState {
+		const routerState: VideoRouterState = { routes: {} }
+		_.each(this._router.getRoutes(), (source: number, destination: string) => {
+			routerState.routes[destination] = { source: source, tlObjId: '' }
+		})
+		return routerState
+	}
+	/**
+	 * add the new commands to the queue:
+	 * @param commandsToAchieveState
+	 * @param time
+	 */
+	private _addToQueue (commandsToAchieveState: Array<Command>, time: number) {
+		_.each(commandsToAchieveState, (cmd: Command) => {
+			this._doOnTime.queue(time, undefined, (cmd: Command) => {
+				return this._commandReceiver(time, cmd.content, cmd.context, cmd.timelineObjId)
+			}, cmd)
+		})
+	}
+	/**
+	 * Compares the new state with the old one, and generates commands for the crosspoints that changed
+	 */
+	private _diffStates (oldState: VideoRouterState, newState: VideoRouterState): Array<Command> {
+		const commands: Array<Command> = []
+
+		_.each(newState.routes, (newRoute, destination: string) => {
+			const oldRoute = oldState.routes[destination]
+			if (!oldRoute || oldRoute.source !== newRoute.source) {
+				commands.push({
+					content: {
+						destination: Number(destination),
+						source: newRoute.source
+					},
+					context: `Source ${newRoute.source} routed to destination ${destination} (was ${oldRoute ? oldRoute.source : 'unknown'})`,
+					timelineObjId: newRoute.tlObjId
+				})
+			}
+		})
+		return commands
+	}
+	private _defaultCommandReceiver (_time: number, cmd: VideoRouterCommand, context: CommandContext, timelineObjId: string): Promise<any> {
+
+		let cwc: CommandWithContext = {
+			context: context,
+			command: cmd,
+			timelineObjId: timelineObjId
+		}
+		this.emit('debug', cwc)
+
+		return this._router.setRoute(cmd.destination, cmd.source)
+	}
+	private _connectionChanged () {
+		this.emit('connectionChanged', this.getStatus())
+	}
+}
+function createAdapter (options: VideoRouterOptions): VideoRouterAdapter {
+	if (options.protocol === VideoRouterProtocol.VIDEOHUB) {
+		return new VideohubInterface()
+	} else if (options.protocol === VideoRouterProtocol.SWP08) {
+		const router = new SWP08Interface()
+		if (options.matrix !== undefined) router.matrix = options.matrix
+		if (options.level !== undefined) router.level = options.level
+		return router
+	}
+	throw new Error(`Unsupported video router protocol "${options.protocol}"`)
+}
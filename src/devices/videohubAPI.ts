@@ -0,0 +1,187 @@
+import { Socket } from 'net'
+import { EventEmitter } from 'events'
+import * as _ from 'underscore'
+
+const DEFAULT_PORT = 9990
+const TIMEOUT = 3000 // ms
+const RETRY_TIMEOUT = 5000 // ms
+
+interface PendingBlock {
+	resolve: () => void
+	reject: (error: Error) => void
+}
+
+/**
+ * A connection to a router using the Blackmagic Videohub Ethernet protocol.
+ * The protocol consists of blocks of lines, separated by an empty line.
+ * The router sends its full state when connected to, and the changes after that.
+ */
+export class VideohubInterface extends EventEmitter {
+	host: string
+	port: number
+
+	private _socket: Socket | null = null
+	private _connected: boolean = false
+	private _setDisconnected: boolean = false // set to true if dispose() has been called (then do not try to reconnect)
+	private _retryConnectTimeout: NodeJS.Timer | null = null
+	private _receiveBuffer: string = ''
+	private _pendingBlocks: PendingBlock[] = []
+	private _routes: {[destination: string]: number} = {}
+	private _onPreludeDone: (() => void) | null = null
+
+	/**
+	 * Connects to the router. Resolves when the router has sent its state
+	 * @param host ip to connect to
+	 * @param port port of the protocol, defaults to 9990
+	 */
+	connect (host: string, port?: number): Promise<void> {
+		this.host = host
+		this.port = port || DEFAULT_PORT
+		this._setDisconnected = false
+
+		return this._connectSocket()
+		.catch((e) => {
+			// Keep trying, in case the router is started later:
+			this._triggerRetryConnection()
+			throw e
+		})
+	}
+	dispose () {
+		this._setDisconnected = true
+		if (this._retryConnectTimeout) {
+			clearTimeout(this._retryConnectTimeout)
+			this._retryConnectTimeout = null
+		}
+		if (this._socket) {
+			this._socket.removeAllListeners()
+			this._socket.end()
+			this._socket = null
+		}
+		this._setConnected(false)
+	}
+	get connected (): boolean {
+		return this._connected
+	}
+	/** The source routed to each destination, as last reported by the router */
+	getRoutes (): {[destination: string]: number} {
+		return _.clone(this._routes)
+	}
+	/**
+	 * Routes a source to a destination. Resolves when the router has acknowledged it
+	 */
+	setRoute (destination: number, source: number): Promise<void> {
+		return this._sendBlock('VIDEO OUTPUT ROUTING:', [`${destination} ${source}`])
+	}
+
+	private _sendBlock (header: string, lines: string[]): Promise<void> {
+		if (!this._socket || !this._connected) return Promise.reject(new Error('Not connected to Videohub'))
+
+		return new Promise((resolve, reject) => {
+			this._pendingBlocks.push({ resolve, reject })
+			this._socket!.write(`${header}\n${lines.join('\n')}\n\n`)
+		})
+	}
+	private _connectSocket (): Promise<void> {
+		if (!this._socket) {
+			this._socket = new Socket()
+			this._socket.on('close', () => {
+				this._setConnected(false)
+			})
+			this._socket.on('end', () => {
+				this._setConnected(false)
+			})
+			this._socket.on('error', (e) => {
+				this.emit('error', e)
+			})
+			this._socket.on('data', (data: Buffer) => {
+				this._receive(data.toString())
+			})
+		}
+		return new Promise((resolve, reject) => {
+			const timeout = setTimeout(() => {
+				this._onPreludeDone = null
+				reject(new Error(`Videohub timeout: Unable to connect to ${this.host}:${this.port}`))
+			}, TIMEOUT)
+			// We're connected when the router has sent its state:
+			this._onPreludeDone = () => {
+				clearTimeout(timeout)
+				this._setConnected(true)
+				resolve()
+			}
+			this._receiveBuffer = ''
+			this._socket!.connect(this.port, this.host, () => {
+				// Nothing to send, the router sends its state by itself
+			})
+		})
+	}
+	private _setConnected (connected: boolean) {
+		if (this._connected !== connected) {
+			this._connected = connected
+
+			if (connected) {
+				this.emit('connected')
+			} else {
+				// Any unacknowledged blocks will never be acknowledged:
+				const pendingBlocks = this._pendingBlocks
+				this._pendingBlocks = []
+				_.each(pendingBlocks, pending => pending.reject(new Error('Disconnected from Videohub')))
+
+				this.emit('disconnected')
+				this._triggerRetryConnection()
+			}
+		}
+	}
+	private _triggerRetryConnection () {
+		if (!this._retryConnectTimeout && !this._setDisconnected) {
+			this._retryConnectTimeout = setTimeout(() => {
+				this._retryConnectTimeout = null
+				if (!this._connected && !this._setDisconnected) {
+					this._connectSocket()
+					.catch((e) => {
+						this.emit('error', e)
+						this._triggerRetryConnection()
+					})
+				}
+			}, RETRY_TIMEOUT)
+		}
+	}
+	private _receive (data: string) {
+		this._receiveBuffer += data.replace(/\r/g, '')
+
+		let i = this._receiveBuffer.indexOf('\n\n')
+		while (i !== -1) {
+			const lines = this._receiveBuffer.slice(0, i).split('\n')
+			this._receiveBuffer = this._receiveBuffer.slice(i + 2)
+
+			this._receiveBlock(lines[0], lines.slice(1))
+			i = this._receiveBuffer.indexOf('\n\n')
+		}
+	}
+	private _receiveBlock (header: string, lines: string[]) {
+		if (header === 'ACK' || header === 'NAK') {
+			const pending = this._pendingBlocks.shift()
+			if (pending) {
+				if (header === 'ACK') pending.resolve()
+				else pending.reject(new Error('Videohub: command was not acknowledged'))
+			}
+		} else if (header === 'VIDEO OUTPUT ROUTING:') {
+			_.each(lines, (line: string) => {
+				const m = line.match(/^(\d+) (\d+)$/)
+				if (m) {
+					const destination = m[1]
+					const source = Number(m[2])
+					if (this._routes[destination] !== source) {
+						this._routes[destination] = source
+						if (this._connected) this.emit('routeChanged', Number(destination), source)
+					}
+				}
+			})
+		} else if (header === 'END PRELUDE:') {
+			if (this._onPreludeDone) {
+				this._onPreludeDone()
+				this._onPreludeDone = null
+			}
+		}
+		// Other blocks (labels, locks etc) are not used
+	}
+}
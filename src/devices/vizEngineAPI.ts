@@ -0,0 +1,208 @@
+import { Socket } from 'net'
+import { EventEmitter } from 'events'
+import * as _ from 'underscore'
+import {
+	TemplateCGCommand,
+	TemplateCGCommandAny
+} from '../types/src/templateCG'
+
+const DEFAULT_PORT = 6100
+const DEFAULT_OUT_DIRECTOR = 'OUT'
+const TIMEOUT = 3000 // ms
+const RETRY_TIMEOUT = 5000 // ms
+
+interface PendingCommand {
+	resolve: (result: string) => void
+	reject: (error: Error) => void
+}
+
+/**
+ * A connection to the TCP command protocol of Vizrt Viz Engine.
+ * Commands are sent as "<id> <command>\0", and replied to with "<id> <result>\0"
+ */
+export class VizEngineInterface extends EventEmitter {
+	host: string
+	port: number
+	/** The director played to take a template out */
+	outDirector: string = DEFAULT_OUT_DIRECTOR
+
+	private _socket: Socket | null = null
+	private _connected: boolean = false
+	private _setDisconnected: boolean = false // set to true if dispose() has been called (then do not try to reconnect)
+	private _retryConnectTimeout: NodeJS.Timer | null = null
+	private _receiveBuffer: string = ''
+	private _commandId: number = 1
+	private _pendingCommands: {[id: string]: PendingCommand} = {}
+
+	/**
+	 * Connects to Viz Engine
+	 * @param host ip to connect to
+	 * @param port port of the command protocol, defaults to 6100
+	 */
+	connect (host: string, port?: number): Promise<void> {
+		this.host = host
+		this.port = port || DEFAULT_PORT
+		this._setDisconnected = false
+
+		return this._connectSocket()
+	}
+	dispose () {
+		this._setDisconnected = true
+		if (this._retryConnectTimeout) {
+			clearTimeout(this._retryConnectTimeout)
+			this._retryConnectTimeout = null
+		}
+		if (this._socket) {
+			this._socket.removeAllListeners()
+			this._socket.end()
+			this._socket = null
+		}
+		this._setConnected(false)
+	}
+	get connected (): boolean {
+		return this._connected
+	}
+	/**
+	 * Sends a template command to Viz Engine. Resolves when the engine has replied to all of its commands
+	 */
+	send (command: TemplateCGCommandAny): Promise<void> {
+		let vizCommands: string[]
+		try {
+			vizCommands = getVizCommands(command, this.outDirector)
+		} catch (e) {
+			return Promise.reject(e)
+		}
+		let p: Promise<any> = Promise.resolve()
+		_.each(vizCommands, (vizCommand) => {
+			p = p.then(() => this.sendCommand(vizCommand))
+		})
+		return p.then(() => undefined)
+	}
+	/**
+	 * Sends a raw command to Viz Engine. Resolves with the result the engine replied with
+	 * @param command The command, eg "RENDERER*FRONT_LAYER*STAGE START"
+	 */
+	sendCommand (command: string): Promise<string> {
+		if (!this._socket || !this._connected) return Promise.reject(new Error('Not connected to Viz Engine'))
+
+		const id = (this._commandId++) + ''
+		return new Promise((resolve, reject) => {
+			this._pendingCommands[id] = { resolve, reject }
+			this._socket!.write(`${id} ${command}\0`)
+		})
+	}
+
+	private _connectSocket (): Promise<void> {
+		if (!this._socket) {
+			this._socket = new Socket()
+			this._socket.on('connect', () => {
+				this._setConnected(true)
+			})
+			this._socket.on('close', () => {
+				this._setConnected(false)
+			})
+			this._socket.on('end', () => {
+				this._setConnected(false)
+			})
+			this._socket.on('error', (e) => {
+				this.emit('error', e)
+			})
+			this._socket.on('data', (data: Buffer) => {
+				this._receive(data.toString())
+			})
+		}
+		return new Promise((resolve, reject) => {
+			const timeout = setTimeout(() => {
+				reject(new Error(`Viz Engine timeout: Unable to connect to ${this.host}:${this.port}`))
+			}, TIMEOUT)
+			this._socket!.connect(this.port, this.host, () => {
+				clearTimeout(timeout)
+				resolve()
+			})
+		})
+	}
+	private _setConnected (connected: boolean) {
+		if (this._connected !== connected) {
+			this._connected = connected
+
+			if (connected) {
+				this.emit('connected')
+			} else {
+				// Any unanswered commands will never be answered:
+				const pendingCommands = this._pendingCommands
+				this._pendingCommands = {}
+				this._receiveBuffer = ''
+				_.each(pendingCommands, pending => pending.reject(new Error('Disconnected from Viz Engine')))
+
+				this.emit('disconnected')
+				this._triggerRetryConnection()
+			}
+		}
+	}
+	private _triggerRetryConnection () {
+		if (!this._retryConnectTimeout && !this._setDisconnected) {
+			this._retryConnectTimeout = setTimeout(() => {
+				this._retryConnectTimeout = null
+				if (!this._connected && !this._setDisconnected) {
+					this._connectSocket()
+					.catch((e) => {
+						this.emit('error', e)
+						this._triggerRetryConnection()
+					})
+				}
+			}, RETRY_TIMEOUT)
+		}
+	}
+	private _receive (data: string) {
+		this._receiveBuffer += data
+
+		let i = this._receiveBuffer.indexOf('\0')
+		while (i !== -1) {
+			const message = this._receiveBuffer.slice(0, i)
+			this._receiveBuffer = this._receiveBuffer.slice(i + 1)
+
+			const m = message.match(/^(\d+)\s?(.*)$/)
+			if (m) {
+				const pending = this._pendingCommands[m[1]]
+				if (pending) {
+					delete this._pendingCommands[m[1]]
+					if (m[2].match(/^ERROR/)) pending.reject(new Error(`Viz Engine: ${m[2]}`))
+					else pending.resolve(m[2])
+				}
+			}
+			i = this._receiveBuffer.indexOf('\0')
+		}
+	}
+}
+
+/**
+ * Returns the Viz Engine commands to send for a template command
+ */
+export function getVizCommands (command: TemplateCGCommandAny, outDirector: string = DEFAULT_OUT_DIRECTOR): string[] {
+	const renderer = `RENDERER*${command.layer}`
+	switch (command.command) {
+		case TemplateCGCommand.LOAD:
+			return [`${renderer} SET_OBJECT SCENE*${command.templateName}`]
+		case TemplateCGCommand.SET_DATA:
+			// The data is set through the control objects of the template:
+			return _.map(_.keys(command.data), (field) => {
+				const value = command.data[field]
+				const valueString = _.isObject(value) ? JSON.stringify(value) : value + ''
+				// A line break or NUL would end the command, and whitespace in the field would end the field name:
+				if (field.match(/[\s\0]/)) throw new Error(`Invalid field name "${field}" in the template data`)
+				if (valueString.match(/[\r\n\0]/)) throw new Error(`Invalid value of the field "${field}" in the template data: line breaks and NUL are not supported`)
+				return `${renderer}*TREE*$object*FUNCTION*ControlObject*in SET ON ${field} SET ${valueString}`
+			})
+		case TemplateCGCommand.TAKE_IN:
+			return [`${renderer}*STAGE START`]
+		case TemplateCGCommand.CONTINUE:
+			return [`${renderer}*STAGE CONTINUE`]
+		case TemplateCGCommand.TAKE_OUT:
+			return [`${renderer}*STAGE*DIRECTOR*${outDirector} START`]
+		case TemplateCGCommand.CLEAR:
+			return [`${renderer} SET_OBJECT`]
+		default:
+			// @ts-ignore command is of type "never"
+			throw new Error(`Unknown template command "${command.command}"`)
+	}
+}
@@ -0,0 +1,386 @@
+import * as _ from 'underscore'
+import {
+	DeviceWithState,
+	CommandWithContext,
+	DeviceStatus,
+	StatusCode,
+	IDevice
+} from './device'
+import {
+	DeviceType,
+	DeviceOptionsVMix,
+	VMixOptions,
+	MappingVMix,
+	MappingVMixType,
+	TimelineContentTypeVMix,
+	TimelineObjVMixAny,
+	VMixState,
+	VMixCommand,
+	VMixCommandAny,
+	VMixTransitionType,
+	ResolvedTimelineObjectInstanceExtended
+} from '../types/src'
+import { DoOnTime, SendMode } from '../doOnTime'
+import {
+	TimelineState,
+	ResolvedTimelineObjectInstance
+} from 'superfly-timeline'
+import { VMixInterface } from './vmixAPI'
+
+export interface DeviceOptionsVMixInternal extends DeviceOptionsVMix {
+	options: (
+		DeviceOptionsVMix['options'] &
+		{ commandReceiver?: CommandReceiver }
+	)
+}
+export type CommandReceiver = (time: number, cmd: VMixCommandAny, context: CommandContext, timelineObjId: string) => Promise<any>
+interface Command {
+	content: VMixCommandAny
+	context: CommandContext
+	timelineObjId: string
+}
+type CommandContext = string
+
+/**
+ * This is a wrapper for the vMix video mixer software, controlled over its TCP API
+ */
+export class VMixDevice extends DeviceWithState<VMixState> implements IDevice {
+
+	private _doOnTime: DoOnTime
+	private _vmix: VMixInterface
+	private _initialized: boolean = false
+	/** Whether vMix is recording and streaming, as last read from vMix */
+	private _outputStatus: { recording?: boolean, streaming?: boolean } = {}
+
+	private _commandReceiver: CommandReceiver
+
+	constructor (deviceId: string, deviceOptions: DeviceOptionsVMixInternal, options) {
+		super(deviceId, deviceOptions, options)
+		if (deviceOptions.options) {
+			if (deviceOptions.options.commandReceiver) this._commandReceiver = deviceOptions.options.commandReceiver
+			else this._commandReceiver = this._defaultCommandReceiver
+			this._commandReceiver = this.handleCommandReceiver(this._commandReceiver)
+		}
+
+		this._vmix = new VMixInterface()
+		this._vmix.on('error', e => this.emit('error', 'VMix', e))
+		this._vmix.on('connected', () => {
+			this._connectionChanged()
+			if (this._initialized) {
+				// vMix might have started or stopped its outputs while we were disconnected:
+				this._readOutputStatus()
+				.then(() => this.emit('resetResolver'))
+				.catch(e => this.emit('error', 'VMix.XML', e))
+			}
+		})
+		this._vmix.on('disconnected', () => {
+			this._connectionChanged()
+		})
+
+		this._doOnTime = new DoOnTime(() => {
+			return this.getCurrentTime()
+		}, SendMode.IN_ORDER, this._deviceOptions)
+		this.handleDoOnTime(this._doOnTime, 'VMix')
+		this._doOnTime.on('commandError', (error, commandReport) => {
+			const cmd: Command = commandReport.args[0]
+			this.emit('commandError', error, {
+				context: cmd.context,
+				command: cmd.content,
+				timelineObjId: cmd.timelineObjId
+			}, commandReport)
+		})
+	}
+	init (initOptions: VMixOptions): Promise<boolean> {
+		return this._vmix.connect(initOptions.host, initOptions.port)
+		.then(() => this.restorePersistedState())
+		.then(() => this._readOutputStatus())
+		.then(() => {
+			this._initialized = true
+			return true
+		})
+	}
+	/** Called by the Conductor a bit before a .handleState is called */
+	prepareForHandleState (newStateTime: number) {
+		// clear any queued commands later than this time:
+		this._doOnTime.clearQueueNowAndAfter(newStateTime)
+		this.cleanUpStates(0, newStateTime)
+	}
+	/**
+	 * Handles a new state such that the device will be in that state at a specific point
+	 * in time.
+	 * @param newState
+	 */
+	handleState (newState: TimelineState) {
+		// Transform timeline states into device states
+		let previousStateTime = Math.max(this.getCurrentTime(), newState.time)
+		let oldState: VMixState = (this.getStateBefore(previousStateTime) || { state: this._getDefaultState() }).state
+
+		let newVMixState = this.convertStateToVMix(newState)
+
+		// Generate commands necessary to transition to the new state
+		let commandsToAchieveState: Array<Command> = this._diffStates(oldState, newVMixState)
+
+		// clear any queued commands later than this time:
+		this._doOnTime.clearQueueNowAndAfter(previousStateTime)
+		// add the new commands to the queue:
+		this._addToQueue(commandsToAchieveState, newState.time)
+
+		// store the new state, for later use:
+		this.setState(newVMixState, newState.time)
+	}
+	/**
+	 * Clear any scheduled commands after this time
+	 * @param clearAfterTime
+	 */
+	clearFuture (clearAfterTime: number) {
+		this._doOnTime.clearQueueAfter(clearAfterTime)
+	}
+	terminate () {
+		this._doOnTime.dispose()
+		this.disposeStates()
+		this._vmix.dispose()
+		return Promise.resolve(true)
+	}
+	getStatus (): DeviceStatus {
+		let statusCode = StatusCode.GOOD
+		let messages: Array<string> = []
+
+		if (!this._vmix.connected) {
+			statusCode = StatusCode.BAD
+			messages.push('Not connected')
+		}
+		return {
+			statusCode: statusCode,
+			messages: messages
+		}
+	}
+	makeReady (okToDestroyStuff?: boolean): Promise<void> {
+		if (okToDestroyStuff) {
+			// Forget the current state, so that the full state is sent again:
+			this._doOnTime.clearQueueNowAndAfter(this.getCurrentTime())
+			return this._readOutputStatus()
+			.then(() => this.clearStates())
+		}
+		return Promise.resolve()
+	}
+	get canConnect (): boolean {
+		return true
+	}
+	get connected (): boolean {
+		return this._vmix.connected
+	}
+	convertTimelineState (state: TimelineState) {
+		return this.convertStateToVMix(state)
+	}
+	/**
+	 * Transform the timeline state into a device state
+	 * @param state
+	 */
+	convertStateToVMix (state: TimelineState): VMixState {
+		const deviceState: VMixState = getEmptyState()
+		const mappings = this.getMapping()
+
+		// The mapped overlays, recording and streaming are off unless there's an object on their layer:
+		_.each(mappings, (mapping: MappingVMix) => {
+			if (
+				mapping.device === DeviceType.VMIX &&
+				mapping.deviceId === this.deviceId
+			) {
+				if (mapping.mappingType === MappingVMixType.Overlay) {
+					deviceState.overlays[mapping.index + ''] = null
+				} else if (mapping.mappingType === MappingVMixType.Recording) {
+					deviceState.recording = false
+				} else if (mapping.mappingType === MappingVMixType.Streaming) {
+					deviceState.streaming = false
+				}
+			}
+		})
+
+		// Lookahead objects are handled after the others, as they are only used for preview if nothing else is:
+		const layers = _.sortBy(_.keys(state.layers), layerName => (state.layers[layerName] as ResolvedTimelineObjectInstanceExtended).isLookahead ? 1 : 0)
+		_.each(layers, (layerName: string) => {
+			const tlObject = state.layers[layerName] as ResolvedTimelineObjectInstance & TimelineObjVMixAny
+			let mapping = mappings[layerName] as MappingVMix | undefined
+			if (!mapping && tlObject.isLookahead && tlObject.lookaheadForLayer) {
+				mapping = mappings[tlObject.lookaheadForLayer] as MappingVMix | undefined
+			}
+			if (!mapping || mapping.device !== DeviceType.VMIX) return
+
+			const content = tlObject.content
+			if (tlObject.isLookahead) {
+				// Lookahead for the program is put in preview:
+				if (
+					mapping.mappingType === MappingVMixType.Program &&
+					content.type === TimelineContentTypeVMix.PROGRAM &&
+					!deviceState.preview
+				) {
+					deviceState.preview = { input: content.input, tlObjId: tlObject.id }
+				}
+				return
+			}
+			if (mapping.mappingType === MappingVMixType.Program && content.type === TimelineContentTypeVMix.PROGRAM) {
+				deviceState.program = {
+					input: content.input,
+					transition: content.transition,
+					tlObjId: tlObject.id
+				}
+			} else if (mapping.mappingType === MappingVMixType.Preview && content.type === TimelineContentTypeVMix.PREVIEW) {
+				deviceState.preview = { input: content.input, tlObjId: tlObject.id }
+			} else if (mapping.mappingType === MappingVMixType.Overlay && content.type === TimelineContentTypeVMix.OVERLAY) {
+				deviceState.overlays[mapping.index + ''] = { input: content.input, tlObjId: tlObject.id }
+			} else if (mapping.mappingType === MappingVMixType.AudioBus && content.type === TimelineContentTypeVMix.AUDIO_BUS) {
+				deviceState.audioBuses[(mapping.index || 'M') + ''] = {
+					volume: content.volume,
+					muted: content.muted,
+					tlObjId: tlObject.id
+				}
+			} else if (mapping.mappingType === MappingVMixType.Recording && content.type === TimelineContentTypeVMix.RECORDING) {
+				deviceState.recording = content.on
+			} else if (mapping.mappingType === MappingVMixType.Streaming && content.type === TimelineContentTypeVMix.STREAMING) {
+				deviceState.streaming = content.on
+			}
+		})
+		return deviceState
+	}
+	get deviceType () {
+		return DeviceType.VMIX
+	}
+	get deviceName (): string {
+		return 'vMix ' + this.deviceId
+	}
+	get queue () {
+		return this._doOnTime.getQueue()
+	}
+	/**
+	 * add the new commands to the queue:
+	 * @param commandsToAchieveState
+	 * @param time
+	 */
+	private _addToQueue (commandsToAchieveState: Array<Command>, time: number) {
+		_.each(commandsToAchieveState, (cmd: Command) => {
+			this._doOnTime.queue(time, undefined, (cmd: Command) => {
+				return this._commandReceiver(time, cmd.content, cmd.context, cmd.timelineObjId)
+			}, cmd)
+		})
+	}
+	/**
+	 * Compares the new state with the old one, and generates commands to account for the difference
+	 */
+	private _diffStates (oldState: VMixState, newState: VMixState): Array<Command> {
+		const commands: Array<Command> = []
+
+		// Audio:
+		_.each(newState.audioBuses, (newBus, bus: string) => {
+			const oldBus = oldState.audioBuses[bus]
+			if (newBus.volume !== undefined && (!oldBus || oldBus.volume !== newBus.volume)) {
+				commands.push({
+					content: { command: VMixCommand.SET_BUS_VOLUME, bus: bus, volume: newBus.volume },
+					context: `Volume of bus ${bus} changed`,
+					timelineObjId: newBus.tlObjId
+				})
+			}
+			if (newBus.muted !== undefined && (!oldBus || oldBus.muted !== newBus.muted)) {
+				commands.push({
+					content: { command: VMixCommand.SET_BUS_MUTED, bus: bus, muted: newBus.muted },
+					context: `Bus ${bus} ${newBus.muted ? 'muted' : 'unmuted'}`,
+					timelineObjId: newBus.tlObjId
+				})
+			}
+		})
+
+		// Overlays that are taken out are taken out before the program changes:
+		_.each(newState.overlays, (newOverlay, overlay: string) => {
+			const oldOverlay = oldState.overlays[overlay]
+			if (!newOverlay && oldOverlay !== null) {
+				commands.push({
+					content: { command: VMixCommand.OVERLAY_INPUT_OUT, overlay: Number(overlay) },
+					context: `Overlay ${overlay} out`,
+					timelineObjId: oldOverlay ? oldOverlay.tlObjId : ''
+				})
+			}
+		})
+
+		// Program:
+		if (newState.program && (!oldState.program || oldState.program.input !== newState.program.input)) {
+			commands.push({
+				content: {
+					command: VMixCommand.TRANSITION,
+					input: newState.program.input,
+					transition: newState.program.transition || { effect: VMixTransitionType.Cut }
+				},
+				context: `Program changed to input ${newState.program.input}`,
+				timelineObjId: newState.program.tlObjId
+			})
+		}
+		// Overlays:
+		_.each(newState.overlays, (newOverlay, overlay: string) => {
+			const oldOverlay = oldState.overlays[overlay]
+			if (newOverlay && (!oldOverlay || oldOverlay.input !== newOverlay.input)) {
+				commands.push({
+					content: { command: VMixCommand.OVERLAY_INPUT_IN, overlay: Number(overlay), input: newOverlay.input },
+					context: `Overlay ${overlay} in with input ${newOverlay.input}`,
+					timelineObjId: newOverlay.tlObjId
+				})
+			}
+		})
+		// Preview:
+		if (newState.preview && (!oldState.preview || oldState.preview.input !== newState.preview.input)) {
+			commands.push({
+				content: { command: VMixCommand.PREVIEW_INPUT, input: newState.preview.input },
+				context: `Preview changed to input ${newState.preview.input}`,
+				timelineObjId: newState.preview.tlObjId
+			})
+		}
+
+		// Recording & streaming, only stopped if they are known to be running:
+		if (newState.recording !== undefined && (newState.recording ? !oldState.recording : oldState.recording === true)) {
+			commands.push({
+				content: { command: newState.recording ? VMixCommand.START_RECORDING : VMixCommand.STOP_RECORDING },
+				context: `Recording ${newState.recording ? 'started' : 'stopped'}`,
+				timelineObjId: ''
+			})
+		}
+		if (newState.streaming !== undefined && (newState.streaming ? !oldState.streaming : oldState.streaming === true)) {
+			commands.push({
+				content: { command: newState.streaming ? VMixCommand.START_STREAMING : VMixCommand.STOP_STREAMING },
+				context: `Streaming ${newState.streaming ? 'started' : 'stopped'}`,
+				timelineObjId: ''
+			})
+		}
+		return commands
+	}
+	private _defaultCommandReceiver (_time: number, cmd: VMixCommandAny, context: CommandContext, timelineObjId: string): Promise<any> {
+
+		let cwc: CommandWithContext = {
+			context: context,
+			command: cmd,
+			timelineObjId: timelineObjId
+		}
+		this.emit('debug', cwc)
+
+		return this._vmix.send(cmd)
+	}
+	/**
+	 * Reads whether vMix is recording and streaming, so that the outputs are only started or stopped when needed
+	 */
+	private _readOutputStatus (): Promise<void> {
+		return this._vmix.getOutputStatus()
+		.then((status) => {
+			this._outputStatus = status
+			const current = this.getState()
+			if (current) this.setState(_.extend({}, current.state, status), current.time)
+		})
+	}
+	private _getDefaultState (): VMixState {
+		return _.extend(getEmptyState(), this._outputStatus)
+	}
+	private _connectionChanged () {
+		this.emit('connectionChanged', this.getStatus())
+	}
+}
+function getEmptyState (): VMixState {
+	return {
+		overlays: {},
+		audioBuses: {}
+	}
+}
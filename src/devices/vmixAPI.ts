@@ -0,0 +1,253 @@
+import { Socket } from 'net'
+import { EventEmitter } from 'events'
+import * as _ from 'underscore'
+import {
+	VMixCommand,
+	VMixCommandAny,
+	VMixTransitionType
+} from '../types/src/vmix'
+
+const DEFAULT_PORT = 8099
+const TIMEOUT = 3000 // ms
+const RETRY_TIMEOUT = 5000 // ms
+
+interface PendingFunction {
+	resolve: () => void
+	reject: (error: Error) => void
+}
+interface PendingXML {
+	resolve: (xml: string) => void
+	reject: (error: Error) => void
+}
+
+/**
+ * A connection to the TCP API of vMix
+ * https://www.vmix.com/help22/TCPAPI.html
+ */
+export class VMixInterface extends EventEmitter {
+	host: string
+	port: number
+
+	private _socket: Socket | null = null
+	private _connected: boolean = false
+	private _setDisconnected: boolean = false // set to true if dispose() has been called (then do not try to reconnect)
+	private _retryConnectTimeout: NodeJS.Timer | null = null
+	private _receiveBuffer: Buffer = Buffer.alloc(0)
+	private _pendingFunctions: PendingFunction[] = []
+	private _pendingXML: PendingXML[] = []
+
+	/**
+	 * Connects to vMix
+	 * @param host ip to connect to
+	 * @param port port of the TCP API, defaults to 8099
+	 */
+	connect (host: string, port?: number): Promise<void> {
+		this.host = host
+		this.port = port || DEFAULT_PORT
+		this._setDisconnected = false
+
+		return this._connectSocket()
+		.catch((e) => {
+			// Keep trying, in case vMix is started later:
+			this._triggerRetryConnection()
+			throw e
+		})
+	}
+	dispose () {
+		this._setDisconnected = true
+		if (this._retryConnectTimeout) {
+			clearTimeout(this._retryConnectTimeout)
+			this._retryConnectTimeout = null
+		}
+		if (this._socket) {
+			this._socket.removeAllListeners()
+			this._socket.end()
+			this._socket = null
+		}
+		this._setConnected(false)
+	}
+	get connected (): boolean {
+		return this._connected
+	}
+	/**
+	 * Sends a command to vMix. Resolves when vMix has confirmed the command
+	 */
+	send (command: VMixCommandAny): Promise<void> {
+		const f = getFunction(command)
+		return this.sendFunction(f.name, f.params)
+	}
+	/**
+	 * Calls a function in vMix. Resolves when vMix has confirmed the function call
+	 * @param name The name of the function, eg "Cut"
+	 * @param params The parameters of the function, eg { Input: 1 }
+	 */
+	sendFunction (name: string, params: {[key: string]: string | number} = {}): Promise<void> {
+		if (!this._socket || !this._connected) return Promise.reject(new Error('Not connected to vMix'))
+
+		const query = _.map(_.keys(params), key => `${key}=${encodeURIComponent(params[key] + '')}`).join('&')
+
+		return new Promise((resolve, reject) => {
+			this._pendingFunctions.push({ resolve, reject })
+			this._socket!.write(`FUNCTION ${name}${query ? ' ' + query : ''}\r\n`)
+		})
+	}
+	/**
+	 * Reads whether vMix is recording and streaming, from the XML state of vMix
+	 */
+	getOutputStatus (): Promise<{ recording: boolean, streaming: boolean }> {
+		if (!this._socket || !this._connected) return Promise.reject(new Error('Not connected to vMix'))
+
+		return new Promise<string>((resolve, reject) => {
+			this._pendingXML.push({ resolve, reject })
+			this._socket!.write('XML\r\n')
+		})
+		.then((xml) => ({
+			recording: isOn(xml, 'recording'),
+			streaming: isOn(xml, 'streaming')
+		}))
+	}
+
+	private _connectSocket (): Promise<void> {
+		if (!this._socket) {
+			this._socket = new Socket()
+			this._socket.on('connect', () => {
+				this._setConnected(true)
+			})
+			this._socket.on('close', () => {
+				this._setConnected(false)
+			})
+			this._socket.on('end', () => {
+				this._setConnected(false)
+			})
+			this._socket.on('error', (e) => {
+				this.emit('error', e)
+			})
+			this._socket.on('data', (data: Buffer) => {
+				this._receive(data)
+			})
+		}
+		return new Promise((resolve, reject) => {
+			const timeout = setTimeout(() => {
+				reject(new Error(`vMix timeout: Unable to connect to ${this.host}:${this.port}`))
+			}, TIMEOUT)
+			this._socket!.connect(this.port, this.host, () => {
+				clearTimeout(timeout)
+				resolve()
+			})
+		})
+	}
+	private _setConnected (connected: boolean) {
+		if (this._connected !== connected) {
+			this._connected = connected
+
+			if (connected) {
+				this.emit('connected')
+			} else {
+				// Any unconfirmed commands will never be confirmed:
+				const pending = [...this._pendingFunctions, ...this._pendingXML]
+				this._pendingFunctions = []
+				this._pendingXML = []
+				this._receiveBuffer = Buffer.alloc(0)
+				_.each(pending, p => p.reject(new Error('Disconnected from vMix')))
+
+				this.emit('disconnected')
+				this._triggerRetryConnection()
+			}
+		}
+	}
+	private _triggerRetryConnection () {
+		if (!this._retryConnectTimeout && !this._setDisconnected) {
+			this._retryConnectTimeout = setTimeout(() => {
+				this._retryConnectTimeout = null
+				if (!this._connected && !this._setDisconnected) {
+					this._connectSocket()
+					.catch((e) => {
+						this.emit('error', e)
+						this._triggerRetryConnection()
+					})
+				}
+			}, RETRY_TIMEOUT)
+		}
+	}
+	private _receive (data: Buffer) {
+		this._receiveBuffer = Buffer.concat([this._receiveBuffer, data])
+
+		let i = this._receiveBuffer.indexOf('\r\n')
+		while (i !== -1) {
+			const line = this._receiveBuffer.slice(0, i).toString()
+
+			// The XML state is sent as "XML [length in bytes]", followed by the XML:
+			const xmlMatch = line.match(/^XML (\d+)$/)
+			if (xmlMatch) {
+				const length = Number(xmlMatch[1])
+				if (this._receiveBuffer.length < i + 2 + length) break // wait for the rest of the XML
+
+				const xml = this._receiveBuffer.slice(i + 2, i + 2 + length).toString()
+				this._receiveBuffer = this._receiveBuffer.slice(i + 2 + length)
+				const pending = this._pendingXML.shift()
+				if (pending) pending.resolve(xml)
+			} else {
+				this._receiveBuffer = this._receiveBuffer.slice(i + 2)
+
+				// Responses to functions are "FUNCTION OK [message]" or "FUNCTION ER [error message]":
+				const m = line.match(/^FUNCTION (OK|ER)\s?(.*)$/)
+				if (m) {
+					const pending = this._pendingFunctions.shift()
+					if (pending) {
+						if (m[1] === 'OK') pending.resolve()
+						else pending.reject(new Error(`vMix: ${m[2]}`))
+					}
+				}
+			}
+			i = this._receiveBuffer.indexOf('\r\n')
+		}
+	}
+}
+
+/**
+ * Returns the vMix function (and its parameters) to call for a command
+ */
+export function getFunction (command: VMixCommandAny): { name: string, params: {[key: string]: string | number} } {
+	switch (command.command) {
+		case VMixCommand.TRANSITION:
+			return {
+				name: command.transition.effect,
+				params: (
+					command.transition.effect === VMixTransitionType.Cut || command.transition.duration === undefined ?
+					{ Input: command.input } :
+					{ Input: command.input, Duration: command.transition.duration }
+				)
+			}
+		case VMixCommand.PREVIEW_INPUT:
+			return { name: 'PreviewInput', params: { Input: command.input } }
+		case VMixCommand.OVERLAY_INPUT_IN:
+			return { name: `OverlayInput${command.overlay}In`, params: { Input: command.input } }
+		case VMixCommand.OVERLAY_INPUT_OUT:
+			return { name: `OverlayInput${command.overlay}Out`, params: {} }
+		case VMixCommand.SET_BUS_VOLUME:
+			return { name: `Set${getBusName(command.bus)}Volume`, params: { Value: command.volume } }
+		case VMixCommand.SET_BUS_MUTED:
+			return { name: `${getBusName(command.bus)}Audio${command.muted ? 'Off' : 'On'}`, params: {} }
+		case VMixCommand.START_RECORDING:
+			return { name: 'StartRecording', params: {} }
+		case VMixCommand.STOP_RECORDING:
+			return { name: 'StopRecording', params: {} }
+		case VMixCommand.START_STREAMING:
+			return { name: 'StartStreaming', params: {} }
+		case VMixCommand.STOP_STREAMING:
+			return { name: 'StopStreaming', params: {} }
+		default:
+			// @ts-ignore command is of type "never"
+			throw new Error(`Unknown vMix command "${command.command}"`)
+	}
+}
+/**
+ * Returns true if an output is on in the XML state of vMix, eg <recording duration="10">True</recording>
+ */
+function isOn (xml: string, output: string): boolean {
+	const m = xml.match(new RegExp(`<${output}(\\s[^>]*)?>\\s*(\\w+)\\s*</${output}>`, 'i'))
+	return !!m && m[2].toLowerCase() === 'true'
+}
+function getBusName (bus: string): string {
+	return (bus + '').toUpperCase() === 'M' ? 'Master' : `Bus${(bus + '').toUpperCase()}`
+}
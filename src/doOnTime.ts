@@ -1,6 +1,6 @@
 import { EventEmitter } from 'events'
 import * as _ from 'underscore'
-import { SlowReportOptions } from './types/src/device'
+import { SlowReportOptions, RetryPolicyOptions, CommandRetryPolicy } from './types/src/device'
 
 export type DoOrderFunction = (...args: any[]) => void | Promise<any> | any
 export type DoOrderFunctionNothing = () => void | Promise<any> | any
@@ -14,6 +14,8 @@ interface DoOrder {
 	args: any[]
 	addedTime: number
 	prepareTime: number
+	index: number
+	attempts: number
 }
 
 export enum SendMode {
@@ -22,7 +24,7 @@ export enum SendMode {
 	/** Send messages in order, wait for the previous message to be acknowledged before sending the next */
 	IN_ORDER = 2
 }
-export interface DoOnTimeOptions extends SlowReportOptions {
+export interface DoOnTimeOptions extends SlowReportOptions, RetryPolicyOptions {
 }
 export class DoOnTime extends EventEmitter {
 	getCurrentTime: () => number
@@ -40,7 +42,15 @@ export class DoOnTime extends EventEmitter {
 	private _sendingCommands: {
 		[queueId: string]: boolean
 	} = {}
+	/** The index of the latest command that has been due to be sent, per supersede key */
+	private _latestDueIndex: {
+		[supersedeKey: string]: number
+	} = {}
 	private _options: DoOnTimeOptions
+	private _disposed: boolean = false
+	/** The number of commands being executed (including their retries) */
+	private _executingCommands: number = 0
+	private _idleListeners: Array<() => void> = []
 
 	/* tslint:disable:unified-signatures */
 
@@ -48,6 +58,7 @@ export class DoOnTime extends EventEmitter {
 	on (event: 'error', listener: (err: Error) => void): this
 	on (event: 'slowCommand', listener: (commandInfo: string) => void): this
 	on (event: 'commandReport', listener: (commandReport: CommandReport) => void): this
+	on (event: 'commandError', listener: (err: Error, commandReport: CommandReport) => void): this
 	on (event: string | symbol, listener: (...args: any[]) => void): this {
 		return super.on(event, listener)
 	}
@@ -55,6 +66,7 @@ export class DoOnTime extends EventEmitter {
 	emit (event: 'error',	err: Error): boolean
 	emit (event: 'slowCommand', commandInfo: string): boolean // A report that a command was sent too late
 	emit (event: 'commandReport', commandReport: CommandReport): boolean // A report of the command sent, emitted after it has been fulfilled
+	emit (event: 'commandError', err: Error, commandReport: CommandReport): boolean // A report of a command that failed (after all attempts have been made)
 	emit (event: string, ...args: any[]): boolean {
 		return super.emit(event, ...args)
 	}
@@ -73,7 +85,8 @@ export class DoOnTime extends EventEmitter {
 	public queue (time: number, queueId: string | undefined, fcn: DoOrderFunction, ...args: any[]): string {
 		if (!(time >= 0)) throw Error(`DoOnTime: time argument must be >= 0 (${time})`)
 		if (!_.isFunction(fcn)) throw Error(`DoOnTime: fcn argument must be a function! (${typeof fcn})`)
-		let id = '_' + (this._i++)
+		const index = this._i++
+		let id = '_' + index
 
 		if (!queueId) queueId = '_' // default
 		if (!this._queues[queueId]) this._queues[queueId] = {}
@@ -82,7 +95,9 @@ export class DoOnTime extends EventEmitter {
 			fcn: fcn,
 			args: args,
 			addedTime: this.getCurrentTime(),
-			prepareTime: 0
+			prepareTime: 0,
+			index: index,
+			attempts: 0
 		}
 		this._checkQueueTimeout = setTimeout(() => {
 			this._checkQueue()
@@ -105,6 +120,35 @@ export class DoOnTime extends EventEmitter {
 
 		return fullQueue
 	}
+	/**
+	 * Returns the time of the earliest command in the queue, or null if the queue is empty
+	 */
+	public getNextTime (): number | null {
+		if (this._disposed) return null
+		let nextTime: number | null = null
+		_.each(this._queues, (queue) => {
+			_.each(queue, (q: DoOrder) => {
+				if (nextTime === null || q.time < nextTime) nextTime = q.time
+			})
+		})
+		return nextTime
+	}
+	/**
+	 * Executes the commands that are due, without waiting for the next scheduled check of the queue
+	 */
+	public checkQueue () {
+		if (this._disposed) return
+		this._checkQueue()
+	}
+	/**
+	 * Returns a promise that resolves once the commands that are due have been executed (including their retries)
+	 */
+	public waitForDueCommands (): Promise<void> {
+		if (this._disposed || this._isIdle()) return Promise.resolve()
+		return new Promise((resolve) => {
+			this._idleListeners.push(resolve)
+		})
+	}
 	public clearQueueAfter (time: number) {
 		_.each(this._queues, (queue, queueId: string) => {
 			_.each(queue, (q: DoOrder, id: string) => {
@@ -129,10 +173,23 @@ export class DoOnTime extends EventEmitter {
 	dispose (): void {
 		this.clearQueueAfter(0) // clear all
 		clearTimeout(this._checkQueueTimeout)
+		this._disposed = true
+		this._emitIdle()
 	}
 	private _remove (queueId: string, id: string) {
 		delete this._queues[queueId][id]
 	}
+	private _isIdle (): boolean {
+		return (
+			this._executingCommands === 0 &&
+			_.every(this._commandsToSendNow, commands => commands.length === 0)
+		)
+	}
+	private _emitIdle () {
+		const listeners = this._idleListeners
+		this._idleListeners = []
+		_.each(listeners, listener => listener())
+	}
 	private _checkQueue () {
 		clearTimeout(this._checkQueueTimeout)
 
@@ -146,21 +203,10 @@ export class DoOnTime extends EventEmitter {
 					o.prepareTime = this.getCurrentTime()
 					if (!this._commandsToSendNow[queueId]) this._commandsToSendNow[queueId] = []
 					this._commandsToSendNow[queueId].push(() => {
-						try {
-							let startSend = this.getCurrentTime()
-							let sentTooSlow: boolean = false
-							let p = Promise.resolve(o.fcn(...o.args))
-							.then(() => {
-								if (!sentTooSlow) this._verifyFulfillCommand(o, startSend, queueId)
-
-								this._sendCommandReport(o, startSend, queueId)
-							})
-							sentTooSlow = this._verifySendCommand(o, startSend, queueId)
-							return p
-						} catch (e) {
-							return Promise.reject(e)
-						}
+						return this._executeCommand(o, queueId)
 					})
+					const supersedeKey = getSupersedeKey(o, queueId)
+					if (supersedeKey && !(this._latestDueIndex[supersedeKey] >= o.index)) this._latestDueIndex[supersedeKey] = o.index
 					this._remove(queueId, id)
 				} else {
 					if (o.time < nextTime) nextTime = o.time
@@ -224,6 +270,83 @@ export class DoOnTime extends EventEmitter {
 			throw e
 		}
 	}
+	/**
+	 * Executes the command, retrying it according to the retry policy of the queue
+	 */
+	private _executeCommand (o: DoOrder, queueId: string): Promise<any> {
+		const policy = this._getRetryPolicy(queueId)
+		const maxAttempts = policy.maxAttempts || 1
+		let firstSend: number = 0
+		this._executingCommands++
+
+		const attempt = (): Promise<any> => {
+			o.attempts++
+			let startSend = this.getCurrentTime()
+			if (o.attempts === 1) firstSend = startSend
+			let sentTooSlow: boolean = false
+			let p: Promise<any>
+			try {
+				p = Promise.resolve(o.fcn(...o.args))
+			} catch (e) {
+				p = Promise.reject(e)
+			}
+			if (policy.commandTimeout) p = timeoutPromise(p, policy.commandTimeout)
+			p = p.then(() => {
+				if (!sentTooSlow) this._verifyFulfillCommand(o, startSend, queueId)
+
+				this._sendCommandReport(o, startSend, queueId)
+			}, (e) => {
+				if (
+					o.attempts < maxAttempts &&
+					!this._disposed &&
+					!(policy.giveUpWhenSuperseded && this._isSuperseded(o, queueId))
+				) {
+					return waitTime(this._getRetryDelay(policy, o.attempts))
+					.then(() => {
+						if (
+							this._disposed ||
+							(policy.giveUpWhenSuperseded && this._isSuperseded(o, queueId))
+						) throw e
+						return attempt()
+					})
+				}
+				throw e
+			})
+			if (o.attempts === 1) sentTooSlow = this._verifySendCommand(o, startSend, queueId)
+			return p
+		}
+		return attempt()
+		.catch((e) => {
+			this._sendCommandError(e, o, firstSend, queueId)
+		})
+		.then(() => {
+			this._commandExecuted()
+		}, (e) => {
+			this._commandExecuted()
+			throw e
+		})
+	}
+	private _commandExecuted () {
+		this._executingCommands--
+		if (this._isIdle()) this._emitIdle()
+	}
+	private _getRetryPolicy (queueId: string): CommandRetryPolicy {
+		return (
+			(this._options.queueRetryPolicies && this._options.queueRetryPolicies[queueId]) ||
+			this._options.retryPolicy ||
+			{}
+		)
+	}
+	private _getRetryDelay (policy: CommandRetryPolicy, attempts: number): number {
+		let delay = (policy.retryDelay || 0) * Math.pow(policy.backoffFactor || 1, attempts - 1)
+		if (policy.maxRetryDelay !== undefined) delay = Math.min(delay, policy.maxRetryDelay)
+		return delay
+	}
+	/** Returns true if a newer command, targeting the same thing, has been due to be sent */
+	private _isSuperseded (o: DoOrder, queueId: string): boolean {
+		const supersedeKey = getSupersedeKey(o, queueId)
+		return !!supersedeKey && this._latestDueIndex[supersedeKey] > o.index
+	}
 	private representArguments (o: DoOrder) {
 		if (o.args && o.args[0] && o.args[0].serialize && _.isFunction(o.args[0].serialize)) {
 			return o.args[0].serialize()
@@ -282,12 +405,30 @@ export class DoOnTime extends EventEmitter {
 				send: send,
 				queueId: queueId,
 				fullfilled: fullfilled,
-				args: this.representArguments(o)
+				args: this.representArguments(o),
+				attempts: o.attempts
 			}
 			this.emit('commandReport', output)
 		}
 
 	}
+	private _sendCommandError (e: any, o: DoOrder, send: number, queueId: string) {
+		if (this.listenerCount('commandError') > 0) {
+			const output: CommandReport = {
+				added: o.addedTime,
+				prepareTime: o.prepareTime,
+				plannedSend: o.time,
+				send: send,
+				queueId: queueId,
+				fullfilled: this.getCurrentTime(),
+				args: this.representArguments(o),
+				attempts: o.attempts
+			}
+			this.emit('commandError', (e instanceof Error ? e : new Error(e)), output)
+		} else {
+			this.emit('error', e)
+		}
+	}
 }
 
 export interface CommandReport {
@@ -305,4 +446,35 @@ export interface CommandReport {
 	fullfilled: number
 	/** Arguments of command */
 	args: any
+	/** Number of attempts made to execute the command */
+	attempts?: number
+}
+/**
+ * Returns what the command targets: The layer of the command (if the command has a layer),
+ * within the queue. Commands without a layer target the queue, unless it is the default queue
+ */
+function getSupersedeKey (o: DoOrder, queueId: string): string | undefined {
+	const layer = o.args[0] && o.args[0].layer
+	if (layer && _.isString(layer)) return queueId + '/' + layer
+	if (queueId !== '_') return queueId
+	return undefined
+}
+function waitTime (time: number): Promise<void> {
+	return new Promise((resolve) => {
+		setTimeout(resolve, time)
+	})
+}
+function timeoutPromise<T> (p: Promise<T>, time: number): Promise<T> {
+	return new Promise((resolve, reject) => {
+		const timeout = setTimeout(() => {
+			reject(new Error(`Command timed out after ${time} ms`))
+		}, time)
+		p.then((result) => {
+			clearTimeout(timeout)
+			resolve(result)
+		}, (e) => {
+			clearTimeout(timeout)
+			reject(e)
+		})
+	})
 }
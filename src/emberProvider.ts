@@ -0,0 +1,209 @@
+import * as _ from 'underscore'
+import { TreeServer, Ember } from 'emberplus'
+import { TimelineState, ResolvedTimelineObjectInstance } from 'superfly-timeline'
+import { DeviceContainer } from './devices/deviceContainer'
+import { DeviceStatus } from './devices/device'
+import { DeviceType, Mappings, TSRTimelineObjBase } from './types/src'
+
+export interface EmberProviderOptions {
+	/** The port to listen on, Ember+ providers usually use 9000 */
+	port: number
+	/** The address to listen on, defaults to all addresses */
+	host?: string
+}
+/** What to do when a consumer sets the control parameters */
+export interface EmberProviderHandlers {
+	makeReady: (okToDestroyStuff: boolean) => Promise<void>
+	standDown: (okToDestroyStuff: boolean) => Promise<void>
+}
+
+/** Paths of the fixed parts of the tree */
+const PATH_DEVICES = '0.0'
+const PATH_LAYERS = '0.1'
+const PATH_OK_TO_DESTROY_STUFF = '0.2.0'
+const PATH_MAKE_READY = '0.2.1'
+const PATH_STAND_DOWN = '0.2.2'
+
+interface DeviceInfo {
+	deviceType: DeviceType
+	status: DeviceStatus
+}
+
+/**
+ * An Ember+ provider, publishing the state of the Conductor as an Ember+ tree:
+ *
+ * tsr
+ *   devices
+ *     <deviceId>: deviceType, statusCode, messages
+ *   layers
+ *     <layerId>: deviceId, onAir (the id of the object on the layer, if any)
+ *   control
+ *     okToDestroyStuff, makeReady, standDown (set makeReady or standDown to true to trigger them)
+ */
+export class EmberProvider {
+	private _server: TreeServer | null = null
+	private _port: number | undefined
+	private _handlers: EmberProviderHandlers
+
+	private _devices: {[deviceId: string]: DeviceInfo} = {}
+	private _mappings: Mappings = {}
+	private _onAir: {[layerId: string]: string} = {}
+	private _okToDestroyStuff: boolean = false
+	/**
+	 * The numbers of the device and layer nodes. New nodes are appended and numbers are never reused,
+	 * so that the paths the consumers have subscribed to keep pointing at the same device or layer
+	 */
+	private _deviceNumbers: {[deviceId: string]: number} = {}
+	private _layerNumbers: {[layerId: string]: number} = {}
+
+	constructor (handlers: EmberProviderHandlers) {
+		this._handlers = handlers
+	}
+	/**
+	 * Starts the provider. Resolves when it is listening
+	 */
+	public listen (options: EmberProviderOptions): Promise<void> {
+		this._server = new TreeServer(options.host || '0.0.0.0', options.port, this._buildTree())
+		this._server.on('value-change', (element: Ember.Parameter) => this._onValueChange(element))
+		this._port = options.port
+		return this._server.listen()
+	}
+	/** The port the provider is listening on */
+	public get port (): number | undefined {
+		return this._port
+	}
+	public close (): Promise<void> {
+		const server = this._server
+		this._server = null
+		this._port = undefined
+		if (!server) return Promise.resolve()
+		return server.close()
+	}
+	/**
+	 * Starts publishing the status of a device
+	 */
+	public async addDevice (device: DeviceContainer): Promise<void> {
+		const deviceId = device.deviceId
+		await device.device.on('connectionChanged', (status: DeviceStatus) => {
+			if (!this._devices[deviceId]) return
+			this._devices[deviceId].status = status
+			this._setValue(`${PATH_DEVICES}.${this._deviceNumbers[deviceId]}.1`, status.statusCode)
+			this._setValue(`${PATH_DEVICES}.${this._deviceNumbers[deviceId]}.2`, (status.messages || []).join('\n'))
+		})
+		this._devices[deviceId] = {
+			deviceType: device.deviceType,
+			status: await device.device.getStatus()
+		}
+		addNumber(this._deviceNumbers, deviceId)
+		this._updateNode(PATH_DEVICES)
+	}
+	public removeDevice (deviceId: string): void {
+		delete this._devices[deviceId]
+		this._updateNode(PATH_DEVICES)
+	}
+	public setMappings (mappings: Mappings): void {
+		this._mappings = mappings
+		_.each(_.keys(mappings).sort(), (layerId: string) => addNumber(this._layerNumbers, layerId))
+		this._updateNode(PATH_LAYERS)
+	}
+	/**
+	 * Updates the objects on air, from a resolved state
+	 */
+	public setState (state: TimelineState): void {
+		const onAir: {[layerId: string]: string} = {}
+		_.each(state.layers, (tlObject: ResolvedTimelineObjectInstance & TSRTimelineObjBase, layerId: string) => {
+			if (!tlObject.isLookahead) onAir[layerId] = tlObject.id
+		})
+		_.each(this._layerNumbers, (layerNumber: number, layerId: string) => {
+			if (this._mappings[layerId] && (this._onAir[layerId] || '') !== (onAir[layerId] || '')) {
+				this._setValue(`${PATH_LAYERS}.${layerNumber}.1`, onAir[layerId] || '')
+			}
+		})
+		this._onAir = onAir
+	}
+	/**
+	 * Replaces the devices or layers node of the tree, for when devices or layers have been added or removed.
+	 * The new node is sent to the consumers that have subscribed to it
+	 */
+	private _updateNode (path: string) {
+		if (!this._server) return
+		const node = this._buildTree().getElementByPath(path)
+		this._server.replaceElement(node)
+	}
+	private _buildTree (): Ember.Root {
+		const deviceIds = _.sortBy(_.keys(this._devices), deviceId => this._deviceNumbers[deviceId])
+		const layerIds = _.sortBy(_.keys(this._mappings), layerId => this._layerNumbers[layerId])
+
+		return TreeServer.JSONtoTree([{
+			identifier: 'tsr',
+			description: 'Timeline State Resolver',
+			children: [
+				{
+					identifier: 'devices',
+					children: _.map(deviceIds, (deviceId: string) => {
+						const device = this._devices[deviceId]
+						return {
+							number: this._deviceNumbers[deviceId],
+							identifier: deviceId,
+							children: [
+								{ identifier: 'deviceType', type: 'string', access: 'read', value: DeviceType[device.deviceType] || device.deviceType + '' },
+								{ identifier: 'statusCode', type: 'integer', access: 'read', value: device.status.statusCode },
+								{ identifier: 'messages', type: 'string', access: 'read', value: (device.status.messages || []).join('\n') }
+							]
+						}
+					})
+				},
+				{
+					identifier: 'layers',
+					children: _.map(layerIds, (layerId: string) => {
+						return {
+							number: this._layerNumbers[layerId],
+							identifier: layerId,
+							children: [
+								{ identifier: 'deviceId', type: 'string', access: 'read', value: this._mappings[layerId].deviceId },
+								{ identifier: 'onAir', type: 'string', access: 'read', value: this._onAir[layerId] || '' }
+							]
+						}
+					})
+				},
+				{
+					identifier: 'control',
+					children: [
+						{ identifier: 'okToDestroyStuff', type: 'boolean', access: 'readWrite', value: this._okToDestroyStuff },
+						{ identifier: 'makeReady', type: 'boolean', access: 'readWrite', value: false },
+						{ identifier: 'standDown', type: 'boolean', access: 'readWrite', value: false }
+					]
+				}
+			]
+		}])
+	}
+	private _setValue (path: string, value: string | number | boolean) {
+		if (!this._server) return
+		const element = this._server.tree.getElementByPath(path)
+		if (element && element.contents.value !== value) {
+			this._server.setValue(element, value)
+			.catch(() => {
+				// The value is set in the tree anyway, only the updating of the consumers failed
+			})
+		}
+	}
+	private _onValueChange (element: Ember.Parameter) {
+		const path = element.getPath()
+		const value = element.contents.value
+
+		if (path === PATH_OK_TO_DESTROY_STUFF) {
+			this._okToDestroyStuff = !!value
+		} else if ((path === PATH_MAKE_READY || path === PATH_STAND_DOWN) && value) {
+			const trigger = path === PATH_MAKE_READY ? this._handlers.makeReady : this._handlers.standDown
+			// Ready to be triggered again when done (the handlers report their own errors):
+			const reset = () => this._setValue(path, false)
+			trigger(this._okToDestroyStuff).then(reset, reset)
+		}
+	}
+}
+/** Gives the id the next number, unless it already has one */
+function addNumber (numbers: {[id: string]: number}, id: string) {
+	if (!_.has(numbers, id)) {
+		numbers[id] = _.reduce(_.values(numbers), (next: number, n: number) => Math.max(next, n + 1), 0)
+	}
+}
@@ -1,6 +1,13 @@
 
 export * from './conductor'
 export * from './doOnTime'
+export * from './commandRecorder'
+export * from './renderTimeline'
+export * from './stateStore'
+export * from './metrics'
+export * from './commandLog'
+export * from './stateBroadcaster'
+export * from './emberProvider'
 export { CasparCGDevice } from './devices/casparCG'
 export { HyperdeckDevice } from './devices/hyperdeck'
 export { QuantelDevice } from './devices/quantel'
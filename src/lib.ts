@@ -1,4 +1,11 @@
 import * as _ from 'underscore'
+import { TimelineState, ResolvedTimelineObjectInstance } from 'superfly-timeline'
+import {
+	Mappings,
+	Mapping,
+	DeviceType,
+	ResolvedTimelineObjectInstanceExtended
+} from './types/src'
 
 /**
  * getDiff is the reverse of underscore:s _.isEqual(): It compares two values and if they differ it returns an explanation of the difference
@@ -10,6 +17,33 @@ export function getDiff (a: any, b: any): string | null {
 	return diff(a, b)
 }
 
+/**
+ * Returns the layers of the state that are mapped to a certain device
+ * @param layers The layers of a timeline state
+ * @param mappings The mappings to use
+ * @param deviceId The id of the device
+ * @param deviceType The type of the device
+ */
+export function getFilteredLayers (layers: TimelineState['layers'], mappings: Mappings, deviceId: string, deviceType: DeviceType): TimelineState['layers'] {
+	let filteredState = {}
+	_.each(layers, (o: ResolvedTimelineObjectInstance, layerId: string) => {
+		const oExt: ResolvedTimelineObjectInstanceExtended = o
+		let mapping: Mapping = mappings[o.layer + '']
+		if (!mapping && oExt.isLookahead && oExt.lookaheadForLayer) {
+			mapping = mappings[oExt.lookaheadForLayer]
+		}
+		if (mapping) {
+			if (
+				mapping.deviceId === deviceId &&
+				mapping.device === deviceType
+			) {
+				filteredState[layerId] = o
+			}
+		}
+	})
+	return filteredState
+}
+
 /*
 Note: the diff functions are based upon the underscore _.isEqual functions in
 https://github.com/jashkenas/underscore/blob/master/underscore.js
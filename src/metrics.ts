@@ -0,0 +1,253 @@
+import * as http from 'http'
+import * as _ from 'underscore'
+import { DeviceContainer } from './devices/deviceContainer'
+import { DeviceStatus, StatusCode } from './devices/device'
+import { CommandReport } from './doOnTime'
+
+export interface MetricLabels {
+	[labelName: string]: string
+}
+interface MetricSeries<T> {
+	labels: MetricLabels
+	value: T
+}
+
+/** Default histogram buckets, in seconds */
+export const DEFAULT_DURATION_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+abstract class Metric<T> {
+	public abstract readonly type: string
+	protected _series: {[key: string]: MetricSeries<T>} = {}
+
+	constructor (
+		public readonly name: string,
+		public readonly help: string
+	) {}
+
+	/** Removes the series with the given labels */
+	public remove (labels: MetricLabels = {}): void {
+		delete this._series[getLabelsKey(labels)]
+	}
+	/** Returns the metric in the Prometheus text format */
+	public getPrometheusText (): string {
+		let lines: string[] = [
+			`# HELP ${this.name} ${this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+			`# TYPE ${this.name} ${this.type}`
+		]
+		_.each(_.keys(this._series).sort(), (key) => {
+			lines = lines.concat(this._getSampleLines(this._series[key]))
+		})
+		return lines.join('\n')
+	}
+	protected _getSeries (labels: MetricLabels, defaultValue: () => T): MetricSeries<T> {
+		const key = getLabelsKey(labels)
+		if (!this._series[key]) {
+			this._series[key] = {
+				labels: _.clone(labels),
+				value: defaultValue()
+			}
+		}
+		return this._series[key]
+	}
+	protected abstract _getSampleLines (series: MetricSeries<T>): string[]
+}
+/**
+ * A value that only goes up, such as the number of errors
+ */
+export class Counter extends Metric<number> {
+	public readonly type = 'counter'
+
+	public inc (labels: MetricLabels = {}, value: number = 1): void {
+		this._getSeries(labels, () => 0).value += value
+	}
+	public get (labels: MetricLabels = {}): number {
+		const series = this._series[getLabelsKey(labels)]
+		return series ? series.value : 0
+	}
+	protected _getSampleLines (series: MetricSeries<number>): string[] {
+		return [`${this.name}${formatLabels(series.labels)} ${formatValue(series.value)}`]
+	}
+}
+/**
+ * A value that can go up and down, such as the status of a device
+ */
+export class Gauge extends Metric<number> {
+	public readonly type = 'gauge'
+
+	public set (labels: MetricLabels, value: number): void {
+		this._getSeries(labels, () => 0).value = value
+	}
+	public get (labels: MetricLabels = {}): number | undefined {
+		const series = this._series[getLabelsKey(labels)]
+		return series ? series.value : undefined
+	}
+	protected _getSampleLines (series: MetricSeries<number>): string[] {
+		return [`${this.name}${formatLabels(series.labels)} ${formatValue(series.value)}`]
+	}
+}
+interface HistogramValue {
+	bucketCounts: number[]
+	sum: number
+	count: number
+}
+/**
+ * Samples observations (such as durations) and counts them in configurable buckets
+ */
+export class Histogram extends Metric<HistogramValue> {
+	public readonly type = 'histogram'
+	private _buckets: number[]
+
+	constructor (name: string, help: string, buckets: number[] = DEFAULT_DURATION_BUCKETS) {
+		super(name, help)
+		this._buckets = buckets.slice().sort((a, b) => a - b)
+	}
+	public observe (labels: MetricLabels, value: number): void {
+		const series = this._getSeries(labels, () => ({
+			bucketCounts: _.map(this._buckets, () => 0),
+			sum: 0,
+			count: 0
+		}))
+		_.each(this._buckets, (bucket, i) => {
+			if (value <= bucket) series.value.bucketCounts[i]++
+		})
+		series.value.sum += value
+		series.value.count++
+	}
+	public getCount (labels: MetricLabels = {}): number {
+		const series = this._series[getLabelsKey(labels)]
+		return series ? series.value.count : 0
+	}
+	protected _getSampleLines (series: MetricSeries<HistogramValue>): string[] {
+		const lines: string[] = []
+		_.each(this._buckets, (bucket, i) => {
+			lines.push(`${this.name}_bucket${formatLabels(series.labels, { le: formatValue(bucket) })} ${series.value.bucketCounts[i]}`)
+		})
+		lines.push(`${this.name}_bucket${formatLabels(series.labels, { le: '+Inf' })} ${series.value.count}`)
+		lines.push(`${this.name}_sum${formatLabels(series.labels)} ${formatValue(series.value.sum)}`)
+		lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.value.count}`)
+		return lines
+	}
+}
+/**
+ * A collection of metrics, that can be exported in the Prometheus text format
+ */
+export class MetricsRegistry {
+	private _metrics: Metric<any>[] = []
+
+	public counter (name: string, help: string): Counter {
+		return this._add(new Counter(name, help))
+	}
+	public gauge (name: string, help: string): Gauge {
+		return this._add(new Gauge(name, help))
+	}
+	public histogram (name: string, help: string, buckets?: number[]): Histogram {
+		return this._add(new Histogram(name, help, buckets))
+	}
+	/** Returns all metrics in the Prometheus text format */
+	public getPrometheusText (): string {
+		return _.map(this._metrics, metric => metric.getPrometheusText()).join('\n') + '\n'
+	}
+	private _add<T extends Metric<any>> (metric: T): T {
+		if (_.find(this._metrics, m => m.name === metric.name)) throw new Error(`Metric "${metric.name}" already exists`)
+		this._metrics.push(metric)
+		return metric
+	}
+}
+
+/**
+ * The metrics collected by the Conductor (when the metrics option is set)
+ */
+export class ConductorMetrics {
+	public readonly registry = new MetricsRegistry()
+
+	private _resolveDuration = this.registry.histogram('tsr_resolve_duration_seconds', 'Time taken to resolve the timeline')
+	private _stateHandleDuration = this.registry.histogram('tsr_state_handle_duration_seconds', 'Time taken for the devices to handle a new state')
+	private _commandSendDelay = this.registry.histogram('tsr_command_send_delay_seconds', 'Delay between the planned and the actual time of sending a command')
+	private _commandFulfillDelay = this.registry.histogram('tsr_command_fulfill_delay_seconds', 'Delay between the planned time of a command and the command being fulfilled')
+	private _slowCommands = this.registry.counter('tsr_slow_commands_total', 'Number of commands that were sent or fulfilled too late')
+	private _commandErrors = this.registry.counter('tsr_command_errors_total', 'Number of commands that failed')
+	private _deviceErrors = this.registry.counter('tsr_device_errors_total', 'Number of errors reported by the devices')
+	private _statusChanges = this.registry.counter('tsr_device_status_changes_total', 'Number of times the status of the devices has changed')
+	private _deviceStatus = this.registry.gauge('tsr_device_status', 'The current status code of the devices (see StatusCode)')
+
+	/**
+	 * Records the durations of a resolve (times are in ms)
+	 */
+	public observeResolve (timelineStartResolve: number, timelineResolved: number, stateHandled: number): void {
+		this._resolveDuration.observe({}, (timelineResolved - timelineStartResolve) / 1000)
+		this._stateHandleDuration.observe({}, (stateHandled - timelineResolved) / 1000)
+	}
+	/**
+	 * Starts collecting metrics from a device
+	 */
+	public async addDevice (device: DeviceContainer): Promise<void> {
+		const labels: MetricLabels = { device: device.deviceId }
+
+		await device.device.on('commandReport', (commandReport: CommandReport) => {
+			this._commandSendDelay.observe(labels, (commandReport.send - commandReport.plannedSend) / 1000)
+			this._commandFulfillDelay.observe(labels, (commandReport.fullfilled - commandReport.plannedSend) / 1000)
+		})
+		await device.device.on('slowCommand', () => this._slowCommands.inc(labels))
+		await device.device.on('commandError', () => this._commandErrors.inc(labels))
+		await device.device.on('error', () => this._deviceErrors.inc(labels))
+		await device.device.on('connectionChanged', (status: DeviceStatus) => {
+			if (this._deviceStatus.get(labels) !== status.statusCode) {
+				this._statusChanges.inc(_.extend({}, labels, { status: StatusCode[status.statusCode] || status.statusCode + '' }))
+				this._deviceStatus.set(labels, status.statusCode)
+			}
+		})
+		const status = await device.device.getStatus()
+		this._deviceStatus.set(labels, status.statusCode)
+	}
+	/**
+	 * Stops reporting the status of a removed device
+	 */
+	public removeDevice (deviceId: string): void {
+		this._deviceStatus.remove({ device: deviceId })
+	}
+	public getPrometheusText (): string {
+		return this.registry.getPrometheusText()
+	}
+}
+
+/**
+ * Creates a HTTP server that serves the metrics in the Prometheus text format on /metrics
+ * Usage: createMetricsServer(() => conductor.getMetrics()).listen(9100)
+ */
+export function createMetricsServer (getMetrics: () => string): http.Server {
+	return http.createServer((req, res) => {
+		if ((req.url || '').split('?')[0] !== '/metrics') {
+			res.writeHead(404, { 'Content-Type': 'text/plain' })
+			res.end('Not found')
+			return
+		}
+		let text: string
+		try {
+			text = getMetrics()
+		} catch (e) {
+			res.writeHead(500, { 'Content-Type': 'text/plain' })
+			res.end(e + '')
+			return
+		}
+		res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' })
+		res.end(text)
+	})
+}
+
+function getLabelsKey (labels: MetricLabels): string {
+	return JSON.stringify(_.map(_.keys(labels).sort(), key => [key, labels[key]]))
+}
+function formatLabels (labels: MetricLabels, extraLabels?: MetricLabels): string {
+	const allLabels = _.extend({}, labels, extraLabels)
+	const keys = _.keys(allLabels)
+	if (!keys.length) return ''
+	return '{' + _.map(keys, key => {
+		const value = (allLabels[key] + '').replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+		return `${key}="${value}"`
+	}).join(',') + '}'
+}
+function formatValue (value: number): string {
+	if (value === Infinity) return '+Inf'
+	if (value === -Infinity) return '-Inf'
+	return value + ''
+}
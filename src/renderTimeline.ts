@@ -0,0 +1,165 @@
+import * as _ from 'underscore'
+import { TimelineState, ResolvedStates } from 'superfly-timeline'
+import {
+	Mappings,
+	DeviceType,
+	TSRTimeline
+} from './types/src'
+import { AsyncResolver } from './AsyncResolver'
+import { DeviceOptionsAnyInternal } from './conductor'
+import { Device, DeviceClassOptions } from './devices/device'
+import { CommandRecorder, RecordedCommand } from './commandRecorder'
+import { getFilteredLayers } from './lib'
+import { getDeviceClass } from './devices/deviceClasses'
+
+export interface RenderTimelineOptions {
+	/**
+	 * If true, the devices are initialized (ie connected to) before rendering, so that the devices that depend on
+	 * the state of the physical device to generate commands (like CasparCG and ATEM) start out from the actual state.
+	 * Otherwise they are initialized offline, starting out from a state based on the mappings
+	 * (Quantel can't be initialized offline, since it depends on its gateway, and won't generate any commands).
+	 * Note that the commands are never sent to the devices, regardless of this setting.
+	 */
+	initializeDevices?: boolean
+}
+export interface RenderedTimeline {
+	/** The commands the devices would have sent, ordered by time */
+	commands: RecordedCommand[]
+	/** Any errors emitted by the devices during the rendering */
+	errors: string[]
+}
+
+/**
+ * Renders a timeline into the list of commands that the devices would send, without
+ * sending anything to the devices and without waiting for the time to pass.
+ * Note that only the commands sent through the commandReceiver are rendered, not the steps of
+ * animations that the devices (like OSC and Lawo) send on their own.
+ * @param timeline The timeline to render
+ * @param mappings The mappings of the layers
+ * @param devices The options of the devices (the same as would be passed into Conductor.addDevice())
+ * @param startTime The time to start the rendering at
+ * @param endTime The time to end the rendering at
+ */
+export async function renderTimeline (
+	timeline: TSRTimeline,
+	mappings: Mappings,
+	devices: {[deviceId: string]: DeviceOptionsAnyInternal},
+	startTime: number,
+	endTime: number,
+	renderOptions: RenderTimelineOptions = {}
+): Promise<RenderedTimeline> {
+	if (!(endTime >= startTime)) throw new Error(`renderTimeline: endTime must be >= startTime (${startTime}, ${endTime})`)
+
+	let currentTime = startTime
+	const recorder = new CommandRecorder()
+	const errors: string[] = []
+
+	// Resolve a copy of the timeline, since the resolver modifies the "now"-objects:
+	const resolver = new AsyncResolver()
+	const { resolvedStates } = await resolver.resolveTimeline(
+		startTime,
+		JSON.parse(JSON.stringify(timeline)),
+		endTime
+	)
+	const stateTimes = getStateTimes(resolvedStates, startTime, endTime)
+
+	const deviceInstances: Device[] = []
+	try {
+		_.each(devices, (deviceOptions: DeviceOptionsAnyInternal, deviceId: string) => {
+			// Replace the commandReceiver of the device, so that the commands are recorded instead of sent:
+			const options = _.extend({}, deviceOptions, {
+				options: _.extend({}, deviceOptions.options, {
+					commandReceiver: recorder.getCommandReceiver(deviceId)
+				})
+			})
+			const device = createDevice(deviceId, options, {
+				getCurrentTime: () => currentTime,
+				useDirectTime: true
+			})
+			device.on('error', (context, err) => errors.push(`${deviceId}: ${context} ${err}`))
+			device.on('commandError', (err, cwc) => errors.push(`${deviceId}: ${err} (${cwc.context})`))
+			device.setMapping(mappings)
+			deviceInstances.push(device)
+		})
+		await Promise.all(_.map(deviceInstances, (device) => {
+			const initOptions = devices[device.deviceId].options
+			return renderOptions.initializeDevices ? device.init(initOptions) : device.initOffline(initOptions)
+		}))
+
+		for (let i = 0; i < stateTimes.length; i++) {
+			const time = stateTimes[i]
+			const nextTime = (i + 1 < stateTimes.length ? stateTimes[i + 1] - 1 : endTime)
+			const tlState = await resolver.getState(resolvedStates, time)
+
+			currentTime = time
+			for (const device of deviceInstances) {
+				const subState: TimelineState = {
+					time: tlState.time,
+					layers: getFilteredLayers(tlState.layers, mappings, device.deviceId, device.deviceType),
+					nextEvents: []
+				}
+				device.prepareForHandleState(time)
+				device.handleState(subState)
+			}
+			// Let the clock pass each of the commands queued up until the next state, as executing
+			// a command could cause more commands to be queued (such as the next clip of a playlist):
+			let queuedTime = getNextQueuedTime(deviceInstances)
+			while (queuedTime !== null && queuedTime <= nextTime) {
+				currentTime = Math.max(currentTime, queuedTime)
+				await executeDueCommands(deviceInstances)
+				queuedTime = getNextQueuedTime(deviceInstances)
+			}
+			currentTime = Math.max(time, nextTime)
+			await executeDueCommands(deviceInstances)
+		}
+	} finally {
+		await Promise.all(_.map(deviceInstances, async (device) => {
+			try {
+				await device.terminate()
+			} catch (e) {
+				// Devices that have been initialized offline might fail to terminate, which is fine since they haven't been connected
+				if (renderOptions.initializeDevices) errors.push(`${device.deviceId}: terminate ${e}`)
+			}
+		}))
+	}
+
+	return {
+		commands: recorder.getCommands(),
+		errors: errors
+	}
+}
+/**
+ * Returns the points in time where the state changes
+ */
+function getStateTimes (resolvedStates: ResolvedStates, startTime: number, endTime: number): number[] {
+	const times: {[time: string]: true} = {}
+	times[startTime + ''] = true
+	_.each(resolvedStates.state, (layerStates) => {
+		_.each(_.keys(layerStates), (timeStr: string) => {
+			const time = parseFloat(timeStr)
+			if (time > startTime && time <= endTime) times[time + ''] = true
+		})
+	})
+	return _.map(_.keys(times), timeStr => parseFloat(timeStr)).sort((a, b) => a - b)
+}
+/**
+ * Returns the time of the earliest command queued by any of the devices, or null if there are none
+ */
+function getNextQueuedTime (devices: Device[]): number | null {
+	const times = _.filter(_.map(devices, device => device.getNextQueuedTime()), time => time !== null) as number[]
+	return times.length ? _.min(times) : null
+}
+/**
+ * Executes the commands that are due (at the current time), and waits for them to have been executed
+ */
+async function executeDueCommands (devices: Device[]): Promise<void> {
+	await Promise.all(_.map(devices, device => device.executeDueCommands()))
+}
+function createDevice (deviceId: string, deviceOptions: DeviceOptionsAnyInternal, options: DeviceClassOptions): Device {
+	const deviceClass = getDeviceClass(deviceOptions.type)
+	if (!deviceClass) {
+		const type: any = deviceOptions.type
+		throw new Error(`No matching device type for "${type}" ("${DeviceType[type]}") found`)
+	}
+	return new deviceClass.deviceClass(deviceId, deviceOptions, options)
+}
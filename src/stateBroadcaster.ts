@@ -0,0 +1,226 @@
+import * as WebSocket from 'ws'
+import * as _ from 'underscore'
+import { TimelineState, ResolvedTimelineObjectInstance } from 'superfly-timeline'
+import { DeviceContainer } from './devices/deviceContainer'
+import { DeviceStatus } from './devices/device'
+import { TSRTimelineObjBase } from './types/src'
+
+export interface StateBroadcastOptions {
+	/** The port to listen on (0 means any free port) */
+	port: number
+	/** The address to listen on, defaults to all addresses */
+	host?: string
+}
+/**
+ * What a client wants to receive. Sent by the client as { type: 'subscribe', ... },
+ * which replaces any previous subscription of the client
+ */
+export interface StateBroadcastSubscription {
+	/** The layers to receive the state of, or '*' for all layers */
+	layers?: string[] | '*'
+	/** The devices to receive the status of, or '*' for all devices */
+	devices?: string[] | '*'
+	/** If true, the timeline callbacks are received */
+	callbacks?: boolean
+}
+/** The state of a layer, as broadcast */
+export interface BroadcastLayerState {
+	id: string
+	content: any
+	start: number
+	end: number | null
+	isLookahead?: boolean
+}
+export type StateBroadcastMessage = {
+	/** The layers that have changed (null if nothing is on the layer anymore) */
+	type: 'state'
+	time: number
+	layers: {[layerId: string]: BroadcastLayerState | null}
+} | {
+	type: 'deviceStatus'
+	deviceId: string
+	status: DeviceStatus
+} | {
+	type: 'callback'
+	time: number
+	instanceId: string
+	callBack: string
+	callBackData: any
+} | {
+	type: 'error'
+	message: string
+}
+interface Client {
+	socket: WebSocket
+	subscription: StateBroadcastSubscription
+}
+
+/**
+ * A WebSocket server that publishes the resolved state of the layers, the status of the devices
+ * and the timeline callbacks to external clients, such as control surfaces
+ */
+export class StateBroadcaster {
+	private _server: WebSocket.Server | null = null
+	private _clients: Client[] = []
+
+	private _time: number = 0
+	private _layers: {[layerId: string]: BroadcastLayerState} = {}
+	private _layerKeys: {[layerId: string]: string} = {}
+	private _deviceStatuses: {[deviceId: string]: DeviceStatus} = {}
+
+	/**
+	 * Starts the server. Resolves when it is listening
+	 */
+	public listen (options: StateBroadcastOptions): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const server = new WebSocket.Server({ port: options.port, host: options.host })
+			server.once('listening', () => {
+				server.removeListener('error', reject)
+				resolve()
+			})
+			server.once('error', reject)
+			server.on('connection', (socket: WebSocket) => this._onConnection(socket))
+			this._server = server
+		})
+	}
+	/** The port the server is listening on */
+	public get port (): number | undefined {
+		if (!this._server) return undefined
+		const address = this._server.address()
+		return typeof address === 'string' ? undefined : address.port
+	}
+	public close (): Promise<void> {
+		const server = this._server
+		this._server = null
+		this._clients = []
+		if (!server) return Promise.resolve()
+
+		server.clients.forEach((socket: WebSocket) => socket.terminate())
+		return new Promise((resolve) => server.close(() => resolve()))
+	}
+	/**
+	 * Publishes the layers that have changed in a resolved state
+	 */
+	public broadcastState (state: TimelineState): void {
+		const changedLayers: {[layerId: string]: BroadcastLayerState | null} = {}
+
+		const layers: {[layerId: string]: BroadcastLayerState} = {}
+		const layerKeys: {[layerId: string]: string} = {}
+		_.each(state.layers, (tlObject: ResolvedTimelineObjectInstance & TSRTimelineObjBase, layerId: string) => {
+			const layer: BroadcastLayerState = {
+				id: tlObject.id,
+				content: tlObject.content,
+				start: tlObject.instance.start,
+				end: tlObject.instance.end
+			}
+			if (tlObject.isLookahead) layer.isLookahead = true
+
+			layers[layerId] = layer
+			layerKeys[layerId] = JSON.stringify(layer)
+			if (this._layerKeys[layerId] !== layerKeys[layerId]) changedLayers[layerId] = layer
+		})
+		_.each(_.keys(this._layerKeys), (layerId: string) => {
+			if (!layerKeys[layerId]) changedLayers[layerId] = null
+		})
+		this._time = state.time
+		this._layers = layers
+		this._layerKeys = layerKeys
+
+		_.each(this._clients, (client: Client) => {
+			const clientLayers = filterSubscribed(changedLayers, client.subscription.layers)
+			if (!_.isEmpty(clientLayers)) {
+				this._send(client, { type: 'state', time: state.time, layers: clientLayers })
+			}
+		})
+	}
+	/**
+	 * Starts publishing the status of a device
+	 */
+	public async addDevice (device: DeviceContainer): Promise<void> {
+		const deviceId = device.deviceId
+		await device.device.on('connectionChanged', (status: DeviceStatus) => {
+			this._setDeviceStatus(deviceId, status)
+		})
+		this._setDeviceStatus(deviceId, await device.device.getStatus())
+	}
+	public removeDevice (deviceId: string): void {
+		delete this._deviceStatuses[deviceId]
+	}
+	/**
+	 * Publishes a timeline callback (as emitted in the Conductor's timelineCallback event)
+	 */
+	public broadcastCallback (time: number, instanceId: string, callBack: string, callBackData: any): void {
+		_.each(this._clients, (client: Client) => {
+			if (client.subscription.callbacks) {
+				this._send(client, { type: 'callback', time, instanceId, callBack, callBackData })
+			}
+		})
+	}
+	private _setDeviceStatus (deviceId: string, status: DeviceStatus) {
+		this._deviceStatuses[deviceId] = status
+		_.each(this._clients, (client: Client) => {
+			if (isSubscribed(deviceId, client.subscription.devices)) {
+				this._send(client, { type: 'deviceStatus', deviceId, status })
+			}
+		})
+	}
+	private _onConnection (socket: WebSocket) {
+		const client: Client = {
+			socket: socket,
+			subscription: {}
+		}
+		this._clients.push(client)
+
+		socket.on('message', (data: WebSocket.Data) => {
+			let message: any
+			try {
+				message = JSON.parse(data.toString())
+			} catch (e) {
+				this._send(client, { type: 'error', message: 'Invalid JSON' })
+				return
+			}
+			if (message && message.type === 'subscribe') {
+				client.subscription = {
+					layers: message.layers,
+					devices: message.devices,
+					callbacks: !!message.callbacks
+				}
+				this._sendCurrentState(client)
+			} else {
+				this._send(client, { type: 'error', message: `Unknown message type "${message && message.type}"` })
+			}
+		})
+		socket.on('close', () => {
+			this._clients = _.without(this._clients, client)
+		})
+		socket.on('error', () => {
+			// The client is removed when closed
+		})
+	}
+	/** Sends the current state of everything the client is subscribed to */
+	private _sendCurrentState (client: Client) {
+		const layers = filterSubscribed(this._layers, client.subscription.layers)
+		if (!_.isEmpty(layers)) {
+			this._send(client, { type: 'state', time: this._time, layers: layers })
+		}
+		_.each(this._deviceStatuses, (status: DeviceStatus, deviceId: string) => {
+			if (isSubscribed(deviceId, client.subscription.devices)) {
+				this._send(client, { type: 'deviceStatus', deviceId, status })
+			}
+		})
+	}
+	private _send (client: Client, message: StateBroadcastMessage) {
+		if (client.socket.readyState !== WebSocket.OPEN) return
+		client.socket.send(JSON.stringify(message))
+	}
+}
+function isSubscribed (id: string, subscribed: string[] | '*' | undefined): boolean {
+	return subscribed === '*' || (!!subscribed && subscribed.indexOf(id) !== -1)
+}
+function filterSubscribed<T> (values: {[id: string]: T}, subscribed: string[] | '*' | undefined): {[id: string]: T} {
+	const filtered: {[id: string]: T} = {}
+	_.each(values, (value: T, id: string) => {
+		if (isSubscribed(id, subscribed)) filtered[id] = value
+	})
+	return filtered
+}
@@ -0,0 +1,136 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+export interface PersistedDeviceState {
+	/** The time the state was set to be in effect */
+	time: number
+	/** The state, as stored by the device */
+	state: any
+}
+/**
+ * A StateStore is used to persist the last committed state of devices, so that
+ * the state can be restored after a restart (instead of starting out from a default state).
+ */
+export interface StateStore {
+	/** Returns the persisted state of a device, or null if there is none */
+	load (deviceId: string): Promise<PersistedDeviceState | null>
+	/** Persists the state of a device, replacing any previously persisted state */
+	save (deviceId: string, persistedState: PersistedDeviceState): Promise<void>
+	/** Removes the persisted state of a device */
+	remove (deviceId: string): Promise<void>
+}
+/**
+ * The StateStore as seen by a device, bound to the deviceId
+ */
+export interface DeviceStateStore {
+	load: () => Promise<PersistedDeviceState | null>
+	save: (persistedState: PersistedDeviceState) => Promise<void>
+	remove: () => Promise<void>
+}
+
+/**
+ * Returns the StateStore bound to a specific device
+ */
+export function getDeviceStateStore (stateStore: StateStore, deviceId: string): DeviceStateStore {
+	return {
+		load: () => stateStore.load(deviceId),
+		save: (persistedState: PersistedDeviceState) => stateStore.save(deviceId, persistedState),
+		remove: () => stateStore.remove(deviceId)
+	}
+}
+
+/**
+ * A StateStore that stores the state of each device in a JSON-file in a folder
+ */
+export class FileStateStore implements StateStore {
+	/** Pending write-operations per device, used to make sure that the operations are done in order */
+	private _pending: {[deviceId: string]: Promise<void>} = {}
+
+	/**
+	 * @param folderPath Path to the folder where the files are to be stored. The folder must exist.
+	 */
+	constructor (
+		private _folderPath: string
+	) {}
+
+	public async load (deviceId: string): Promise<PersistedDeviceState | null> {
+		await this._pending[deviceId]
+
+		let str: string
+		try {
+			str = await readFile(this._getFilePath(deviceId))
+		} catch (e) {
+			if (e.code === 'ENOENT') return null
+			throw e
+		}
+		const persistedState = JSON.parse(str)
+		if (!persistedState || typeof persistedState.time !== 'number') throw new Error(`Bad persisted state of device "${deviceId}"`)
+		return persistedState
+	}
+	public save (deviceId: string, persistedState: PersistedDeviceState): Promise<void> {
+		const str = JSON.stringify(persistedState)
+		return this._queue(deviceId, async () => {
+			// Write to a temporary file first, so that a crash during the write doesn't leave a broken file:
+			const filePath = this._getFilePath(deviceId)
+			await writeFile(filePath + '.tmp', str)
+			await renameFile(filePath + '.tmp', filePath)
+		})
+	}
+	public remove (deviceId: string): Promise<void> {
+		return this._queue(deviceId, async () => {
+			try {
+				await unlinkFile(this._getFilePath(deviceId))
+			} catch (e) {
+				if (e.code !== 'ENOENT') throw e
+			}
+		})
+	}
+	private _queue (deviceId: string, fcn: () => Promise<void>): Promise<void> {
+		const p = (this._pending[deviceId] || Promise.resolve())
+		.catch(() => null) // Errors have already been reported by the previous operation
+		.then(fcn)
+
+		this._pending[deviceId] = p
+		p.then(() => {
+			if (this._pending[deviceId] === p) delete this._pending[deviceId]
+		}, () => {
+			if (this._pending[deviceId] === p) delete this._pending[deviceId]
+		})
+		return p
+	}
+	private _getFilePath (deviceId: string): string {
+		return path.join(this._folderPath, `${encodeURIComponent(deviceId)}.json`)
+	}
+}
+function readFile (filePath: string): Promise<string> {
+	return new Promise((resolve, reject) => {
+		fs.readFile(filePath, 'utf8', (err, data) => {
+			if (err) reject(err)
+			else resolve(data)
+		})
+	})
+}
+function writeFile (filePath: string, data: string): Promise<void> {
+	return new Promise((resolve, reject) => {
+		fs.writeFile(filePath, data, 'utf8', (err) => {
+			if (err) reject(err)
+			else resolve()
+		})
+	})
+}
+function renameFile (oldPath: string, newPath: string): Promise<void> {
+	return new Promise((resolve, reject) => {
+		fs.rename(oldPath, newPath, (err) => {
+			if (err) reject(err)
+			else resolve()
+		})
+	})
+}
+function unlinkFile (filePath: string): Promise<void> {
+	return new Promise((resolve, reject) => {
+		fs.unlink(filePath, (err) => {
+			if (err) reject(err)
+			else resolve()
+		})
+	})
+}
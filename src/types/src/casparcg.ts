@@ -7,19 +7,70 @@ export interface MappingCasparCG extends Mapping {
 	layer: number
 }
 
-export interface CasparCGOptions {
+/**
+ * A problem with the media or template of a timeline object,
+ * found when checking them with CasparCG before they go on air
+ */
+export interface CasparCGPreflightIssue {
+	timelineObjId: string
+	/** The media file or template */
+	name: string
+	message: string
+}
+
+export interface CasparCGServerOptions {
 	/** Host of CasparCG server */
 	host: string
 	/** Port of CasparCG Server */
 	port?: number
 
+	launcherHost?: string,
+	launcherPort?: number
+}
+export interface CasparCGOptionsBase {
 	/** whether to use the CasparCG-SCHEDULE command to run future commands, or the internal (backwards-compatible) command queue */
 	useScheduling?: boolean
 	/* Timecode base of channel */
 	timeBase?: {[channel: string]: number} | number
 
-	launcherHost?: string,
-	launcherPort?: number
+	/**
+	 * The version of the servers (example: '2.3.0'), detected when connecting if not set.
+	 * The features of CasparCG 2.2+ are only used when all servers support them
+	 */
+	serverVersion?: string
+	/** Decklink outputs to add to the channels when connecting (CasparCG 2.2+) */
+	decklinkOutputs?: CasparCGDecklinkOutput[]
+}
+export interface CasparCGDecklinkOutput {
+	channel: number
+	/** The decklink device outputting the fill */
+	device: number
+	/** The decklink device outputting the key, if any */
+	keyDevice?: number
+	/** Whether to embed the audio in the SDI signal */
+	embeddedAudio?: boolean
+}
+export interface CasparCGSingleServerOptions extends CasparCGOptionsBase, CasparCGServerOptions {}
+/**
+ * Several CasparCG servers that all receive the same commands, such as a main and a backup server
+ */
+export interface CasparCGMultiServerOptions extends CasparCGOptionsBase {
+	servers: Array<CasparCGServerOptions & {
+		/** Identifies the server, eg "main" or "backup" */
+		id: string
+	}>
+	/** The id of the server that is feeding air at startup, defaults to the first server */
+	onAirServerId?: string
+}
+export type CasparCGOptions = CasparCGSingleServerOptions | CasparCGMultiServerOptions
+
+/** The status of one of the servers of a CasparCG device */
+export interface CasparCGServerStatus {
+	serverId: string
+	connected: boolean
+	/** If the server is the one currently feeding air */
+	onAir: boolean
+	messages: Array<string>
 }
 
 export enum TimelineContentTypeCasparCg { //  CasparCG-state
@@ -29,7 +80,8 @@ export enum TimelineContentTypeCasparCg { //  CasparCG-state
 	TEMPLATE = 'template',
 	HTMLPAGE = 'htmlpage',
 	ROUTE = 'route',
-	RECORD = 'record'
+	RECORD = 'record',
+	PLAYLIST = 'playlist'
 }
 
 export type TimelineTransition = TimelineTransitionBase & (RegularTimelineTransition | TimelineStingTransition)
@@ -62,6 +114,25 @@ export interface TimelineObjCCGProducerContentBase {
 		outTransition?: TimelineTransition
 	}
 	mixer?: Mixer
+	/**
+	 * If set, changes of the mixer properties are animated.
+	 * Set in a keyframe, the properties are animated to the values of that keyframe. When the keyframe ends,
+	 * the properties are animated back using the tween of the object (if any).
+	 * The animations that start at the same time are committed together, per channel.
+	 */
+	mixerTween?: MixerTween
+	/**
+	 * The parameters of CALL commands to send to the producer when the object starts (CasparCG 2.2+).
+	 * Example: ['LOOP 1'] for media, or ['"update()"'] to execute JavaScript in an HTML page
+	 */
+	calls?: string[]
+}
+/** How changes of mixer properties are animated */
+export interface MixerTween {
+	/** The duration of the animation [milliseconds] */
+	duration: number
+	/** Defaults to linear */
+	easing?: Ease
 }
 export type TimelineObjCasparCGAny = (
 	TimelineObjCCGMedia |
@@ -70,7 +141,8 @@ export type TimelineObjCasparCGAny = (
 	TimelineObjCCGHTMLPage |
 	TimelineObjCCGRecord |
 	TimelineObjCCGRoute |
-	TimelineObjCCGTemplate
+	TimelineObjCCGTemplate |
+	TimelineObjCCGPlaylist
 )
 export interface TimelineObjCasparCGBase extends TSRTimelineObjBase {
 	content: {
@@ -102,6 +174,8 @@ export interface TimelineObjCCGMedia extends TimelineObjCasparCGBase {
 		// audioFilter?: string
 		/** Audio channel layout (example 'stereo') */
 		channelLayout?: string
+		/** The source audio channels to play, one per output channel (example: [3, 4] for the second stereo pair) (CasparCG 2.2+) */
+		audioChannels?: number[]
 
 		/** When pausing, the unix-time the playout was paused. */
 		pauseTime?: number
@@ -123,6 +197,8 @@ export interface TimelineObjCCGIP extends TimelineObjCasparCGBase {
 		// audioFilter?: string
 		/** Audio channel layout (example 'stereo') */
 		channelLayout?: string
+		/** The source audio channels to play, one per output channel (example: [3, 4] for the second stereo pair) (CasparCG 2.2+) */
+		audioChannels?: number[]
 	} & TimelineObjCCGProducerContentBase
 }
 export interface TimelineObjCCGInput extends TimelineObjCasparCGBase {
@@ -135,11 +211,18 @@ export interface TimelineObjCCGInput extends TimelineObjCasparCGBase {
 		device: number,
 		/** The input format (example: '1080i5000') */
 		deviceFormat: ChannelFormat // ,
+		/**
+		 * The input device carrying the key of a key/fill pair. It is played on the layer below,
+		 * keying the fill (so that layer can't be used for anything else)
+		 */
+		keyDevice?: number
 
 		// videoFilter?: string
 		// audioFilter?: string
 		/** Audio channel layout (example 'stereo') */
 		channelLayout?: string
+		/** The source audio channels to play, one per output channel (example: [3, 4] for the second stereo pair) (CasparCG 2.2+) */
+		audioChannels?: number[]
 	} & TimelineObjCCGProducerContentBase
 }
 export interface TimelineObjCCGHTMLPage extends TimelineObjCasparCGBase {
@@ -148,6 +231,8 @@ export interface TimelineObjCCGHTMLPage extends TimelineObjCasparCGBase {
 		type: TimelineContentTypeCasparCg.HTMLPAGE
 		/** The URL to load */
 		url: string
+		/** Parameters to the Chromium Embedded Framework of the HTML producer, added to the PLAY command (CasparCG 2.2+) */
+		cefParameters?: {[name: string]: string | number}
 	} & TimelineObjCCGProducerContentBase
 }
 export interface TimelineObjCCGTemplate extends TimelineObjCasparCGBase {
@@ -195,6 +280,31 @@ export interface TimelineObjCCGRecord extends TimelineObjCasparCGBase {
 	}
 }
 
+/**
+ * A sequence of clips, played back to back on the layer. Each clip is loaded in the background
+ * while the one before it plays, and started by CasparCG when that one ends (AUTO)
+ */
+export interface TimelineObjCCGPlaylist extends TimelineObjCasparCGBase {
+	content: {
+		deviceType: DeviceType.CASPARCG
+		type: TimelineContentTypeCasparCg.PLAYLIST
+
+		clips: PlaylistClip[]
+	} & TimelineObjCCGProducerContentBase
+}
+export interface PlaylistClip {
+	/** Path to the file to be played (example: 'AMB') */
+	file: string
+	/** The point where the clip starts [milliseconds from start of file] */
+	inPoint?: number
+	/** The point where the clip ends [milliseconds from start of file] */
+	outPoint: number
+	/**
+	 * The transition from the previous clip, which starts before the end of that clip (use the transitions of the object for the first clip)
+	 */
+	transition?: TimelineTransition
+}
+
 // Note: enums copied from casparcg-connection
 export enum Transition {
 	MIX = 'MIX',
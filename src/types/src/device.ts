@@ -8,6 +8,12 @@ import {
 	PharosOptions,
 	QuantelOptions,
 	SingularLiveOptions,
+	VMixOptions,
+	OBSOptions,
+	TemplateCGOptions,
+	VideoRouterOptions,
+	MIDIOptions,
+	DMXOptions,
 	SisyfosOptions,
 	TCPSendOptions,
 	AbstractOptions,
@@ -16,10 +22,12 @@ import {
 	HTTPWatcherOptions
 } from '.'
 
-export interface DeviceOptionsBase extends SlowReportOptions {
+export interface DeviceOptionsBase extends SlowReportOptions, RetryPolicyOptions {
 	type: DeviceType
 	isMultiThreaded?: boolean
 	reportAllCommands?: boolean
+	/** If true, the device sends commands to correct the state of the device, whenever it has drifted from the expected state (see the 'stateDrift' event) */
+	correctStateDrift?: boolean
 	threadUsage?: number
 	disable?: boolean
 	options?: DeviceInitOptions
@@ -31,6 +39,31 @@ export interface SlowReportOptions {
 	/** If set, report back that a command was slow if not fullfilled (sent + ack:ed) at this time */
 	limitSlowFulfilledCommand?: number
 }
+export interface RetryPolicyOptions {
+	/** The policy for retrying failed commands, used for all command queues */
+	retryPolicy?: CommandRetryPolicy
+	/** Policies for retrying failed commands per command queue, overrides retryPolicy */
+	queueRetryPolicies?: {
+		[queueId: string]: CommandRetryPolicy
+	}
+}
+export interface CommandRetryPolicy {
+	/** The maximum number of times a command is attempted to be executed. Defaults to 1 (no retries) */
+	maxAttempts?: number
+	/** Time to wait before retrying a failed command [ms]. Defaults to 0 */
+	retryDelay?: number
+	/** The retryDelay is multiplied by this factor for each subsequent retry. Defaults to 1 */
+	backoffFactor?: number
+	/** The maximum time to wait before retrying a failed command [ms] */
+	maxRetryDelay?: number
+	/** If set, a command that hasn't been fulfilled within this time [ms] is considered failed */
+	commandTimeout?: number
+	/**
+	 * If true, a failed command is not retried once a newer command targeting the same thing is due to be sent.
+	 * That is a command on the same layer, or in the same queue for commands that don't have a layer (other than the default queue)
+	 */
+	giveUpWhenSuperseded?: boolean
+}
 
 export type DeviceOptionsAny = DeviceOptionsAbstract |
 	DeviceOptionsCasparCG |
@@ -45,7 +78,13 @@ export type DeviceOptionsAny = DeviceOptionsAbstract |
 	DeviceOptionsHTTPpWatcher |
 	DeviceOptionsSisyfos |
 	DeviceOptionsQuantel |
-	DeviceOptionsSingularLive
+	DeviceOptionsSingularLive |
+	DeviceOptionsVMix |
+	DeviceOptionsOBS |
+	DeviceOptionsTemplateCG |
+	DeviceOptionsVideoRouter |
+	DeviceOptionsMIDI |
+	DeviceOptionsDMX
 
 export type DeviceInitOptions = AbstractOptions |
 	CasparCGOptions |
@@ -60,7 +99,13 @@ export type DeviceInitOptions = AbstractOptions |
 	HTTPWatcherOptions |
 	SisyfosOptions |
 	QuantelOptions |
-	SingularLiveOptions
+	SingularLiveOptions |
+	VMixOptions |
+	OBSOptions |
+	TemplateCGOptions |
+	VideoRouterOptions |
+	MIDIOptions |
+	DMXOptions
 
 export interface DeviceOptionsAbstract extends DeviceOptionsBase {
 	type: DeviceType.ABSTRACT
@@ -118,3 +163,27 @@ export interface DeviceOptionsSingularLive extends DeviceOptionsBase {
 	type: DeviceType.SINGULAR_LIVE
 	options: SingularLiveOptions
 }
+export interface DeviceOptionsVMix extends DeviceOptionsBase {
+	type: DeviceType.VMIX
+	options: VMixOptions
+}
+export interface DeviceOptionsOBS extends DeviceOptionsBase {
+	type: DeviceType.OBS
+	options: OBSOptions
+}
+export interface DeviceOptionsTemplateCG extends DeviceOptionsBase {
+	type: DeviceType.TEMPLATE_CG
+	options: TemplateCGOptions
+}
+export interface DeviceOptionsVideoRouter extends DeviceOptionsBase {
+	type: DeviceType.VIDEO_ROUTER
+	options: VideoRouterOptions
+}
+export interface DeviceOptionsMIDI extends DeviceOptionsBase {
+	type: DeviceType.MIDI
+	options: MIDIOptions
+}
+export interface DeviceOptionsDMX extends DeviceOptionsBase {
+	type: DeviceType.DMX
+	options: DMXOptions
+}
@@ -0,0 +1,109 @@
+import { Mapping } from './mapping'
+import { TSRTimelineObjBase, DeviceType } from '.'
+import { OSCEasingType } from './osc'
+
+/** The protocols the DMX device can output */
+export enum DMXProtocol {
+	/** Art-Net, on port 6454 */
+	ARTNET = 'artnet',
+	/** sACN (E1.31), on port 5568 */
+	SACN = 'sacn'
+}
+export interface DMXOptions {
+	protocol: DMXProtocol
+	/**
+	 * The ip to send to. Defaults to the broadcast address (255.255.255.255) for Art-Net,
+	 * and to the multicast address of each universe for sACN
+	 */
+	host?: string
+	/** Port to send to. Defaults to the port of the protocol */
+	port?: number
+	/** How many times per second the universes are sent, defaults to 30 */
+	refreshRate?: number
+	/** sACN: the name of the source, defaults to "TSR" */
+	sourceName?: string
+	/** sACN: the priority of the source (0-200), defaults to 100 */
+	priority?: number
+}
+
+export interface MappingDMX extends Mapping {
+	device: DeviceType.DMX
+	/** The universe to output on, numbered from 0 for Art-Net and from 1 for sACN */
+	universe: number
+}
+
+export enum TimelineContentTypeDMX {
+	CHANNELS = 'channels',
+	FIXTURES = 'fixtures'
+}
+
+/**
+ * How the values of an object are combined with the values of the objects with a lower priority:
+ * Highest Takes Precedence, or Latest Takes Precedence
+ */
+export enum DMXMergeMode {
+	HTP = 'htp',
+	LTP = 'ltp'
+}
+
+export interface DMXFade {
+	/** Duration of the fade [ms] */
+	duration: number
+	type: OSCEasingType
+	direction: 'In' | 'Out' | 'InOut' | 'None'
+}
+
+export type TimelineObjDMXAny = TimelineObjDMXChannels | TimelineObjDMXFixtures
+export interface TimelineObjDMXBase extends TSRTimelineObjBase {
+	content: {
+		deviceType: DeviceType.DMX
+		type: TimelineContentTypeDMX
+		/** Defaults to LTP */
+		merge?: DMXMergeMode
+		/** If set, the channels fade to their values when the object starts, and back to 0 when it ends */
+		fade?: DMXFade
+	}
+}
+/** Sets the values of channels */
+export interface TimelineObjDMXChannels extends TimelineObjDMXBase {
+	content: {
+		deviceType: DeviceType.DMX
+		type: TimelineContentTypeDMX.CHANNELS
+		merge?: DMXMergeMode
+		fade?: DMXFade
+
+		/** The value (0-255) of each channel (1-512) */
+		channels: { [channel: string]: number }
+	}
+}
+/** Sets the same values on a group of fixtures */
+export interface TimelineObjDMXFixtures extends TimelineObjDMXBase {
+	content: {
+		deviceType: DeviceType.DMX
+		type: TimelineContentTypeDMX.FIXTURES
+		merge?: DMXMergeMode
+		fade?: DMXFade
+
+		/** The first channel (1-512) of each fixture */
+		fixtures: number[]
+		/** The values (0-255) of the channels of each fixture, starting at its first channel */
+		values: number[]
+	}
+}
+
+export interface DMXState {
+	/** The channels set by the timeline, by universe and channel */
+	universes: { [universe: string]: { [channel: string]: DMXChannelState } }
+}
+export interface DMXChannelState {
+	value: number
+	fade?: DMXFade
+	tlObjId: string
+}
+
+export interface DMXCommand {
+	universe: number
+	/** The value of each channel */
+	channels: { [channel: string]: number }
+	fade?: DMXFade
+}
@@ -12,6 +12,12 @@ export * from './sisyfos'
 export * from './quantel'
 export * from './tcpSend'
 export * from './singularLive'
+export * from './vmix'
+export * from './obs'
+export * from './templateCG'
+export * from './videoRouter'
+export * from './midi'
+export * from './dmx'
 
 export * from './device'
 export * from './mapping'
@@ -31,6 +37,12 @@ import { TSRTimelineObjProps } from './mapping'
 import { TimelineObjQuantelAny } from './quantel'
 import { TimelineObjSisyfosAny } from './sisyfos'
 import { TimelineObjSingularLiveAny } from './singularLive'
+import { TimelineObjVMixAny } from './vmix'
+import { TimelineObjOBSAny } from './obs'
+import { TimelineObjTemplateCGAny } from './templateCG'
+import { TimelineObjVideoRouterAny } from './videoRouter'
+import { TimelineObjMIDIAny } from './midi'
+import { TimelineObjDMXAny } from './dmx'
 
 export { Timeline }
 
@@ -50,7 +62,13 @@ export enum DeviceType {
 	HTTPWATCHER = 10,
 	SISYFOS = 11,
 	QUANTEL = 12,
-	SINGULAR_LIVE = 14
+	SINGULAR_LIVE = 14,
+	VMIX = 15,
+	OBS = 16,
+	TEMPLATE_CG = 17,
+	VIDEO_ROUTER = 18,
+	MIDI = 19,
+	DMX = 20
 }
 
 export interface TSRTimelineKeyframe<T> extends Timeline.TimelineKeyframe {
@@ -96,7 +114,13 @@ export type TSRTimelineObj = (
 	TimelineObjPanasonicPtzAny |
 	TimelineObjQuantelAny |
 	TimelineObjSisyfosAny |
-	TimelineObjSingularLiveAny
+	TimelineObjSingularLiveAny |
+	TimelineObjVMixAny |
+	TimelineObjOBSAny |
+	TimelineObjTemplateCGAny |
+	TimelineObjVideoRouterAny |
+	TimelineObjMIDIAny |
+	TimelineObjDMXAny
 )
 
 export type TSRTimeline = Array<TSRTimelineObj>
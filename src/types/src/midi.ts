@@ -0,0 +1,175 @@
+import { Mapping } from './mapping'
+import { TSRTimelineObjBase, DeviceType } from '.'
+import { OSCEasingType } from './osc'
+
+export interface MIDIOptions {
+	/** The host of the RTP-MIDI (AppleMIDI) session to join */
+	host: string
+	/** The control port of the session, defaults to 5004. The data port is the one after it */
+	port?: number
+	/** The name to show in the session, defaults to "TSR" */
+	sessionName?: string
+}
+
+export interface MappingMIDI extends Mapping {
+	device: DeviceType.MIDI
+}
+
+export enum TimelineContentTypeMIDI {
+	NOTE = 'note',
+	CONTROL_CHANGE = 'controlChange',
+	PROGRAM_CHANGE = 'programChange',
+	MSC = 'msc'
+}
+
+export interface MIDITransition {
+	/** Duration of the transition [ms] */
+	duration: number
+	type: OSCEasingType
+	direction: 'In' | 'Out' | 'InOut' | 'None'
+}
+
+/** MIDI Show Control commands */
+export enum MSCCommand {
+	GO = 0x01,
+	STOP = 0x02,
+	RESUME = 0x03,
+	LOAD = 0x05,
+	ALL_OFF = 0x08,
+	RESET = 0x0a
+}
+
+export type TimelineObjMIDIAny = (
+	TimelineObjMIDINote |
+	TimelineObjMIDIControlChange |
+	TimelineObjMIDIProgramChange |
+	TimelineObjMIDIMSC
+)
+export interface TimelineObjMIDIBase extends TSRTimelineObjBase {
+	content: {
+		deviceType: DeviceType.MIDI
+		type: TimelineContentTypeMIDI
+	}
+}
+/** A note, which is on while the object is playing */
+export interface TimelineObjMIDINote extends TimelineObjMIDIBase {
+	content: {
+		deviceType: DeviceType.MIDI
+		type: TimelineContentTypeMIDI.NOTE
+		/** MIDI channel (1-16) */
+		channel: number
+		/** Note number (0-127) */
+		note: number
+		/** Velocity (1-127), defaults to 127 */
+		velocity?: number
+	}
+}
+/** A controller value, which is left as is when the object ends */
+export interface TimelineObjMIDIControlChange extends TimelineObjMIDIBase {
+	content: {
+		deviceType: DeviceType.MIDI
+		type: TimelineContentTypeMIDI.CONTROL_CHANGE
+		/** MIDI channel (1-16) */
+		channel: number
+		/** Controller number (0-127) */
+		controller: number
+		/** Value (0-127) */
+		value: number
+		/** If set, the value is animated to */
+		transition?: MIDITransition
+		/** The value to animate from. Defaults to the previous value of the controller */
+		from?: number
+	}
+}
+export interface TimelineObjMIDIProgramChange extends TimelineObjMIDIBase {
+	content: {
+		deviceType: DeviceType.MIDI
+		type: TimelineContentTypeMIDI.PROGRAM_CHANGE
+		/** MIDI channel (1-16) */
+		channel: number
+		/** Program number (0-127) */
+		program: number
+	}
+}
+/** A MIDI Show Control command, sent when the object starts */
+export interface TimelineObjMIDIMSC extends TimelineObjMIDIBase {
+	content: {
+		deviceType: DeviceType.MIDI
+		type: TimelineContentTypeMIDI.MSC
+		command: MSCCommand
+		/** The cue number, eg "12.5" */
+		cue?: string
+		/** The cue list the cue is in */
+		list?: string
+		/** The device id of the receiver (0-127), defaults to 127 (all call) */
+		mscDeviceId?: number
+		/** The command format, defaults to 1 (lighting) */
+		commandFormat?: number
+	}
+}
+
+export interface MIDIState {
+	/** The notes that are on, by "channel:note" */
+	notes: { [key: string]: { velocity: number, tlObjId: string } }
+	/** Controller values, by "channel:controller" */
+	controls: { [key: string]: MIDIControlState }
+	/** Programs, by channel */
+	programs: { [channel: string]: { program: number, tlObjId: string } }
+	/** MSC commands, by layer */
+	msc: { [layer: string]: MIDIMSCState }
+}
+export interface MIDIControlState {
+	value: number
+	transition?: MIDITransition
+	from?: number
+	tlObjId: string
+}
+export interface MIDIMSCState {
+	command: MSCCommand
+	cue?: string
+	list?: string
+	mscDeviceId?: number
+	commandFormat?: number
+	tlObjId: string
+}
+
+export enum MIDICommandType {
+	NOTE_ON = 'noteOn',
+	NOTE_OFF = 'noteOff',
+	CONTROL_CHANGE = 'controlChange',
+	PROGRAM_CHANGE = 'programChange',
+	MSC = 'msc'
+}
+export interface MIDINoteCommand {
+	type: MIDICommandType.NOTE_ON | MIDICommandType.NOTE_OFF
+	channel: number
+	note: number
+	velocity: number
+}
+export interface MIDIControlChangeCommand {
+	type: MIDICommandType.CONTROL_CHANGE
+	channel: number
+	controller: number
+	value: number
+	transition?: MIDITransition
+	from?: number
+}
+export interface MIDIProgramChangeCommand {
+	type: MIDICommandType.PROGRAM_CHANGE
+	channel: number
+	program: number
+}
+export interface MIDIMSCCommand {
+	type: MIDICommandType.MSC
+	command: MSCCommand
+	cue?: string
+	list?: string
+	mscDeviceId?: number
+	commandFormat?: number
+}
+export type MIDICommandAny = (
+	MIDINoteCommand |
+	MIDIControlChangeCommand |
+	MIDIProgramChangeCommand |
+	MIDIMSCCommand
+)
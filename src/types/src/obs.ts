@@ -0,0 +1,182 @@
+import { Mapping } from './mapping'
+import { TSRTimelineObjBase, DeviceType } from '.'
+
+export interface OBSOptions {
+	host: string
+	/** Port of the obs-websocket server, defaults to 4444 */
+	port?: number
+	/** Password of the obs-websocket server, if authentication is enabled */
+	password?: string
+}
+
+export interface MappingOBS extends Mapping {
+	device: DeviceType.OBS
+	mappingType: MappingOBSType
+	/** For SourceRender, SourceSettings and Mute: the name of the source */
+	source?: string
+	/** For SourceRender: the name of the scene the source is in. Defaults to the current scene */
+	sceneName?: string
+}
+export enum MappingOBSType {
+	/** The scene in program. Left as is when there's no object on the layer */
+	CurrentScene,
+	/** The scene in preview (enables studio mode). Left as is when there's no object on the layer */
+	PreviewScene,
+	/** The transition used for scene changes. Left as is when there's no object on the layer */
+	CurrentTransition,
+	/** The visibility of a source in a scene. Hidden when there's no object on the layer */
+	SourceRender,
+	/** The settings of a source. Left as is when there's no object on the layer */
+	SourceSettings,
+	/** Muting of an audio source. Left as is when there's no object on the layer */
+	Mute,
+	/** Recording. Stopped when there's no object on the layer */
+	Recording,
+	/** Streaming. Stopped when there's no object on the layer */
+	Streaming
+}
+
+export enum TimelineContentTypeOBS {
+	CURRENT_SCENE = 'currentScene',
+	PREVIEW_SCENE = 'previewScene',
+	CURRENT_TRANSITION = 'currentTransition',
+	SOURCE_RENDER = 'sourceRender',
+	SOURCE_SETTINGS = 'sourceSettings',
+	MUTE = 'mute',
+	RECORDING = 'recording',
+	STREAMING = 'streaming'
+}
+
+export type TimelineObjOBSAny = (
+	TimelineObjOBSCurrentScene |
+	TimelineObjOBSPreviewScene |
+	TimelineObjOBSCurrentTransition |
+	TimelineObjOBSSourceRender |
+	TimelineObjOBSSourceSettings |
+	TimelineObjOBSMute |
+	TimelineObjOBSRecording |
+	TimelineObjOBSStreaming
+)
+export interface TimelineObjOBSBase extends TSRTimelineObjBase {
+	content: {
+		deviceType: DeviceType.OBS
+		type: TimelineContentTypeOBS
+	}
+}
+export interface TimelineObjOBSCurrentScene extends TimelineObjOBSBase {
+	content: {
+		deviceType: DeviceType.OBS
+		type: TimelineContentTypeOBS.CURRENT_SCENE
+		sceneName: string
+	}
+}
+export interface TimelineObjOBSPreviewScene extends TimelineObjOBSBase {
+	content: {
+		deviceType: DeviceType.OBS
+		type: TimelineContentTypeOBS.PREVIEW_SCENE
+		sceneName: string
+	}
+}
+export interface TimelineObjOBSCurrentTransition extends TimelineObjOBSBase {
+	content: {
+		deviceType: DeviceType.OBS
+		type: TimelineContentTypeOBS.CURRENT_TRANSITION
+		/** The name of the transition, eg "Fade" or "Cut" */
+		transitionName: string
+		/** Duration of the transition [ms] */
+		duration?: number
+	}
+}
+export interface TimelineObjOBSSourceRender extends TimelineObjOBSBase {
+	content: {
+		deviceType: DeviceType.OBS
+		type: TimelineContentTypeOBS.SOURCE_RENDER
+		render: boolean
+	}
+}
+export interface TimelineObjOBSSourceSettings extends TimelineObjOBSBase {
+	content: {
+		deviceType: DeviceType.OBS
+		type: TimelineContentTypeOBS.SOURCE_SETTINGS
+		/** The type of the source, eg "ffmpeg_source". Used by OBS to validate the settings */
+		sourceType?: string
+		/** The settings to apply. Settings not present are left as they are */
+		sourceSettings: { [key: string]: any }
+	}
+}
+export interface TimelineObjOBSMute extends TimelineObjOBSBase {
+	content: {
+		deviceType: DeviceType.OBS
+		type: TimelineContentTypeOBS.MUTE
+		mute: boolean
+	}
+}
+export interface TimelineObjOBSRecording extends TimelineObjOBSBase {
+	content: {
+		deviceType: DeviceType.OBS
+		type: TimelineContentTypeOBS.RECORDING
+		on: boolean
+	}
+}
+export interface TimelineObjOBSStreaming extends TimelineObjOBSBase {
+	content: {
+		deviceType: DeviceType.OBS
+		type: TimelineContentTypeOBS.STREAMING
+		on: boolean
+	}
+}
+
+export interface OBSState {
+	currentScene?: OBSSceneState
+	previewScene?: OBSSceneState
+	currentTransition?: OBSTransitionState
+	/** Visibility of sources, per scene ('' is the current scene) */
+	sceneItemRender: { [sceneName: string]: { [source: string]: OBSSceneItemRenderState } }
+	sourceSettings: { [source: string]: OBSSourceSettingsState }
+	mutes: { [source: string]: OBSMuteState }
+	recording?: boolean
+	streaming?: boolean
+}
+export interface OBSSceneState {
+	sceneName: string
+	tlObjId: string
+}
+export interface OBSTransitionState {
+	transitionName: string
+	duration?: number
+	tlObjId: string
+}
+export interface OBSSceneItemRenderState {
+	render: boolean
+	tlObjId: string
+}
+export interface OBSSourceSettingsState {
+	sourceType?: string
+	sourceSettings: { [key: string]: any }
+	tlObjId: string
+}
+export interface OBSMuteState {
+	mute: boolean
+	tlObjId: string
+}
+
+/** The obs-websocket requests sent by the device */
+export enum OBSRequestName {
+	SET_CURRENT_SCENE = 'SetCurrentScene',
+	SET_PREVIEW_SCENE = 'SetPreviewScene',
+	ENABLE_STUDIO_MODE = 'EnableStudioMode',
+	SET_CURRENT_TRANSITION = 'SetCurrentTransition',
+	SET_TRANSITION_DURATION = 'SetTransitionDuration',
+	SET_SCENE_ITEM_RENDER = 'SetSceneItemRender',
+	SET_SOURCE_SETTINGS = 'SetSourceSettings',
+	SET_MUTE = 'SetMute',
+	START_RECORDING = 'StartRecording',
+	STOP_RECORDING = 'StopRecording',
+	START_STREAMING = 'StartStreaming',
+	STOP_STREAMING = 'StopStreaming'
+}
+export interface OBSCommand {
+	requestName: OBSRequestName
+	/** The fields of the request, as named by obs-websocket */
+	args: { [key: string]: any }
+}
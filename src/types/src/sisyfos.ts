@@ -9,24 +9,56 @@ export interface SisyfosOptions {
 export interface MappingSisyfos extends Mapping {
 	device: DeviceType.SISYFOS
 	channel: number
+	/**
+	 * If true, changes made to the channel by the operator are kept, and reported in the status of the device.
+	 * Otherwise the channel is corrected to the state of the timeline
+	 */
+	operatorMayOverride?: boolean
 }
 
 export enum TimelineContentTypeSisyfos {
-	SISYFOS = 'sisyfos'
+	/** Controls the channel of the layer */
+	SISYFOS = 'sisyfos',
+	/** Controls several channels, referred to by their layers */
+	CHANNELS = 'channels'
 }
 
-export interface SisyfosCommandContent {
-	type: TimelineContentTypeSisyfos.SISYFOS
+export interface SisyfosChannelOptions {
 	isPgm?: boolean
 	isPst?: boolean
 	faderLevel?: number
+	/** The label of the channel, shown in Sisyfos */
+	label?: string
+	/** If false, the channel is hidden in Sisyfos */
+	visible?: boolean
+	mute?: boolean
+	pfl?: boolean
+	/** The time (in ms) to fade the fader level over. If not set, the default fade time of Sisyfos is used */
+	fadeTime?: number
+}
+export interface SisyfosCommandContent extends SisyfosChannelOptions {
+	type: TimelineContentTypeSisyfos.SISYFOS
 }
-export type TimelineObjSisyfosAny = TimelineObjSisyfosMessage
+export interface SisyfosChannelsCommandContent {
+	type: TimelineContentTypeSisyfos.CHANNELS
+	/**
+	 * The channels to control, each referred to by the layer it is mapped to.
+	 * (The channel of the mapping of the object's own layer is not used)
+	 */
+	channels: Array<{
+		mappedLayer: string
+	} & SisyfosChannelOptions>
+}
+export type TimelineObjSisyfosAny = TimelineObjSisyfosMessage | TimelineObjSisyfosChannels
 
 export enum Commands {
 	TOGGLE_PGM = 'togglePgm',
 	TOGGLE_PST = 'togglePst',
 	SET_FADER = 'setFader',
+	SET_LABEL = 'setLabel',
+	SET_VISIBLE = 'setVisible',
+	SET_MUTE = 'setMute',
+	SET_PFL = 'setPfl',
 	TAKE = 'take'
 }
 
@@ -35,25 +67,42 @@ export interface BaseCommand {
 }
 
 export interface ChannelCommand {
-	type: Commands.SET_FADER | Commands.TOGGLE_PGM | Commands.TOGGLE_PST
+	type: Commands.SET_FADER | Commands.SET_LABEL | Commands.TOGGLE_PGM | Commands.TOGGLE_PST | Commands.SET_VISIBLE | Commands.SET_MUTE | Commands.SET_PFL
 	channel: number
-	value: boolean | number
+	value: boolean | number | string
 }
 
 export interface ToggleCommand extends ChannelCommand {
-	type: Commands.TOGGLE_PGM | Commands.TOGGLE_PST
+	type: Commands.TOGGLE_PGM | Commands.TOGGLE_PST | Commands.SET_VISIBLE | Commands.SET_MUTE | Commands.SET_PFL
 	value: boolean
 }
 
 export interface FaderCommand extends ChannelCommand {
 	type: Commands.SET_FADER
 	value: number
+	/** The time (in ms) to fade over */
+	fadeTime?: number
+}
+
+export interface LabelCommand extends ChannelCommand {
+	type: Commands.SET_LABEL
+	value: string
 }
 
-export type SisyfosCommand = BaseCommand | ToggleCommand | FaderCommand
+export type SisyfosCommand = BaseCommand | ToggleCommand | FaderCommand | LabelCommand
 
-export interface SisyfosChannel extends SisyfosAPIChannel {
+export interface SisyfosChannel {
+	faderLevel: number
+	pgmOn: boolean
+	pstOn: boolean
+	/** The properties below are only set when controlled by the timeline, otherwise they are left as they are in Sisyfos */
+	label?: string
+	visible?: boolean
+	muteOn?: boolean
+	pflOn?: boolean
 	tlObjIds: string[]
+	/** The time to fade the fader level over, when changing to this state */
+	fadeTime?: number
 }
 
 export interface SisyfosState {
@@ -71,12 +120,21 @@ export interface TimelineObjSisyfosMessage extends TimelineObjSisyfos {
 		deviceType: DeviceType.SISYFOS
 	} & SisyfosCommandContent
 }
+export interface TimelineObjSisyfosChannels extends TimelineObjSisyfos {
+	content: {
+		deviceType: DeviceType.SISYFOS
+	} & SisyfosChannelsCommandContent
+}
 // ------------------------------------------------------
 // Interfaces for the data that comes over OSC:
 export interface SisyfosAPIChannel {
 	faderLevel: number
 	pgmOn: boolean
 	pstOn: boolean
+	label: string
+	visible: boolean
+	muteOn: boolean
+	pflOn: boolean
 }
 
 export interface SisyfosAPIState {
@@ -0,0 +1,97 @@
+import { Mapping } from './mapping'
+import { TSRTimelineObjBase, DeviceType } from '.'
+
+/** The protocols the template CG device can talk */
+export enum TemplateCGProtocol {
+	/** The TCP command protocol of Vizrt Viz Engine */
+	VIZ_ENGINE = 'vizEngine'
+}
+export interface TemplateCGOptions {
+	protocol: TemplateCGProtocol
+	host: string
+	/** Port of the engine. Defaults to the default port of the protocol (6100 for Viz Engine) */
+	port?: number
+	/** Viz Engine: the name of the director played to take a template out. Defaults to 'OUT' */
+	outDirector?: string
+}
+
+export interface MappingTemplateCG extends Mapping {
+	device: DeviceType.TEMPLATE_CG
+	/** The layer in the engine, eg 'FRONT_LAYER', 'MAIN_LAYER' or 'BACK_LAYER' for Viz Engine */
+	layer: string
+}
+
+export enum TimelineContentTypeTemplateCG {
+	TEMPLATE = 'template'
+}
+
+export type TimelineObjTemplateCGAny = TimelineObjTemplateCGTemplate
+export interface TimelineObjTemplateCGBase extends TSRTimelineObjBase {
+	content: {
+		deviceType: DeviceType.TEMPLATE_CG
+		type: TimelineContentTypeTemplateCG
+	}
+}
+export interface TimelineObjTemplateCGTemplate extends TimelineObjTemplateCGBase {
+	content: {
+		deviceType: DeviceType.TEMPLATE_CG
+		type: TimelineContentTypeTemplateCG.TEMPLATE
+		/** The name/path of the template */
+		templateName: string
+		/** The data to send into the template, as field/value pairs */
+		data?: { [field: string]: any }
+		/** If true, the template is only loaded (cued), and not taken in */
+		cue?: boolean
+		/** The number of times to continue the template after it has been taken in. Increase it to continue again */
+		continueStep?: number
+		/** Whether to take the template out (animated) or clear the layer when stopping the template. Defaults to false = clear */
+		useStopCommand?: boolean
+	}
+}
+
+export interface TemplateCGState {
+	layers: { [layer: string]: TemplateCGLayerState }
+}
+export interface TemplateCGLayerState {
+	templateName: string
+	data?: { [field: string]: any }
+	/** Whether the template has been taken in */
+	onAir: boolean
+	continueStep: number
+	useStopCommand: boolean
+	tlObjId: string
+}
+
+export enum TemplateCGCommand {
+	/** Load a template into a layer, without taking it in */
+	LOAD = 'load',
+	/** Update the data of the loaded template */
+	SET_DATA = 'setData',
+	/** Take the loaded template in */
+	TAKE_IN = 'takeIn',
+	/** Continue the template to its next step */
+	CONTINUE = 'continue',
+	/** Take the template out, animated */
+	TAKE_OUT = 'takeOut',
+	/** Clear the layer immediately */
+	CLEAR = 'clear'
+}
+export interface TemplateCGLoadCommand {
+	command: TemplateCGCommand.LOAD
+	layer: string
+	templateName: string
+}
+export interface TemplateCGSetDataCommand {
+	command: TemplateCGCommand.SET_DATA
+	layer: string
+	data: { [field: string]: any }
+}
+export interface TemplateCGLayerCommand {
+	command: TemplateCGCommand.TAKE_IN | TemplateCGCommand.CONTINUE | TemplateCGCommand.TAKE_OUT | TemplateCGCommand.CLEAR
+	layer: string
+}
+export type TemplateCGCommandAny = (
+	TemplateCGLoadCommand |
+	TemplateCGSetDataCommand |
+	TemplateCGLayerCommand
+)
@@ -0,0 +1,61 @@
+import { Mapping } from './mapping'
+import { TSRTimelineObjBase, DeviceType } from '.'
+
+/** The protocols the video router device can talk */
+export enum VideoRouterProtocol {
+	/** The Blackmagic Videohub Ethernet protocol */
+	VIDEOHUB = 'videohub',
+	/** The SW-P-08 router control protocol, over TCP */
+	SWP08 = 'swp08'
+}
+export interface VideoRouterOptions {
+	protocol: VideoRouterProtocol
+	host: string
+	/** Port of the router. Defaults to the default port of the protocol (9990 for Videohub, 8910 for SW-P-08) */
+	port?: number
+	/** SW-P-08: the matrix to control (0-15). Defaults to 0 */
+	matrix?: number
+	/** SW-P-08: the level to control (0-15). Defaults to 0 */
+	level?: number
+}
+
+export interface MappingVideoRouter extends Mapping {
+	device: DeviceType.VIDEO_ROUTER
+	/** The destination (output) of the router, numbered from 0 */
+	destination: number
+}
+
+export enum TimelineContentTypeVideoRouter {
+	ROUTE = 'route'
+}
+
+export type TimelineObjVideoRouterAny = TimelineObjVideoRouterRoute
+export interface TimelineObjVideoRouterBase extends TSRTimelineObjBase {
+	content: {
+		deviceType: DeviceType.VIDEO_ROUTER
+		type: TimelineContentTypeVideoRouter
+	}
+}
+export interface TimelineObjVideoRouterRoute extends TimelineObjVideoRouterBase {
+	content: {
+		deviceType: DeviceType.VIDEO_ROUTER
+		type: TimelineContentTypeVideoRouter.ROUTE
+		/** The source (input) to route to the destination, numbered from 0 */
+		source: number
+	}
+}
+
+export interface VideoRouterState {
+	/** The source routed to each destination */
+	routes: { [destination: string]: VideoRouterRouteState }
+}
+export interface VideoRouterRouteState {
+	source: number
+	/** The object that set the route. Empty if the route was read from the router */
+	tlObjId: string
+}
+
+export interface VideoRouterCommand {
+	destination: number
+	source: number
+}
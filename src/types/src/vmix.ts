@@ -0,0 +1,201 @@
+import { Mapping } from './mapping'
+import { TSRTimelineObjBase, DeviceType } from '.'
+
+export interface VMixOptions {
+	host: string
+	/** Port of the TCP API, defaults to 8099 */
+	port?: number
+}
+
+export interface MappingVMix extends Mapping {
+	device: DeviceType.VMIX
+	mappingType: MappingVMixType
+	/**
+	 * For overlays: the number of the overlay channel (1-4)
+	 * For audio buses: the name of the bus ('M' for Master, or 'A'-'G')
+	 */
+	index?: number | string
+}
+export enum MappingVMixType {
+	/** The input in program. Left as is when there's no object on the layer */
+	Program,
+	/** The input in preview. Left as is when there's no object on the layer */
+	Preview,
+	/** An overlay channel. Taken out when there's no object on the layer */
+	Overlay,
+	/** An audio bus. Left as is when there's no object on the layer */
+	AudioBus,
+	/** Recording. Stopped when there's no object on the layer */
+	Recording,
+	/** Streaming. Stopped when there's no object on the layer */
+	Streaming
+}
+
+export enum TimelineContentTypeVMix {
+	PROGRAM = 'program',
+	PREVIEW = 'preview',
+	OVERLAY = 'overlay',
+	AUDIO_BUS = 'audioBus',
+	RECORDING = 'recording',
+	STREAMING = 'streaming'
+}
+
+export enum VMixTransitionType {
+	Cut = 'Cut',
+	Fade = 'Fade',
+	Zoom = 'Zoom',
+	Wipe = 'Wipe',
+	Slide = 'Slide',
+	Fly = 'Fly',
+	CrossZoom = 'CrossZoom',
+	FlyRotate = 'FlyRotate',
+	Cube = 'Cube',
+	CubeZoom = 'CubeZoom',
+	VerticalWipe = 'VerticalWipe',
+	VerticalSlide = 'VerticalSlide',
+	Merge = 'Merge',
+	Stinger1 = 'Stinger1',
+	Stinger2 = 'Stinger2'
+}
+export interface VMixTransition {
+	effect: VMixTransitionType
+	/** Duration of the transition [ms]. Not used for cuts */
+	duration?: number
+}
+/** An input is referred to by its number, name or key */
+export type VMixInput = number | string
+
+export type TimelineObjVMixAny = (
+	TimelineObjVMixProgram |
+	TimelineObjVMixPreview |
+	TimelineObjVMixOverlay |
+	TimelineObjVMixAudioBus |
+	TimelineObjVMixRecording |
+	TimelineObjVMixStreaming
+)
+export interface TimelineObjVMixBase extends TSRTimelineObjBase {
+	content: {
+		deviceType: DeviceType.VMIX
+		type: TimelineContentTypeVMix
+	}
+}
+export interface TimelineObjVMixProgram extends TimelineObjVMixBase {
+	content: {
+		deviceType: DeviceType.VMIX
+		type: TimelineContentTypeVMix.PROGRAM
+		input: VMixInput
+		/** The transition used to take the input to program. Defaults to a cut */
+		transition?: VMixTransition
+	}
+}
+export interface TimelineObjVMixPreview extends TimelineObjVMixBase {
+	content: {
+		deviceType: DeviceType.VMIX
+		type: TimelineContentTypeVMix.PREVIEW
+		input: VMixInput
+	}
+}
+export interface TimelineObjVMixOverlay extends TimelineObjVMixBase {
+	content: {
+		deviceType: DeviceType.VMIX
+		type: TimelineContentTypeVMix.OVERLAY
+		input: VMixInput
+	}
+}
+export interface TimelineObjVMixAudioBus extends TimelineObjVMixBase {
+	content: {
+		deviceType: DeviceType.VMIX
+		type: TimelineContentTypeVMix.AUDIO_BUS
+		/** Volume of the bus (0-100) */
+		volume?: number
+		muted?: boolean
+	}
+}
+export interface TimelineObjVMixRecording extends TimelineObjVMixBase {
+	content: {
+		deviceType: DeviceType.VMIX
+		type: TimelineContentTypeVMix.RECORDING
+		on: boolean
+	}
+}
+export interface TimelineObjVMixStreaming extends TimelineObjVMixBase {
+	content: {
+		deviceType: DeviceType.VMIX
+		type: TimelineContentTypeVMix.STREAMING
+		on: boolean
+	}
+}
+
+export interface VMixState {
+	program?: VMixProgramState
+	preview?: VMixInputState
+	overlays: { [overlay: string]: VMixInputState | null }
+	audioBuses: { [bus: string]: VMixAudioBusState }
+	recording?: boolean
+	streaming?: boolean
+}
+export interface VMixInputState {
+	input: VMixInput
+	tlObjId: string
+}
+export interface VMixProgramState extends VMixInputState {
+	transition?: VMixTransition
+}
+export interface VMixAudioBusState {
+	volume?: number
+	muted?: boolean
+	tlObjId: string
+}
+
+export enum VMixCommand {
+	TRANSITION = 'transition',
+	PREVIEW_INPUT = 'previewInput',
+	OVERLAY_INPUT_IN = 'overlayInputIn',
+	OVERLAY_INPUT_OUT = 'overlayInputOut',
+	SET_BUS_VOLUME = 'setBusVolume',
+	SET_BUS_MUTED = 'setBusMuted',
+	START_RECORDING = 'startRecording',
+	STOP_RECORDING = 'stopRecording',
+	START_STREAMING = 'startStreaming',
+	STOP_STREAMING = 'stopStreaming'
+}
+export interface VMixTransitionCommand {
+	command: VMixCommand.TRANSITION
+	input: VMixInput
+	transition: VMixTransition
+}
+export interface VMixPreviewInputCommand {
+	command: VMixCommand.PREVIEW_INPUT
+	input: VMixInput
+}
+export interface VMixOverlayInputInCommand {
+	command: VMixCommand.OVERLAY_INPUT_IN
+	overlay: number
+	input: VMixInput
+}
+export interface VMixOverlayInputOutCommand {
+	command: VMixCommand.OVERLAY_INPUT_OUT
+	overlay: number
+}
+export interface VMixSetBusVolumeCommand {
+	command: VMixCommand.SET_BUS_VOLUME
+	bus: string
+	volume: number
+}
+export interface VMixSetBusMutedCommand {
+	command: VMixCommand.SET_BUS_MUTED
+	bus: string
+	muted: boolean
+}
+export interface VMixToggleCommand {
+	command: VMixCommand.START_RECORDING | VMixCommand.STOP_RECORDING | VMixCommand.START_STREAMING | VMixCommand.STOP_STREAMING
+}
+export type VMixCommandAny = (
+	VMixTransitionCommand |
+	VMixPreviewInputCommand |
+	VMixOverlayInputInCommand |
+	VMixOverlayInputOutCommand |
+	VMixSetBusVolumeCommand |
+	VMixSetBusMutedCommand |
+	VMixToggleCommand
+)